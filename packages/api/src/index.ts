@@ -14,7 +14,14 @@ import erc8004RegistryRoutes from './routes/erc8004-registry';
 import apolloMcpRoutes from './routes/apollo-mcp.routes';
 import apolloKeysRoutes from './routes/apollo-keys.routes';
 import workflowExecutionRoutes from './routes/workflow-execution.routes';
+import workflowRoutes from './routes/workflow.routes';
+import workflowHookRoutes from './routes/workflow-hooks.routes';
+import { workflowMCPGenerator, workflowScheduler } from './services/workflow';
 import x402PaymentRoutes from './routes/x402-payment.routes';
+import { x402NonceLedger } from './services/x402-nonce.service';
+import { x402SettlementWorker } from './services/x402-settlement.service';
+import { x402EscrowService } from './services/x402-escrow.service';
+import { x402PrepaidService } from './services/x402-prepaid.service';
 import { loadMcpServers } from './mcp-loader';
 
 
@@ -35,6 +42,10 @@ app.use(cors({
   credentials: true,
 }));
 app.use(morgan('dev'));
+
+// Workflow webhooks verify signatures over the raw body, so they parse it themselves
+app.use('/hooks', workflowHookRoutes);
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -70,9 +81,22 @@ app.use('/api/apollo-keys', apolloKeysRoutes);
 
 // Workflow Execution
 app.use('/api/workflows', workflowExecutionRoutes);
+app.use('/api/workflows', workflowRoutes);
+workflowMCPGenerator.loadPersistedWorkflows();
+if (process.env.WORKFLOW_SCHEDULER_ENABLED !== 'false') {
+  workflowScheduler.start();
+}
 
 // X402 Payment System
 app.use('/api/x402', x402PaymentRoutes);
+x402NonceLedger.start();
+x402EscrowService.start();
+if (process.env.X402_SETTLEMENT_ENABLED !== 'false') {
+  x402SettlementWorker.start();
+}
+if (process.env.X402_PREPAID_ENABLED !== 'false') {
+  x402PrepaidService.start();
+}
 
 // Load Dynamic MCP Servers
 loadMcpServers(app);
@@ -86,6 +110,10 @@ const server = app.listen(PORT, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
+  workflowScheduler.stop();
+  x402NonceLedger.stop();
+  x402SettlementWorker.stop();
+  x402PrepaidService.stop();
   server.close(async () => {
     await prisma.$disconnect();
     console.log('HTTP server closed');
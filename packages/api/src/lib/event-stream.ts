@@ -0,0 +1,40 @@
+// src/lib/event-stream.ts
+import { Request, Response } from 'express';
+
+export interface EventStream {
+  send(event: { type: string; [key: string]: any }): void;
+  end(): void;
+}
+
+/**
+ * Open a streaming response if the client asked for one:
+ * - `Accept: text/event-stream` → Server-Sent Events (`event: <type>` + JSON data)
+ * - `Accept: application/x-ndjson` → one JSON object per line
+ * Returns null for ordinary JSON requests.
+ */
+export function openEventStream(req: Request, res: Response): EventStream | null {
+  const accept = req.headers.accept || '';
+  const format = accept.includes('text/event-stream') ? 'sse'
+    : accept.includes('application/x-ndjson') ? 'ndjson'
+    : null;
+
+  if (!format) return null;
+
+  res.status(200);
+  res.setHeader('Content-Type', format === 'sse' ? 'text/event-stream' : 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+
+  return {
+    send(event) {
+      if (res.writableEnded) return;
+      const data = JSON.stringify(event);
+      res.write(format === 'sse' ? `event: ${event.type}\ndata: ${data}\n\n` : `${data}\n`);
+    },
+    end() {
+      if (!res.writableEnded) res.end();
+    },
+  };
+}
@@ -9,11 +9,15 @@
  * 2. If missing, return 402 with payment requirements
  * 3. If present, verify signature and record payment
  * 4. Allow request to proceed
+ *
+ * Handlers that only know the price once they have loaded the tool call
+ * requireX402Payment directly instead of mounting the middleware.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { PrismaClient, PaymentStatus } from '@prisma/client';
 import { X402Service } from '../services/x402.service';
+import { x402NonceLedger, X402NonceError } from '../services/x402-nonce.service';
 import { ethers } from 'ethers';
 
 const prisma = new PrismaClient();
@@ -29,6 +33,8 @@ export interface X402Config {
   toolCost: number; // In USD (will be converted to USDC units)
   mcpServerId: string;
   bypassPayment?: boolean; // For free tools
+  requestHash?: string; // Require the payment nonce to be bound to this request
+  escrow?: { contract: string; payee: string }; // payToAddress holds the funds in this escrow for payee
 }
 
 /**
@@ -36,63 +42,99 @@ export interface X402Config {
  */
 export function createX402Middleware(config: X402Config) {
   return async (req: Request, res: Response, next: NextFunction) => {
-    // Skip payment for free tools
-    if (config.bypassPayment || config.toolCost === 0) {
-      return next();
+    if (await requireX402Payment(req, res, config)) {
+      next();
     }
+  };
+}
 
-    // Check for payment header
-    const paymentHeader = req.header('X-402-Payment');
+/**
+ * Require payment for one request. Returns true when the request may
+ * proceed (free tool, or a valid payment recorded on req.x402Payment);
+ * otherwise the 402/400 response has already been sent.
+ */
+export async function requireX402Payment(req: Request, res: Response, config: X402Config): Promise<boolean> {
+  // Skip payment for free tools
+  if (config.bypassPayment || config.toolCost === 0) {
+    return true;
+  }
 
-    if (!paymentHeader) {
-      // Return 402 Payment Required
-      return send402Response(res, config);
+  // Check for payment header
+  const paymentHeader = req.header('X-402-Payment');
+
+  if (!paymentHeader) {
+    // Return 402 Payment Required
+    send402Response(res, config);
+    return false;
+  }
+
+  try {
+    // Decode and verify payment
+    const paymentData = x402Service.decodePaymentHeader(paymentHeader);
+    
+    // Verify the payment signature
+    const isValid = await x402Service.verifyPayment(paymentData);
+    
+    if (!isValid) {
+      res.status(400).json({
+        error: 'Invalid payment signature',
+        code: 'INVALID_SIGNATURE',
+      });
+      return false;
     }
 
-    try {
-      // Decode and verify payment
-      const paymentData = x402Service.decodePaymentHeader(paymentHeader);
-      
-      // Verify the payment signature
-      const isValid = await x402Service.verifyPayment(paymentData);
-      
-      if (!isValid) {
-        return res.status(400).json({
-          error: 'Invalid payment signature',
-          code: 'INVALID_SIGNATURE',
-        });
-      }
+    // The authorization must pay this tool's owner
+    if (paymentData.to.toLowerCase() !== config.payToAddress.toLowerCase()) {
+      res.status(402).json({
+        error: 'Payment is not addressed to this tool',
+        required: config.payToAddress,
+        provided: paymentData.to,
+      });
+      return false;
+    }
 
-      // Check payment amount
-      const requiredAmount = Math.ceil(config.toolCost * 1_000_000).toString();
-      if (BigInt(paymentData.amount) < BigInt(requiredAmount)) {
-        return res.status(402).json({
-          error: 'Insufficient payment amount',
-          required: requiredAmount,
-          provided: paymentData.amount,
-        });
-      }
+    // Check payment amount
+    const requiredAmount = Math.ceil(config.toolCost * 1_000_000).toString();
+    if (BigInt(paymentData.amount) < BigInt(requiredAmount)) {
+      res.status(402).json({
+        error: 'Insufficient payment amount',
+        required: requiredAmount,
+        provided: paymentData.amount,
+      });
+      return false;
+    }
 
-      // Record payment in database
-      await recordPayment(paymentData, config);
+    if (config.requestHash) {
+      x402NonceLedger.checkBinding(paymentData.nonce, config.requestHash, paymentData.salt);
+    }
 
-      // Attach payment info to request for downstream use
-      (req as any).x402Payment = {
-        payerAddress: paymentData.from,
-        amount: paymentData.amount,
-        txHash: paymentData.txHash,
-        verified: true,
-      };
+    // Reserve the nonce; a replayed authorization stops here
+    const payment = await recordPayment(paymentData, config);
 
-      next();
-    } catch (error: any) {
-      console.error('X402 payment verification failed:', error);
-      return res.status(400).json({
-        error: 'Payment verification failed',
-        details: error.message,
-      });
+    // Attach payment info to request for downstream use
+    (req as any).x402Payment = {
+      paymentId: payment.id,
+      nonce: paymentData.nonce,
+      payerAddress: paymentData.from,
+      amount: paymentData.amount,
+      txHash: paymentData.txHash,
+      verified: true,
+    };
+
+    return true;
+  } catch (error: any) {
+    if (error instanceof X402NonceError) {
+      res.status(error.statusCode).json({ error: error.message, code: error.code });
+      return false;
     }
-  };
+
+    console.error('X402 payment verification failed:', error);
+    res.status(400).json({
+      error: 'Payment verification failed',
+      details: error.message,
+    });
+    return false;
+  }
 }
 
 /**
@@ -116,6 +158,8 @@ function send402Response(res: Response, config: X402Config) {
         extra: {
           name: 'USD Coin',
           version: '2',
+          ...(config.requestHash && { requestHash: config.requestHash }),
+          ...(config.escrow && { escrow: config.escrow }),
         },
         metadata: {
           toolName: config.toolName,
@@ -130,35 +174,30 @@ function send402Response(res: Response, config: X402Config) {
 }
 
 /**
- * Record payment in database
+ * Record payment in database, reserving its nonce (throws X402NonceError
+ * if the nonce was already used)
  */
 async function recordPayment(paymentData: any, config: X402Config) {
-  try {
-    await prisma.x402Payment.create({
-      data: {
-        nonce: paymentData.nonce,
-        payerAddress: paymentData.from.toLowerCase(),
-        payeeAddress: paymentData.to.toLowerCase(),
-        amount: paymentData.amount / 1_000_000, // Convert to decimal USD
-        amountRaw: paymentData.amount,
-        toolName: config.toolName,
-        mcpServerId: config.mcpServerId,
-        signature: paymentData.signature,
-        chainId: CHAIN_ID,
-        assetAddress: USDC_ADDRESS,
-        status: 'PENDING',
-        validAfter: new Date(paymentData.validAfter * 1000),
-        validBefore: new Date(paymentData.validBefore * 1000),
-        txHash: paymentData.txHash || null,
-        verifiedAt: new Date(),
-      },
-    });
+  const payment = await x402NonceLedger.reserve({
+    nonce: paymentData.nonce,
+    payerAddress: paymentData.from.toLowerCase(),
+    payeeAddress: paymentData.to.toLowerCase(),
+    amount: paymentData.amount / 1_000_000, // Convert to decimal USD
+    amountRaw: paymentData.amount,
+    toolName: config.toolName,
+    mcpServerId: config.mcpServerId,
+    signature: paymentData.signature,
+    chainId: CHAIN_ID,
+    assetAddress: USDC_ADDRESS,
+    validAfter: new Date(paymentData.validAfter * 1000),
+    validBefore: new Date(paymentData.validBefore * 1000),
+    txHash: paymentData.txHash || null,
+    requestHash: config.requestHash || null,
+    verifiedAt: new Date(),
+  });
 
-    console.log(`💰 X402 Payment recorded: ${config.toolName} - ${paymentData.amount / 1_000_000} USDC`);
-  } catch (error) {
-    // If nonce already exists, payment was already recorded (idempotent)
-    console.warn('Payment already recorded or error:', error);
-  }
+  console.log(`💰 X402 Payment recorded: ${config.toolName} - ${paymentData.amount / 1_000_000} USDC`);
+  return payment;
 }
 
 /**
@@ -170,23 +209,50 @@ export function extractPaymentInfo(req: Request): any {
 }
 
 /**
- * Helper to settle a payment after successful tool execution
+ * Helper to settle a payment after successful tool execution. Without the
+ * hash of a transfer that already happened, the payment is queued for the
+ * settlement worker to submit on-chain. Only a PENDING payment moves; one
+ * that expired meanwhile stays EXPIRED.
+ */
+export async function settlePayment(paymentId: string, txHash?: string) {
+  try {
+    const { count } = await prisma.x402Payment.updateMany({
+      where: { id: paymentId, status: 'PENDING' },
+      data: txHash
+        ? { status: 'SETTLED', settledAt: new Date(), txHash }
+        : { status: 'AUTHORIZED' },
+    });
+    if (count === 0) {
+      console.warn(`⚠️  Payment ${paymentId} is no longer pending (expired); not settled`);
+      return false;
+    }
+
+    console.log(`✅ Payment ${txHash ? 'settled' : 'queued for settlement'}: ${paymentId}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to settle payment:', error);
+    return false;
+  }
+}
+
+/**
+ * Helper to mark a payment failed when the paid tool call did not succeed,
+ * so it is never settled
  */
-export async function settlePayment(nonce: string, txHash?: string) {
+export async function failPayment(paymentId: string, errorMessage: string) {
   try {
     await prisma.x402Payment.update({
-      where: { nonce },
+      where: { id: paymentId },
       data: {
-        status: 'SETTLED',
-        settledAt: new Date(),
-        txHash: txHash || undefined,
+        status: 'FAILED',
+        errorMessage,
       },
     });
 
-    console.log(`✅ Payment settled: ${nonce}`);
+    console.log(`❌ Payment failed: ${paymentId}`);
     return true;
   } catch (error) {
-    console.error('Failed to settle payment:', error);
+    console.error('Failed to mark payment failed:', error);
     return false;
   }
 }
@@ -260,16 +326,21 @@ export function createDemoX402Middleware(config: X402Config) {
         return res.status(400).json({ error: 'Invalid payment signature' });
       }
 
+      const payment = await recordPayment(paymentData, config);
+
       (req as any).x402Payment = {
+        paymentId: payment.id,
         payerAddress: paymentData.from,
         amount: paymentData.amount,
         txHash: paymentData.txHash,
         verified: true,
       };
 
-      await recordPayment(paymentData, config);
       next();
     } catch (error: any) {
+      if (error instanceof X402NonceError) {
+        return res.status(error.statusCode).json({ error: error.message, code: error.code });
+      }
       return res.status(400).json({
         error: 'Payment verification failed',
         details: error.message,
@@ -8,11 +8,29 @@
  * - DRAFT: Only visible to owner (development)
  * - PRIVATE: Only visible to owner (permanent)
  * - PUBLIC: Visible to all users
+ * 
+ * Payment:
+ * - Tools with a cost require an x402 payment to the server's wallet
+ *   (402 with the requirements when the X-402-Payment header is missing)
+ * - The payment is settled only after the tool call succeeds (queued for
+ *   the on-chain settlement worker), and is linked to the call's MCPTransaction
+ * - Each authorization pays for one call: its nonce must be bound to the
+ *   requestHash in the 402 response and cannot be used again
+ * - With escrow enabled, the payment is held in PaymentEscrow during the
+ *   call: refunded if the upstream fails with 5xx or times out, otherwise
+ *   released once the dispute window ends
+ * - Agents can send a prepaid key (X-402-Prepaid-Key) instead: the call is
+ *   debited from the wallet's prepaid balance (402 with top-up details when
+ *   it runs low or the daily spend limit is reached) and refunded if it fails
  */
 
 import { Router, Request, Response } from 'express';
 import axios, { AxiosRequestConfig, Method } from 'axios';
 import { PrismaClient } from '@prisma/client';
+import { requireX402Payment, extractPaymentInfo, settlePayment, failPayment } from '../middleware/x402-payment.middleware';
+import { x402NonceLedger } from '../services/x402-nonce.service';
+import { x402EscrowService, X402EscrowError } from '../services/x402-escrow.service';
+import { x402PrepaidService, X402PrepaidError, PrepaidDebit } from '../services/x402-prepaid.service';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -145,6 +163,9 @@ router.post('/:serverName/tools/:toolName', async (req: Request, res: Response)
   const { serverName, toolName } = req.params;
   const startTime = Date.now();
   const userId = getUserId(req);
+  let payment: any = null;
+  let escrowed = false;
+  let debit: PrepaidDebit | null = null;
 
   try {
     const server = await getServerConfig(serverName, userId);
@@ -166,6 +187,48 @@ router.post('/:serverName/tools/:toolName', async (req: Request, res: Response)
       });
     }
 
+    // Require x402 payment for paid tools
+    const toolCost = Number(tool.costUsd || 0);
+    if (toolCost > 0 && !server.walletAddress) {
+      return res.status(503).json({ error: `Tool "${toolName}" is paid but server has no wallet address to receive payments` });
+    }
+
+    // Debit the prepaid balance when the caller sends a prepaid key
+    const prepaidKey = req.headers['x-402-prepaid-key'] as string | undefined;
+    if (toolCost > 0 && prepaidKey) {
+      try {
+        debit = await x402PrepaidService.debit(prepaidKey, { amount: toolCost, toolName: tool.name, mcpServerId: server.id });
+      } catch (error: any) {
+        if (error instanceof X402PrepaidError) {
+          return res.status(error.statusCode).json({ error: error.message, code: error.code, ...error.details });
+        }
+        throw error;
+      }
+    }
+
+    const escrow = toolCost > 0 && !debit && x402EscrowService.isEnabled();
+    const { apiKey: _apiKey, ...callParams } = req.body;
+    const paid = debit || await requireX402Payment(req, res, {
+      payToAddress: escrow ? x402EscrowService.getCustodian() : server.walletAddress,
+      toolName: tool.name,
+      toolCost,
+      mcpServerId: server.id,
+      requestHash: x402NonceLedger.hashRequest(server.id, tool.name, callParams),
+      escrow: escrow ? { contract: x402EscrowService.getContractAddress(), payee: server.walletAddress } : undefined,
+    });
+    if (!paid) return;
+    payment = extractPaymentInfo(req);
+
+    // Hold the funds in escrow before calling the upstream
+    if (payment && escrow) {
+      try {
+        await x402EscrowService.hold(payment.paymentId, server.walletAddress);
+        escrowed = true;
+      } catch (error: any) {
+        return res.status(error instanceof X402EscrowError ? error.statusCode : 500).json({ error: error.message });
+      }
+    }
+
     // Get API key from request or server config
     const apiKey = req.body.apiKey || req.headers['x-api-key'] || 
                    (server.authConfig as any)?.defaultKey;
@@ -233,29 +296,44 @@ router.post('/:serverName/tools/:toolName', async (req: Request, res: Response)
     const response = await axios(axiosConfig);
     const executionTime = Date.now() - startTime;
 
-    // Update call count
-    await prisma.mCPServer.update({
-      where: { id: server.id },
-      data: { callCount: { increment: 1 } }
-    });
+    // The call has been delivered: bookkeeping errors from here on are
+    // logged, and must not fail the payment
+    try {
+      // Update call count
+      await prisma.mCPServer.update({
+        where: { id: server.id },
+        data: { callCount: { increment: 1 } }
+      });
 
-    await prisma.tool.update({
-      where: { id: tool.id },
-      data: { callCount: { increment: 1 } }
-    });
+      await prisma.tool.update({
+        where: { id: tool.id },
+        data: { callCount: { increment: 1 } }
+      });
 
-    // Log the transaction
-    await prisma.mCPTransaction.create({
-      data: {
-        serverId: server.id,
-        toolId: tool.id,
-        toolName: tool.name,
-        costUsd: tool.costUsd,
-        status: 'completed',
-        requestParams: req.body,
-        responseData: response.data
-      }
-    });
+      // Log the transaction
+      await prisma.mCPTransaction.create({
+        data: {
+          serverId: server.id,
+          toolId: tool.id,
+          toolName: tool.name,
+          costUsd: tool.costUsd,
+          status: 'completed',
+          userAddress: payment?.payerAddress?.toLowerCase() ?? debit?.walletAddress,
+          paymentId: payment?.paymentId,
+          ledgerEntryId: debit?.entry.id,
+          requestParams: req.body,
+          responseData: response.data
+        }
+      });
+    } catch (error) {
+      console.error(`Failed to record call of ${serverName}/${toolName}:`, error);
+    }
+
+    // Collect the payment now that the call has been delivered
+    // (escrowed funds are released when the dispute window ends)
+    if (payment && !escrowed) {
+      await settlePayment(payment.paymentId);
+    }
 
     res.json({
       success: true,
@@ -264,12 +342,36 @@ router.post('/:serverName/tools/:toolName', async (req: Request, res: Response)
         server: serverName,
         tool: toolName,
         executionTime,
-        cost: tool.costUsd
+        cost: tool.costUsd,
+        payment: payment ? { id: payment.paymentId, payer: payment.payerAddress, amount: payment.amount, nonce: payment.nonce, escrowed } : undefined,
+        prepaid: debit ? { ledgerEntryId: debit.entry.id, wallet: debit.walletAddress, balance: debit.balance } : undefined
       }
     });
 
   } catch (error: any) {
     const executionTime = Date.now() - startTime;
+
+    // The caller is not charged for a failed call. Prepaid debits are
+    // refunded when the upstream request failed; escrowed payments only
+    // when it answered with a 5xx or not at all, as a 4xx answer is
+    // released like a success, and can be disputed.
+    const upstreamFailed = axios.isAxiosError(error);
+    let refunded = false;
+    if (debit && upstreamFailed) {
+      refunded = await x402PrepaidService.refund(debit.entry.id, `Tool call failed: ${error.message}`)
+        .then(() => true, (e: any) => {
+          console.error('Failed to refund prepaid debit:', e);
+          return false;
+        });
+    } else if (payment && !escrowed) {
+      await failPayment(payment.paymentId, error.message);
+    } else if (payment && upstreamFailed && (!error.response || error.response.status >= 500)) {
+      refunded = await x402EscrowService.refund(payment.paymentId, `Upstream failed: ${error.message}`)
+        .then(() => true, (e: any) => {
+          console.error('Failed to refund escrowed payment:', e);
+          return false;
+        });
+    }
     
     // Log failed transaction
     try {
@@ -281,6 +383,9 @@ router.post('/:serverName/tools/:toolName', async (req: Request, res: Response)
             toolName: toolName,
             costUsd: 0,
             status: 'failed',
+            userAddress: payment?.payerAddress?.toLowerCase() ?? debit?.walletAddress,
+            paymentId: payment?.paymentId,
+            ledgerEntryId: debit?.entry.id,
             requestParams: req.body,
             responseData: { error: error.message }
           }
@@ -295,13 +400,13 @@ router.post('/:serverName/tools/:toolName', async (req: Request, res: Response)
       res.status(error.response.status || 500).json({
         success: false,
         error: error.response.data || error.message,
-        meta: { executionTime }
+        meta: { executionTime, refunded: escrowed || debit ? refunded : undefined }
       });
     } else {
       res.status(500).json({
         success: false,
         error: error.message,
-        meta: { executionTime }
+        meta: { executionTime, refunded: escrowed || debit ? refunded : undefined }
       });
     }
   }
@@ -2,6 +2,7 @@
 
 import { Router, Request, Response } from 'express';
 import { WorkflowExecutor } from '../services/workflow-execution.service';
+import { openEventStream, EventStream } from '../lib/event-stream';
 
 const router = Router();
 
@@ -15,8 +16,13 @@ interface WorkflowExecution {
 /**
  * Execute a workflow
  * POST /api/workflows/execute
+ *
+ * Send `Accept: text/event-stream` or `application/x-ndjson` to receive
+ * step progress events; the final run_completed event carries the result.
  */
 router.post('/execute', async (req: Request, res: Response) => {
+    let stream: EventStream | null = null;
+
     try {
         const { userWalletAddress, template, query, resultLimit } = req.body;
         
@@ -41,7 +47,8 @@ router.post('/execute', async (req: Request, res: Response) => {
             context: workflow.context,
         };
         
-        const result = await WorkflowExecutor.execute(execution);
+        stream = openEventStream(req, res);
+        const result = await WorkflowExecutor.execute(execution, stream?.send);
         
         console.log('[Workflow Execution] Result:', {
             success: result.success,
@@ -49,9 +56,19 @@ router.post('/execute', async (req: Request, res: Response) => {
             totalCost: result.totalCost,
         });
         
+        if (stream) {
+            stream.end();
+            return;
+        }
+
         res.json(result);
     } catch (error: any) {
         console.error('[WorkflowExecution] Error:', error);
+        if (stream) {
+            stream.send({ type: 'error', error: error.message });
+            stream.end();
+            return;
+        }
         res.status(500).json({
             success: false,
             error: error.message,
@@ -0,0 +1,47 @@
+/**
+ * Workflow Webhook Routes
+ *
+ * Public endpoint external systems call to trigger a workflow:
+ * - POST /hooks/workflows/:name/:token - Verify, map and queue a run
+ *
+ * Mounted before the JSON body parser: the HMAC signature is checked
+ * against the raw body exactly as it was sent.
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { workflowWebhookService, WorkflowWebhookError } from '../services/workflow';
+
+const router = Router();
+
+/**
+ * Receive a delivery. Answers 202 with the queued run ID, or 200 with the
+ * original run ID when the idempotency key was seen before.
+ */
+router.post(
+  '/workflows/:name/:token',
+  express.raw({ type: () => true, limit: '1mb' }),
+  async (req: Request, res: Response) => {
+    try {
+      const { name, token } = req.params;
+      const { runId, duplicate } = await workflowWebhookService.receive(name, token, {
+        headers: req.headers,
+        query: req.query,
+        rawBody: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+      });
+
+      res.status(duplicate ? 200 : 202).json({
+        success: true,
+        runId,
+        duplicate,
+        statusUrl: `/api/workflows/runs/${runId}`,
+      });
+    } catch (error: any) {
+      res.status(error instanceof WorkflowWebhookError ? error.statusCode : 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+export default router;
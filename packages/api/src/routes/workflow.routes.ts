@@ -3,12 +3,64 @@
  * 
  * REST API for managing and executing workflows:
  * - POST /workflows - Create workflow from YAML/JSON
+ * - POST /workflows/import/n8n - Convert (and optionally register) an n8n export
+ * - POST /workflows/validate - Check a definition against the live tool registry
  * - GET /workflows - List all workflows
- * - POST /workflows/:name/execute - Execute a workflow
+ * - POST /workflows/:name/versions - Publish a new immutable version
+ * - GET /workflows/:name/versions - List published versions
+ * - POST /workflows/:name/versions/:version/deprecate - Deprecate an old version
+ * - GET /workflows/:name/diff?from=&to= - Changed steps, inputs and pricing between versions
+ * - POST /workflows/:name/estimate - Estimate min/expected/max cost for given inputs
+ * - POST /workflows/:name/test - Dry-run the workflow's tests against fixtures (never charged)
+ * - POST /workflows/:name/execute - Execute a workflow (SSE / NDJSON progress via Accept header)
+ *   (in estimate, test and execute, `:name` may pin a version, e.g. "lead-generation@1.2.0";
+ *   otherwise the latest is used)
+ * - POST /workflows/runs/:runId/resume - Resume a failed run
+ * - GET /workflows/:name/runs - Run history with filters
+ * - GET /workflows/runs/:runId - Run details with step summaries
+ * - GET /workflows/runs/:runId/steps/:stepId - Full step records
+ * - GET /workflows/runs/:runId/cassette - Export a recorded run, redacted, for replay elsewhere
+ * - POST /workflows/replay - Replay a cassette as a dry run and report differences
+ * - GET /workflows/approvals - Approval requests, e.g. ?status=PENDING&approver=0x... (in-app inbox)
+ * - GET /workflows/runs/:runId/approvals/:stepId - An approval request with the data to review
+ * - POST /workflows/runs/:runId/approvals/:stepId - Approve (optionally with edited data) or reject
+ * - POST /workflows/:name/schedules - Run a workflow on a cron schedule
+ * - GET /workflows/:name/schedules - List a workflow's schedules
+ * - GET /workflows/schedules/:id - Schedule details with the last run
+ * - POST /workflows/schedules/:id/pause, /resume - Pause or resume a schedule
+ * - DELETE /workflows/schedules/:id - Delete a schedule
+ * - POST /workflows/:name/webhooks - Create a signed webhook that triggers runs
+ * - GET /workflows/:name/webhooks - List a workflow's webhooks
+ * - POST /workflows/webhooks/:id/enable, /disable - Turn a webhook on or off
+ * - DELETE /workflows/webhooks/:id - Delete a webhook
  */
 
 import { Router, Request, Response } from 'express';
-import { workflowMCPGenerator, workflowParser, workflowExecutor } from '../services/workflow';
+import { z } from 'zod';
+import {
+  workflowMCPGenerator,
+  workflowParser,
+  n8nImporter,
+  workflowValidator,
+  workflowExecutor,
+  workflowRunStore,
+  workflowCostEstimator,
+  workflowScheduler,
+  workflowWebhookService,
+  workflowApprovalService,
+  workflowTestRunner,
+  workflowCassetteService,
+  WorkflowRunError,
+  WorkflowVersionError,
+  WorkflowScheduleError,
+  WorkflowWebhookError,
+  WorkflowApprovalError,
+  WorkflowTestError,
+  WorkflowTestOptions,
+  WorkflowCassetteError,
+} from '../services/workflow';
+import { openEventStream, EventStream } from '../lib/event-stream';
+import { verifyWalletSignature } from '../middleware/auth';
 import express from 'express';
 
 const router = Router();
@@ -48,7 +100,191 @@ router.post('/', async (req: Request, res: Response) => {
       },
     });
   } catch (error: any) {
-    res.status(400).json({
+    res.status(error instanceof WorkflowVersionError ? error.statusCode : 400).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Import an n8n workflow export.
+ * Body: { workflow: <n8n export>, creator, pricing, name?, version?, register? }
+ * Returns the converted definition and a report of nodes that were not
+ * (or not faithfully) converted. Registers it only if `register` is true.
+ */
+router.post('/import/n8n', async (req: Request, res: Response) => {
+  try {
+    const { workflow: exported, register = false, ...overrides } = req.body;
+
+    if (!exported) {
+      return res.status(400).json({ error: 'Missing n8n workflow export' });
+    }
+
+    const { workflow, report } = await n8nImporter.parseN8n(
+      typeof exported === 'string' ? JSON.parse(exported) : exported,
+      overrides
+    );
+
+    if (!register) {
+      return res.json({ success: true, registered: false, workflow, report });
+    }
+
+    const { serverId, endpoint } = await workflowMCPGenerator.registerWorkflow(workflow);
+
+    res.json({
+      success: true,
+      registered: true,
+      workflow,
+      report,
+      serverId,
+      endpoint,
+      tools: [`execute_${workflow.name}`],
+    });
+  } catch (error: any) {
+    res.status(error instanceof WorkflowVersionError ? error.statusCode : 400).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Validate a workflow without registering it.
+ * Body is the same as for creation. Returns diagnostics addressed by
+ * path (and line/column in the submitted source); `valid` is false if any
+ * diagnostic is an error.
+ */
+router.post('/validate', async (req: Request, res: Response) => {
+  try {
+    const { content, format = 'json' } = req.body;
+
+    if (!content) {
+      return res.status(400).json({ error: 'Missing workflow content' });
+    }
+
+    const source = typeof content === 'string' ? content : JSON.stringify(content, null, 2);
+    const result = await workflowValidator.validateSource(source, format === 'yaml' ? 'yaml' : 'json');
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Publish a new version of an existing workflow.
+ * Body is the same as for creation; the version must increase.
+ */
+router.post('/:name/versions', async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    const { content, format = 'json' } = req.body;
+
+    if (!content) {
+      return res.status(400).json({ error: 'Missing workflow content' });
+    }
+
+    const workflow = format === 'yaml' 
+      ? workflowParser.parseYAML(content)
+      : workflowParser.parseJSON(typeof content === 'string' ? content : JSON.stringify(content));
+
+    const { serverId, endpoint } = await workflowMCPGenerator.publishVersion(name, workflow);
+
+    res.json({
+      success: true,
+      workflow: {
+        name: workflow.name,
+        version: workflow.version,
+        price: workflow.pricing.basePrice,
+        serverId,
+        endpoint,
+        tools: [`execute_${workflow.name}`, `execute_${workflow.name}@${workflow.version}`],
+      },
+    });
+  } catch (error: any) {
+    res.status(error instanceof WorkflowVersionError ? error.statusCode : 400).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * List published versions of a workflow, newest first
+ */
+router.get('/:name/versions', (req: Request, res: Response) => {
+  const versions = workflowMCPGenerator.listVersions(req.params.name);
+
+  if (!versions) {
+    return res.status(404).json({ error: 'Workflow not found' });
+  }
+
+  res.json({
+    success: true,
+    count: versions.length,
+    versions,
+  });
+});
+
+/**
+ * Deprecate a version. Callers pinned to it still run but receive a
+ * `Deprecation` header and message.
+ */
+router.post('/:name/versions/:version/deprecate', async (req: Request, res: Response) => {
+  try {
+    const { name, version } = req.params;
+    const message = typeof req.body?.message === 'string' ? req.body.message : undefined;
+
+    const published = await workflowMCPGenerator.deprecateVersion(name, version, message);
+
+    res.json({
+      success: true,
+      version,
+      deprecated: published.deprecated,
+      deprecationMessage: published.deprecationMessage,
+    });
+  } catch (error: any) {
+    res.status(error instanceof WorkflowVersionError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+const VersionDiffQuerySchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1).optional(),
+});
+
+/**
+ * Diff two versions: added/removed/changed steps and inputs, and pricing
+ */
+router.get('/:name/diff', (req: Request, res: Response) => {
+  try {
+    const query = VersionDiffQuerySchema.parse(req.query);
+    const diff = workflowMCPGenerator.diffVersions(req.params.name, query.from, query.to);
+
+    res.json({
+      success: true,
+      diff,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query',
+        details: error.errors,
+      });
+    }
+
+    res.status(error instanceof WorkflowVersionError ? error.statusCode : 500).json({
       success: false,
       error: error.message,
     });
@@ -67,6 +303,45 @@ router.get('/', (req: Request, res: Response) => {
   });
 });
 
+const ApprovalListQuerySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+  runId: z.string().optional(),
+  approver: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address').optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * List approval requests, newest first. With `approver`, only those the
+ * wallet may decide. Registered before /:name, which would match it.
+ */
+router.get('/approvals', async (req: Request, res: Response) => {
+  try {
+    const filters = ApprovalListQuerySchema.parse(req.query);
+    const { total, approvals } = await workflowApprovalService.list(filters);
+
+    res.json({
+      success: true,
+      total,
+      count: approvals.length,
+      approvals,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query',
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
 /**
  * Get workflow definition
  */
@@ -97,9 +372,48 @@ router.get('/:name', (req: Request, res: Response) => {
 });
 
 /**
- * Execute a workflow directly
+ * Estimate what a run with the given inputs will cost.
+ * Loops whose array is not in the inputs are bounded by maxIterations.
  */
-router.post('/:name/execute', async (req: Request, res: Response) => {
+router.post('/:name/estimate', async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    const workflow = workflowMCPGenerator.getWorkflow(name);
+
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const estimate = await workflowCostEstimator.estimate(workflow, req.body || {});
+
+    res.json({
+      success: true,
+      estimate,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+const WorkflowTestSchema = z.object({
+  only: z.array(z.string()).optional(),
+  cases: z.array(z.record(z.any())).optional(),
+  fromRun: z.string().optional(),
+  fixtures: z.record(z.any()).optional(),
+});
+
+/**
+ * Run a workflow's tests as dry runs: mcp_tool and ai_decision steps are
+ * served from fixtures, nothing is recorded and nothing is charged.
+ * POST /workflows/lead-generation/test
+ * { "only": ["hot lead"], "fromRun": "<runId>", "fixtures": { "score_leads": { "output": [...] } } }
+ * `cases` replaces the tests in the workflow file; `fromRun` serves steps
+ * with what a real run recorded (and its inputs, for cases without input).
+ */
+router.post('/:name/test', async (req: Request, res: Response) => {
   try {
     const { name } = req.params;
     const workflow = workflowMCPGenerator.getWorkflow(name);
@@ -108,22 +422,450 @@ router.post('/:name/execute', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Workflow not found' });
     }
 
+    const options = WorkflowTestSchema.parse(req.body || {});
+    const errors = [
+      ...(options.cases ? workflowParser.checkTests(options.cases, workflow.steps) : []),
+      ...(options.fixtures ? workflowParser.checkFixtures(options.fixtures, workflow.steps) : []),
+    ];
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors,
+      });
+    }
+
+    const report = await workflowTestRunner.run(workflow, options as WorkflowTestOptions);
+
+    res.json({
+      success: true,
+      report,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors,
+      });
+    }
+
+    res.status(error instanceof WorkflowTestError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Execute a workflow directly.
+ * With `Accept: text/event-stream` or `application/x-ndjson` the response
+ * streams run_started, step_* and run_completed events instead.
+ * `maxCostUsd` in the body aborts the run before any step that would exceed it.
+ * `record: true` keeps raw responses so the run can be exported as a cassette.
+ */
+router.post('/:name/execute', async (req: Request, res: Response) => {
+  let stream: EventStream | null = null;
+
+  try {
+    const { name } = req.params;
+    const published = workflowMCPGenerator.getPublishedVersion(name);
+
+    if (!published) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const workflow = published.definition;
+    if (published.deprecated) {
+      res.setHeader('Deprecation', 'true');
+    }
+
     const userId = req.headers['x-user-id'] as string || req.body.userId;
-    const inputs = req.body;
+    const { maxCostUsd, record, ...inputs } = req.body;
     delete inputs.userId;
 
-    const result = await workflowExecutor.execute(workflow, inputs, userId);
+    if (maxCostUsd !== undefined && !(typeof maxCostUsd === 'number' && maxCostUsd > 0)) {
+      return res.status(400).json({ success: false, error: 'maxCostUsd must be a positive number' });
+    }
+    if (record !== undefined && typeof record !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'record must be a boolean' });
+    }
+
+    stream = openEventStream(req, res);
+    if (stream) {
+      await workflowExecutor.execute(workflow, inputs, userId, { onEvent: stream.send, maxCostUsd, record });
+      return stream.end();
+    }
+
+    const result = await workflowExecutor.execute(workflow, inputs, userId, { maxCostUsd, record });
 
     res.json({
       success: result.success,
       output: result.output,
       meta: {
+        executionId: result.executionId,
+        version: workflow.version,
+        deprecation: published.deprecated
+          ? published.deprecationMessage || `Version ${workflow.version} is deprecated`
+          : undefined,
+        cost: result.totalCost,
+        executionTime: result.executionTime,
+        stepCosts: result.stepCosts,
+        awaitingApproval: result.awaitingApproval,
+      },
+    });
+  } catch (error: any) {
+    if (stream) {
+      stream.send({ type: 'error', error: error.message });
+      return stream.end();
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Resume a failed run from its first unfinished step.
+ * Completed steps keep their outputs and are not charged again.
+ */
+router.post('/runs/:runId/resume', async (req: Request, res: Response) => {
+  try {
+    const state = await workflowRunStore.resumeRun(req.params.runId);
+    const result = await workflowExecutor.execute(state.workflow, state.inputs, state.userId, {
+      resume: state,
+      maxCostUsd: state.maxCostUsd,
+    });
+
+    res.json({
+      success: result.success,
+      output: result.output,
+      meta: {
+        executionId: result.executionId,
+        cost: result.totalCost,
+        executionTime: result.executionTime,
+        stepCosts: result.stepCosts,
+        awaitingApproval: result.awaitingApproval,
+      },
+    });
+  } catch (error: any) {
+    res.status(error instanceof WorkflowRunError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+const RunHistoryQuerySchema = z.object({
+  status: z.enum(['RUNNING', 'AWAITING_APPROVAL', 'COMPLETED', 'FAILED']).optional(),
+  userId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minCost: z.coerce.number().min(0).optional(),
+  maxCost: z.coerce.number().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * List runs of a workflow, newest first
+ */
+router.get('/:name/runs', async (req: Request, res: Response) => {
+  try {
+    const filters = RunHistoryQuerySchema.parse(req.query);
+    const { total, runs } = await workflowRunStore.listRuns(req.params.name, filters);
+
+    res.json({
+      success: true,
+      total,
+      count: runs.length,
+      runs,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query',
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Get a run with inputs, output and a summary of each step
+ */
+router.get('/runs/:runId', async (req: Request, res: Response) => {
+  try {
+    const run = await workflowRunStore.getRun(req.params.runId);
+
+    if (!run) {
+      return res.status(404).json({ success: false, error: 'Workflow run not found' });
+    }
+
+    res.json({ success: true, run });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+const CassetteQuerySchema = z.object({
+  piiFields: z.string().optional(),  // Comma-separated, on top of the defaults
+});
+
+/**
+ * Export a recorded run as a cassette: the workflow version, inputs and
+ * every step's params, output and raw response. API keys are removed and
+ * PII fields (email, phone, names, ...) replaced by stable pseudonyms.
+ */
+router.get('/runs/:runId/cassette', async (req: Request, res: Response) => {
+  try {
+    const { piiFields } = CassetteQuerySchema.parse(req.query);
+    const cassette = await workflowCassetteService.export(req.params.runId, {
+      piiFields: piiFields?.split(',').map(f => f.trim()).filter(Boolean),
+    });
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${cassette.workflow.name}-${cassette.runId}.cassette.json"`);
+    res.send(JSON.stringify(cassette, null, 2));
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query',
+        details: error.errors,
+      });
+    }
+
+    res.status(error instanceof WorkflowCassetteError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+const ReplaySchema = z.object({
+  cassette: z.record(z.any()),
+  against: z.enum(['recorded', 'latest']).default('recorded'),
+});
+
+/**
+ * Replay a cassette as a dry run: recorded tool, AI, sub-workflow and
+ * approval results are served back, the rest runs again. `against: "latest"`
+ * replays on the current version, e.g. to confirm a fix.
+ */
+router.post('/replay', async (req: Request, res: Response) => {
+  try {
+    const { cassette, against } = ReplaySchema.parse(req.body);
+    const replay = await workflowCassetteService.replay(cassette, { against });
+
+    res.json({ success: true, replay });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors,
+      });
+    }
+
+    res.status(error instanceof WorkflowCassetteError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Get a step's resolved params, raw response, attempts and cost.
+ * Steps inside a loop return one record per iteration.
+ */
+router.get('/runs/:runId/steps/:stepId', async (req: Request, res: Response) => {
+  try {
+    const { runId, stepId } = req.params;
+    const results = await workflowRunStore.getStepResults(runId, stepId);
+
+    if (results.length === 0) {
+      return res.status(404).json({ success: false, error: 'Step result not found' });
+    }
+
+    res.json({
+      success: true,
+      runId,
+      stepId,
+      results,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Get an approval request: the message and data the approver reviews,
+ * and the decision once made
+ */
+router.get('/runs/:runId/approvals/:stepId', async (req: Request, res: Response) => {
+  try {
+    const approval = await workflowApprovalService.get(req.params.runId, req.params.stepId);
+
+    if (!approval) {
+      return res.status(404).json({ success: false, error: 'Approval not found' });
+    }
+
+    res.json({ success: true, approval });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+const ApprovalDecisionSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  data: z.any().optional(),
+  comment: z.string().max(2000).optional(),
+  message: z.string(),
+});
+
+/**
+ * Decide an approval step of a paused run, e.g. keep only some leads
+ * before paying for enrichment:
+ * POST /workflows/runs/<runId>/approvals/review_leads
+ * { "decision": "approve", "data": { "domains": ["acme.com"] }, "address": "0x...",
+ *   "message": "Workflow approval: approve step review_leads of run <runId>\nWallet: <address>\nNonce: <nonce>",
+ *   "signature": "0x..." }
+ * The approver is the wallet that signed the message; a wrong message is
+ * answered with the expected one. Approving resumes the run and answers
+ * with its result (it may pause again at a later approval step);
+ * rejecting fails the run.
+ */
+router.post('/runs/:runId/approvals/:stepId', verifyWalletSignature, async (req: Request, res: Response) => {
+  try {
+    const { runId, stepId } = req.params;
+    const decision = ApprovalDecisionSchema.parse(req.body);
+    const { approval, result } = await workflowApprovalService.decide(runId, stepId, {
+      ...decision,
+      approver: (req as any).walletAddress,
+    });
+
+    res.json({
+      success: result ? result.success : true,
+      approval,
+      output: result?.output,
+      meta: result && {
         executionId: result.executionId,
         cost: result.totalCost,
         executionTime: result.executionTime,
         stepCosts: result.stepCosts,
+        awaitingApproval: result.awaitingApproval,
       },
     });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors,
+      });
+    }
+
+    const statusCode = error instanceof WorkflowApprovalError || error instanceof WorkflowRunError
+      ? error.statusCode
+      : 500;
+    res.status(statusCode).json({
+      success: false,
+      error: error.message,
+      ...(error instanceof WorkflowApprovalError && error.details),
+    });
+  }
+});
+
+const CreateScheduleSchema = z.object({
+  cron: z.string().min(1),
+  timezone: z.string().default('UTC'),
+  inputs: z.record(z.any()).default({}),
+  payerAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address'),
+  maxCostUsd: z.number().positive().optional(),
+  catchUp: z.enum(['SKIP', 'LATEST', 'ALL']).default('LATEST'),
+});
+
+/**
+ * Schedule a workflow, e.g. refresh lead-generation every Monday at 8am in New York:
+ * POST /workflows/lead-generation/schedules
+ * { "cron": "0 8 * * MON", "timezone": "America/New_York", "inputs": {...},
+ *   "payerAddress": "0x...", "maxCostUsd": 5 }
+ * `:name` may pin a version; otherwise each run uses the latest.
+ * `catchUp` decides what happens to runs missed while the API was down:
+ * SKIP them, run the LATEST once (default), or run ALL of them.
+ */
+router.post('/:name/schedules', async (req: Request, res: Response) => {
+  try {
+    const options = CreateScheduleSchema.parse(req.body);
+    const schedule = await workflowScheduler.create(req.params.name, options);
+
+    res.status(201).json({ success: true, schedule });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors,
+      });
+    }
+
+    res.status(error instanceof WorkflowScheduleError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * List the schedules of a workflow
+ */
+router.get('/:name/schedules', async (req: Request, res: Response) => {
+  try {
+    const schedules = await workflowScheduler.list(req.params.name);
+
+    res.json({
+      success: true,
+      count: schedules.length,
+      schedules,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Get a schedule with its next run and the outcome of the last one
+ */
+router.get('/schedules/:id', async (req: Request, res: Response) => {
+  try {
+    const schedule = await workflowScheduler.get(req.params.id);
+
+    if (!schedule) {
+      return res.status(404).json({ success: false, error: 'Schedule not found' });
+    }
+
+    res.json({ success: true, schedule });
   } catch (error: any) {
     res.status(500).json({
       success: false,
@@ -132,6 +874,131 @@ router.post('/:name/execute', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Pause or resume a schedule. Resuming does not catch up runs missed while paused.
+ */
+for (const action of ['pause', 'resume'] as const) {
+  router.post(`/schedules/:id/${action}`, async (req: Request, res: Response) => {
+    try {
+      const schedule = await workflowScheduler[action](req.params.id);
+
+      res.json({ success: true, schedule });
+    } catch (error: any) {
+      res.status(error instanceof WorkflowScheduleError ? error.statusCode : 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+}
+
+/**
+ * Delete a schedule
+ */
+router.delete('/schedules/:id', async (req: Request, res: Response) => {
+  try {
+    await workflowScheduler.remove(req.params.id);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(error instanceof WorkflowScheduleError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+const CreateWebhookSchema = z.object({
+  inputMapping: z.record(z.any()).optional(),
+  idempotencyKey: z.string().optional(),
+  signatureHeader: z.string().regex(/^[A-Za-z0-9-]+$/, 'Invalid header name').optional(),
+  payerAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address'),
+  maxCostUsd: z.number().positive().optional(),
+});
+
+/**
+ * Create a webhook, e.g. for a CRM's "contact created" event:
+ * { "inputMapping": { "email": "{{payload.contact.email}}", "source": "crm" },
+ *   "idempotencyKey": "{{payload.event_id}}", "payerAddress": "0x..." }
+ * Without inputMapping the payload is used as the inputs. The response holds
+ * the hook URL and the HMAC secret; the secret is not shown again.
+ */
+router.post('/:name/webhooks', async (req: Request, res: Response) => {
+  try {
+    const options = CreateWebhookSchema.parse(req.body);
+    const { webhook, secret } = await workflowWebhookService.create(req.params.name, options);
+
+    res.status(201).json({ success: true, webhook, secret });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors,
+      });
+    }
+
+    res.status(error instanceof WorkflowWebhookError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * List the webhooks of a workflow
+ */
+router.get('/:name/webhooks', async (req: Request, res: Response) => {
+  try {
+    const webhooks = await workflowWebhookService.list(req.params.name);
+
+    res.json({
+      success: true,
+      count: webhooks.length,
+      webhooks,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Turn a webhook on or off; deliveries to a disabled webhook get a 404
+ */
+for (const action of ['enable', 'disable'] as const) {
+  router.post(`/webhooks/:id/${action}`, async (req: Request, res: Response) => {
+    try {
+      const webhook = await workflowWebhookService.setEnabled(req.params.id, action === 'enable');
+
+      res.json({ success: true, webhook });
+    } catch (error: any) {
+      res.status(error instanceof WorkflowWebhookError ? error.statusCode : 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+}
+
+/**
+ * Delete a webhook
+ */
+router.delete('/webhooks/:id', async (req: Request, res: Response) => {
+  try {
+    await workflowWebhookService.remove(req.params.id);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(error instanceof WorkflowWebhookError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
 /**
  * Export workflow as YAML
  */
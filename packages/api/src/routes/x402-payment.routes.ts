@@ -1,7 +1,12 @@
 // packages/api/src/routes/x402-payment.routes.ts - X402 Payment Routes
 
 import { Router, Request, Response } from 'express';
+import { PaymentStatus } from '@prisma/client';
 import { getPaymentService } from '../services/x402-payment.service';
+import { x402SettlementWorker } from '../services/x402-settlement.service';
+import { x402EscrowService, X402EscrowError } from '../services/x402-escrow.service';
+import { x402PrepaidService, X402PrepaidError } from '../services/x402-prepaid.service';
+import { verifyWalletSignature } from '../middleware/auth';
 
 const router = Router();
 
@@ -173,4 +178,290 @@ router.post('/verify-payment', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * Get on-chain settlement status of x402 payments
+ * GET /api/x402/settlements?status=AUTHORIZED&limit=50
+ */
+router.get('/settlements', async (req: Request, res: Response) => {
+    try {
+        const status = req.query.status as PaymentStatus | undefined;
+        const limit = req.query.limit ? Number(req.query.limit) : undefined;
+
+        if (status && !Object.values(PaymentStatus).includes(status)) {
+            res.status(400).json({
+                success: false,
+                error: `Status must be one of ${Object.values(PaymentStatus).join(', ')}`,
+            });
+            return;
+        }
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 500)) {
+            res.status(400).json({
+                success: false,
+                error: 'Limit must be an integer between 1 and 500',
+            });
+            return;
+        }
+
+        const settlements = await x402SettlementWorker.getStatus({ status, limit });
+
+        res.json({
+            success: true,
+            ...settlements,
+        });
+    } catch (error: any) {
+        console.error('[X402 Payment] Error getting settlements:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to get settlements',
+        });
+    }
+});
+
+/**
+ * Dispute an escrowed payment within its dispute window (payer only)
+ * POST /api/x402/payments/:paymentId/dispute
+ * Body: { reason, address, message, signature } -
+ * message: "x402 escrow: dispute payment <paymentId>\nWallet: <address>\nNonce: <nonce>"
+ */
+router.post('/payments/:paymentId/dispute', verifyWalletSignature, async (req: Request, res: Response) => {
+    try {
+        const { paymentId } = req.params;
+        const { reason, message } = req.body;
+
+        if (!reason || typeof reason !== 'string') {
+            res.status(400).json({
+                success: false,
+                error: 'Reason required',
+            });
+            return;
+        }
+
+        const payment = await x402EscrowService.dispute(paymentId, (req as any).walletAddress, reason, message);
+
+        res.json({
+            success: true,
+            paymentId,
+            status: payment.status,
+            disputedAt: payment.disputedAt,
+        });
+    } catch (error: any) {
+        if (error instanceof X402EscrowError) {
+            res.status(error.statusCode).json({ success: false, error: error.message, ...error.details });
+            return;
+        }
+        console.error('[X402 Payment] Error disputing payment:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to dispute payment',
+        });
+    }
+});
+
+/**
+ * Resolve a disputed payment by refunding or releasing it (operator only)
+ * POST /api/x402/payments/:paymentId/dispute/resolve
+ * Body: { outcome: 'refund' | 'release', note?, address, message, signature } -
+ * message: "x402 escrow: resolve payment <paymentId> with a <outcome>\nWallet: <address>\nNonce: <nonce>"
+ */
+router.post('/payments/:paymentId/dispute/resolve', verifyWalletSignature, async (req: Request, res: Response) => {
+    try {
+        const { paymentId } = req.params;
+        const { outcome, note, message } = req.body;
+
+        if (outcome !== 'refund' && outcome !== 'release') {
+            res.status(400).json({
+                success: false,
+                error: "Outcome must be 'refund' or 'release'",
+            });
+            return;
+        }
+        if (!x402EscrowService.isEnabled() || (req as any).walletAddress.toLowerCase() !== x402EscrowService.getCustodian().toLowerCase()) {
+            res.status(403).json({
+                success: false,
+                error: 'Only the escrow operator can resolve disputes',
+            });
+            return;
+        }
+
+        const payment = await x402EscrowService.resolveDispute(paymentId, outcome, (req as any).walletAddress, message, note);
+
+        res.json({
+            success: true,
+            paymentId,
+            outcome,
+            status: payment.status,
+            refundTxHash: payment.refundTxHash,
+        });
+    } catch (error: any) {
+        if (error instanceof X402EscrowError) {
+            res.status(error.statusCode).json({ success: false, error: error.message, ...error.details });
+            return;
+        }
+        console.error('[X402 Payment] Error resolving dispute:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to resolve dispute',
+        });
+    }
+});
+
+/**
+ * Get a wallet's prepaid balance, daily spend limit and deposit details
+ * GET /api/x402/prepaid/:wallet
+ */
+router.get('/prepaid/:wallet', async (req: Request, res: Response) => {
+    try {
+        const account = await x402PrepaidService.getAccount(req.params.wallet);
+
+        res.json({
+            success: true,
+            ...account,
+            currency: 'USDC',
+        });
+    } catch (error: any) {
+        console.error('[X402 Payment] Error getting prepaid account:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to get prepaid account',
+        });
+    }
+});
+
+/**
+ * Get a wallet's prepaid deposits, debits and refunds, newest first
+ * GET /api/x402/prepaid/:wallet/ledger?limit=50
+ */
+router.get('/prepaid/:wallet/ledger', async (req: Request, res: Response) => {
+    try {
+        const limit = req.query.limit ? Number(req.query.limit) : undefined;
+
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 500)) {
+            res.status(400).json({
+                success: false,
+                error: 'Limit must be an integer between 1 and 500',
+            });
+            return;
+        }
+
+        const entries = await x402PrepaidService.getLedger(req.params.wallet, limit);
+
+        res.json({
+            success: true,
+            wallet: req.params.wallet,
+            entries,
+        });
+    } catch (error: any) {
+        console.error('[X402 Payment] Error getting prepaid ledger:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to get prepaid ledger',
+        });
+    }
+});
+
+/**
+ * Credit a USDC deposit to the sender's prepaid balance without waiting
+ * for the deposit watcher
+ * POST /api/x402/prepaid/topup
+ * Body: { txHash }
+ */
+router.post('/prepaid/topup', async (req: Request, res: Response) => {
+    try {
+        const { txHash } = req.body;
+
+        if (typeof txHash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+            res.status(400).json({
+                success: false,
+                error: 'txHash must be a transaction hash',
+            });
+            return;
+        }
+
+        const credited = await x402PrepaidService.topUp(txHash);
+
+        res.json({
+            success: true,
+            txHash,
+            credited,
+        });
+    } catch (error: any) {
+        if (error instanceof X402PrepaidError) {
+            res.status(error.statusCode).json({ success: false, error: error.message, code: error.code, ...error.details });
+            return;
+        }
+        console.error('[X402 Payment] Error crediting deposit:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to credit deposit',
+        });
+    }
+});
+
+/**
+ * Issue a prepaid key for agents to debit the wallet's balance with,
+ * replacing the previous key
+ * POST /api/x402/prepaid/key
+ * Body: { address, message, signature } - message: "x402 prepaid: issue key\nWallet: <address>\nNonce: <nonce>"
+ */
+router.post('/prepaid/key', verifyWalletSignature, async (req: Request, res: Response) => {
+    try {
+        const walletAddress = (req as any).walletAddress;
+        const key = await x402PrepaidService.issueKey(walletAddress, req.body.message);
+
+        res.json({
+            success: true,
+            wallet: walletAddress.toLowerCase(),
+            key,
+            header: 'X-402-Prepaid-Key',
+        });
+    } catch (error: any) {
+        if (error instanceof X402PrepaidError) {
+            res.status(error.statusCode).json({ success: false, error: error.message, code: error.code, ...error.details });
+            return;
+        }
+        console.error('[X402 Payment] Error issuing prepaid key:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to issue prepaid key',
+        });
+    }
+});
+
+/**
+ * Set or clear a wallet's daily prepaid spend limit (USD per UTC day)
+ * PUT /api/x402/prepaid/limit
+ * Body: { dailySpendLimit: number | null, address, message, signature } -
+ * message: "x402 prepaid: set daily spend limit to <limit with 6 decimals, or none>\nWallet: <address>\nNonce: <nonce>"
+ */
+router.put('/prepaid/limit', verifyWalletSignature, async (req: Request, res: Response) => {
+    try {
+        const { dailySpendLimit, message } = req.body;
+
+        if (dailySpendLimit !== null && (typeof dailySpendLimit !== 'number' || !Number.isFinite(dailySpendLimit) || dailySpendLimit < 0)) {
+            res.status(400).json({
+                success: false,
+                error: 'dailySpendLimit must be a non-negative number, or null for no limit',
+            });
+            return;
+        }
+
+        const account = await x402PrepaidService.setSpendLimit((req as any).walletAddress, dailySpendLimit, message);
+
+        res.json({
+            success: true,
+            ...account,
+        });
+    } catch (error: any) {
+        if (error instanceof X402PrepaidError) {
+            res.status(error.statusCode).json({ success: false, error: error.message, code: error.code, ...error.details });
+            return;
+        }
+        console.error('[X402 Payment] Error setting spend limit:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to set spend limit',
+        });
+    }
+});
+
 export default router;
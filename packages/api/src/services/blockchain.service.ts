@@ -5,6 +5,55 @@ import * as path from 'path';
 
 dotenv.config();
 
+// USDC functions used to settle x402 authorizations (EIP-3009), move escrowed funds
+// and watch prepaid deposits
+const USDC_ABI = [
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, bytes signature)',
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce)',
+  'event AuthorizationCanceled(address indexed authorizer, bytes32 indexed nonce)',
+];
+
+// Blocks per log query when searching back through the chain
+const LOG_SEARCH_BLOCKS = 5_000;
+
+// PaymentEscrow functions, when no ABI file is provided
+const PAYMENT_ESCROW_ABI = [
+  'function usdc() view returns (address)',
+  'function createPayment(bytes32 paymentId, address payee, uint256 amount)',
+  'function releasePayment(bytes32 paymentId)',
+  'function refundPayment(bytes32 paymentId)',
+  'function owner() view returns (address)',
+  'function getPayment(bytes32 paymentId) view returns (tuple(address payer, address payee, uint256 amount, uint256 createdAt, bool released, bool refunded))',
+];
+
+export interface TransferAuthorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: number;
+  validBefore: number;
+  nonce: string;
+}
+
+export interface TokenTransfer {
+  from: string;
+  to: string;
+  value: bigint;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface SentTransaction {
+  hash: string;
+  nonce: number;
+}
+
 export class BlockchainService {
   private provider?: ethers.JsonRpcProvider;
   private wallet?: Wallet;
@@ -12,6 +61,8 @@ export class BlockchainService {
   private reputationRegistry?: Contract;
   private paymentEscrow?: Contract;
   private enabled: boolean = false;
+  private operatorNonce: number | null = null;  // Next nonce for operator sends
+  private operatorSends: Promise<unknown> = Promise.resolve();
 
   constructor() {
     try {
@@ -39,6 +90,11 @@ export class BlockchainService {
         console.warn('   Create abis/ directory with contract ABIs to enable full functionality');
       }
 
+      if (!this.paymentEscrow && process.env.PAYMENT_ESCROW_ADDRESS) {
+        this.paymentEscrow = new Contract(process.env.PAYMENT_ESCROW_ADDRESS, PAYMENT_ESCROW_ABI, this.wallet);
+        console.log('   ✓ Payment Escrow loaded (built-in ABI)');
+      }
+
       this.enabled = true;
       console.log('✅ Blockchain service initialized');
       console.log(`   Wallet Address: ${this.wallet.address}`);
@@ -162,11 +218,15 @@ export class BlockchainService {
     try {
       const amountInUSDC = ethers.parseUnits(amount, 6); // USDC has 6 decimals
 
-      const tx = await this.paymentEscrow.createPayment(
+      // The escrow pulls the funds from the operator wallet
+      await this.ensureEscrowAllowance(amountInUSDC);
+
+      const tx = await this.sendFromOperator(nonce => this.paymentEscrow!.createPayment(
         ethers.id(paymentId), // Convert to bytes32
         payeeAddress,
-        amountInUSDC
-      );
+        amountInUSDC,
+        { nonce }
+      ));
 
       const receipt = await tx.wait();
       
@@ -192,9 +252,10 @@ export class BlockchainService {
     }
 
     try {
-      const tx = await this.paymentEscrow.releasePayment(
-        ethers.id(paymentId)
-      );
+      const tx = await this.sendFromOperator(nonce => this.paymentEscrow!.releasePayment(
+        ethers.id(paymentId),
+        { nonce }
+      ));
 
       const receipt = await tx.wait();
       
@@ -211,6 +272,91 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Refund escrow payment to its payer (the operator wallet for x402 escrows)
+   */
+  async refundEscrowPayment(paymentId: string) {
+    if (!this.enabled || !this.paymentEscrow) {
+      throw new Error('Blockchain service is not available. Cannot refund escrow payment.');
+    }
+
+    try {
+      const tx = await this.sendFromOperator(nonce => this.paymentEscrow!.refundPayment(
+        ethers.id(paymentId),
+        { nonce }
+      ));
+
+      const receipt = await tx.wait();
+      
+      console.log(`✅ Escrow payment refunded: ${tx.hash}`);
+      
+      return {
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+        success: true,
+      };
+    } catch (error) {
+      console.error('Failed to refund escrow payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get escrow payment state, or null if it was never created
+   */
+  async getEscrowPayment(paymentId: string) {
+    if (!this.enabled || !this.paymentEscrow) {
+      throw new Error('Blockchain service is not available. Cannot read escrow payment.');
+    }
+
+    const payment = await this.paymentEscrow.getPayment(ethers.id(paymentId));
+    if (payment.payer === ethers.ZeroAddress) return null;
+
+    return {
+      payer: payment.payer as string,
+      payee: payment.payee as string,
+      amount: payment.amount as bigint,
+      released: payment.released as boolean,
+      refunded: payment.refunded as boolean,
+    };
+  }
+
+  /**
+   * Check if escrow payments are available
+   */
+  hasEscrow(): boolean {
+    return this.enabled && !!this.paymentEscrow;
+  }
+
+  /**
+   * Get escrow contract address
+   */
+  getEscrowAddress(): string | null {
+    return this.paymentEscrow ? (this.paymentEscrow.target as string) : null;
+  }
+
+  /**
+   * Owner of the escrow contract, the only account besides the payee that
+   * may refund an escrowed payment
+   */
+  async getEscrowOwner(): Promise<string> {
+    if (!this.enabled || !this.paymentEscrow) {
+      throw new Error('Blockchain service is not available. Cannot read escrow owner.');
+    }
+
+    return this.paymentEscrow.owner();
+  }
+
+  private async ensureEscrowAllowance(amount: bigint): Promise<void> {
+    const usdc = new Contract(await this.paymentEscrow!.usdc(), USDC_ABI, this.wallet!);
+    const escrowAddress = await this.paymentEscrow!.getAddress();
+
+    if ((await usdc.allowance(this.wallet!.address, escrowAddress)) < amount) {
+      const tx = await this.sendFromOperator(nonce => usdc.approve(escrowAddress, amount, { nonce }));
+      await tx.wait();
+    }
+  }
+
   /**
    * Submit feedback to blockchain
    */
@@ -225,12 +371,13 @@ export class BlockchainService {
     }
 
     try {
-      const tx = await this.reputationRegistry.submitFeedback(
+      const tx = await this.sendFromOperator(nonce => this.reputationRegistry!.submitFeedback(
         agentId,
         score,
         feedbackURI,
-        ethers.id(proofOfPayment)
-      );
+        ethers.id(proofOfPayment),
+        { nonce }
+      ));
 
       const receipt = await tx.wait();
       
@@ -247,6 +394,253 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Submit a signed EIP-3009 transferWithAuthorization to a USDC contract,
+   * paying the gas from the operator wallet. The call is simulated first,
+   * so an authorization the contract would reject throws a CALL_EXCEPTION
+   * without spending gas. Returns once sent; wait() on it for the receipt.
+   * Given a pending transaction it `replaces`, it is sent with that one's
+   * nonce and higher fees.
+   */
+  async submitTransferWithAuthorization(
+    assetAddress: string,
+    authorization: TransferAuthorization,
+    signature: string,
+    replaces?: SentTransaction
+  ): Promise<ethers.TransactionResponse> {
+    if (!this.enabled || !this.wallet) {
+      throw new Error('Blockchain service is not available. Cannot settle payment.');
+    }
+
+    const usdc = new Contract(assetAddress, USDC_ABI, this.wallet);
+    const args = [
+      authorization.from,
+      authorization.to,
+      authorization.value,
+      authorization.validAfter,
+      authorization.validBefore,
+      authorization.nonce,
+      signature,
+    ];
+
+    await usdc.transferWithAuthorization.staticCall(...args);
+    if (replaces) {
+      return usdc.transferWithAuthorization(...args, {
+        nonce: replaces.nonce,
+        ...(await this.replacementOverrides(replaces.hash)),
+      });
+    }
+    return this.sendFromOperator(nonce => usdc.transferWithAuthorization(...args, { nonce }));
+  }
+
+  /**
+   * Gas for replacing a pending transaction: its gas limit (an estimate
+   * against the pending block would see it succeed first) and fees a fifth
+   * above its own, or the current fees if higher. None if it is no longer
+   * pending.
+   */
+  private async replacementOverrides(txHash: string): Promise<ethers.TransactionRequest> {
+    const [pending, current] = await Promise.all([
+      this.provider!.getTransaction(txHash),
+      this.provider!.getFeeData(),
+    ]);
+    if (!pending || pending.blockNumber !== null) return {};
+
+    const bump = (fee: bigint | null, now: bigint | null) => {
+      const bumped = (fee ?? 0n) * 6n / 5n;
+      return now !== null && now > bumped ? now : bumped;
+    };
+    if (pending.maxFeePerGas !== null) {
+      return {
+        gasLimit: pending.gasLimit,
+        maxFeePerGas: bump(pending.maxFeePerGas, current.maxFeePerGas),
+        maxPriorityFeePerGas: bump(pending.maxPriorityFeePerGas, current.maxPriorityFeePerGas),
+      };
+    }
+    return { gasLimit: pending.gasLimit, gasPrice: bump(pending.gasPrice, current.gasPrice) };
+  }
+
+  /**
+   * Transfer USDC (smallest units) from the operator wallet
+   */
+  async transferUSDC(assetAddress: string, to: string, amount: string): Promise<ethers.TransactionResponse> {
+    if (!this.enabled || !this.wallet) {
+      throw new Error('Blockchain service is not available. Cannot transfer USDC.');
+    }
+
+    const usdc = new Contract(assetAddress, USDC_ABI, this.wallet);
+    return this.sendFromOperator(nonce => usdc.transfer(to, amount, { nonce }));
+  }
+
+  /**
+   * Send a transaction from the operator wallet. Sends go one at a time and
+   * count nonces locally, so the settlement worker and the escrow never
+   * send two transactions with the same nonce. The count is resynced from
+   * the node when it rejects a nonce, e.g. after the wallet was used
+   * elsewhere.
+   */
+  private sendFromOperator<T>(send: (nonce: number) => Promise<T>): Promise<T> {
+    const sent = this.operatorSends.then(async () => {
+      if (this.operatorNonce === null) {
+        this.operatorNonce = await this.wallet!.getNonce('pending');
+      }
+
+      let tx: T;
+      try {
+        tx = await send(this.operatorNonce);
+      } catch (error) {
+        if (!isNonceError(error)) throw error;
+        this.operatorNonce = await this.wallet!.getNonce('pending');
+        tx = await send(this.operatorNonce);
+      }
+      this.operatorNonce++;
+      return tx;
+    });
+
+    this.operatorSends = sent.catch(() => undefined);
+    return sent;
+  }
+
+  /**
+   * Check if an authorization nonce has already been used on-chain
+   */
+  async isAuthorizationUsed(assetAddress: string, authorizer: string, nonce: string): Promise<boolean> {
+    if (!this.enabled || !this.provider) {
+      throw new Error('Blockchain service is not available. Cannot check authorization.');
+    }
+
+    const usdc = new Contract(assetAddress, USDC_ABI, this.provider);
+    return usdc.authorizationState(authorizer, nonce);
+  }
+
+  /**
+   * Find the transaction that used or cancelled an authorization, searching
+   * back from the latest block to the first one mined before `since`. Null
+   * if none was found.
+   */
+  async findAuthorizationUse(
+    assetAddress: string,
+    authorizer: string,
+    nonce: string,
+    since: Date
+  ): Promise<{ txHash: string; blockNumber: number; cancelled: boolean } | null> {
+    if (!this.enabled || !this.provider) {
+      throw new Error('Blockchain service is not available. Cannot check authorization.');
+    }
+
+    const usdc = new Contract(assetAddress, USDC_ABI, this.provider);
+    const used = usdc.interface.getEvent('AuthorizationUsed')!.topicHash;
+    const cancelled = usdc.interface.getEvent('AuthorizationCanceled')!.topicHash;
+    const topics = [[used, cancelled], ethers.zeroPadValue(authorizer, 32), nonce];
+
+    let toBlock = await this.provider.getBlockNumber();
+    while (toBlock >= 0) {
+      const fromBlock = Math.max(0, toBlock - LOG_SEARCH_BLOCKS + 1);
+      const logs = await this.provider.getLogs({ address: assetAddress, topics, fromBlock, toBlock });
+      if (logs.length > 0) {
+        const log = logs[logs.length - 1];
+        return { txHash: log.transactionHash, blockNumber: log.blockNumber, cancelled: log.topics[0] === cancelled };
+      }
+
+      const block = await this.provider.getBlock(fromBlock);
+      if (!block || block.timestamp * 1000 < since.getTime()) break;
+      toBlock = fromBlock - 1;
+    }
+    return null;
+  }
+
+  /**
+   * Wait until a transaction is mined, reverted or not. Throws a TIMEOUT
+   * error after timeoutMs.
+   */
+  async waitForReceipt(txHash: string, timeoutMs: number): Promise<ethers.TransactionReceipt> {
+    if (!this.enabled || !this.provider) {
+      throw new Error('Blockchain service is not available.');
+    }
+
+    // Checked first: waitForTransaction compares with a block number that may be cached
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    return receipt ?? (await this.provider.waitForTransaction(txHash, 1, timeoutMs))!;
+  }
+
+  /**
+   * Receipt of a transaction, or null while it is not mined
+   */
+  async getTransactionReceipt(txHash: string): Promise<ethers.TransactionReceipt | null> {
+    if (!this.enabled || !this.provider) {
+      throw new Error('Blockchain service is not available.');
+    }
+
+    return this.provider.getTransactionReceipt(txHash);
+  }
+
+  /**
+   * Latest block number
+   */
+  async getBlockNumber(): Promise<number> {
+    if (!this.enabled || !this.provider) {
+      throw new Error('Blockchain service is not available.');
+    }
+
+    return this.provider.getBlockNumber();
+  }
+
+  /**
+   * USDC transfers to an address between two blocks (inclusive)
+   */
+  async getUSDCTransfers(assetAddress: string, to: string, fromBlock: number, toBlock: number): Promise<TokenTransfer[]> {
+    if (!this.enabled || !this.provider) {
+      throw new Error('Blockchain service is not available. Cannot read transfers.');
+    }
+
+    const usdc = new Contract(assetAddress, USDC_ABI, this.provider);
+    const logs = await usdc.queryFilter(usdc.filters.Transfer(null, to), fromBlock, toBlock);
+    return this.parseTransfers(usdc, logs, to);
+  }
+
+  /**
+   * USDC transfers to an address made by one transaction, with its number of
+   * confirmations. Null if the transaction is not mined.
+   */
+  async getUSDCTransfersInTransaction(
+    assetAddress: string,
+    to: string,
+    txHash: string
+  ): Promise<{ confirmations: number; transfers: TokenTransfer[] } | null> {
+    if (!this.enabled || !this.provider) {
+      throw new Error('Blockchain service is not available. Cannot read transfers.');
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (!receipt) {
+      return null;
+    }
+
+    const usdc = new Contract(assetAddress, USDC_ABI, this.provider);
+    const logs = receipt.logs.filter(log => log.address.toLowerCase() === assetAddress.toLowerCase());
+    return {
+      confirmations: await receipt.confirmations(),
+      transfers: this.parseTransfers(usdc, logs, to),
+    };
+  }
+
+  private parseTransfers(usdc: Contract, logs: ReadonlyArray<ethers.Log>, to: string): TokenTransfer[] {
+    const transfers: TokenTransfer[] = [];
+    for (const log of logs) {
+      const parsed = usdc.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed?.name !== 'Transfer' || parsed.args.to.toLowerCase() !== to.toLowerCase()) continue;
+      transfers.push({
+        from: parsed.args.from,
+        to: parsed.args.to,
+        value: parsed.args.value,
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+      });
+    }
+    return transfers;
+  }
+
   /**
    * Check if blockchain service is enabled
    */
@@ -286,4 +680,12 @@ export class BlockchainService {
   }
 }
 
+/**
+ * Errors from a transaction nonce that the node has already seen
+ */
+export function isNonceError(error: any): boolean {
+  return error.code === 'NONCE_EXPIRED' || error.code === 'REPLACEMENT_UNDERPRICED' ||
+    /nonce (too low|has already been used)/i.test(error.message || '');
+}
+
 export default new BlockchainService();
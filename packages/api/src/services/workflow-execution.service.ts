@@ -5,6 +5,7 @@ import { PerplexitySearchEngine } from './apollo/perplexity-engine';
 import { ApolloApiClient } from './apollo/apollo-client';
 import { ProcessPhase } from './apollo/types';
 import { MCP_SERVERS } from '../config/mcp-servers';
+import { WorkflowEvent, WorkflowEventInit } from './workflow/types';
 
 export interface WorkflowStep {
     id: string;
@@ -38,14 +39,32 @@ export interface WorkflowResult {
 
 export class WorkflowExecutor {
     /**
-     * Execute a complete workflow
+     * Execute a complete workflow, reporting progress to onEvent if given
      */
-    static async execute(execution: WorkflowExecution): Promise<WorkflowResult> {
+    static async execute(
+        execution: WorkflowExecution,
+        onEvent?: (event: WorkflowEvent) => void
+    ): Promise<WorkflowResult> {
         const startTime = Date.now();
         const stepResults: WorkflowResult['steps'] = [];
         let totalCost = 0;
         let context = { ...execution.context };
         
+        const emit = (event: WorkflowEventInit) => {
+            onEvent?.({
+                ...event,
+                executionId: execution.workflowId,
+                timestamp: new Date().toISOString(),
+            } as WorkflowEvent);
+        };
+        
+        emit({
+            type: 'run_started',
+            workflow: execution.workflowId,
+            resumed: false,
+            stepIds: execution.steps.map(s => s.id),
+        });
+        
         console.log('[WorkflowExecutor] Starting workflow execution:', {
             workflowId: execution.workflowId,
             userWalletAddress: execution.userWalletAddress,
@@ -58,18 +77,22 @@ export class WorkflowExecutor {
             MCP_SERVERS.APOLLO.walletAddress
         );
         if (!apolloKey) {
-            return {
+            const error = 'No Apollo API key found. Please add your API key in settings.';
+            const result: WorkflowResult = {
                 success: false,
                 steps: [{
                     stepId: 'init',
                     stepName: 'Initialization',
                     status: 'failed',
-                    error: 'No Apollo API key found. Please add your API key in settings.',
+                    error,
                     duration: 0,
                 }],
                 totalCost: 0,
                 totalDuration: Date.now() - startTime,
             };
+            emit({ type: 'step_failed', stepId: 'init', path: 'init', error, attempts: 1 });
+            emit({ type: 'run_completed', success: false, output: result, totalCost: 0, executionTime: result.totalDuration, error });
+            return result;
         }
         
         // Execute each step
@@ -78,6 +101,7 @@ export class WorkflowExecutor {
             
             try {
                 console.log('[WorkflowExecutor] Executing step:', step.id, step.name);
+                emit({ type: 'step_started', stepId: step.id, path: step.id, name: step.name });
                 
                 if (step.type === 'apollo_tool') {
                     const result = await this.executeApolloTool(step, context, apolloKey);
@@ -92,6 +116,16 @@ export class WorkflowExecutor {
                     
                     totalCost += result.cost;
                     context[step.id] = result.data; // Store result in context
+                    emit({
+                        type: 'step_completed',
+                        stepId: step.id,
+                        path: step.id,
+                        status: 'completed',
+                        outputPreview: JSON.stringify(result.data ?? null).slice(0, 500),
+                        cost: result.cost,
+                        attempts: 1,
+                        durationMs: Date.now() - stepStart,
+                    });
                     
                 } else if (step.type === 'transform') {
                     const result = await this.executeTransform(step, context);
@@ -105,6 +139,16 @@ export class WorkflowExecutor {
                     });
                     
                     context[step.id] = result;
+                    emit({
+                        type: 'step_completed',
+                        stepId: step.id,
+                        path: step.id,
+                        status: 'completed',
+                        outputPreview: JSON.stringify(result ?? null).slice(0, 500),
+                        cost: 0,
+                        attempts: 1,
+                        durationMs: Date.now() - stepStart,
+                    });
                 }
                 
             } catch (error: any) {
@@ -117,6 +161,7 @@ export class WorkflowExecutor {
                     error: error.message,
                     duration: Date.now() - stepStart,
                 });
+                emit({ type: 'step_failed', stepId: step.id, path: step.id, error: error.message, attempts: 1 });
                 
                 // Stop execution on error
                 break;
@@ -126,13 +171,22 @@ export class WorkflowExecutor {
         const allSuccess = stepResults.every(r => r.status === 'success');
         const totalDuration = Date.now() - startTime;
         
-        return {
+        const result: WorkflowResult = {
             success: allSuccess,
             steps: stepResults,
             totalCost,
             totalDuration,
             finalResult: context,
         };
+        emit({
+            type: 'run_completed',
+            success: allSuccess,
+            output: result,
+            totalCost,
+            executionTime: totalDuration,
+            error: stepResults.find(r => r.status === 'failed')?.error,
+        });
+        return result;
     }
     
     /**
@@ -0,0 +1,351 @@
+/**
+ * Workflow Approvals
+ *
+ * Human checkpoints for `approval` steps:
+ * - A run reaching one is paused (AWAITING_APPROVAL) and an approval
+ *   request is stored with the data to review, e.g. a lead list
+ * - The step's webhook is notified if it has one; pending requests are
+ *   also listed in-app for their approvers
+ * - Approving, optionally with edited data, resumes the run from its stored
+ *   step results; rejecting fails it
+ * - The approver signs the decision with their wallet: the message names
+ *   the run, the step and the decision, and carries the wallet's account
+ *   nonce (User.nonce), so a signature works only once
+ */
+
+import { Prisma, WorkflowApproval } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { ApprovalStepOutput, WorkflowExecutionContext, WorkflowExecutionResult, WorkflowStep } from './types';
+import { workflowRunStore } from './run-store';
+import { workflowExecutor } from './executor';
+
+const NOTIFY_TIMEOUT_MS = 10_000;
+
+export type ApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface ApprovalDecision {
+  decision: 'approve' | 'reject';
+  data?: any;  // Replaces the requested data, e.g. a pruned lead list
+  comment?: string;
+  approver: string;  // Wallet that signed the message
+  message: string;   // Signed; see getSignMessage
+}
+
+export interface ApprovalFilters {
+  status?: ApprovalStatus;
+  runId?: string;
+  approver?: string;  // Requests this wallet may decide
+  limit: number;
+  offset: number;
+}
+
+export interface ApprovalInfo {
+  id: string;
+  runId: string;
+  workflow: string;
+  stepId: string;
+  status: ApprovalStatus;
+  message: string | null;
+  data: any;
+  decisionData: any;
+  approvers: string[];  // Empty: anyone may decide
+  notifyUrl: string | null;
+  notifiedAt: Date | null;
+  notifyError: string | null;
+  decidedBy: string | null;
+  comment: string | null;
+  requestedAt: Date;
+  decidedAt: Date | null;
+}
+
+type ApprovalRecord = WorkflowApproval & {
+  run: { status: string; workflow: { name: string } };
+};
+
+const INCLUDE_RUN = {
+  run: { select: { status: true, workflow: { select: { name: true } } } },
+} as const;
+
+/**
+ * Thrown by the executor to stop a run at an approval step
+ */
+export class ApprovalPendingError extends Error {
+  constructor(public readonly approvalId: string, public readonly stepId: string) {
+    super(`Waiting for approval of step ${stepId}`);
+    this.name = 'ApprovalPendingError';
+  }
+}
+
+/**
+ * Error with the HTTP status and response details a route should answer with
+ */
+export class WorkflowApprovalError extends Error {
+  constructor(message: string, public readonly statusCode: number, public readonly details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'WorkflowApprovalError';
+  }
+}
+
+export class WorkflowApprovalService {
+  private baseUrl = process.env.API_URL || 'http://localhost:3001';
+
+  /**
+   * Store the approval request of a step and notify its webhook.
+   * Requesting again (when a rejected run is resumed) reopens it.
+   */
+  async request(
+    context: WorkflowExecutionContext,
+    step: WorkflowStep,
+    request: { message?: string; data?: any }
+  ): Promise<ApprovalInfo> {
+    const fields = {
+      status: 'PENDING' as const,
+      message: request.message ?? null,
+      data: request.data === undefined ? Prisma.JsonNull : this.toJson(request.data),
+      decisionData: Prisma.JsonNull,
+      approvers: (step.approval?.approvers || []).map(address => address.toLowerCase()),
+      notifyUrl: step.approval?.notify?.webhook ?? null,
+      notifiedAt: null,
+      notifyError: null,
+      decidedBy: null,
+      comment: null,
+      requestedAt: new Date(),
+      decidedAt: null,
+    };
+
+    const record = await prisma.workflowApproval.upsert({
+      where: { runId_stepId: { runId: context.executionId, stepId: step.id } },
+      create: { runId: context.executionId, stepId: step.id, ...fields },
+      update: fields,
+      include: INCLUDE_RUN,
+    });
+
+    const approval = this.toInfo(record);
+    if (approval.notifyUrl) {
+      await this.notify(approval);
+    }
+    return approval;
+  }
+
+  /**
+   * List approval requests, newest first
+   */
+  async list(filters: ApprovalFilters): Promise<{ total: number; approvals: ApprovalInfo[] }> {
+    const where: Prisma.WorkflowApprovalWhereInput = {
+      status: filters.status,
+      runId: filters.runId,
+      OR: filters.approver
+        ? [{ approvers: { has: filters.approver.toLowerCase() } }, { approvers: { isEmpty: true } }]
+        : undefined,
+    };
+
+    const [records, total] = await Promise.all([
+      prisma.workflowApproval.findMany({
+        where,
+        include: INCLUDE_RUN,
+        orderBy: { requestedAt: 'desc' },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      prisma.workflowApproval.count({ where }),
+    ]);
+
+    return { total, approvals: records.map(record => this.toInfo(record)) };
+  }
+
+  async get(runId: string, stepId: string): Promise<ApprovalInfo | null> {
+    const record = await this.find(runId, stepId);
+    return record && this.toInfo(record);
+  }
+
+  /**
+   * The message an approver signs to decide a step
+   */
+  getSignMessage(runId: string, stepId: string, decision: ApprovalDecision['decision'], walletAddress: string, nonce: number): string {
+    return `Workflow approval: ${decision} step ${stepId} of run ${runId}\nWallet: ${walletAddress.toLowerCase()}\nNonce: ${nonce}`;
+  }
+
+  /**
+   * Approve or reject a pending request. Approving resumes the run and
+   * returns its result; the approval step's output is the (edited) data.
+   */
+  async decide(
+    runId: string,
+    stepId: string,
+    decision: ApprovalDecision
+  ): Promise<{ approval: ApprovalInfo; result?: WorkflowExecutionResult }> {
+    const record = await this.find(runId, stepId);
+    if (!record) {
+      throw new WorkflowApprovalError('Approval not found', 404);
+    }
+    if (record.status !== 'PENDING') {
+      throw new WorkflowApprovalError(`Approval already ${record.status.toLowerCase()}`, 409);
+    }
+    const approver = decision.approver.toLowerCase();
+    if (record.approvers.length > 0 && !record.approvers.includes(approver)) {
+      throw new WorkflowApprovalError('Not an approver of this step', 403);
+    }
+    if (record.run.status !== 'AWAITING_APPROVAL') {
+      throw new WorkflowApprovalError(`Run is not awaiting approval (status: ${record.run.status})`, 409);
+    }
+    await this.useSignedMessage(runId, stepId, decision);
+
+    const approved = decision.decision === 'approve';
+    const decidedAt = new Date();
+
+    // Only one decision wins when two approvers answer at once
+    const { count } = await prisma.workflowApproval.updateMany({
+      where: { id: record.id, status: 'PENDING' },
+      data: {
+        status: approved ? 'APPROVED' : 'REJECTED',
+        decisionData: decision.data === undefined ? Prisma.JsonNull : this.toJson(decision.data),
+        decidedBy: approver,
+        comment: decision.comment ?? null,
+        decidedAt,
+      },
+    });
+    if (count === 0) {
+      throw new WorkflowApprovalError('Approval already decided', 409);
+    }
+
+    const approval = this.toInfo((await this.find(runId, stepId))!);
+    const step = {
+      path: stepId,
+      stepId,
+      params: { message: record.message, data: record.data },
+      cost: 0,
+      attempts: 1,
+      startedAt: record.requestedAt,
+    };
+
+    if (!approved) {
+      const error = `Step ${stepId} was rejected by ${approver}` +
+        (decision.comment ? `: ${decision.comment}` : '');
+      await workflowRunStore.recordStep(runId, { ...step, status: 'FAILED', error });
+      await workflowRunStore.finishRun(runId, 'FAILED', { error });
+      console.log(`🚫 ${error} (run ${runId})`);
+      return { approval };
+    }
+
+    const output: ApprovalStepOutput = {
+      approved: true,
+      data: decision.data !== undefined ? decision.data : record.data,
+      edited: decision.data !== undefined,
+      approver,
+      comment: decision.comment,
+      decidedAt: decidedAt.toISOString(),
+    };
+    await workflowRunStore.recordStep(runId, { ...step, status: 'COMPLETED', output });
+
+    console.log(`👍 Step ${stepId} approved, resuming run ${runId}`);
+    const state = await workflowRunStore.resumeRun(runId, 'AWAITING_APPROVAL');
+    const result = await workflowExecutor.execute(state.workflow, state.inputs, state.userId, {
+      resume: state,
+      maxCostUsd: state.maxCostUsd,
+    });
+    return { approval, result };
+  }
+
+  /**
+   * Check that the (verified) signed message makes this decision with the
+   * approver's current account nonce, and use the nonce up
+   */
+  private async useSignedMessage(runId: string, stepId: string, decision: ApprovalDecision): Promise<void> {
+    const wallet = decision.approver.toLowerCase();
+    const user = await prisma.user.upsert({
+      where: { walletAddress: wallet },
+      update: {},
+      create: { walletAddress: wallet },
+    });
+
+    const expected = this.getSignMessage(runId, stepId, decision.decision, wallet, user.nonce);
+    if (decision.message !== expected) {
+      throw new WorkflowApprovalError('Signed message does not match this decision', 401, { expected });
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, nonce: user.nonce },
+      data: { nonce: { increment: 1 } },
+    });
+    if (count === 0) {
+      throw new WorkflowApprovalError('Signature has already been used', 401);
+    }
+  }
+
+  /**
+   * POST the request to the step's webhook. Failures are recorded on the
+   * approval rather than thrown: it is listed in-app either way.
+   */
+  private async notify(approval: ApprovalInfo): Promise<void> {
+    let notifyError: string | null = null;
+
+    try {
+      const response = await fetch(approval.notifyUrl!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'approval_requested',
+          approvalId: approval.id,
+          runId: approval.runId,
+          workflow: approval.workflow,
+          stepId: approval.stepId,
+          message: approval.message,
+          data: approval.data,
+          approvers: approval.approvers,
+          decisionUrl: `${this.baseUrl}/api/workflows/runs/${approval.runId}/approvals/${approval.stepId}`,
+        }),
+        signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+      });
+      if (!response.ok) notifyError = `Webhook answered ${response.status}`;
+    } catch (error: any) {
+      notifyError = error.message;
+    }
+
+    if (notifyError) {
+      console.warn(`⚠️ Approval notification for run ${approval.runId} failed:`, notifyError);
+    }
+
+    try {
+      await prisma.workflowApproval.update({
+        where: { id: approval.id },
+        data: { notifiedAt: notifyError ? null : new Date(), notifyError },
+      });
+    } catch (error: any) {
+      console.warn(`⚠️ Failed to record approval notification ${approval.id}:`, error.message);
+    }
+  }
+
+  private find(runId: string, stepId: string): Promise<ApprovalRecord | null> {
+    return prisma.workflowApproval.findUnique({
+      where: { runId_stepId: { runId, stepId } },
+      include: INCLUDE_RUN,
+    });
+  }
+
+  private toInfo(record: ApprovalRecord): ApprovalInfo {
+    return {
+      id: record.id,
+      runId: record.runId,
+      workflow: record.run.workflow.name,
+      stepId: record.stepId,
+      status: record.status,
+      message: record.message,
+      data: record.data,
+      decisionData: record.decisionData,
+      approvers: record.approvers,
+      notifyUrl: record.notifyUrl,
+      notifiedAt: record.notifiedAt,
+      notifyError: record.notifyError,
+      decidedBy: record.decidedBy,
+      comment: record.comment,
+      requestedAt: record.requestedAt,
+      decidedAt: record.decidedAt,
+    };
+  }
+
+  private toJson(value: any): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
+
+export const workflowApprovalService = new WorkflowApprovalService();
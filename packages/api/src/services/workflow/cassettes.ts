@@ -0,0 +1,317 @@
+/**
+ * Workflow Cassettes
+ *
+ * Portable recordings of real runs, for reproducing them without the
+ * customer's credentials:
+ * - A recorded run (`record: true`, or WORKFLOW_RECORD_RUNS=true) keeps each
+ *   step's raw reply next to its resolved params and output
+ * - Exporting bundles the workflow version, inputs and every step record
+ *   into one JSON cassette. API keys are removed and PII fields replaced by
+ *   stable pseudonyms, so values that matched still match.
+ * - Replaying runs the cassette as a dry run: tool, AI, sub-workflow and
+ *   approval steps are served from the recording, everything else runs
+ *   again, and any difference from the recorded outcome is reported
+ */
+
+import crypto from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import { prisma } from '../../lib/prisma';
+import { WorkflowDefinition, WorkflowStep, StepFixture } from './types';
+import { workflowExecutor } from './executor';
+import { workflowParser } from './parser';
+import { workflowMCPGenerator } from './mcp-generator';
+import { FIXTURE_STEP_TYPES } from './fixtures';
+
+export const CASSETTE_FORMAT = 'workflow-cassette/1';
+const MAX_DIFFERENCES = 50;
+
+// Keys whose values are never exported (compared without case, "-" or "_")
+const SECRET_KEY = /(apikey|secret|token|passw(or)?d|authorization|cookie|privatekey|credential|signature)/;
+
+// Credentials that show up inside strings, e.g. in a prompt or an error body
+const SECRET_VALUES = [/\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}/g, /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi];
+
+// Template references ("{{input.api_key}}") hold no value of their own
+const TEMPLATE = /^\s*\{\{[^}]+\}\}\s*$/;
+
+const EMAIL = /\b[A-Za-z0-9._%+-]+@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,})\b/g;
+
+export const DEFAULT_PII_FIELDS = [
+  'email', 'personal_email', 'work_email', 'phone', 'phone_number', 'mobile', 'mobile_phone',
+  'first_name', 'last_name', 'full_name', 'contact_name', 'linkedin', 'linkedin_url',
+  'address', 'street', 'street_address', 'date_of_birth', 'dob', 'ssn', 'ip', 'ip_address',
+];
+
+export interface CassetteInteraction {
+  path: string;
+  stepId: string;
+  type?: WorkflowStep['type'];
+  status: 'COMPLETED' | 'FAILED' | 'SKIPPED';
+  params?: any;
+  output?: any;
+  response?: any;  // Raw model reply, or the error response of a failed call
+  error?: string;
+  attempts: number;
+  cost: number;
+  durationMs: number;
+}
+
+export interface WorkflowCassette {
+  format: typeof CASSETTE_FORMAT;
+  runId: string;
+  recordedAt: string;
+  workflow: WorkflowDefinition;  // The version the run used
+  status: string;
+  inputs: Record<string, any>;
+  output: any;
+  error?: string;
+  interactions: CassetteInteraction[];
+  redactions: { secrets: number; pii: number; piiFields: string[] };
+}
+
+export interface CassetteReplay {
+  workflow: string;       // "name@version" replayed
+  reproduced: boolean;    // Same outcome, output and recomputed step outputs
+  success: boolean;
+  output: any;
+  error?: string;
+  differences: string[];
+  executionTime: number;
+}
+
+/**
+ * Error with the HTTP status a route should answer with
+ */
+export class WorkflowCassetteError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'WorkflowCassetteError';
+  }
+}
+
+/**
+ * Removes secrets and pseudonymises PII. One instance covers one cassette,
+ * so the same email gets the same pseudonym everywhere in it.
+ */
+class Redactor {
+  private readonly salt = crypto.randomBytes(16);
+  private readonly piiKeys: Set<string>;
+  readonly counts = { secrets: 0, pii: 0 };
+
+  constructor(readonly piiFields: string[]) {
+    this.piiKeys = new Set(piiFields.map(normalizeKey));
+  }
+
+  redact(value: any): any {
+    if (typeof value === 'string') return this.redactString(value);
+    if (Array.isArray(value)) return value.map(item => this.redact(item));
+    if (!value || typeof value !== 'object') return value;
+
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => {
+      const normalized = normalizeKey(key);
+      if (typeof field === 'string' && TEMPLATE.test(field)) {
+        return [key, field];
+      }
+      if (SECRET_KEY.test(normalized) && field != null && typeof field !== 'object') {
+        this.counts.secrets++;
+        return [key, '[REDACTED]'];
+      }
+      if (this.piiKeys.has(normalized) && field != null) {
+        return [key, this.pseudonymise(field)];
+      }
+      return [key, this.redact(field)];
+    }));
+  }
+
+  private redactString(value: string): string {
+    let result = value;
+    for (const pattern of SECRET_VALUES) {
+      result = result.replace(pattern, () => {
+        this.counts.secrets++;
+        return '[REDACTED]';
+      });
+    }
+    return result.replace(EMAIL, (email, domain) => {
+      this.counts.pii++;
+      return `user-${this.hash(email.toLowerCase())}@${domain}`;
+    });
+  }
+
+  private pseudonymise(value: any): any {
+    if (Array.isArray(value)) return value.map(item => this.pseudonymise(item));
+
+    this.counts.pii++;
+    if (typeof value === 'string') {
+      // Emails keep their domain: it names the company, not the person
+      const email = value.match(/^[^@\s]+@([^@\s]+)$/);
+      return email ? `user-${this.hash(value.toLowerCase())}@${email[1]}` : `[pii:${this.hash(value)}]`;
+    }
+    return `[pii:${this.hash(JSON.stringify(value))}]`;
+  }
+
+  private hash(value: string): string {
+    return crypto.createHmac('sha256', this.salt).update(value).digest('hex').slice(0, 10);
+  }
+}
+
+export class WorkflowCassetteService {
+  /**
+   * Export a recorded run as a redacted cassette
+   */
+  async export(runId: string, options: { piiFields?: string[] } = {}): Promise<WorkflowCassette> {
+    const run = await prisma.workflowRun.findUnique({
+      where: { id: runId },
+      include: {
+        version: true,
+        steps: { orderBy: { startedAt: 'asc' } },
+      },
+    });
+
+    if (!run) {
+      throw new WorkflowCassetteError(`Workflow run not found: ${runId}`, 404);
+    }
+    if (!run.recorded) {
+      throw new WorkflowCassetteError(`Run ${runId} was not recorded; execute it with "record": true`, 409);
+    }
+
+    const workflow = run.version.definition as unknown as WorkflowDefinition;
+    const stepTypes = new Map(workflow.steps.map(s => [s.id, s.type]));
+    const piiFields = [
+      ...DEFAULT_PII_FIELDS,
+      ...(process.env.WORKFLOW_CASSETTE_PII_FIELDS || '').split(',').map(f => f.trim()).filter(Boolean),
+      ...(options.piiFields || []),
+    ];
+    const redactor = new Redactor(piiFields);
+
+    const interactions: CassetteInteraction[] = run.steps.map(step => ({
+      path: step.path,
+      stepId: step.stepId,
+      type: stepTypes.get(step.stepId),
+      status: step.status,
+      params: redactor.redact(step.params ?? undefined),
+      output: redactor.redact(step.output),
+      response: redactor.redact(step.response ?? undefined),
+      error: step.error ? redactor.redact(step.error) : undefined,
+      attempts: step.attempts,
+      cost: Number(step.cost),
+      durationMs: step.durationMs,
+    }));
+
+    return {
+      format: CASSETTE_FORMAT,
+      runId: run.id,
+      recordedAt: run.startedAt.toISOString(),
+      workflow: redactor.redact(workflow),
+      status: run.status,
+      inputs: redactor.redact(run.inputs),
+      output: redactor.redact(run.output),
+      error: run.error ? redactor.redact(run.error) : undefined,
+      interactions,
+      redactions: { ...redactor.counts, piiFields },
+    };
+  }
+
+  /**
+   * Replay a cassette against the workflow version it recorded, or the
+   * latest registered version (to check that a fix changes the outcome)
+   */
+  async replay(cassette: any, options: { against?: 'recorded' | 'latest' } = {}): Promise<CassetteReplay> {
+    if (cassette?.format !== CASSETTE_FORMAT || !Array.isArray(cassette.interactions)) {
+      throw new WorkflowCassetteError(`Not a workflow cassette (expected format ${CASSETTE_FORMAT})`, 400);
+    }
+
+    const workflow = this.resolveWorkflow(cassette, options.against || 'recorded');
+    const inputs = { ...cassette.inputs };
+
+    console.log(`📼 Replaying run ${cassette.runId} on ${workflow.name}@${workflow.version}`);
+
+    const result = await workflowExecutor.execute(workflow, inputs, undefined, {
+      dryRun: { fixtures: this.toFixtures(cassette) },
+    });
+
+    const differences: string[] = [];
+    const recordedSuccess = cassette.status === 'COMPLETED';
+    if (result.success !== recordedSuccess && cassette.status !== 'AWAITING_APPROVAL') {
+      differences.push(`run: recorded ${cassette.status}, replayed ${result.success ? 'COMPLETED' : 'FAILED'}`);
+    }
+    if (result.success && recordedSuccess) {
+      diffValues(cassette.output, result.output, 'output', differences);
+    }
+
+    // Steps that ran again instead of being served from the recording
+    for (const interaction of cassette.interactions as CassetteInteraction[]) {
+      if (interaction.path !== interaction.stepId || interaction.status !== 'COMPLETED') continue;
+      if (!result.steps || !(interaction.stepId in result.steps)) continue;
+      const step = workflow.steps.find(s => s.id === interaction.stepId);
+      if (!step || FIXTURE_STEP_TYPES.has(step.type)) continue;
+      diffValues(interaction.output, result.steps[interaction.stepId], `steps.${interaction.stepId}`, differences);
+    }
+
+    return {
+      workflow: `${workflow.name}@${workflow.version}`,
+      reproduced: differences.length === 0,
+      success: result.success,
+      output: result.output,
+      error: result.success ? undefined : result.output?.error,
+      differences: differences.slice(0, MAX_DIFFERENCES),
+      executionTime: result.executionTime,
+    };
+  }
+
+  /**
+   * Dry-run fixtures from a cassette: outputs of finished steps and errors
+   * of failed ones, keyed by path. Branch-pruned steps are pruned again.
+   */
+  toFixtures(cassette: WorkflowCassette): Record<string, StepFixture> {
+    const fixtures: Record<string, StepFixture> = {};
+    for (const interaction of cassette.interactions) {
+      if (interaction.status === 'COMPLETED') {
+        fixtures[interaction.path] = { output: interaction.output };
+      } else if (interaction.error) {
+        fixtures[interaction.path] = { error: interaction.error, status: interaction.response?.status };
+      }
+    }
+    return fixtures;
+  }
+
+  private resolveWorkflow(cassette: WorkflowCassette, against: 'recorded' | 'latest'): WorkflowDefinition {
+    if (against === 'latest') {
+      const latest = workflowMCPGenerator.getWorkflow(cassette.workflow?.name);
+      if (!latest) {
+        throw new WorkflowCassetteError(`Workflow not found: ${cassette.workflow?.name}`, 404);
+      }
+      return latest;
+    }
+
+    try {
+      return workflowParser.validate(cassette.workflow);
+    } catch (error: any) {
+      throw new WorkflowCassetteError(`Cassette workflow is invalid: ${error.message}`, 400);
+    }
+  }
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_\s]/g, '');
+}
+
+/**
+ * Paths where two values differ, up to MAX_DIFFERENCES
+ */
+function diffValues(recorded: any, replayed: any, path: string, out: string[]): void {
+  if (out.length >= MAX_DIFFERENCES || isDeepStrictEqual(recorded, replayed)) return;
+
+  const bothObjects = recorded && replayed && typeof recorded === 'object' && typeof replayed === 'object' &&
+    Array.isArray(recorded) === Array.isArray(replayed);
+  if (!bothObjects) {
+    out.push(`${path}: recorded ${JSON.stringify(recorded)}, replayed ${JSON.stringify(replayed)}`);
+    return;
+  }
+
+  const keys = new Set([...Object.keys(recorded), ...Object.keys(replayed)]);
+  for (const key of keys) {
+    diffValues(recorded[key], replayed[key], Array.isArray(recorded) ? `${path}[${key}]` : `${path}.${key}`, out);
+  }
+}
+
+export const workflowCassetteService = new WorkflowCassetteService();
@@ -0,0 +1,41 @@
+/**
+ * Concurrency Helpers
+ * 
+ * Bounded parallel mapping used for loop iterations.
+ */
+
+/**
+ * Map items through an async function with at most `limit` calls in flight.
+ * Stops starting new items after the first failure, waits for in-flight
+ * calls to settle, then rejects with that first error.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+  let firstError: unknown;
+
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        if (!failed) {
+          failed = true;
+          firstError = error;
+        }
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  if (failed) throw firstError;
+  return results;
+}
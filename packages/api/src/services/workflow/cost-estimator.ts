@@ -0,0 +1,282 @@
+/**
+ * Workflow Cost Estimator
+ *
+ * Estimates what a workflow run will cost before it starts:
+ * - Tool steps are priced from live Tool.costUsd rows, falling back to
+ *   the step's estimatedCost and then a default
+ * - Loop bodies are multiplied by the loop's iteration bounds (exact when
+ *   the array is supplied in the inputs, otherwise 0..maxIterations)
+ * - Branch targets may not run, so they count 0 / half / full toward
+ *   min / expected / max
+ * - Sub-workflow steps cost at least the called workflow's base price
+ * - AI steps are priced from their model's token prices: the prompt in,
+ *   maxTokens out
+ *
+ * Also provides the budget check behind `maxCostUsd` on execute.
+ */
+
+import { prisma } from '../../lib/prisma';
+import { WorkflowDefinition, WorkflowStep, WorkflowExecutionContext } from './types';
+import { getBranchControllers, getLoopOwner } from './graph';
+import { workflowMCPGenerator } from './mcp-generator';
+import { llmService } from './llm';
+
+export const DEFAULT_TOOL_COST = 0.02;
+export const AI_DECISION_COST = 0.02;  // AI steps whose model cannot be resolved
+const DEFAULT_EXPECTED_ITERATIONS = 10;
+
+export interface CostRange {
+  min: number;
+  expected: number;
+  max: number | null;  // null when a loop has no maxIterations
+}
+
+export interface StepCostEstimate {
+  stepId: string;
+  type: WorkflowStep['type'];
+  unitCost: number;
+  source: 'tool' | 'estimatedCost' | 'workflow' | 'model' | 'default' | 'free';
+  runs: CostRange;  // How many times the step may execute
+  cost: CostRange;
+}
+
+export interface WorkflowCostEstimate {
+  workflow: string;
+  version: string;
+  currency: 'USDC';
+  basePrice: number;
+  stepCost: CostRange;  // Sum of step costs
+  charge: CostRange;    // What the caller pays (never below basePrice)
+  steps: StepCostEstimate[];
+  warnings: string[];
+}
+
+/**
+ * Thrown when the next step could push a run past its maxCostUsd
+ */
+export class BudgetExceededError extends Error {
+  constructor(stepId: string, stepCost: number, committed: number, limit: number) {
+    super(
+      `Budget exceeded: step ${stepId} may cost $${stepCost.toFixed(4)} with ` +
+      `$${committed.toFixed(4)} of $${limit.toFixed(4)} already committed`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class WorkflowCostEstimator {
+  /**
+   * Estimate min/expected/max cost of one run with the given inputs
+   */
+  async estimate(workflow: WorkflowDefinition, inputs: Record<string, any> = {}): Promise<WorkflowCostEstimate> {
+    const warnings: string[] = [];
+    const toolCosts = await this.getToolCosts(workflow);
+
+    const steps = workflow.steps.map(step => {
+      const { unitCost, source } = this.getUnitCost(step, toolCosts);
+      const runs = this.getRunBounds(step, workflow.steps, inputs, warnings);
+      return {
+        stepId: step.id,
+        type: step.type,
+        unitCost,
+        source,
+        runs,
+        cost: {
+          min: unitCost * runs.min,
+          expected: unitCost * runs.expected,
+          max: runs.max === null ? (unitCost > 0 ? null : 0) : unitCost * runs.max,
+        },
+      };
+    });
+
+    const stepCost: CostRange = {
+      min: steps.reduce((sum, s) => sum + s.cost.min, 0),
+      expected: steps.reduce((sum, s) => sum + s.cost.expected, 0),
+      max: steps.some(s => s.cost.max === null)
+        ? null
+        : steps.reduce((sum, s) => sum + (s.cost.max as number), 0),
+    };
+
+    const basePrice = workflow.pricing.basePrice;
+
+    return {
+      workflow: workflow.name,
+      version: workflow.version,
+      currency: 'USDC',
+      basePrice,
+      stepCost,
+      charge: {
+        min: Math.max(basePrice, stepCost.min),
+        expected: Math.max(basePrice, stepCost.expected),
+        max: stepCost.max === null ? null : Math.max(basePrice, stepCost.max),
+      },
+      steps,
+      warnings,
+    };
+  }
+
+  /**
+   * Live per-call prices of the tools a workflow uses, keyed "server.function".
+   * Returns an empty map if the database is unavailable.
+   */
+  async getToolCosts(workflow: WorkflowDefinition): Promise<Map<string, number>> {
+    const pairs = workflow.steps
+      .filter(s => s.type === 'mcp_tool' && s.tool)
+      .map(s => ({ name: s.tool!.function, mcpServer: { name: s.tool!.server } }));
+
+    const costs = new Map<string, number>();
+    if (pairs.length === 0) return costs;
+
+    try {
+      const tools = await prisma.tool.findMany({
+        where: { OR: pairs, isActive: true },
+        include: { mcpServer: { select: { name: true } } },
+      });
+      for (const tool of tools) {
+        costs.set(`${tool.mcpServer.name}.${tool.name}`, Number(tool.costUsd));
+      }
+    } catch (error: any) {
+      console.warn('⚠️ Failed to load tool costs:', error.message);
+    }
+
+    return costs;
+  }
+
+  /**
+   * Price of one execution of a step
+   */
+  getUnitCost(
+    step: WorkflowStep,
+    toolCosts: Map<string, number>
+  ): { unitCost: number; source: StepCostEstimate['source'] } {
+    if (step.type === 'mcp_tool' && step.tool) {
+      const toolCost = toolCosts.get(`${step.tool.server}.${step.tool.function}`);
+      if (toolCost !== undefined) return { unitCost: toolCost, source: 'tool' };
+      if (step.estimatedCost !== undefined) return { unitCost: step.estimatedCost, source: 'estimatedCost' };
+      return { unitCost: DEFAULT_TOOL_COST, source: 'default' };
+    }
+
+    if (step.type === 'ai_decision') {
+      if (step.estimatedCost !== undefined) return { unitCost: step.estimatedCost, source: 'estimatedCost' };
+      try {
+        return { unitCost: llmService.estimateCost(step.ai || { prompt: '' }), source: 'model' };
+      } catch {
+        return { unitCost: AI_DECISION_COST, source: 'default' };
+      }
+    }
+
+    if (step.type === 'workflow' && step.workflow) {
+      if (step.estimatedCost !== undefined) return { unitCost: step.estimatedCost, source: 'estimatedCost' };
+      const { name, version } = step.workflow;
+      const child = workflowMCPGenerator.getWorkflow(version ? `${name}@${version}` : name);
+      return { unitCost: child?.pricing.basePrice ?? 0, source: 'workflow' };
+    }
+
+    return { unitCost: 0, source: 'free' };
+  }
+
+  /**
+   * Reserve a step's cost against the run budget before it executes.
+   * Reservations keep parallel steps from overshooting the cap together.
+   * Returns the reserved amount, to be released with settleBudget().
+   */
+  reserveBudget(step: WorkflowStep, context: WorkflowExecutionContext): number {
+    const budget = context.budget;
+    if (!budget) return 0;
+
+    const { unitCost } = this.getUnitCost(step, budget.toolCosts);
+    if (unitCost === 0) return 0;
+
+    const committed = budget.spentUsd + budget.reservedUsd;
+    if (committed + unitCost > budget.limitUsd) {
+      throw new BudgetExceededError(step.id, unitCost, committed, budget.limitUsd);
+    }
+
+    budget.reservedUsd += unitCost;
+    return unitCost;
+  }
+
+  /**
+   * Replace a reservation with the step's actual cost
+   */
+  settleBudget(context: WorkflowExecutionContext, reserved: number, actualCost: number): void {
+    const budget = context.budget;
+    if (!budget) return;
+
+    budget.reservedUsd -= reserved;
+    budget.spentUsd += actualCost;
+  }
+
+  /**
+   * How many times a step may run: the product of its enclosing loops'
+   * iteration bounds, scaled for branches that may not be taken
+   */
+  private getRunBounds(
+    step: WorkflowStep,
+    steps: WorkflowStep[],
+    inputs: Record<string, any>,
+    warnings: string[]
+  ): CostRange {
+    const runs: CostRange = { min: 1, expected: 1, max: 1 };
+    let branched = false;
+
+    let current: WorkflowStep | undefined = step;
+    while (current) {
+      if (getBranchControllers(current.id, steps).length > 0) branched = true;
+
+      const owner = getLoopOwner(current.id, steps);
+      if (owner) {
+        const iterations = this.getIterationBounds(owner, inputs, warnings);
+        runs.min *= iterations.min;
+        runs.expected *= iterations.expected;
+        runs.max = runs.max === null || iterations.max === null ? null : runs.max * iterations.max;
+      }
+      current = owner;
+    }
+
+    if (branched) {
+      runs.min = 0;
+      runs.expected *= 0.5;
+    }
+
+    return runs;
+  }
+
+  /**
+   * Iteration bounds of a loop: exact if its array is a known input
+   */
+  private getIterationBounds(loop: WorkflowStep, inputs: Record<string, any>, warnings: string[]): CostRange {
+    const cap = loop.loop!.maxIterations;
+    const items = this.resolveInput(loop.loop!.over, inputs);
+
+    if (Array.isArray(items)) {
+      const count = cap === undefined ? items.length : Math.min(items.length, cap);
+      return { min: count, expected: count, max: count };
+    }
+
+    if (cap === undefined) {
+      const warning = `Loop ${loop.id} has no maxIterations: max cost is unbounded ` +
+        `(expected assumes ${DEFAULT_EXPECTED_ITERATIONS} items)`;
+      if (!warnings.includes(warning)) warnings.push(warning);
+      return { min: 0, expected: DEFAULT_EXPECTED_ITERATIONS, max: null };
+    }
+
+    return { min: 0, expected: cap, max: cap };
+  }
+
+  /**
+   * Resolve a plain {{input.x.y}} reference; anything else is unknown
+   */
+  private resolveInput(template: string, inputs: Record<string, any>): any {
+    const match = typeof template === 'string' && template.match(/^\{\{input\.([\w.]+)\}\}$/);
+    if (!match) return undefined;
+
+    let value: any = inputs;
+    for (const key of match[1].split('.')) {
+      value = value?.[key];
+    }
+    return value;
+  }
+}
+
+export const workflowCostEstimator = new WorkflowCostEstimator();
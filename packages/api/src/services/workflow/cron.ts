@@ -0,0 +1,243 @@
+/**
+ * Cron Expressions
+ *
+ * Standard 5-field cron ("minute hour day-of-month month day-of-week"):
+ * - Lists, ranges and steps: "0,30", "1-5", "*\/15", "10-50/10"
+ * - Month and weekday names: "JAN", "MON-FRI" (0 and 7 are both Sunday)
+ * - Macros: @hourly, @daily, @weekly, @monthly, @yearly
+ * - When both day fields are restricted, either one matching is enough
+ *
+ * Times are matched in an IANA timezone. Wall-clock times skipped by a DST
+ * change never fire; repeated ones fire once per occurrence.
+ */
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTHS },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAYS },
+];
+
+// Longest gap between two matches we search before giving up (e.g. "0 0 30 2 *")
+const MAX_SEARCH_HOURS = 5 * 366 * 24;
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface WallClock {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parse a cron expression, throwing on anything invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const source = (expression || '').trim();
+  const fields = (MACROS[source.toLowerCase()] || source).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => {
+    try {
+      return parseField(field, FIELDS[i]);
+    } catch (error: any) {
+      throw new Error(`Invalid cron expression "${expression}": ${error.message}`);
+    }
+  });
+
+  // 7 is Sunday too
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: /^[*?]/.test(fields[2]),
+    anyDayOfWeek: /^[*?]/.test(fields[4]),
+  };
+}
+
+/**
+ * Check that a timezone is a valid IANA name (e.g. "Europe/Berlin")
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First time strictly after `after` that matches the schedule
+ */
+export function getNextRun(schedule: CronSchedule | string, after: Date, timezone = 'UTC'): Date {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+
+  // Start at the next whole minute
+  let time = new Date(Math.floor(after.getTime() / 60_000) * 60_000 + 60_000);
+
+  for (let hours = 0; hours < MAX_SEARCH_HOURS;) {
+    const clock = getWallClock(time, timezone);
+
+    if (!cron.months.has(clock.month) || !matchesDay(cron, clock) || !cron.hours.has(clock.hour)) {
+      // Nothing this hour: jump to the start of the next one
+      time = new Date(time.getTime() + (60 - clock.minute) * 60_000);
+      hours++;
+      continue;
+    }
+
+    if (cron.minutes.has(clock.minute)) return time;
+
+    time = new Date(time.getTime() + 60_000);
+    if (clock.minute === 59) hours++;
+  }
+
+  throw new Error(`Cron expression "${cron.expression}" never matches`);
+}
+
+/**
+ * Matching times in (after, until], oldest first. With a limit only the
+ * most recent `limit` are kept.
+ */
+export function getRunsBetween(
+  schedule: CronSchedule | string,
+  after: Date,
+  until: Date,
+  timezone = 'UTC',
+  limit = Infinity
+): Date[] {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const runs: Date[] = [];
+
+  let time = getNextRun(cron, after, timezone);
+  while (time <= until) {
+    runs.push(time);
+    if (runs.length > limit) runs.shift();
+    time = getNextRun(cron, time, timezone);
+  }
+  return runs;
+}
+
+function parseField(field: string, spec: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step "${stepText}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*' || range === '?') {
+      start = spec.min;
+      end = spec.name === 'day of week' ? 6 : spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+    } else {
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    if (start > end) {
+      throw new Error(`invalid range "${range}" in ${spec.name}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: typeof FIELDS[number]): number {
+  const index = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  const value = index >= 0
+    ? index + (spec.name === 'month' ? 1 : 0)
+    : /^\d+$/.test(text) ? Number(text) : NaN;
+
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new Error(`invalid ${spec.name} "${text}" (allowed ${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function matchesDay(cron: CronSchedule, clock: WallClock): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(clock.day);
+  const dayOfWeek = cron.daysOfWeek.has(clock.weekday);
+
+  if (cron.anyDayOfMonth) return dayOfWeek;
+  if (cron.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+function getWallClock(time: Date, timezone: string): WallClock {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(time)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour) % 24,  // Some runtimes print midnight as 24
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: WEEKDAYS.indexOf(parts.weekday.toUpperCase()),
+  };
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
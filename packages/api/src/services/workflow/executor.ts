@@ -1,11 +1,22 @@
 /**
  * Workflow Executor
  * 
- * Executes workflow definitions step by step with:
+ * Executes workflow definitions as a dependency graph with:
+ * - Independent steps run concurrently (up to maxParallelism)
  * - MCP tool calls
- * - AI decision nodes
- * - Cost tracking per step
+ * - AI decision nodes on pluggable LLM providers, with token-based costs
+ * - Condition branching (untaken branches are skipped)
+ * - Loops that run their body steps once per item
+ * - Sub-workflow steps, whose creators are paid their share
+ * - Approval steps that pause the run until a person decides
+ * - Per-step timeouts and retries with backoff for transient errors
+ * - Cost tracking per step, with an optional per-run budget cap
  * - Template variable resolution
+ * - JSON Schema validation of inputs and the final output
+ * - Run and step results persisted, so failed runs can be resumed
+ * - Progress events for streaming clients
+ * - Dry runs served from fixtures, never recorded or charged
+ * - Optional recording of raw responses, exportable as a cassette
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -14,23 +25,95 @@ import {
   WorkflowStep,
   WorkflowExecutionContext,
   WorkflowExecutionResult,
+  WorkflowEvent,
+  WorkflowEventInit,
+  SkippedStepOutput,
+  ConditionStepOutput,
+  LoopIterationOutput,
+  ApprovalStepOutput,
+  WorkflowPayout,
+  StepFixture,
 } from './types';
-import { PerplexityService } from '../ai-agent/perplexityService';
+import { getBranchControllers, getStepDependencies, getTopLevelStepIds } from './graph';
+import { mapWithConcurrency } from './concurrency';
+import { evaluateExpression } from './expression';
+import { workflowRunStore, WorkflowRunStore, ResumeState } from './run-store';
+import { workflowCostEstimator, DEFAULT_TOOL_COST } from './cost-estimator';
+import { validateSchema, inputsToSchema, formatSchemaErrors } from './json-schema';
+import { workflowMCPGenerator } from './mcp-generator';
+import { workflowApprovalService, ApprovalPendingError } from './approvals';
+import { FIXTURE_STEP_TYPES, StepFixtureError, findFixture, childFixtures } from './fixtures';
+import {
+  DEFAULT_STEP_TIMEOUT_MS,
+  resolveRetryPolicy,
+  classifyError,
+  isRetryable,
+  getRetryDelay,
+  withTimeout,
+} from './retry';
+import { llmService } from './llm';
 import axios from 'axios';
 
+const DEFAULT_MAX_PARALLELISM = 4;
+const OUTPUT_PREVIEW_LENGTH = 500;
+
+export interface WorkflowExecutionOptions {
+  resume?: ResumeState;  // Continue a failed or paused run instead of starting a new one
+  onEvent?: (event: WorkflowEvent) => void;  // Progress listener
+  maxCostUsd?: number;  // Abort before any step that could exceed this
+  executionId?: string;  // Run ID assigned up front (e.g. already returned to a webhook caller)
+  callStack?: string[];  // Workflows running this one as a sub-workflow
+  dryRun?: { fixtures: Record<string, StepFixture> };  // Serve external steps from fixtures
+  record?: boolean;  // Keep raw responses for cassette export (default: WORKFLOW_RECORD_RUNS)
+}
+
+type StepCost = WorkflowExecutionContext['costs'][number];
+
+// What a step type's executor returns for one attempt
+interface StepResult {
+  output: any;
+  cost: number;
+  costs?: StepCost[];
+  response?: any;  // Raw reply worth keeping beyond the output (recorded runs)
+}
+
+// Dry runs leave no trace in the run history
+const DRY_RUN_STORE: Pick<WorkflowRunStore, 'startRun' | 'recordStep' | 'finishRun'> = {
+  startRun: async () => {},
+  recordStep: async () => {},
+  finishRun: async () => {},
+};
+
+// Result of executing a step with retries. `failure` is set once every
+// attempt failed; `error` when onError: 'skip' swallowed that failure.
+interface StepOutcome {
+  output: any;
+  cost: number;
+  costs?: StepCost[];  // Breakdown of `cost`, e.g. a sub-workflow's step costs
+  response?: any;
+  attempts: number;
+  attemptErrors: string[];
+  error?: string;
+  failure?: Error;
+}
+
 export class WorkflowExecutor {
-  private perplexity = new PerplexityService();
   private baseUrl = process.env.API_URL || 'http://localhost:3001';
 
   /**
-   * Execute a workflow with given inputs
+   * Execute a workflow with given inputs.
+   * When resuming, steps that finished in the earlier attempt keep their
+   * outputs and are not executed (or paid for) again.
    */
   async execute(
     workflow: WorkflowDefinition,
     inputs: Record<string, any>,
-    userId?: string
+    userId?: string,
+    options: WorkflowExecutionOptions = {}
   ): Promise<WorkflowExecutionResult> {
-    const executionId = uuidv4();
+    const { resume } = options;
+    const executionId = resume?.runId || options.executionId || uuidv4();
+    const priorCost = resume?.priorCost || 0;
     const startTime = Date.now();
 
     // Initialize execution context
@@ -40,127 +123,603 @@ export class WorkflowExecutor {
       userId,
       input: inputs,
       steps: {},
+      restored: resume?.restored,
+      onEvent: options.onEvent,
+      callStack: [...(options.callStack || []), workflow.name],
+      dryRun: options.dryRun,
+      record: !options.dryRun && (options.record ?? resume?.record ?? process.env.WORKFLOW_RECORD_RUNS === 'true'),
+      payouts: [],
       costs: [],
       status: 'running',
       startedAt: new Date(),
     };
 
-    console.log(`🚀 Starting workflow: ${workflow.name} (${executionId})`);
+    if (resume) {
+      console.log(`🔄 Resuming workflow: ${workflow.name} (${executionId})`);
+    } else {
+      console.log(`🚀 Starting workflow: ${workflow.name} (${executionId})${options.dryRun ? ' [dry run]' : ''}`);
+      await this.runStore(context).startRun(context, workflow, options.maxCostUsd);
+    }
+
+    this.emit(context, {
+      type: 'run_started',
+      workflow: workflow.name,
+      version: workflow.version,
+      resumed: !!resume,
+      stepIds: workflow.steps.map(s => s.id),
+    });
 
     try {
-      // Validate required inputs
+      // Validate inputs against their schemas, applying defaults
       this.validateInputs(workflow, inputs);
 
-      // Build execution order (topological sort)
-      const executionOrder = this.buildExecutionOrder(workflow.steps);
-
-      // Execute each step
-      for (const stepId of executionOrder) {
-        const step = workflow.steps.find(s => s.id === stepId)!;
-        context.currentStep = stepId;
-
-        console.log(`  📍 Step: ${step.name || step.id}`);
-        
-        const stepResult = await this.executeStep(step, context);
-        context.steps[stepId] = stepResult.output;
-        
-        if (stepResult.cost > 0) {
-          context.costs.push({
-            stepId,
-            cost: stepResult.cost,
-            tool: step.tool ? `${step.tool.server}.${step.tool.function}` : undefined,
-          });
-        }
+      if (options.maxCostUsd !== undefined) {
+        context.budget = {
+          limitUsd: options.maxCostUsd,
+          spentUsd: priorCost,
+          reservedUsd: 0,
+          toolCosts: await workflowCostEstimator.getToolCosts(workflow),
+        };
       }
 
+      // Execute top-level steps; loop bodies run inside their loop
+      await this.runSteps(workflow, getTopLevelStepIds(workflow.steps), context);
+
       // Generate final output
       const output = this.resolveTemplate(workflow.output.template, context);
+      this.validateOutput(workflow, output);
 
-      // Calculate costs and revenue
+      // Calculate costs and revenue (a resumed run only bills what the earlier attempt did not).
+      // What sub-workflows charged is theirs to split; only the rest is shared here.
+      // Dry runs are never billed.
       const totalCost = context.costs.reduce((sum, c) => sum + c.cost, 0);
-      const baseCost = Math.max(workflow.pricing.basePrice, totalCost);
-      const creatorRevenue = baseCost * (workflow.creator.revenueShare / 100);
-      const platformRevenue = baseCost - creatorRevenue;
+      const baseCost = context.dryRun ? 0 : Math.max(workflow.pricing.basePrice, priorCost + totalCost) - priorCost;
+      const subWorkflowCost = context.costs.filter(c => c.workflow).reduce((sum, c) => sum + c.cost, 0);
+      const creatorRevenue = (baseCost - subWorkflowCost) * (workflow.creator.revenueShare / 100);
+      const payouts = this.mergePayouts([
+        { workflow: `${workflow.name}@${workflow.version}`, address: workflow.creator.address, amount: creatorRevenue },
+        ...context.payouts!,
+      ]);
+      const platformRevenue = baseCost - payouts.reduce((sum, p) => sum + p.amount, 0);
 
       context.status = 'completed';
       context.completedAt = new Date();
+      await this.runStore(context).finishRun(executionId, 'COMPLETED', { output });
 
       console.log(`✅ Workflow completed: ${workflow.name} ($${baseCost.toFixed(4)})`);
 
-      return {
+      const result: WorkflowExecutionResult = {
         success: true,
         output,
         executionId,
         totalCost: baseCost,
-        stepCosts: context.costs.map(c => ({ stepId: c.stepId, cost: c.cost })),
+        stepCosts: this.toStepCosts(context.costs),
         executionTime: Date.now() - startTime,
         creatorRevenue,
         platformRevenue,
+        payouts,
+        steps: context.dryRun ? context.steps : undefined,
       };
+      this.emit(context, {
+        type: 'run_completed',
+        success: true,
+        output,
+        totalCost: result.totalCost,
+        executionTime: result.executionTime,
+      });
+      return result;
     } catch (error: any) {
+      if (error instanceof ApprovalPendingError) {
+        return this.pauseRun(workflow, context, error, startTime);
+      }
+
       context.status = 'failed';
       context.error = error.message;
       context.completedAt = new Date();
+      await this.runStore(context).finishRun(executionId, 'FAILED', { error: error.message });
 
       console.error(`❌ Workflow failed: ${error.message}`);
 
-      return {
+      const result: WorkflowExecutionResult = {
         success: false,
         output: { error: error.message },
         executionId,
         totalCost: context.costs.reduce((sum, c) => sum + c.cost, 0),
-        stepCosts: context.costs.map(c => ({ stepId: c.stepId, cost: c.cost })),
+        stepCosts: this.toStepCosts(context.costs),
         executionTime: Date.now() - startTime,
         creatorRevenue: 0,
         platformRevenue: 0,
+        payouts: [],
+        steps: context.dryRun ? context.steps : undefined,
       };
+      this.emit(context, {
+        type: 'run_completed',
+        success: false,
+        output: result.output,
+        totalCost: result.totalCost,
+        executionTime: result.executionTime,
+        error: error.message,
+      });
+      return result;
+    }
+  }
+
+  /**
+   * Stop a run at an approval step. What it spent so far stays recorded;
+   * the decision resumes it (POST /runs/:runId/approvals/:stepId).
+   */
+  private async pauseRun(
+    workflow: WorkflowDefinition,
+    context: WorkflowExecutionContext,
+    pending: ApprovalPendingError,
+    startTime: number
+  ): Promise<WorkflowExecutionResult> {
+    const output = {
+      status: 'awaiting_approval',
+      approvalId: pending.approvalId,
+      stepId: pending.stepId,
+      message: pending.message,
+    };
+
+    context.status = 'pending';
+    await this.runStore(context).finishRun(context.executionId, 'AWAITING_APPROVAL', { output });
+
+    console.log(`✋ Workflow paused for approval: ${workflow.name} (step ${pending.stepId})`);
+
+    const result: WorkflowExecutionResult = {
+      success: false,
+      output,
+      executionId: context.executionId,
+      totalCost: context.costs.reduce((sum, c) => sum + c.cost, 0),
+      stepCosts: this.toStepCosts(context.costs),
+      executionTime: Date.now() - startTime,
+      creatorRevenue: 0,
+      platformRevenue: 0,
+      payouts: [],
+      awaitingApproval: { approvalId: pending.approvalId, stepId: pending.stepId },
+    };
+    this.emit(context, {
+      type: 'run_paused',
+      stepId: pending.stepId,
+      approvalId: pending.approvalId,
+      totalCost: result.totalCost,
+    });
+    return result;
+  }
+
+  /**
+   * Execute a set of steps as a DAG: every step whose dependencies have
+   * settled is started, up to workflow.maxParallelism at once. Costs are
+   * appended to context.costs in topological order once all steps settle,
+   * so stepCosts stays deterministic regardless of completion order.
+   */
+  private async runSteps(
+    workflow: WorkflowDefinition,
+    stepIds: string[],
+    context: WorkflowExecutionContext
+  ): Promise<void> {
+    // Build execution order (topological sort)
+    const executionOrder = this.buildExecutionOrder(workflow.steps, stepIds);
+    const scope = new Set(executionOrder);
+    const maxParallelism = workflow.maxParallelism || DEFAULT_MAX_PARALLELISM;
+
+    const dependencies = new Map(executionOrder.map(stepId => {
+      const step = workflow.steps.find(s => s.id === stepId)!;
+      return [stepId, getStepDependencies(step, workflow.steps).filter(dep => scope.has(dep))];
+    }));
+
+    const settled = new Set<string>();
+    const running = new Map<string, Promise<void>>();
+    const stepCosts = new Map<string, WorkflowExecutionContext['costs']>();
+    let failed = false;
+    let failure: unknown;
+
+    try {
+      while (true) {
+        // Start every ready step while there is capacity
+        if (!failed) {
+          for (const stepId of executionOrder) {
+            if (running.size >= maxParallelism) break;
+            if (settled.has(stepId) || running.has(stepId)) continue;
+            if (!dependencies.get(stepId)!.every(dep => settled.has(dep))) continue;
+
+            const step = workflow.steps.find(s => s.id === stepId)!;
+            const costs: WorkflowExecutionContext['costs'] = [];
+            stepCosts.set(stepId, costs);
+
+            const task = this.runStep(step, workflow, { ...context, costs })
+              .catch(error => {
+                if (!failed) {
+                  failed = true;
+                  failure = error;
+                }
+              })
+              .finally(() => {
+                running.delete(stepId);
+                settled.add(stepId);
+              });
+            running.set(stepId, task);
+          }
+        }
+
+        if (running.size === 0) break;
+        await Promise.race(running.values());
+      }
+    } finally {
+      for (const stepId of executionOrder) {
+        context.costs.push(...(stepCosts.get(stepId) || []));
+      }
+    }
+
+    if (failed) throw failure;
+
+    if (settled.size < executionOrder.length) {
+      const pending = executionOrder.filter(id => !settled.has(id));
+      throw new Error(`Unresolvable step dependencies: ${pending.join(', ')}`);
     }
   }
 
   /**
-   * Execute a single step
+   * Run one scheduled step, recording its output (or skip marker)
+   */
+  private async runStep(
+    step: WorkflowStep,
+    workflow: WorkflowDefinition,
+    context: WorkflowExecutionContext
+  ): Promise<void> {
+    context.currentStep = step.id;
+
+    const path = this.stepPath(step.id, context);
+    const startedAt = new Date();
+    const record = {
+      path,
+      stepId: step.id,
+      loopStepId: context.loop?.stepId,
+      iteration: context.loop?.iteration,
+      startedAt,
+    };
+
+    const event = { stepId: step.id, path, iteration: context.loop?.iteration };
+
+    // Finished in the run being resumed
+    if (context.restored && Object.prototype.hasOwnProperty.call(context.restored, path)) {
+      console.log(`  ♻️ Reusing step: ${step.name || step.id}`);
+      context.steps[step.id] = context.restored[path];
+      this.emit(context, {
+        type: 'step_completed', ...event, status: 'reused',
+        outputPreview: this.previewOutput(context.steps[step.id]), cost: 0, attempts: 0, durationMs: 0,
+      });
+      return;
+    }
+
+    const skipReason = this.getSkipReason(step, workflow.steps, context);
+    if (skipReason) {
+      console.log(`  ⏭️ Skipping step: ${step.name || step.id} (${skipReason})`);
+      const skipped: SkippedStepOutput = { skipped: true, reason: skipReason };
+      context.steps[step.id] = skipped;
+      await this.runStore(context).recordStep(context.executionId, {
+        ...record, status: 'SKIPPED', output: skipped, cost: 0, attempts: 0,
+      });
+      this.emit(context, {
+        type: 'step_completed', ...event, status: 'skipped',
+        outputPreview: this.previewOutput(skipped), cost: 0, attempts: 0, durationMs: 0,
+      });
+      return;
+    }
+
+    console.log(`  📍 Step: ${step.name || step.id}`);
+    this.emit(context, { type: 'step_started', ...event, name: step.name });
+    
+    const params = this.resolveStepParams(step, context);
+
+    if (step.type === 'approval' && !context.dryRun) {
+      return this.requestApproval(step, context, params || {});
+    }
+
+    let stepResult: StepOutcome;
+    try {
+      const reserved = workflowCostEstimator.reserveBudget(step, context);
+      stepResult = await this.executeStep(step, workflow, context);
+      workflowCostEstimator.settleBudget(context, reserved, stepResult.cost);
+    } catch (error: any) {
+      // Budget exceeded: the step never ran
+      stepResult = { output: null, cost: 0, attempts: 0, attemptErrors: [], failure: error };
+    }
+
+    if (stepResult.failure) {
+      await this.runStore(context).recordStep(context.executionId, {
+        ...record,
+        status: 'FAILED',
+        params,
+        cost: 0,
+        attempts: stepResult.attempts,
+        attemptErrors: stepResult.attemptErrors,
+        error: stepResult.failure.message,
+        response: context.record ? this.errorResponse(stepResult.failure) : undefined,
+      });
+      this.emit(context, {
+        type: 'step_failed', ...event, error: stepResult.failure.message, attempts: stepResult.attempts,
+      });
+      throw stepResult.failure;
+    }
+
+    context.steps[step.id] = stepResult.output;
+    await this.runStore(context).recordStep(context.executionId, {
+      ...record,
+      status: stepResult.error ? 'SKIPPED' : 'COMPLETED',
+      params,
+      output: stepResult.output,
+      cost: stepResult.cost,
+      attempts: stepResult.attempts,
+      attemptErrors: stepResult.attemptErrors,
+      error: stepResult.error,
+      response: context.record ? stepResult.response : undefined,
+    });
+    this.emit(context, {
+      type: 'step_completed',
+      ...event,
+      status: stepResult.error ? 'skipped' : 'completed',
+      outputPreview: this.previewOutput(stepResult.output),
+      cost: stepResult.cost,
+      attempts: stepResult.attempts,
+      durationMs: Date.now() - startedAt.getTime(),
+    });
+    
+    if (stepResult.costs) {
+      context.costs.push(...stepResult.costs);
+    } else if (stepResult.cost > 0) {
+      context.costs.push({
+        stepId: step.id,
+        cost: stepResult.cost,
+        tool: step.tool ? `${step.tool.server}.${step.tool.function}` : undefined,
+      });
+    }
+  }
+
+  /**
+   * Store an approval request and stop the run. Steps already running
+   * finish; nothing new is started.
+   */
+  private async requestApproval(
+    step: WorkflowStep,
+    context: WorkflowExecutionContext,
+    params: Record<string, any>
+  ): Promise<never> {
+    let approvalId: string;
+    try {
+      if ((context.callStack || []).length > 1) {
+        throw new Error('approval steps cannot run inside a sub-workflow');
+      }
+      ({ id: approvalId } = await workflowApprovalService.request(context, step, params));
+    } catch (error: any) {
+      const message = `Approval of step ${step.id} could not be requested: ${error.message}`;
+      this.emit(context, {
+        type: 'step_failed', stepId: step.id, path: this.stepPath(step.id, context), error: message, attempts: 1,
+      });
+      throw new Error(message);
+    }
+
+    console.log(`    ✋ Waiting for approval (${approvalId})`);
+    throw new ApprovalPendingError(approvalId, step.id);
+  }
+
+  /**
+   * Decide whether a step was pruned by branching.
+   * Branch targets run only if some controlling condition selected them;
+   * other steps are skipped once every one of their dependencies was skipped.
+   */
+  private getSkipReason(
+    step: WorkflowStep,
+    steps: WorkflowStep[],
+    context: WorkflowExecutionContext
+  ): string | null {
+    const controllers = getBranchControllers(step.id, steps);
+
+    if (controllers.length > 0) {
+      const selected = controllers.some(c => {
+        const output = context.steps[c.id] as ConditionStepOutput | SkippedStepOutput | undefined;
+        return !!output && !this.isSkipped(output) &&
+          (output as ConditionStepOutput).stepsExecuted.includes(step.id);
+      });
+
+      if (!selected) {
+        return `branch not taken by ${controllers.map(c => c.id).join(', ')}`;
+      }
+      return null;
+    }
+
+    const deps = step.dependsOn || [];
+    if (deps.length > 0 && deps.every(dep => this.isSkipped(context.steps[dep]))) {
+      return `all dependencies skipped (${deps.join(', ')})`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Send a progress event to the listener, if any. Listener errors
+   * (e.g. a closed stream) never affect the run.
+   */
+  private emit(context: WorkflowExecutionContext, event: WorkflowEventInit): void {
+    if (!context.onEvent) return;
+    try {
+      context.onEvent({ ...event, executionId: context.executionId, timestamp: new Date().toISOString() } as WorkflowEvent);
+    } catch (error: any) {
+      console.warn(`⚠️ Workflow event listener failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Truncated JSON of a step output for progress events
+   */
+  private previewOutput(output: any): string | undefined {
+    if (output === undefined) return undefined;
+    const json = JSON.stringify(output) ?? String(output);
+    return json.length > OUTPUT_PREVIEW_LENGTH ? `${json.slice(0, OUTPUT_PREVIEW_LENGTH)}…` : json;
+  }
+
+  /**
+   * Where run and step results go: the run store, or nowhere for dry runs
+   */
+  private runStore(context: WorkflowExecutionContext): Pick<WorkflowRunStore, 'startRun' | 'recordStep' | 'finishRun'> {
+    return context.dryRun ? DRY_RUN_STORE : workflowRunStore;
+  }
+
+  /**
+   * Status and body of the HTTP response a step failed with, if any
+   */
+  private errorResponse(error: any): { status: number; data?: any } | undefined {
+    if (error?.response?.status === undefined) return undefined;
+    return { status: error.response.status, data: error.response.data };
+  }
+
+  /**
+   * Key of a step's record: its ID, prefixed by enclosing loop iterations
+   */
+  private stepPath(stepId: string, context: WorkflowExecutionContext): string {
+    return context.path ? `${context.path}.${stepId}` : stepId;
+  }
+
+  /**
+   * Check whether a step output is a skip marker
+   */
+  private isSkipped(output: any): output is SkippedStepOutput {
+    return !!output && typeof output === 'object' && output.skipped === true;
+  }
+
+  /**
+   * Execute a single step, retrying transient failures per its retry policy.
+   * 4xx and 402 responses fail immediately: retrying cannot fix them and
+   * a paid tool would charge again.
    */
   private async executeStep(
     step: WorkflowStep,
+    workflow: WorkflowDefinition,
     context: WorkflowExecutionContext
-  ): Promise<{ output: any; cost: number }> {
-    let retries = step.retries || 0;
+  ): Promise<StepOutcome> {
+    const policy = resolveRetryPolicy(step);
+    let attempts = 0;
     let lastError: Error | null = null;
+    const attemptErrors: string[] = [];
 
-    while (retries >= 0) {
+    while (attempts <= policy.max) {
+      attempts++;
       try {
-        switch (step.type) {
-          case 'mcp_tool':
-            return await this.executeMCPTool(step, context);
-          case 'ai_decision':
-            return await this.executeAIDecision(step, context);
-          case 'transform':
-            return this.executeTransform(step, context);
-          case 'condition':
-            return await this.executeCondition(step, context);
-          case 'loop':
-            return await this.executeLoop(step, context);
-          default:
-            throw new Error(`Unknown step type: ${step.type}`);
-        }
+        const result = await this.dispatchStep(step, workflow, context);
+        return { ...result, attempts, attemptErrors };
       } catch (error: any) {
         lastError = error;
-        retries--;
-        
-        if (retries >= 0) {
-          console.log(`  ⚠️ Retrying step ${step.id}...`);
-          await new Promise(r => setTimeout(r, 1000));
+        attemptErrors.push(error.message);
+
+        const errorClass = classifyError(error);
+        if (attempts > policy.max || !isRetryable(errorClass, policy)) {
+          if (attempts <= policy.max) {
+            console.log(`  ⛔ Not retrying step ${step.id} (${errorClass} error)`);
+          }
+          break;
         }
+
+        // Fixtures answer the same way every time; there is nothing to wait for
+        const delayMs = context.dryRun ? 0 : getRetryDelay(policy, attempts, error);
+        console.log(`  ⚠️ Retrying step ${step.id} in ${delayMs}ms (${errorClass} error)...`);
+        this.emit(context, {
+          type: 'step_retry',
+          stepId: step.id,
+          path: this.stepPath(step.id, context),
+          attempt: attempts,
+          error: error.message,
+          delayMs,
+        });
+        await new Promise(r => setTimeout(r, delayMs));
       }
     }
 
     // Handle error based on onError setting
     if (step.onError === 'skip') {
       console.log(`  ⏭️ Skipping failed step: ${step.id}`);
-      return { output: null, cost: 0 };
+      return {
+        output: null,
+        cost: 0,
+        response: this.errorResponse(lastError),
+        attempts,
+        attemptErrors,
+        error: lastError?.message,
+      };
+    }
+
+    return {
+      output: null,
+      cost: 0,
+      attempts,
+      attemptErrors,
+      failure: lastError || new Error(`Step ${step.id} failed`),
+    };
+  }
+
+  /**
+   * Run a step once with the executor for its type
+   */
+  private async dispatchStep(
+    step: WorkflowStep,
+    workflow: WorkflowDefinition,
+    context: WorkflowExecutionContext
+  ): Promise<StepResult> {
+    if (context.dryRun && FIXTURE_STEP_TYPES.has(step.type)) {
+      return this.serveFixture(step, context);
+    }
+
+    switch (step.type) {
+      case 'mcp_tool':
+        return this.executeMCPTool(step, context);
+      case 'ai_decision':
+        return this.executeAIDecision(step, context);
+      case 'transform':
+        return this.executeTransform(step, context);
+      case 'condition':
+        return this.executeCondition(step, context);
+      case 'loop':
+        return this.executeLoop(step, workflow, context);
+      case 'workflow':
+        return this.executeSubWorkflow(step, context);
+      default:
+        throw new Error(`Unknown step type: ${step.type}`);
+    }
+  }
+
+  /**
+   * Serve a dry-run step from its fixture. Without one, approval steps are
+   * approved as requested and sub-workflows run dry themselves; tool and
+   * AI steps fail, since a dry run never calls them.
+   */
+  private async serveFixture(
+    step: WorkflowStep,
+    context: WorkflowExecutionContext
+  ): Promise<StepResult> {
+    const fixture = findFixture(context.dryRun!.fixtures, this.stepPath(step.id, context), step.id);
+
+    if (fixture) {
+      console.log(`    🧪 Serving fixture for ${step.id}`);
+      if (fixture.error !== undefined) {
+        throw new StepFixtureError(fixture.error, fixture.status);
+      }
+      return { output: fixture.output ?? null, cost: 0 };
     }
 
-    throw lastError || new Error(`Step ${step.id} failed`);
+    switch (step.type) {
+      case 'approval': {
+        const output: ApprovalStepOutput = {
+          approved: true,
+          data: this.resolveStepParams(step, context)?.data,
+          edited: false,
+          decidedAt: new Date().toISOString(),
+        };
+        return { output, cost: 0 };
+      }
+      case 'workflow':
+        return this.executeSubWorkflow(step, context);
+      default:
+        throw new StepFixtureError(`No fixture for step ${step.id} (dry runs never call tools or models)`);
+    }
   }
 
   /**
@@ -173,12 +732,7 @@ export class WorkflowExecutor {
     const tool = step.tool!;
     
     // Resolve template parameters
-    const params: Record<string, any> = {};
-    for (const [key, value] of Object.entries(tool.params || {})) {
-      params[key] = typeof value === 'string' 
-        ? this.resolveTemplate(value, context)
-        : value;
-    }
+    const params = this.resolveStepParams(step, context);
 
     // Map server to endpoint
     const serverPaths: Record<string, string> = {
@@ -194,11 +748,11 @@ export class WorkflowExecutor {
     console.log(`    🔧 Calling ${tool.server}.${tool.function}`);
 
     const response = await axios.post(endpoint, params, {
-      timeout: 30000,
+      timeout: step.timeoutMs || DEFAULT_STEP_TIMEOUT_MS,
       headers: { 'Content-Type': 'application/json' },
     });
 
-    const cost = response.data.meta?.cost || step.estimatedCost || 0.02;
+    const cost = response.data.meta?.cost || step.estimatedCost || DEFAULT_TOOL_COST;
     
     return { 
       output: response.data, 
@@ -207,27 +761,42 @@ export class WorkflowExecutor {
   }
 
   /**
-   * Execute AI decision node
+   * Execute AI decision node on the provider for ai.model, charging the
+   * tokens used (including any repair attempts)
    */
   private async executeAIDecision(
     step: WorkflowStep,
     context: WorkflowExecutionContext
-  ): Promise<{ output: any; cost: number }> {
+  ): Promise<StepResult> {
     const ai = step.ai!;
-    
-    // Resolve template in prompt
-    const prompt = this.resolveTemplate(ai.prompt, context);
+    const { prompt, system } = this.resolveStepParams(step, context)!;
+    const timeoutMs = step.timeoutMs || DEFAULT_STEP_TIMEOUT_MS;
 
     console.log(`    🧠 AI decision: ${prompt.substring(0, 50)}...`);
 
-    // Use Perplexity (free) for AI decisions
-    const response = await this.perplexity.search(prompt, 'Make a decision or generate content');
+    const result = await withTimeout(
+      llmService.generate({
+        model: ai.model,
+        system,
+        prompt,
+        temperature: ai.temperature,
+        maxTokens: ai.maxTokens,
+        json: ai.outputFormat === 'json',
+        schema: ai.schema,
+        maxRepairs: ai.maxRepairs,
+        timeoutMs,
+      }),
+      timeoutMs,
+      step.id
+    );
 
     return {
-      output: ai.outputFormat === 'json' 
-        ? this.tryParseJSON(response.answer)
-        : response.answer,
-      cost: 0.02, // Perplexity cost
+      output: result.output,
+      cost: result.cost,
+      costs: result.cost > 0
+        ? [{ stepId: step.id, cost: result.cost, model: result.model, tokens: result.usage }]
+        : [],
+      response: { model: result.model, text: result.text, usage: result.usage, attempts: result.attempts },
     };
   }
 
@@ -243,10 +812,8 @@ export class WorkflowExecutor {
     // Get input value
     const inputValue = this.resolveTemplate(transform.input, context);
     
-    // Execute expression (simple JavaScript evaluation)
-    // WARNING: In production, use a sandboxed evaluator
-    const fn = new Function('input', 'steps', `return ${transform.expression}`);
-    const output = fn(inputValue, context.steps);
+    // Evaluate in the sandboxed expression language
+    const output = evaluateExpression(transform.expression, this.expressionScope(context, inputValue));
 
     return { output, cost: 0 };
   }
@@ -261,25 +828,31 @@ export class WorkflowExecutor {
     const condition = step.condition!;
     
     // Evaluate condition
-    const fn = new Function('input', 'steps', `return ${condition.if}`);
-    const result = fn(context.input, context.steps);
+    const result = !!evaluateExpression(condition.if, this.expressionScope(context, context.input));
 
     const stepsToExecute = result ? condition.then : (condition.else || []);
+    const stepsToSkip = result ? (condition.else || []) : condition.then;
     
     console.log(`    🔀 Condition: ${result ? 'then' : 'else'} branch`);
 
-    // Note: In a full implementation, we'd recursively execute these steps
-    return {
-      output: { branch: result ? 'then' : 'else', stepsExecuted: stepsToExecute },
-      cost: 0,
+    // Branch targets are scheduled after this step; runSteps skips the untaken ones
+    const output: ConditionStepOutput = {
+      branch: result ? 'then' : 'else',
+      stepsExecuted: stepsToExecute,
+      stepsSkipped: stepsToSkip.filter(id => !stepsToExecute.includes(id)),
     };
+
+    return { output, cost: 0 };
   }
 
   /**
-   * Execute loop step
+   * Execute loop step: run the body steps once per item.
+   * Body costs are added to context.costs in iteration order, so the
+   * loop step itself reports no cost of its own.
    */
   private async executeLoop(
     step: WorkflowStep,
+    workflow: WorkflowDefinition,
     context: WorkflowExecutionContext
   ): Promise<{ output: any; cost: number }> {
     const loop = step.loop!;
@@ -291,21 +864,196 @@ export class WorkflowExecutor {
       throw new Error(`Loop over must be an array, got: ${typeof items}`);
     }
 
-    console.log(`    🔁 Looping over ${items.length} items`);
+    const maxIterations = loop.maxIterations ?? items.length;
+    const selected = items.slice(0, maxIterations);
+    if (selected.length < items.length) {
+      console.log(`    ⚠️ Loop capped at ${maxIterations} of ${items.length} items`);
+    }
+
+    const concurrency = loop.concurrency || 1;
+    console.log(`    🔁 Looping over ${selected.length} items (concurrency ${concurrency})`);
 
-    const results: any[] = [];
-    let totalCost = 0;
+    // Costs per iteration, kept even when an iteration fails part-way
+    const iterationCosts: WorkflowExecutionContext['costs'][] = selected.map(() => []);
+
+    try {
+      const output = await mapWithConcurrency(selected, concurrency, async (item, index) => {
+        const iterationContext: WorkflowExecutionContext = {
+          ...context,
+          steps: { ...context.steps },
+          vars: { ...context.vars, index, [loop.as]: item },
+          loop: { stepId: step.id, iteration: index },
+          path: `${this.stepPath(step.id, context)}[${index}]`,
+          costs: iterationCosts[index],
+        };
 
-    // Note: In a full implementation, we'd execute loop.steps for each item
-    for (const item of items) {
-      results.push({ item, processed: true });
+        await this.runSteps(workflow, loop.steps, iterationContext);
+
+        const iteration: LoopIterationOutput = {
+          item,
+          index,
+          steps: Object.fromEntries(loop.steps.map(id => [id, iterationContext.steps[id]])),
+        };
+        return iteration;
+      });
+
+      return { output, cost: 0 };
+    } finally {
+      iterationCosts.forEach((costs, index) => {
+        for (const cost of costs) {
+          context.costs.push({
+            ...cost,
+            loopStepId: cost.loopStepId ?? step.id,
+            iteration: cost.iteration ?? index,
+          });
+        }
+      });
+    }
+  }
+
+  /**
+   * Execute another registered workflow as a step. It is charged like any
+   * caller would be; its step costs are reported under this step's ID
+   * ("enrich.lookup") and its creators' payouts are passed up. If the
+   * child fails, what its steps spent is still added to context.costs.
+   */
+  private async executeSubWorkflow(
+    step: WorkflowStep,
+    context: WorkflowExecutionContext
+  ): Promise<{ output: any; cost: number; costs: StepCost[] }> {
+    const call = step.workflow!;
+    const ref = call.version ? `${call.name}@${call.version}` : call.name;
+    const child = workflowMCPGenerator.getWorkflow(ref);
+
+    if (!child) {
+      throw new Error(`Sub-workflow not found: ${ref}`);
+    }
+
+    const callStack = context.callStack || [];
+    if (callStack.includes(child.name)) {
+      throw new Error(`Recursive workflow call: ${[...callStack, child.name].join(' → ')}`);
     }
 
-    return { output: results, cost: totalCost };
+    // The child may spend what is left of this run's budget
+    const budget = context.budget;
+    const maxCostUsd = budget
+      ? budget.limitUsd - budget.spentUsd - budget.reservedUsd +
+        workflowCostEstimator.getUnitCost(step, budget.toolCosts).unitCost
+      : undefined;
+
+    console.log(`    🧩 Running sub-workflow ${child.name}@${child.version}`);
+
+    const result = await this.execute(child, this.resolveStepParams(step, context) || {}, context.userId, {
+      callStack,
+      maxCostUsd,
+      dryRun: context.dryRun && { fixtures: childFixtures(context.dryRun.fixtures, step.id) },
+      record: context.record,
+    });
+
+    const workflowRef = `${child.name}@${child.version}`;
+    const costs: StepCost[] = result.stepCosts.map(c => ({
+      stepId: `${step.id}.${c.stepId}`,
+      cost: c.cost,
+      workflow: c.workflow || workflowRef,
+      model: c.model,
+      tokens: c.tokens,
+    }));
+
+    if (!result.success) {
+      context.costs.push(...costs);
+      throw new Error(`Sub-workflow ${workflowRef} failed: ${result.output?.error}`);
+    }
+
+    // The child's base price above its step costs
+    const priceFloor = result.totalCost - costs.reduce((sum, c) => sum + c.cost, 0);
+    if (priceFloor > 1e-9) {
+      costs.push({ stepId: step.id, cost: priceFloor, workflow: workflowRef });
+    }
+
+    context.payouts?.push(...result.payouts);
+
+    return { output: result.output, cost: result.totalCost, costs };
   }
 
   /**
-   * Resolve template variables like {{input.x}} and {{steps.y.z}}
+   * Combine payouts to the same creator for the same workflow
+   */
+  private mergePayouts(payouts: WorkflowPayout[]): WorkflowPayout[] {
+    const merged = new Map<string, WorkflowPayout>();
+    for (const payout of payouts) {
+      const key = `${payout.workflow} ${payout.address}`;
+      const existing = merged.get(key);
+      if (existing) existing.amount += payout.amount;
+      else merged.set(key, { ...payout });
+    }
+    return [...merged.values()];
+  }
+
+  private toStepCosts(costs: StepCost[]): WorkflowExecutionResult['stepCosts'] {
+    return costs.map(c => ({
+      stepId: c.stepId,
+      cost: c.cost,
+      iteration: c.iteration,
+      workflow: c.workflow,
+      model: c.model,
+      tokens: c.tokens,
+    }));
+  }
+
+  /**
+   * Resolve the templated inputs of a step: tool params, the AI prompt,
+   * the transform input, sub-workflow inputs or what an approver reviews.
+   * Recorded with each step result for inspection.
+   */
+  private resolveStepParams(step: WorkflowStep, context: WorkflowExecutionContext): Record<string, any> | undefined {
+    switch (step.type) {
+      case 'mcp_tool': {
+        const params: Record<string, any> = {};
+        for (const [key, value] of Object.entries(step.tool!.params || {})) {
+          params[key] = typeof value === 'string' 
+            ? this.resolveTemplate(value, context)
+            : value;
+        }
+        return params;
+      }
+      case 'ai_decision':
+        return {
+          prompt: this.resolveTemplate(step.ai!.prompt, context),
+          system: step.ai!.system === undefined ? undefined : this.resolveTemplate(step.ai!.system, context),
+          model: step.ai!.model,
+        };
+      case 'transform':
+        return { input: this.resolveTemplate(step.transform!.input, context) };
+      case 'workflow': {
+        const inputs: Record<string, any> = {};
+        for (const [key, value] of Object.entries(step.workflow!.inputs || {})) {
+          inputs[key] = this.resolveTemplate(value, context);
+        }
+        return inputs;
+      }
+      case 'approval': {
+        const { message, data } = step.approval || {};
+        return {
+          message: message === undefined ? undefined : this.resolveTemplate(message, context),
+          data: data && typeof data === 'object' && !Array.isArray(data)
+            ? Object.fromEntries(Object.entries(data).map(([key, value]) => [key, this.resolveTemplate(value, context)]))
+            : this.resolveTemplate(data, context),
+        };
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Names visible to transform and condition expressions
+   */
+  private expressionScope(context: WorkflowExecutionContext, input: any): Record<string, any> {
+    return { ...context.vars, input, steps: context.steps };
+  }
+
+  /**
+   * Resolve template variables like {{input.x}}, {{steps.y.z}} and loop vars ({{item.name}})
    */
   private resolveTemplate(template: string | any, context: WorkflowExecutionContext): any {
     if (typeof template !== 'string') return template;
@@ -318,6 +1066,7 @@ export class WorkflowExecutor {
       
       if (root === 'input') value = context.input;
       else if (root === 'steps') value = context.steps;
+      else if (context.vars && Object.prototype.hasOwnProperty.call(context.vars, root)) value = context.vars[root];
       else return template;
 
       if (path) {
@@ -334,6 +1083,7 @@ export class WorkflowExecutor {
       
       if (root === 'input') value = context.input;
       else if (root === 'steps') value = context.steps;
+      else if (context.vars && Object.prototype.hasOwnProperty.call(context.vars, root)) value = context.vars[root];
       else return _;
 
       if (path) {
@@ -347,64 +1097,62 @@ export class WorkflowExecutor {
   }
 
   /**
-   * Validate required inputs
+   * Validate inputs against their schemas (coercing strings and filling defaults)
    */
   private validateInputs(workflow: WorkflowDefinition, inputs: Record<string, any>): void {
-    for (const input of workflow.inputs) {
-      if (input.required && !(input.name in inputs)) {
-        if (input.default !== undefined) {
-          inputs[input.name] = input.default;
-        } else {
-          throw new Error(`Missing required input: ${input.name}`);
-        }
-      }
+    const { value, errors } = validateSchema(inputs, inputsToSchema(workflow.inputs), {
+      coerce: true,
+      applyDefaults: true,
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid inputs:\n${formatSchemaErrors(errors, 'input')}`);
+    }
+
+    // Write back in place: context.input is the same object
+    Object.assign(inputs, value);
+  }
+
+  /**
+   * Check the final output against output.schema, before the run is billed
+   */
+  private validateOutput(workflow: WorkflowDefinition, output: any): void {
+    if (!workflow.output.schema) return;
+
+    const { errors } = validateSchema(output, workflow.output.schema);
+    if (errors.length > 0) {
+      throw new Error(`Output does not match schema:\n${formatSchemaErrors(errors, 'output')}`);
     }
   }
 
   /**
-   * Build topological execution order
+   * Build topological execution order for a subset of steps.
+   * Condition steps are ordered before their branch targets.
    */
-  private buildExecutionOrder(steps: WorkflowStep[]): string[] {
+  private buildExecutionOrder(steps: WorkflowStep[], stepIds: string[]): string[] {
     const order: string[] = [];
     const visited = new Set<string>();
+    const scope = new Set(stepIds);
 
     const visit = (stepId: string) => {
-      if (visited.has(stepId)) return;
+      if (visited.has(stepId) || !scope.has(stepId)) return;
       visited.add(stepId);
 
       const step = steps.find(s => s.id === stepId);
       if (!step) return;
 
-      for (const dep of step.dependsOn || []) {
+      for (const dep of getStepDependencies(step, steps)) {
         visit(dep);
       }
       order.push(stepId);
     };
 
-    for (const step of steps) {
-      visit(step.id);
+    for (const stepId of stepIds) {
+      visit(stepId);
     }
 
     return order;
   }
-
-  /**
-   * Try to parse JSON from text
-   */
-  private tryParseJSON(text: string): any {
-    try {
-      return JSON.parse(text);
-    } catch {
-      // Try to find JSON in the text
-      const match = text.match(/\{[\s\S]*\}/);
-      if (match) {
-        try {
-          return JSON.parse(match[0]);
-        } catch {}
-      }
-      return text;
-    }
-  }
 }
 
 export const workflowExecutor = new WorkflowExecutor();
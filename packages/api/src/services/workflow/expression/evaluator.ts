@@ -0,0 +1,256 @@
+/**
+ * Expression Evaluator
+ *
+ * Walks a parsed AST against a read-only scope. Property reads only see own
+ * properties of plain data (objects, arrays, strings), reads through
+ * null/undefined yield undefined, and every evaluation is bounded by a
+ * step and time budget.
+ */
+
+import {
+  ExpressionNode,
+  ExpressionError,
+  ExpressionLimits,
+  DEFAULT_EXPRESSION_LIMITS,
+  FORBIDDEN_PROPERTIES,
+} from './types';
+import { HELPER_FUNCTIONS, ARRAY_METHODS, STRING_METHODS, HelperContext, typeName } from './helpers';
+
+// Arrow callbacks only exist inside the evaluator and are never returned
+class Lambda {
+  constructor(
+    readonly params: string[],
+    readonly body: ExpressionNode,
+    readonly scope: Record<string, any>
+  ) {}
+}
+
+class Evaluator {
+  private steps = 0;
+  private deadline: number;
+
+  constructor(private limits: ExpressionLimits) {
+    this.deadline = Date.now() + limits.timeoutMs;
+  }
+
+  evaluate(node: ExpressionNode, scope: Record<string, any>): any {
+    this.tick(node);
+
+    switch (node.type) {
+      case 'Literal':
+        return node.value;
+
+      case 'Identifier':
+        if (!Object.prototype.hasOwnProperty.call(scope, node.name)) {
+          throw new ExpressionError(`Unknown identifier '${node.name}'`, node.position);
+        }
+        return scope[node.name];
+
+      case 'Member': {
+        const object = this.evaluate(node.object, scope);
+        const key = this.evaluate(node.property, scope);
+        return this.readProperty(object, key, node.position);
+      }
+
+      case 'Call':
+        return this.evaluateCall(node, scope);
+
+      case 'Unary': {
+        const value = this.evaluate(node.argument, scope);
+        if (node.operator === '!') return !value;
+        const n = this.expectNumber(value, node.operator, node.position);
+        return node.operator === '-' ? -n : n;
+      }
+
+      case 'Binary':
+        return this.evaluateBinary(node, scope);
+
+      case 'Conditional':
+        return this.evaluate(node.test, scope)
+          ? this.evaluate(node.consequent, scope)
+          : this.evaluate(node.alternate, scope);
+
+      case 'Array':
+        return node.elements.map(element => this.evaluate(element, scope));
+
+      case 'Object': {
+        const result: Record<string, any> = {};
+        for (const { key, value } of node.properties) {
+          result[key] = this.evaluate(value, scope);
+        }
+        return result;
+      }
+
+      case 'Arrow':
+        return new Lambda(node.params, node.body, scope);
+    }
+  }
+
+  private evaluateCall(node: Extract<ExpressionNode, { type: 'Call' }>, scope: Record<string, any>): any {
+    const ctx: HelperContext = {
+      position: node.position,
+      invoke: (fn, args) => this.invoke(fn, args, node.position),
+    };
+
+    // Global helper: pick(...), len(...)
+    if (node.callee.type === 'Identifier') {
+      const args = node.args.map(arg => this.evaluate(arg, scope));
+      return HELPER_FUNCTIONS[node.callee.name](args, ctx);
+    }
+
+    // Method: list.map(...), name.toLowerCase()
+    const callee = node.callee as Extract<ExpressionNode, { type: 'Member' }>;
+    const target = this.evaluate(callee.object, scope);
+    const method = (callee.property as { value: string }).value;
+
+    if ((target === null || target === undefined) && (node.optional || callee.optional)) {
+      return undefined;
+    }
+
+    const args = node.args.map(arg => this.evaluate(arg, scope));
+
+    const hasOwn = Object.prototype.hasOwnProperty;
+    if (Array.isArray(target) && hasOwn.call(ARRAY_METHODS, method)) {
+      return ARRAY_METHODS[method](target, args, ctx);
+    }
+    if (typeof target === 'string' && hasOwn.call(STRING_METHODS, method)) {
+      return STRING_METHODS[method](target, args, ctx);
+    }
+
+    throw new ExpressionError(`Cannot call ${method}() on ${typeName(target)}`, node.position);
+  }
+
+  private evaluateBinary(node: Extract<ExpressionNode, { type: 'Binary' }>, scope: Record<string, any>): any {
+    const { operator, position } = node;
+
+    // Short-circuit operators
+    if (operator === '&&') {
+      const left = this.evaluate(node.left, scope);
+      return left ? this.evaluate(node.right, scope) : left;
+    }
+    if (operator === '||') {
+      const left = this.evaluate(node.left, scope);
+      return left ? left : this.evaluate(node.right, scope);
+    }
+    if (operator === '??') {
+      const left = this.evaluate(node.left, scope);
+      return left ?? this.evaluate(node.right, scope);
+    }
+
+    const left = this.evaluate(node.left, scope);
+    const right = this.evaluate(node.right, scope);
+
+    switch (operator) {
+      // Equality is always strict
+      case '==':
+      case '===':
+        return left === right;
+      case '!=':
+      case '!==':
+        return left !== right;
+
+      case '+':
+        if (typeof left === 'string' || typeof right === 'string') {
+          return this.toText(left) + this.toText(right);
+        }
+        return this.expectNumber(left, '+', position) + this.expectNumber(right, '+', position);
+      case '-':
+        return this.expectNumber(left, '-', position) - this.expectNumber(right, '-', position);
+      case '*':
+        return this.expectNumber(left, '*', position) * this.expectNumber(right, '*', position);
+      case '/':
+        return this.expectNumber(left, '/', position) / this.expectNumber(right, '/', position);
+      case '%':
+        return this.expectNumber(left, '%', position) % this.expectNumber(right, '%', position);
+
+      case '<':
+      case '<=':
+      case '>':
+      case '>=': {
+        if (!((typeof left === 'number' && typeof right === 'number') ||
+              (typeof left === 'string' && typeof right === 'string'))) {
+          throw new ExpressionError(`Cannot compare ${typeName(left)} ${operator} ${typeName(right)}`, position);
+        }
+        if (operator === '<') return left < right;
+        if (operator === '<=') return left <= right;
+        if (operator === '>') return left > right;
+        return left >= right;
+      }
+
+      default:
+        throw new ExpressionError(`Unknown operator '${operator}'`, position);
+    }
+  }
+
+  private invoke(fn: unknown, args: any[], position: number): any {
+    if (!(fn instanceof Lambda)) {
+      throw new ExpressionError(`Expected a callback such as x => ..., got ${typeName(fn)}`, position);
+    }
+    const scope = Object.assign(Object.create(null), fn.scope);
+    fn.params.forEach((param, i) => {
+      scope[param] = args[i];
+    });
+    return this.evaluate(fn.body, scope);
+  }
+
+  private readProperty(object: any, key: any, position: number): any {
+    if (object === null || object === undefined) return undefined;
+
+    if (typeof key !== 'string' && typeof key !== 'number') {
+      throw new ExpressionError(`Invalid property key of type ${typeName(key)}`, position);
+    }
+    const name = String(key);
+    if (FORBIDDEN_PROPERTIES.has(name)) {
+      throw new ExpressionError(`Access to '${name}' is not allowed`, position);
+    }
+
+    if (typeof object === 'string' || Array.isArray(object)) {
+      if (name === 'length') return object.length;
+      return /^\d+$/.test(name) ? object[Number(name)] : undefined;
+    }
+    if (typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, name)) {
+      return object[name];
+    }
+    return undefined;
+  }
+
+  private expectNumber(value: any, operator: string, position: number): number {
+    if (typeof value !== 'number') {
+      throw new ExpressionError(`Operator '${operator}' expects numbers, got ${typeName(value)}`, position);
+    }
+    return value;
+  }
+
+  private toText(value: any): string {
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private tick(node: ExpressionNode): void {
+    this.steps++;
+    if (this.steps > this.limits.maxSteps) {
+      throw new ExpressionError(`Expression exceeded ${this.limits.maxSteps} evaluation steps`, node.position);
+    }
+    if (this.steps % 1000 === 0 && Date.now() > this.deadline) {
+      throw new ExpressionError(`Expression exceeded ${this.limits.timeoutMs}ms time budget`, node.position);
+    }
+  }
+}
+
+/**
+ * Evaluate a parsed expression against a scope of named values
+ */
+export function evaluateAST(
+  ast: ExpressionNode,
+  scope: Record<string, any>,
+  limits: Partial<ExpressionLimits> = {}
+): any {
+  const evaluator = new Evaluator({ ...DEFAULT_EXPRESSION_LIMITS, ...limits });
+  const root = Object.assign(Object.create(null), scope);
+  const result = evaluator.evaluate(ast, root);
+
+  if (result instanceof Lambda) {
+    throw new ExpressionError('Expression must produce a value, not a callback', ast.position);
+  }
+  return result;
+}
@@ -0,0 +1,195 @@
+/**
+ * Expression Helpers
+ *
+ * The only functions an expression can call: global helpers such as
+ * `pick(leads, 'name', 'email')` and methods on arrays and strings such as
+ * `leads.filter(l => l.score > 70)` or `name.toLowerCase()`.
+ * Every helper is pure and never mutates its arguments.
+ */
+
+import { ExpressionError, FORBIDDEN_PROPERTIES } from './types';
+
+export interface HelperContext {
+  position: number;
+  invoke: (fn: unknown, args: any[]) => any;  // Call an arrow callback
+}
+
+type Helper = (args: any[], ctx: HelperContext) => any;
+type Method<T> = (target: T, args: any[], ctx: HelperContext) => any;
+
+const MAX_PAD_LENGTH = 10_000;
+
+export function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectArray(value: unknown, name: string, ctx: HelperContext): any[] {
+  if (!Array.isArray(value)) {
+    throw new ExpressionError(`${name}() expects an array, got ${typeName(value)}`, ctx.position);
+  }
+  return value;
+}
+
+function expectString(value: unknown, name: string, ctx: HelperContext): string {
+  if (typeof value !== 'string') {
+    throw new ExpressionError(`${name}() expects a string, got ${typeName(value)}`, ctx.position);
+  }
+  return value;
+}
+
+function expectNumbers(values: unknown[], name: string, ctx: HelperContext): number[] {
+  for (const value of values) {
+    if (typeof value !== 'number') {
+      throw new ExpressionError(`${name}() expects numbers, got ${typeName(value)}`, ctx.position);
+    }
+  }
+  return values as number[];
+}
+
+function pickKeys(value: unknown, keys: string[]): any {
+  if (!isPlainObject(value)) return value;
+  const picked: Record<string, any> = {};
+  for (const key of keys) {
+    if (!FORBIDDEN_PROPERTIES.has(key) && Object.prototype.hasOwnProperty.call(value, key)) {
+      picked[key] = value[key];
+    }
+  }
+  return picked;
+}
+
+function compare(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  return a < b ? -1 : 1;
+}
+
+// ============================================
+// GLOBAL HELPERS
+// ============================================
+
+export const HELPER_FUNCTIONS: Record<string, Helper> = {
+  // Collections
+  len: ([value]) => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    return isPlainObject(value) ? Object.keys(value).length : 0;
+  },
+  keys: ([value]) => (isPlainObject(value) ? Object.keys(value) : []),
+  values: ([value]) => (isPlainObject(value) ? Object.values(value) : []),
+  pick: ([value, ...keys]) => {
+    const names = keys.flat().filter((k: unknown) => typeof k === 'string');
+    return Array.isArray(value) ? value.map(item => pickKeys(item, names)) : pickKeys(value, names);
+  },
+  map: ([list, fn], ctx) => expectArray(list, 'map', ctx).map((item, i) => ctx.invoke(fn, [item, i])),
+  filter: ([list, fn], ctx) => expectArray(list, 'filter', ctx).filter((item, i) => ctx.invoke(fn, [item, i])),
+  find: ([list, fn], ctx) => expectArray(list, 'find', ctx).find((item, i) => ctx.invoke(fn, [item, i])),
+  some: ([list, fn], ctx) => expectArray(list, 'some', ctx).some((item, i) => ctx.invoke(fn, [item, i])),
+  every: ([list, fn], ctx) => expectArray(list, 'every', ctx).every((item, i) => ctx.invoke(fn, [item, i])),
+  sort: ([list, key], ctx) => {
+    const copy = [...expectArray(list, 'sort', ctx)];
+    const keyOf = (item: any) => (typeof key === 'string' && isPlainObject(item) ? item[key] : item);
+    return copy.sort((a, b) => compare(keyOf(a), keyOf(b)));
+  },
+  unique: ([list], ctx) => Array.from(new Set(expectArray(list, 'unique', ctx))),
+  flatten: ([list], ctx) => expectArray(list, 'flatten', ctx).flat(),
+  first: ([list], ctx) => expectArray(list, 'first', ctx)[0],
+  last: ([list], ctx) => {
+    const items = expectArray(list, 'last', ctx);
+    return items[items.length - 1];
+  },
+
+  // Math
+  sum: ([list], ctx) => expectNumbers(expectArray(list, 'sum', ctx), 'sum', ctx).reduce((a, b) => a + b, 0),
+  avg: ([list], ctx) => {
+    const numbers = expectNumbers(expectArray(list, 'avg', ctx), 'avg', ctx);
+    return numbers.length ? numbers.reduce((a, b) => a + b, 0) / numbers.length : null;
+  },
+  min: (args, ctx) => Math.min(...expectNumbers(Array.isArray(args[0]) ? args[0] : args, 'min', ctx)),
+  max: (args, ctx) => Math.max(...expectNumbers(Array.isArray(args[0]) ? args[0] : args, 'max', ctx)),
+  round: ([value, digits = 0], ctx) => {
+    const [n, d] = expectNumbers([value, digits], 'round', ctx);
+    const factor = Math.pow(10, d);
+    return Math.round(n * factor) / factor;
+  },
+  floor: ([value], ctx) => Math.floor(expectNumbers([value], 'floor', ctx)[0]),
+  ceil: ([value], ctx) => Math.ceil(expectNumbers([value], 'ceil', ctx)[0]),
+  abs: ([value], ctx) => Math.abs(expectNumbers([value], 'abs', ctx)[0]),
+
+  // Strings
+  lower: ([value], ctx) => expectString(value, 'lower', ctx).toLowerCase(),
+  upper: ([value], ctx) => expectString(value, 'upper', ctx).toUpperCase(),
+  trim: ([value], ctx) => expectString(value, 'trim', ctx).trim(),
+  split: ([value, separator], ctx) => expectString(value, 'split', ctx).split(expectString(separator, 'split', ctx)),
+  join: ([list, separator = ','], ctx) => expectArray(list, 'join', ctx).join(expectString(separator, 'join', ctx)),
+  replace: ([value, search, replacement], ctx) =>
+    expectString(value, 'replace', ctx).split(expectString(search, 'replace', ctx)).join(expectString(replacement, 'replace', ctx)),
+  contains: ([value, search]) => (typeof value === 'string' || Array.isArray(value) ? value.includes(search) : false),
+  startsWith: ([value, search], ctx) => expectString(value, 'startsWith', ctx).startsWith(expectString(search, 'startsWith', ctx)),
+  endsWith: ([value, search], ctx) => expectString(value, 'endsWith', ctx).endsWith(expectString(search, 'endsWith', ctx)),
+  concat: (args) => args.map(arg => (arg === null || arg === undefined ? '' : String(arg))).join(''),
+
+  // Conversion
+  number: ([value]) => {
+    const n = Number(value);
+    return Number.isNaN(n) ? null : n;
+  },
+  string: ([value]) => (value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)),
+  boolean: ([value]) => Boolean(value),
+  json: ([value]) => JSON.stringify(value),
+  parseJson: ([value], ctx) => {
+    try {
+      return JSON.parse(expectString(value, 'parseJson', ctx));
+    } catch (error: any) {
+      if (error instanceof ExpressionError) throw error;
+      throw new ExpressionError(`parseJson() failed: ${error.message}`, ctx.position);
+    }
+  },
+  isArray: ([value]) => Array.isArray(value),
+  typeOf: ([value]) => typeName(value),
+};
+
+// ============================================
+// METHODS
+// ============================================
+
+export const ARRAY_METHODS: Record<string, Method<any[]>> = {
+  map: (list, [fn], ctx) => list.map((item, i) => ctx.invoke(fn, [item, i])),
+  filter: (list, [fn], ctx) => list.filter((item, i) => ctx.invoke(fn, [item, i])),
+  find: (list, [fn], ctx) => list.find((item, i) => ctx.invoke(fn, [item, i])),
+  some: (list, [fn], ctx) => list.some((item, i) => ctx.invoke(fn, [item, i])),
+  every: (list, [fn], ctx) => list.every((item, i) => ctx.invoke(fn, [item, i])),
+  includes: (list, [value]) => list.includes(value),
+  indexOf: (list, [value]) => list.indexOf(value),
+  join: (list, [separator = ','], ctx) => list.join(expectString(separator, 'join', ctx)),
+  slice: (list, [start, end]) => list.slice(start, end),
+  concat: (list, args) => list.concat(...args),
+  reverse: (list) => [...list].reverse(),
+  flat: (list) => list.flat(),
+};
+
+export const STRING_METHODS: Record<string, Method<string>> = {
+  toLowerCase: (value) => value.toLowerCase(),
+  toUpperCase: (value) => value.toUpperCase(),
+  trim: (value) => value.trim(),
+  split: (value, [separator], ctx) => value.split(expectString(separator, 'split', ctx)),
+  includes: (value, [search], ctx) => value.includes(expectString(search, 'includes', ctx)),
+  startsWith: (value, [search], ctx) => value.startsWith(expectString(search, 'startsWith', ctx)),
+  endsWith: (value, [search], ctx) => value.endsWith(expectString(search, 'endsWith', ctx)),
+  indexOf: (value, [search], ctx) => value.indexOf(expectString(search, 'indexOf', ctx)),
+  replace: (value, [search, replacement], ctx) =>
+    value.replace(expectString(search, 'replace', ctx), () => expectString(replacement, 'replace', ctx)),
+  replaceAll: (value, [search, replacement], ctx) =>
+    value.split(expectString(search, 'replaceAll', ctx)).join(expectString(replacement, 'replaceAll', ctx)),
+  slice: (value, [start, end]) => value.slice(start, end),
+  substring: (value, [start, end]) => value.substring(start, end),
+  padStart: (value, [length, fill = ' '], ctx) => value.padStart(Math.min(expectNumbers([length], 'padStart', ctx)[0], MAX_PAD_LENGTH), fill),
+  padEnd: (value, [length, fill = ' '], ctx) => value.padEnd(Math.min(expectNumbers([length], 'padEnd', ctx)[0], MAX_PAD_LENGTH), fill),
+};
+
+export const METHOD_NAMES = new Set([...Object.keys(ARRAY_METHODS), ...Object.keys(STRING_METHODS)]);
@@ -0,0 +1,25 @@
+/**
+ * Workflow Expression Language - Public API
+ *
+ * Side-effect-free expressions for `transform` and `condition` steps, e.g.
+ *   steps.search.leads.filter(l => l.score >= 70).map(l => pick(l, 'name', 'email'))
+ */
+
+import { parseExpression } from './parser';
+import { evaluateAST } from './evaluator';
+import { ExpressionLimits } from './types';
+
+export { parseExpression } from './parser';
+export { evaluateAST } from './evaluator';
+export { ExpressionError, ExpressionNode, ExpressionLimits, DEFAULT_EXPRESSION_LIMITS } from './types';
+
+/**
+ * Parse and evaluate an expression against a scope of named values
+ */
+export function evaluateExpression(
+  source: string,
+  scope: Record<string, any>,
+  limits?: Partial<ExpressionLimits>
+): any {
+  return evaluateAST(parseExpression(source), scope, limits);
+}
@@ -0,0 +1,97 @@
+/**
+ * Expression Lexer
+ *
+ * Splits an expression source string into tokens.
+ */
+
+import { Token, ExpressionError } from './types';
+
+// Longest punctuators first so `===` wins over `==`
+const PUNCTUATORS = [
+  '===', '!==', '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}',
+];
+
+const ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '\\': '\\', "'": "'", '"': '"', '0': '\0',
+};
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // Numbers: 12, 3.5, .5
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[pos + 1] || ''))) {
+      const match = source.slice(pos).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)!;
+      tokens.push({ type: 'number', value: match[0], position: pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    // Strings: '...' or "..."
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\') {
+          const next = source[pos + 1];
+          if (next === undefined) break;
+          // \uXXXX and \xXX, as JSON.stringify writes control characters
+          const digits = next === 'u' ? 4 : next === 'x' ? 2 : 0;
+          if (digits > 0) {
+            const hex = source.slice(pos + 2, pos + 2 + digits);
+            if (hex.length !== digits || !/^[0-9a-fA-F]+$/.test(hex)) {
+              throw new ExpressionError(`Invalid \\${next} escape`, pos);
+            }
+            value += String.fromCharCode(parseInt(hex, 16));
+            pos += 2 + digits;
+            continue;
+          }
+          value += ESCAPES[next] ?? next;
+          pos += 2;
+        } else {
+          value += source[pos++];
+        }
+      }
+      if (source[pos] !== char) {
+        throw new ExpressionError('Unterminated string', start);
+      }
+      pos++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    // Identifiers and keywords
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = source.slice(pos).match(/^[A-Za-z_$][A-Za-z0-9_$]*/)!;
+      tokens.push({ type: 'identifier', value: match[0], position: pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    // Punctuators (`?.` followed by a digit is a ternary, e.g. `a?.5:1`)
+    const punctuator = PUNCTUATORS.find(p =>
+      source.startsWith(p, pos) && !(p === '?.' && /[0-9]/.test(source[pos + 2] || ''))
+    );
+    if (punctuator) {
+      tokens.push({ type: 'punctuator', value: punctuator, position: pos });
+      pos += punctuator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, pos);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
@@ -0,0 +1,354 @@
+/**
+ * Expression Parser
+ *
+ * Recursive-descent parser producing an AST. Supports:
+ * - Literals, arrays and objects
+ * - Property access (`a.b`, `a[0]`, `a?.b`)
+ * - Arithmetic, comparison, logical and `??` operators, ternaries
+ * - Calls to whitelisted helpers and methods, with arrow callbacks
+ *
+ * Assignment, `new`, statements and arbitrary function calls do not exist
+ * in the grammar, so parsing alone rejects anything with side effects.
+ */
+
+import { tokenize } from './lexer';
+import { Token, ExpressionNode, ExpressionError, FORBIDDEN_PROPERTIES } from './types';
+import { HELPER_FUNCTIONS, METHOD_NAMES } from './helpers';
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+};
+
+const KEYWORDS: Record<string, boolean | null> = { true: true, false: false, null: null };
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'eof') {
+      throw new ExpressionError('Empty expression', 0);
+    }
+    const node = this.parseExpression();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw this.unexpected(next);
+    }
+    return node;
+  }
+
+  private parseExpression(): ExpressionNode {
+    const test = this.parseBinary(1);
+
+    if (this.match('?')) {
+      const consequent = this.parseExpression();
+      this.expect(':');
+      const alternate = this.parseExpression();
+      return { type: 'Conditional', test, consequent, alternate, position: test.position };
+    }
+
+    return test;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.peek();
+      const precedence = token.type === 'punctuator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) break;
+
+      this.index++;
+      const right = this.parseBinary(precedence + 1);
+      left = { type: 'Binary', operator: token.value, left, right, position: token.position };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'punctuator' && (token.value === '!' || token.value === '-' || token.value === '+')) {
+      this.index++;
+      const argument = this.parseUnary();
+      return { type: 'Unary', operator: token.value, argument, position: token.position };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    while (true) {
+      const token = this.peek();
+
+      if (this.match('.')) {
+        const name = this.expectIdentifier();
+        node = this.member(node, name, false);
+      } else if (this.match('?.')) {
+        if (this.match('[')) {
+          const property = this.parseExpression();
+          this.expect(']');
+          node = { type: 'Member', object: node, property, computed: true, optional: true, position: token.position };
+        } else if (this.check('(')) {
+          node = this.parseCall(node, true);
+        } else {
+          const name = this.expectIdentifier();
+          node = this.member(node, name, true);
+        }
+      } else if (this.match('[')) {
+        const property = this.parseExpression();
+        this.expect(']');
+        node = { type: 'Member', object: node, property, computed: true, optional: false, position: token.position };
+      } else if (this.check('(')) {
+        node = this.parseCall(node, false);
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private member(object: ExpressionNode, name: Token, optional: boolean): ExpressionNode {
+    if (FORBIDDEN_PROPERTIES.has(name.value)) {
+      throw new ExpressionError(`Access to '${name.value}' is not allowed`, name.position);
+    }
+    return {
+      type: 'Member',
+      object,
+      property: { type: 'Literal', value: name.value, position: name.position },
+      computed: false,
+      optional,
+      position: name.position,
+    };
+  }
+
+  private parseCall(callee: ExpressionNode, optional: boolean): ExpressionNode {
+    const open = this.expect('(');
+
+    // Only helper functions and methods are callable
+    if (callee.type === 'Identifier') {
+      if (!Object.prototype.hasOwnProperty.call(HELPER_FUNCTIONS, callee.name)) {
+        throw new ExpressionError(`Unknown function '${callee.name}'`, callee.position);
+      }
+    } else if (callee.type === 'Member' && !callee.computed) {
+      const method = (callee.property as { value: string }).value;
+      if (!METHOD_NAMES.has(method)) {
+        throw new ExpressionError(`Unknown method '${method}'`, callee.position);
+      }
+    } else {
+      throw new ExpressionError('Only helper functions and methods can be called', open.position);
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.check(')')) {
+      do {
+        args.push(this.parseArgument());
+      } while (this.match(','));
+    }
+    this.expect(')');
+
+    return { type: 'Call', callee, args, optional, position: callee.position };
+  }
+
+  /**
+   * Call arguments are the only place arrow callbacks may appear
+   */
+  private parseArgument(): ExpressionNode {
+    const start = this.peek();
+
+    // x => body
+    if (start.type === 'identifier' && this.peekAt(1).value === '=>') {
+      this.index += 2;
+      return { type: 'Arrow', params: [start.value], body: this.parseExpression(), position: start.position };
+    }
+
+    // (x, i) => body
+    if (start.value === '(' && start.type === 'punctuator') {
+      const params = this.tryArrowParams();
+      if (params) {
+        return { type: 'Arrow', params, body: this.parseExpression(), position: start.position };
+      }
+    }
+
+    return this.parseExpression();
+  }
+
+  private tryArrowParams(): string[] | null {
+    const saved = this.index;
+    const params: string[] = [];
+    this.index++;
+
+    if (!this.check(')')) {
+      do {
+        const token = this.peek();
+        if (token.type !== 'identifier') {
+          this.index = saved;
+          return null;
+        }
+        params.push(token.value);
+        this.index++;
+      } while (this.match(','));
+    }
+
+    if (this.match(')') && this.match('=>')) {
+      return params;
+    }
+
+    this.index = saved;
+    return null;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.index++;
+        return { type: 'Literal', value: Number(token.value), position: token.position };
+
+      case 'string':
+        this.index++;
+        return { type: 'Literal', value: token.value, position: token.position };
+
+      case 'identifier':
+        this.index++;
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: 'Literal', value: KEYWORDS[token.value], position: token.position };
+        }
+        if (this.peek().value === '=>') {
+          throw new ExpressionError('Arrow functions are only allowed as call arguments', token.position);
+        }
+        return { type: 'Identifier', name: token.value, position: token.position };
+
+      case 'punctuator':
+        if (this.match('(')) {
+          const inner = this.parseExpression();
+          this.expect(')');
+          return inner;
+        }
+        if (this.match('[')) {
+          return this.parseArray(token);
+        }
+        if (this.match('{')) {
+          return this.parseObject(token);
+        }
+        throw this.unexpected(token);
+
+      default:
+        throw this.unexpected(token);
+    }
+  }
+
+  private parseArray(open: Token): ExpressionNode {
+    const elements: ExpressionNode[] = [];
+    if (!this.check(']')) {
+      do {
+        if (this.check(']')) break;  // trailing comma
+        elements.push(this.parseExpression());
+      } while (this.match(','));
+    }
+    this.expect(']');
+    return { type: 'Array', elements, position: open.position };
+  }
+
+  private parseObject(open: Token): ExpressionNode {
+    const properties: { key: string; value: ExpressionNode }[] = [];
+
+    if (!this.check('}')) {
+      do {
+        if (this.check('}')) break;  // trailing comma
+        const keyToken = this.peek();
+        if (keyToken.type !== 'identifier' && keyToken.type !== 'string' && keyToken.type !== 'number') {
+          throw this.unexpected(keyToken);
+        }
+        this.index++;
+
+        if (FORBIDDEN_PROPERTIES.has(keyToken.value)) {
+          throw new ExpressionError(`Property name '${keyToken.value}' is not allowed`, keyToken.position);
+        }
+
+        if (this.match(':')) {
+          properties.push({ key: keyToken.value, value: this.parseExpression() });
+        } else if (keyToken.type === 'identifier') {
+          // Shorthand { name }
+          properties.push({
+            key: keyToken.value,
+            value: { type: 'Identifier', name: keyToken.value, position: keyToken.position },
+          });
+        } else {
+          throw this.unexpected(this.peek());
+        }
+      } while (this.match(','));
+    }
+
+    this.expect('}');
+    return { type: 'Object', properties, position: open.position };
+  }
+
+  // ---- token helpers ----
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private peekAt(offset: number): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private check(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuator' && token.value === value;
+  }
+
+  private match(value: string): boolean {
+    if (this.check(value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): Token {
+    const token = this.peek();
+    if (!this.check(value)) {
+      throw new ExpressionError(
+        `Expected '${value}' but found ${token.type === 'eof' ? 'end of expression' : `'${token.value}'`}`,
+        token.position
+      );
+    }
+    this.index++;
+    return token;
+  }
+
+  private expectIdentifier(): Token {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      throw this.unexpected(token);
+    }
+    this.index++;
+    return token;
+  }
+
+  private unexpected(token: Token): ExpressionError {
+    return token.type === 'eof'
+      ? new ExpressionError('Unexpected end of expression', token.position)
+      : new ExpressionError(`Unexpected token '${token.value}'`, token.position);
+  }
+}
+
+/**
+ * Parse an expression into an AST, throwing ExpressionError on bad syntax
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(source).parse();
+}
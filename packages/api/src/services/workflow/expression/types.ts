@@ -0,0 +1,49 @@
+/**
+ * Expression Language Types
+ *
+ * AST, tokens and errors for the sandboxed expression language used by
+ * `transform` and `condition` steps.
+ */
+
+export type TokenType = 'number' | 'string' | 'identifier' | 'punctuator' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  position: number;  // Offset into the source string
+}
+
+export type ExpressionNode =
+  | { type: 'Literal'; value: string | number | boolean | null; position: number }
+  | { type: 'Identifier'; name: string; position: number }
+  | { type: 'Member'; object: ExpressionNode; property: ExpressionNode; computed: boolean; optional: boolean; position: number }
+  | { type: 'Call'; callee: ExpressionNode; args: ExpressionNode[]; optional: boolean; position: number }
+  | { type: 'Unary'; operator: '!' | '-' | '+'; argument: ExpressionNode; position: number }
+  | { type: 'Binary'; operator: string; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'Conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; position: number }
+  | { type: 'Array'; elements: ExpressionNode[]; position: number }
+  | { type: 'Object'; properties: { key: string; value: ExpressionNode }[]; position: number }
+  | { type: 'Arrow'; params: string[]; body: ExpressionNode; position: number };
+
+export interface ExpressionLimits {
+  maxSteps: number;   // Nodes evaluated, including inside callbacks
+  timeoutMs: number;  // Wall-clock budget per evaluation
+}
+
+export const DEFAULT_EXPRESSION_LIMITS: ExpressionLimits = {
+  maxSteps: 100_000,
+  timeoutMs: 100,
+};
+
+// Property names that could reach prototypes are never readable or writable
+export const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+/**
+ * Parse or evaluation error with the offending offset in the source
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'ExpressionError';
+  }
+}
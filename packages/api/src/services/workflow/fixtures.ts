@@ -0,0 +1,57 @@
+/**
+ * Dry-run Fixtures
+ *
+ * Canned step results that stand in for tool calls, AI prompts,
+ * sub-workflows and approvals during a dry run:
+ * - Looked up by step path first ("each[1].lookup"), then by step ID
+ * - A sub-workflow step without a fixture runs its child dry, with the
+ *   fixtures under "<stepId>." ("enrich.lookup" → "lookup")
+ * - Failures carry their HTTP status like a tool error would, so retries
+ *   and onError behave as in a live run
+ */
+
+import { StepFixture, WorkflowStep } from './types';
+
+// Steps that never run for real in a dry run
+export const FIXTURE_STEP_TYPES = new Set<WorkflowStep['type']>(['mcp_tool', 'ai_decision', 'workflow', 'approval']);
+
+/**
+ * A failure served by a fixture, classified by retry.ts like a response error
+ */
+export class StepFixtureError extends Error {
+  readonly response?: { status: number; headers: Record<string, string> };
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'StepFixtureError';
+    if (status !== undefined) {
+      this.response = { status, headers: {} };
+    }
+  }
+}
+
+/**
+ * The fixture for a step: one for its exact path wins over one for its ID.
+ * Only own keys count, so a step ID like `constructor` finds nothing.
+ */
+export function findFixture(
+  fixtures: Record<string, StepFixture>,
+  path: string,
+  stepId: string
+): StepFixture | undefined {
+  if (Object.hasOwn(fixtures, path)) return fixtures[path];
+  if (Object.hasOwn(fixtures, stepId)) return fixtures[stepId];
+  return undefined;
+}
+
+/**
+ * Fixtures for the child of a sub-workflow step, without the step's prefix
+ */
+export function childFixtures(fixtures: Record<string, StepFixture>, stepId: string): Record<string, StepFixture> {
+  const prefix = `${stepId}.`;
+  return Object.fromEntries(
+    Object.entries(fixtures)
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, fixture]) => [key.slice(prefix.length), fixture])
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * Workflow Graph Helpers
+ *
+ * Dependency analysis shared by the parser and executor:
+ * - Explicit `dependsOn` edges
+ * - Implicit edges from `condition` steps to their branch targets
+ * - Loop bodies, which run per item instead of at the top level
+ * - Sub-workflow calls between workflows
+ */
+
+import { WorkflowDefinition, WorkflowStep } from './types';
+
+/**
+ * Find the condition steps whose `then`/`else` branches reference a step
+ */
+export function getBranchControllers(stepId: string, steps: WorkflowStep[]): WorkflowStep[] {
+  return steps.filter(s =>
+    s.type === 'condition' &&
+    s.condition &&
+    ((s.condition.then || []).includes(stepId) || (s.condition.else || []).includes(stepId))
+  );
+}
+
+/**
+ * Find the innermost loop step whose body lists a step
+ */
+export function getLoopOwner(stepId: string, steps: WorkflowStep[]): WorkflowStep | undefined {
+  return steps.find(s =>
+    s.type === 'loop' &&
+    s.id !== stepId &&
+    (s.loop?.steps || []).includes(stepId)
+  );
+}
+
+/**
+ * Collect every step nested under a loop, including inner loop bodies
+ */
+export function getLoopBody(loopStep: WorkflowStep, steps: WorkflowStep[]): string[] {
+  const body = new Set<string>();
+
+  const visit = (stepIds: string[]) => {
+    for (const stepId of stepIds) {
+      if (body.has(stepId) || stepId === loopStep.id) continue;
+      body.add(stepId);
+
+      const inner = steps.find(s => s.id === stepId);
+      if (inner?.type === 'loop') visit(inner.loop?.steps || []);
+    }
+  };
+
+  visit(loopStep.loop?.steps || []);
+  return Array.from(body);
+}
+
+/**
+ * Get the steps that run once per execution (not inside any loop body)
+ */
+export function getTopLevelStepIds(steps: WorkflowStep[]): string[] {
+  return steps.filter(s => !getLoopOwner(s.id, steps)).map(s => s.id);
+}
+
+/**
+ * Get the dependencies a step declares itself (explicit and branch edges)
+ */
+function getDirectDependencies(step: WorkflowStep, steps: WorkflowStep[]): string[] {
+  const deps = new Set(step.dependsOn || []);
+
+  // Branch targets wait for the condition that selects them
+  for (const controller of getBranchControllers(step.id, steps)) {
+    if (controller.id !== step.id) deps.add(controller.id);
+  }
+
+  return Array.from(deps);
+}
+
+/**
+ * Get every step that must settle before a step can run
+ */
+export function getStepDependencies(step: WorkflowStep, steps: WorkflowStep[]): string[] {
+  const deps = new Set(getDirectDependencies(step, steps));
+
+  // A loop waits for everything its body reads from outside the loop
+  if (step.type === 'loop') {
+    const body = getLoopBody(step, steps);
+    for (const bodyId of body) {
+      const bodyStep = steps.find(s => s.id === bodyId);
+      if (!bodyStep) continue;
+
+      for (const dep of getDirectDependencies(bodyStep, steps)) {
+        if (dep !== step.id && !body.includes(dep)) deps.add(dep);
+      }
+    }
+  }
+
+  return Array.from(deps);
+}
+
+/**
+ * Follow `workflow` steps from a workflow and return the first call cycle
+ * found ("a@1.0.0", "b@2.0.0", "a@1.0.0"), or null. `resolve` returns the
+ * version a call would run, or undefined if it does not exist.
+ */
+export function findWorkflowCycle(
+  root: WorkflowDefinition,
+  resolve: (name: string, version?: string) => WorkflowDefinition | undefined
+): string[] | null {
+  const key = (workflow: WorkflowDefinition) => `${workflow.name}@${workflow.version}`;
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (workflow: WorkflowDefinition): string[] | null => {
+    const id = key(workflow);
+    if (stack.includes(id)) return [...stack.slice(stack.indexOf(id)), id];
+    if (done.has(id)) return null;
+
+    stack.push(id);
+    for (const step of workflow.steps) {
+      if (step.type !== 'workflow' || !step.workflow) continue;
+      const callee = resolve(step.workflow.name, step.workflow.version);
+      const cycle = callee && visit(callee);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    done.add(id);
+    return null;
+  };
+
+  return visit(root);
+}
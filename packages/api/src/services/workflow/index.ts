@@ -2,7 +2,20 @@
  * Workflow Service - Public API
  */
 
-export { WorkflowDefinition, WorkflowStep, WorkflowInput, WorkflowExecutionResult } from './types';
+export { WorkflowDefinition, WorkflowStep, WorkflowInput, WorkflowExecutionResult, WorkflowPayout } from './types';
 export { WorkflowParser, workflowParser } from './parser';
-export { WorkflowExecutor, workflowExecutor } from './executor';
-export { WorkflowMCPGenerator, workflowMCPGenerator } from './mcp-generator';
+export { N8nImporter, n8nImporter, N8nWorkflow, N8nImportReport } from './n8n-importer';
+export { WorkflowValidator, workflowValidator, ValidationDiagnostic, ValidationResult } from './validator';
+export { WorkflowExecutor, workflowExecutor, WorkflowExecutionOptions } from './executor';
+export { WorkflowStore, workflowStore } from './workflow-store';
+export { WorkflowRunStore, workflowRunStore, WorkflowRunError, ResumeState } from './run-store';
+export { WorkflowCostEstimator, workflowCostEstimator, BudgetExceededError, WorkflowCostEstimate } from './cost-estimator';
+export { WorkflowMCPGenerator, workflowMCPGenerator, PublishedVersion } from './mcp-generator';
+export { WorkflowVersionError, WorkflowDiff, compareVersions, isValidVersion, parseWorkflowRef } from './versioning';
+export { validateSchema, checkSchema, inputsToSchema, SchemaError } from './json-schema';
+export { WorkflowScheduler, workflowScheduler, WorkflowScheduleError, ScheduleOptions, ScheduleInfo } from './scheduler';
+export { WorkflowWebhookService, workflowWebhookService, WorkflowWebhookError, WebhookOptions, WebhookInfo } from './webhooks';
+export { LLMService, llmService, LLMProvider, LLMProviderError, MockLLMProvider, mockLLMProvider } from './llm';
+export { WorkflowApprovalService, workflowApprovalService, WorkflowApprovalError, ApprovalDecision, ApprovalInfo } from './approvals';
+export { WorkflowTestRunner, workflowTestRunner, WorkflowTestError, WorkflowTestOptions, WorkflowTestReport } from './test-runner';
+export { WorkflowCassetteService, workflowCassetteService, WorkflowCassetteError, WorkflowCassette, CassetteReplay } from './cassettes';
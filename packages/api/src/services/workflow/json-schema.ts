@@ -0,0 +1,241 @@
+/**
+ * JSON Schema Validation
+ *
+ * The subset of JSON Schema used for workflow inputs and outputs:
+ * - type (including integer, null and type unions), enum, const, format
+ * - minimum/maximum (and exclusive), minLength/maxLength/pattern
+ * - items, minItems/maxItems, uniqueItems
+ * - properties, required, additionalProperties
+ *
+ * Validation can fill in defaults and coerce strings (e.g. from query
+ * strings or webhooks) to the declared scalar type.
+ */
+
+import { JsonSchema, JsonSchemaType, WorkflowInput } from './types';
+
+export interface SchemaError {
+  path: string;     // "companies[0].domain"; empty for the root value
+  message: string;
+}
+
+export interface SchemaOptions {
+  coerce?: boolean;         // "42" → 42, "true" → true where the schema asks for it
+  applyDefaults?: boolean;  // Fill missing properties that declare a default
+}
+
+const TYPES: JsonSchemaType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const FORMATS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:\/\/\S+$/i,
+  url: /^https?:\/\/\S+$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+/**
+ * Validate a value, returning it with defaults applied and coercions made
+ * (the input is not modified) and every error found
+ */
+export function validateSchema(
+  value: any,
+  schema: JsonSchema,
+  options: SchemaOptions = {},
+  path = ''
+): { value: any; errors: SchemaError[] } {
+  const errors: SchemaError[] = [];
+  const result = check(value, schema, options, path, errors);
+  return { value: result, errors };
+}
+
+/**
+ * Full JSON Schema of one workflow input
+ */
+export function getInputSchema(input: WorkflowInput): JsonSchema {
+  return {
+    ...input.schema,
+    type: input.schema?.type ?? input.type,
+    description: input.description || input.schema?.description,
+    default: input.default ?? input.schema?.default,
+  };
+}
+
+/**
+ * Object schema of a workflow's inputs. Inputs with a default are not
+ * required, since the default fills them in.
+ */
+export function inputsToSchema(inputs: WorkflowInput[]): JsonSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(inputs.map(input => [input.name, getInputSchema(input)])),
+    required: inputs.filter(i => i.required && getInputSchema(i).default === undefined).map(i => i.name),
+  };
+}
+
+/**
+ * Check that a schema itself is well-formed. Returns error messages.
+ */
+export function checkSchema(schema: any, path = ''): string[] {
+  const errors: string[] = [];
+  const at = (message: string) => errors.push(path ? `${path}: ${message}` : message);
+
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    at('schema must be an object');
+    return errors;
+  }
+
+  for (const type of ([] as any[]).concat(schema.type ?? [])) {
+    if (!TYPES.includes(type)) at(`unknown type "${type}"`);
+  }
+  if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+    at('enum must be a non-empty array');
+  }
+  for (const key of ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'minLength', 'maxLength', 'minItems', 'maxItems']) {
+    if (schema[key] !== undefined && typeof schema[key] !== 'number') at(`${key} must be a number`);
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern);
+    } catch {
+      at(`invalid pattern "${schema.pattern}"`);
+    }
+  }
+  if (schema.required !== undefined && !Array.isArray(schema.required)) {
+    at('required must be an array of property names');
+  }
+  if (schema.items !== undefined) {
+    errors.push(...checkSchema(schema.items, `${path}.items`.replace(/^\./, '')));
+  }
+  if (schema.properties !== undefined) {
+    for (const [key, property] of Object.entries(schema.properties)) {
+      errors.push(...checkSchema(property, `${path}.properties.${key}`.replace(/^\./, '')));
+    }
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties === 'object') {
+    errors.push(...checkSchema(schema.additionalProperties, `${path}.additionalProperties`.replace(/^\./, '')));
+  }
+
+  return errors;
+}
+
+/**
+ * Format errors as one message per line
+ */
+export function formatSchemaErrors(errors: SchemaError[], root = 'value'): string {
+  return errors.map(e => `${e.path || root}: ${e.message}`).join('\n');
+}
+
+function check(value: any, schema: JsonSchema, options: SchemaOptions, path: string, errors: SchemaError[]): any {
+  const fail = (message: string) => errors.push({ path, message });
+  const types = ([] as JsonSchemaType[]).concat(schema.type ?? []);
+
+  if (options.coerce && types.length > 0 && !types.some(t => matchesType(value, t))) {
+    value = coerce(value, types);
+  }
+
+  if (types.length > 0 && !types.some(t => matchesType(value, t))) {
+    fail(`expected ${types.join(' | ')}, got ${typeName(value)}`);
+    return value;
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    fail(`must equal ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => isEqual(value, option))) {
+    fail(`must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) fail(`must be > ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) fail(`must be < ${schema.exclusiveMaximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) fail(`must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) fail(`must be at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) fail(`must match ${schema.pattern}`);
+    if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) fail(`must be a valid ${schema.format}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`must have at most ${schema.maxItems} items`);
+    if (schema.uniqueItems && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+      fail('items must be unique');
+    }
+    if (schema.items) {
+      value = value.map((item, i) => check(item, schema.items!, options, `${path}[${i}]`, errors));
+    }
+  }
+
+  if (typeName(value) === 'object') {
+    value = checkObject(value, schema, options, path, errors);
+  }
+
+  return value;
+}
+
+function checkObject(value: Record<string, any>, schema: JsonSchema, options: SchemaOptions, path: string, errors: SchemaError[]): any {
+  const result: Record<string, any> = { ...value };
+  const properties = schema.properties || {};
+  const child = (key: string) => (path ? `${path}.${key}` : key);
+
+  for (const [key, property] of Object.entries(properties)) {
+    if (result[key] === undefined && options.applyDefaults && property.default !== undefined) {
+      result[key] = JSON.parse(JSON.stringify(property.default));
+    }
+    if (result[key] !== undefined) {
+      result[key] = check(result[key], property, options, child(key), errors);
+    }
+  }
+
+  for (const key of schema.required || []) {
+    if (result[key] === undefined) errors.push({ path: child(key), message: 'is required' });
+  }
+
+  for (const key of Object.keys(result)) {
+    if (key in properties) continue;
+    if (schema.additionalProperties === false) {
+      errors.push({ path: child(key), message: 'is not allowed' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      result[key] = check(result[key], schema.additionalProperties, options, child(key), errors);
+    }
+  }
+
+  return result;
+}
+
+function coerce(value: any, types: JsonSchemaType[]): any {
+  if (typeof value !== 'string') return value;
+
+  const trimmed = value.trim();
+  if ((types.includes('number') || types.includes('integer')) && trimmed !== '' && !Number.isNaN(Number(trimmed))) {
+    return Number(trimmed);
+  }
+  if (types.includes('boolean') && (trimmed === 'true' || trimmed === 'false')) {
+    return trimmed === 'true';
+  }
+  if (types.includes('null') && trimmed === '') {
+    return null;
+  }
+  return value;
+}
+
+function matchesType(value: any, type: JsonSchemaType): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeName(value) === type;
+}
+
+function typeName(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
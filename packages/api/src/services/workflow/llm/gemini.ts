@@ -0,0 +1,74 @@
+/**
+ * Gemini Provider
+ *
+ * Google's generateContent REST API. JSON output is requested through
+ * responseMimeType; the schema itself is enforced by validation, since
+ * Gemini's responseSchema only accepts an OpenAPI subset.
+ */
+
+import { LLMProvider, LLMRequest, LLMResponse, LLMProviderError, ModelPricing } from './types';
+import { GEMINI_PRICING, lookupPricing } from './pricing';
+
+const BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+
+  matches(model: string): boolean {
+    return model.startsWith('gemini-');
+  }
+
+  getPricing(model: string): ModelPricing {
+    return lookupPricing(GEMINI_PRICING, model, GEMINI_PRICING['gemini-2.5-pro']);
+  }
+
+  async complete(model: string, request: LLMRequest): Promise<LLMResponse> {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
+    if (!apiKey) {
+      throw new LLMProviderError(this.name, 'GEMINI_API_KEY is not configured');
+    }
+
+    const body = {
+      systemInstruction: request.system ? { parts: [{ text: request.system }] } : undefined,
+      contents: request.messages.map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      })),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        responseMimeType: request.json || request.schema ? 'application/json' : undefined,
+      },
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(`${BASE_URL}/${encodeURIComponent(model)}:generateContent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify(body),
+        signal: request.timeoutMs ? AbortSignal.timeout(request.timeoutMs) : undefined,
+      });
+    } catch (error: any) {
+      const timedOut = error.name === 'TimeoutError';
+      throw new LLMProviderError(this.name, error.message, undefined, null, timedOut ? 'ETIMEDOUT' : 'ECONNRESET');
+    }
+
+    const data: any = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const message = data.error?.message || `HTTP ${response.status}`;
+      throw new LLMProviderError(this.name, message, response.status, response.headers.get('retry-after'));
+    }
+
+    const candidate = data.candidates?.[0];
+    return {
+      text: (candidate?.content?.parts || []).map((part: any) => part.text || '').join(''),
+      usage: data.usageMetadata && {
+        input: data.usageMetadata.promptTokenCount || 0,
+        output: data.usageMetadata.candidatesTokenCount || 0,
+      },
+    };
+  }
+}
+
+export const geminiProvider = new GeminiProvider();
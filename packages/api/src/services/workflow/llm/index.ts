@@ -0,0 +1,200 @@
+/**
+ * Workflow LLM Providers - Public API
+ *
+ * Runs `ai_decision` prompts on the provider picked by ai.model:
+ * - "provider:model" ("openai:gpt-4o-mini"), or a bare model name claimed
+ *   by a provider (gpt-*, o*, gemini-*, sonar*, mock/local)
+ * - JSON output is parsed and checked against ai.schema; invalid output is
+ *   sent back to the model with the errors, up to maxRepairs times
+ * - Cost is computed from the tokens used by every attempt
+ */
+
+import { JsonSchema } from '../types';
+import { validateSchema, formatSchemaErrors } from '../json-schema';
+import { LLMProvider, LLMMessage, LLMUsage } from './types';
+import { openAIProvider, perplexityProvider } from './openai';
+import { geminiProvider } from './gemini';
+import { mockLLMProvider } from './mock';
+import { tokenCost } from './pricing';
+
+export { LLMProvider, LLMRequest, LLMResponse, LLMUsage, LLMMessage, ModelPricing, LLMProviderError } from './types';
+export { OpenAICompatibleProvider, openAIProvider, perplexityProvider } from './openai';
+export { GeminiProvider, geminiProvider } from './gemini';
+export { MockLLMProvider, mockLLMProvider, MockHandler } from './mock';
+
+export const DEFAULT_SYSTEM_PROMPT = 'Make a decision or generate content';
+export const DEFAULT_MAX_TOKENS = 1000;
+export const DEFAULT_MAX_REPAIRS = 1;
+const CHARS_PER_TOKEN = 4;
+
+export interface GenerateRequest {
+  model?: string;  // Default: WORKFLOW_AI_MODEL, else Perplexity
+  system?: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  schema?: JsonSchema;  // Implies json
+  maxRepairs?: number;
+  timeoutMs?: number;
+}
+
+export interface GenerateResult {
+  output: any;     // Parsed JSON when json/schema was asked for, else text
+  text: string;    // Raw text of the final attempt
+  model: string;   // "provider:model"
+  usage: LLMUsage; // Summed over attempts
+  cost: number;
+  attempts: number;
+}
+
+export class LLMService {
+  private providers = new Map<string, LLMProvider>();
+
+  constructor(providers: LLMProvider[]) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  /**
+   * Add or replace a provider
+   */
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Find the provider for a model reference. Throws if none claims it.
+   */
+  resolve(model?: string): { provider: LLMProvider; model: string } {
+    const ref = model || process.env.WORKFLOW_AI_MODEL || `perplexity:${process.env.PERPLEXITY_MODEL || 'sonar-pro'}`;
+    const separator = ref.indexOf(':');
+
+    if (separator > 0) {
+      const provider = this.providers.get(ref.slice(0, separator));
+      if (!provider) {
+        throw new Error(`Unknown AI provider "${ref.slice(0, separator)}" (use ${this.names()})`);
+      }
+      return { provider, model: ref.slice(separator + 1) };
+    }
+
+    const provider = [...this.providers.values()].find(p => p.matches(ref));
+    if (!provider) {
+      throw new Error(`Cannot tell the provider of model "${ref}"; write it as "provider:model" (${this.names()})`);
+    }
+    return { provider, model: ref };
+  }
+
+  /**
+   * Run a prompt, repairing JSON output that does not parse or match the schema
+   */
+  async generate(request: GenerateRequest): Promise<GenerateResult> {
+    const { provider, model } = this.resolve(request.model);
+    const pricing = provider.getPricing(model);
+    const wantsJson = !!(request.json || request.schema);
+    const maxRepairs = request.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+
+    let system = request.system ?? DEFAULT_SYSTEM_PROMPT;
+    if (request.schema) {
+      system += `\n\nRespond only with JSON matching this JSON Schema:\n${JSON.stringify(request.schema)}`;
+    } else if (wantsJson) {
+      system += '\n\nRespond only with JSON.';
+    }
+
+    const messages: LLMMessage[] = [{ role: 'user', content: request.prompt }];
+    const usage: LLMUsage = { input: 0, output: 0 };
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await provider.complete(model, {
+        system,
+        messages,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        json: wantsJson,
+        schema: request.schema,
+        timeoutMs: request.timeoutMs,
+      });
+
+      const used = response.usage || this.estimateUsage(system, messages, response.text);
+      usage.input += used.input;
+      usage.output += used.output;
+
+      const result = (output: any): GenerateResult => ({
+        output,
+        text: response.text,
+        model: `${provider.name}:${model}`,
+        usage,
+        cost: tokenCost(pricing, usage),
+        attempts: attempt,
+      });
+
+      if (!wantsJson) return result(response.text);
+
+      const errors = this.checkJson(response.text, request.schema);
+      if (errors.length === 0) return result(parseJson(response.text));
+
+      if (attempt > maxRepairs) {
+        // Plain JSON requests keep the old lenient behaviour; a schema is a contract
+        if (!request.schema) return result(response.text);
+        throw new Error(`AI output does not match schema after ${attempt} attempt(s):\n${errors.join('\n')}`);
+      }
+
+      console.log(`    🩹 Repairing AI output (${errors.length} error(s))`);
+      messages.push(
+        { role: 'assistant', content: response.text },
+        {
+          role: 'user',
+          content: `Your response was invalid:\n${errors.join('\n')}\n\nReply with the corrected JSON only.`,
+        }
+      );
+    }
+  }
+
+  /**
+   * Expected cost of one prompt, for estimates and budget reservations:
+   * the prompt's tokens in and maxTokens out
+   */
+  estimateCost(request: { model?: string; system?: string; prompt: string; maxTokens?: number }): number {
+    const { provider, model } = this.resolve(request.model);
+    const input = Math.ceil(((request.system ?? DEFAULT_SYSTEM_PROMPT).length + request.prompt.length) / CHARS_PER_TOKEN);
+    return tokenCost(provider.getPricing(model), { input, output: request.maxTokens ?? DEFAULT_MAX_TOKENS });
+  }
+
+  /**
+   * Errors of a JSON response: unparseable, or not matching the schema
+   */
+  private checkJson(text: string, schema?: JsonSchema): string[] {
+    let value: any;
+    try {
+      value = parseJson(text);
+    } catch (error: any) {
+      return [`Not valid JSON: ${error.message}`];
+    }
+    if (!schema) return [];
+    return formatSchemaErrors(validateSchema(value, schema).errors, 'output').split('\n').filter(Boolean);
+  }
+
+  private estimateUsage(system: string, messages: LLMMessage[], text: string): LLMUsage {
+    const prompt = system.length + messages.reduce((sum, m) => sum + m.content.length, 0);
+    return { input: Math.ceil(prompt / CHARS_PER_TOKEN), output: Math.ceil(text.length / CHARS_PER_TOKEN) };
+  }
+
+  private names(): string {
+    return [...this.providers.keys()].join(', ');
+  }
+}
+
+/**
+ * Parse JSON, tolerating a ```json fence or text around a single object
+ */
+function parseJson(text: string): any {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    const match = trimmed.match(/[[{][\s\S]*[\]}]/);
+    if (match) return JSON.parse(match[0]);
+    throw error;
+  }
+}
+
+export const llmService = new LLMService([openAIProvider, geminiProvider, perplexityProvider, mockLLMProvider]);
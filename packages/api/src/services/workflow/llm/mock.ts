@@ -0,0 +1,82 @@
+/**
+ * Mock Provider
+ *
+ * Offline, free and deterministic: for tests and local runs ("mock" or
+ * "local" as ai.model). Without a handler it answers with a minimal value
+ * matching the requested schema, "{}" for JSON, or an echo of the prompt.
+ */
+
+import { JsonSchema } from '../types';
+import { LLMProvider, LLMRequest, LLMResponse, ModelPricing } from './types';
+
+export type MockHandler = (request: LLMRequest, model: string) => string | Promise<string>;
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  private handler: MockHandler | null = null;
+
+  matches(model: string): boolean {
+    return model === 'mock' || model === 'local' || model.startsWith('mock-');
+  }
+
+  getPricing(): ModelPricing {
+    return { input: 0, output: 0 };
+  }
+
+  /**
+   * Answer requests with a handler instead of the defaults (null resets)
+   */
+  setHandler(handler: MockHandler | null): void {
+    this.handler = handler;
+  }
+
+  async complete(model: string, request: LLMRequest): Promise<LLMResponse> {
+    const prompt = request.messages[request.messages.length - 1]?.content || '';
+
+    let text: string;
+    if (this.handler) {
+      text = await this.handler(request, model);
+    } else if (request.schema) {
+      text = JSON.stringify(sampleValue(request.schema));
+    } else if (request.json) {
+      text = '{}';
+    } else {
+      text = `Mock response to: ${prompt.slice(0, 200)}`;
+    }
+
+    // No usage reported: the caller estimates it
+    return { text };
+  }
+}
+
+/**
+ * Smallest value that satisfies a schema's type, enum/const and required
+ * properties
+ */
+function sampleValue(schema: JsonSchema): any {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.default !== undefined) return schema.default;
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'string':
+      return 'x'.repeat(schema.minLength || 0);
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    case 'array':
+      return Array.from({ length: schema.minItems || 0 }, () => sampleValue(schema.items || {}));
+    case 'object':
+    default:
+      return Object.fromEntries(
+        (schema.required || []).map(key => [key, sampleValue(schema.properties?.[key] || {})])
+      );
+  }
+}
+
+export const mockLLMProvider = new MockLLMProvider();
@@ -0,0 +1,123 @@
+/**
+ * OpenAI-compatible Providers
+ *
+ * OpenAI and Perplexity both speak the chat completions API, so one client
+ * class serves both with their own key, endpoint and prices.
+ */
+
+import OpenAI, { APIError, APIConnectionError, APIConnectionTimeoutError } from 'openai';
+import { LLMProvider, LLMRequest, LLMResponse, LLMProviderError, ModelPricing } from './types';
+import { OPENAI_PRICING, PERPLEXITY_PRICING, lookupPricing } from './pricing';
+
+interface OpenAICompatibleOptions {
+  name: string;
+  apiKeyEnv: string;
+  baseURL?: string;
+  models: RegExp;                 // Bare model names this provider claims
+  pricing: Record<string, ModelPricing>;
+  fallbackPricing: ModelPricing;
+  maxTokensParam: 'max_tokens' | 'max_completion_tokens';
+  jsonObject: boolean;            // Supports response_format json_object (not only json_schema)
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {}
+
+  get name(): string {
+    return this.options.name;
+  }
+
+  matches(model: string): boolean {
+    return this.options.models.test(model);
+  }
+
+  getPricing(model: string): ModelPricing {
+    return lookupPricing(this.options.pricing, model, this.options.fallbackPricing);
+  }
+
+  async complete(model: string, request: LLMRequest): Promise<LLMResponse> {
+    const params: Record<string, any> = {
+      model,
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...request.messages,
+      ],
+    };
+    if (request.temperature !== undefined) params.temperature = request.temperature;
+    if (request.maxTokens !== undefined) params[this.options.maxTokensParam] = request.maxTokens;
+
+    if (request.schema) {
+      params.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'output', schema: request.schema, strict: false },
+      };
+    } else if (request.json && this.options.jsonObject) {
+      params.response_format = { type: 'json_object' };
+    }
+
+    try {
+      const completion = await this.getClient().chat.completions.create(
+        params as OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+        request.timeoutMs ? { timeout: request.timeoutMs } : undefined
+      );
+
+      return {
+        text: completion.choices[0]?.message?.content || '',
+        usage: completion.usage && {
+          input: completion.usage.prompt_tokens,
+          output: completion.usage.completion_tokens,
+        },
+      };
+    } catch (error: any) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = process.env[this.options.apiKeyEnv];
+      if (!apiKey) {
+        throw new LLMProviderError(this.name, `${this.options.apiKeyEnv} is not configured`);
+      }
+      // Retries are the step's retry policy, not the SDK's
+      this.client = new OpenAI({ apiKey, baseURL: this.options.baseURL, maxRetries: 0 });
+    }
+    return this.client;
+  }
+
+  private toProviderError(error: any): Error {
+    if (error instanceof APIConnectionTimeoutError) {
+      return new LLMProviderError(this.name, error.message, undefined, null, 'ETIMEDOUT');
+    }
+    if (error instanceof APIConnectionError) {
+      return new LLMProviderError(this.name, error.message, undefined, null, 'ECONNRESET');
+    }
+    if (error instanceof APIError && error.status !== undefined) {
+      return new LLMProviderError(this.name, error.message, error.status, error.headers?.get('retry-after'));
+    }
+    return error;
+  }
+}
+
+export const openAIProvider = new OpenAICompatibleProvider({
+  name: 'openai',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  models: /^(gpt-|chatgpt-|o\d)/,
+  pricing: OPENAI_PRICING,
+  fallbackPricing: OPENAI_PRICING['gpt-4o'],
+  maxTokensParam: 'max_completion_tokens',
+  jsonObject: true,
+});
+
+export const perplexityProvider = new OpenAICompatibleProvider({
+  name: 'perplexity',
+  apiKeyEnv: 'PERPLEXITY_API_KEY',
+  baseURL: 'https://api.perplexity.ai',
+  models: /^sonar/,
+  pricing: PERPLEXITY_PRICING,
+  fallbackPricing: PERPLEXITY_PRICING['sonar-pro'],
+  maxTokensParam: 'max_tokens',
+  jsonObject: false,
+});
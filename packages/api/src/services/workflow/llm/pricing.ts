@@ -0,0 +1,57 @@
+/**
+ * LLM Token Pricing
+ *
+ * USD per million input/output tokens. Dated model names use the price of
+ * their family ("gpt-4o-mini-2024-07-18" → "gpt-4o-mini"); models not
+ * listed use their provider's fallback price.
+ */
+
+import { ModelPricing } from './types';
+
+export const OPENAI_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+};
+
+export const GEMINI_PRICING: Record<string, ModelPricing> = {
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+export const PERPLEXITY_PRICING: Record<string, ModelPricing> = {
+  'sonar': { input: 1, output: 1 },
+  'sonar-pro': { input: 3, output: 15 },
+  'sonar-reasoning': { input: 1, output: 5 },
+  'sonar-reasoning-pro': { input: 2, output: 8 },
+};
+
+/**
+ * Price of a model: an exact entry, else the longest listed prefix
+ */
+export function lookupPricing(
+  table: Record<string, ModelPricing>,
+  model: string,
+  fallback: ModelPricing
+): ModelPricing {
+  if (table[model]) return table[model];
+
+  const family = Object.keys(table)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? table[family] : fallback;
+}
+
+/**
+ * Cost in USD of a completion
+ */
+export function tokenCost(pricing: ModelPricing, usage: { input: number; output: number }): number {
+  return (usage.input * pricing.input + usage.output * pricing.output) / 1_000_000;
+}
@@ -0,0 +1,59 @@
+/**
+ * LLM Provider Types
+ */
+
+import { JsonSchema } from '../types';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;        // Ask for a JSON response
+  schema?: JsonSchema;   // Constrain the JSON response where the provider supports it
+  timeoutMs?: number;
+}
+
+export interface LLMUsage {
+  input: number;   // Prompt tokens
+  output: number;  // Completion tokens
+}
+
+export interface LLMResponse {
+  text: string;
+  usage?: LLMUsage;  // Estimated from text length when the provider reports none
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface LLMProvider {
+  name: string;                                // Prefix in "provider:model"
+  matches(model: string): boolean;             // Claims a bare model name, e.g. "gpt-4o-mini"
+  complete(model: string, request: LLMRequest): Promise<LLMResponse>;
+  getPricing(model: string): ModelPricing;
+}
+
+/**
+ * Error from a provider API. `response` mirrors an HTTP error so step
+ * retries classify it like a failed tool call (429, 5xx, Retry-After).
+ */
+export class LLMProviderError extends Error {
+  readonly response?: { status: number; headers: Record<string, string> };
+
+  constructor(provider: string, message: string, status?: number, retryAfter?: string | null, public readonly code?: string) {
+    super(`${provider}: ${message}`);
+    this.name = 'LLMProviderError';
+    if (status !== undefined) {
+      this.response = { status, headers: retryAfter ? { 'retry-after': retryAfter } : {} };
+    }
+  }
+}
@@ -5,22 +5,47 @@
  * - Creates HTTP endpoints for the workflow tools
  * - Registers in ERC-8004 registry
  * - Handles pay-per-use billing
+ * - Persists definitions so registrations survive restarts
+ * - Publishes immutable semantic versions; callers may pin one
+ *   (execute_<name>@1.2.0) while unpinned calls use the latest
+ * - Rejects sub-workflow calls to unknown workflows or that form a cycle
  */
 
 import { Router, Request, Response } from 'express';
 import { WorkflowDefinition } from './types';
 import { workflowExecutor } from './executor';
 import { workflowParser } from './parser';
+import { workflowStore } from './workflow-store';
+import {
+  WorkflowVersionError,
+  WorkflowDiff,
+  compareVersions,
+  diffWorkflows,
+  isValidVersion,
+  parseWorkflowRef,
+  DEFAULT_VERSION,
+} from './versioning';
+import { inputsToSchema } from './json-schema';
+import { findWorkflowCycle } from './graph';
 import { erc8004RegistryService } from '../erc8004/registry.service';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
+export interface PublishedVersion {
+  definition: WorkflowDefinition;
+  deprecated: boolean;
+  deprecationMessage?: string;
+  publishedAt: Date;
+}
+
 export class WorkflowMCPGenerator {
-  private workflows: Map<string, WorkflowDefinition> = new Map();
+  private workflows: Map<string, WorkflowDefinition> = new Map();  // Latest version per name
+  private versions: Map<string, Map<string, PublishedVersion>> = new Map();
 
   /**
-   * Register a workflow and generate its MCP server
+   * Register a new workflow and generate its MCP server.
+   * Later changes must be published as new versions.
    */
   async registerWorkflow(workflow: WorkflowDefinition): Promise<{
     serverId: string;
@@ -29,9 +54,70 @@ export class WorkflowMCPGenerator {
   }> {
     // Validate
     const validated = workflowParser.validate(workflow);
-    
-    // Store in memory
-    this.workflows.set(validated.name, validated);
+
+    if (this.workflows.has(validated.name)) {
+      throw new WorkflowVersionError(
+        `Workflow ${validated.name} already exists; publish a new version with POST /api/workflows/${validated.name}/versions`,
+        409
+      );
+    }
+
+    return this.publish(validated);
+  }
+
+  /**
+   * Publish a new version of an existing workflow. The version must be
+   * greater than the latest one; published versions never change.
+   */
+  async publishVersion(name: string, workflow: WorkflowDefinition): Promise<{
+    serverId: string;
+    endpoint: string;
+    router: Router;
+  }> {
+    const validated = workflowParser.validate(workflow);
+
+    if (validated.name !== name) {
+      throw new WorkflowVersionError(`Definition name ${validated.name} does not match workflow ${name}`, 400);
+    }
+    if (!this.workflows.has(name)) {
+      throw new WorkflowVersionError('Workflow not found', 404);
+    }
+
+    return this.publish(validated);
+  }
+
+  /**
+   * Store a validated version, make it the latest and update the registry
+   */
+  private async publish(validated: WorkflowDefinition): Promise<{
+    serverId: string;
+    endpoint: string;
+    router: Router;
+  }> {
+    const latest = this.workflows.get(validated.name);
+
+    if (this.versions.get(validated.name)?.has(validated.version)) {
+      throw new WorkflowVersionError(
+        `Version ${validated.version} of ${validated.name} is already published and cannot be changed`,
+        409
+      );
+    }
+    if (latest && compareVersions(validated.version, latest.version) <= 0) {
+      throw new WorkflowVersionError(
+        `Version ${validated.version} must be greater than the latest version (${latest.version})`,
+        409
+      );
+    }
+    this.checkSubWorkflows(validated);
+
+    // Store in memory and persist the version
+    let publishedAt = new Date();
+    try {
+      ({ publishedAt } = await workflowStore.save(validated));
+    } catch (error: any) {
+      console.error(`Failed to persist workflow ${validated.name}:`, error.message);
+    }
+    this.addVersion({ definition: validated, deprecated: false, publishedAt });
 
     // Create MCP router
     const router = this.createMCPRouter(validated);
@@ -39,7 +125,7 @@ export class WorkflowMCPGenerator {
     // Register in ERC-8004
     const serverId = await this.registerInERC8004(validated);
 
-    console.log(`✅ Registered workflow MCP: ${validated.name} (${serverId})`);
+    console.log(`✅ Registered workflow MCP: ${validated.name}@${validated.version} (${serverId})`);
 
     return {
       serverId,
@@ -48,6 +134,128 @@ export class WorkflowMCPGenerator {
     };
   }
 
+  /**
+   * Check that every `workflow` step calls a published workflow and that no
+   * chain of calls leads back to a workflow already running. Unpinned calls
+   * resolve to the latest version, which `workflow` is about to become.
+   */
+  private checkSubWorkflows(workflow: WorkflowDefinition): void {
+    const resolve = (name: string, version?: string) =>
+      name === workflow.name && (!version || version === workflow.version)
+        ? workflow
+        : this.getWorkflow(version ? `${name}@${version}` : name);
+
+    for (const step of workflow.steps) {
+      if (step.type !== 'workflow' || !step.workflow) continue;
+      const { name, version } = step.workflow;
+      if (!resolve(name, version)) {
+        throw new WorkflowVersionError(
+          `Step ${step.id} calls unknown workflow ${version ? `${name}@${version}` : name}`,
+          400
+        );
+      }
+    }
+
+    const cycle = findWorkflowCycle(workflow, resolve);
+    if (cycle) {
+      throw new WorkflowVersionError(`Recursive workflow calls: ${cycle.join(' → ')}`, 400);
+    }
+  }
+
+  /**
+   * Add a published version to memory, moving the latest pointer forward
+   */
+  private addVersion(published: PublishedVersion): void {
+    const { name, version } = published.definition;
+
+    if (!this.versions.has(name)) this.versions.set(name, new Map());
+    this.versions.get(name)!.set(version, published);
+
+    const latest = this.workflows.get(name);
+    if (!latest || compareVersions(version, latest.version) > 0) {
+      this.workflows.set(name, published.definition);
+    }
+  }
+
+  /**
+   * Restore registered workflows from the database (call once at startup)
+   */
+  async loadPersistedWorkflows(): Promise<number> {
+    try {
+      const versions = await workflowStore.loadAll();
+      for (const { definition: stored, deprecated, deprecationMessage, publishedAt } of versions) {
+        const definition = this.withValidVersion(stored);
+        if (definition) {
+          this.addVersion({ definition, deprecated, deprecationMessage, publishedAt });
+        }
+      }
+      console.log(`✅ Loaded ${this.workflows.size} persisted workflows (${versions.length} versions)`);
+      return this.workflows.size;
+    } catch (error: any) {
+      console.error('Failed to load persisted workflows:', error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Definitions saved before versioning may have a free-form or missing
+   * version: load them as DEFAULT_VERSION, or skip them if it is taken
+   */
+  private withValidVersion(definition: WorkflowDefinition): WorkflowDefinition | null {
+    if (isValidVersion(definition.version)) return definition;
+
+    if (this.versions.get(definition.name)?.has(DEFAULT_VERSION)) {
+      console.warn(`⚠️  Skipping ${definition.name} version "${definition.version ?? ''}": not a semantic version, and ${DEFAULT_VERSION} is taken`);
+      return null;
+    }
+    console.warn(`⚠️  Loading ${definition.name} version "${definition.version ?? ''}" as ${DEFAULT_VERSION}`);
+    return { ...definition, version: DEFAULT_VERSION };
+  }
+
+  /**
+   * Deprecate a published version. Pinned callers can still run it but
+   * are warned; the latest version cannot be deprecated.
+   */
+  async deprecateVersion(name: string, version: string, message?: string): Promise<PublishedVersion> {
+    const published = this.versions.get(name)?.get(version);
+
+    if (!published) {
+      throw new WorkflowVersionError(`Version ${version} of ${name} not found`, 404);
+    }
+    if (this.workflows.get(name)!.version === version) {
+      throw new WorkflowVersionError(`Cannot deprecate the latest version of ${name}; publish a newer one first`, 409);
+    }
+
+    published.deprecated = true;
+    published.deprecationMessage = message;
+    try {
+      await workflowStore.deprecate(name, version, message);
+    } catch (error: any) {
+      console.error(`Failed to persist deprecation of ${name}@${version}:`, error.message);
+    }
+
+    return published;
+  }
+
+  /**
+   * Compare two published versions (`to` defaults to the latest)
+   */
+  diffVersions(name: string, from: string, to?: string): WorkflowDiff {
+    const latest = this.workflows.get(name);
+    if (!latest) {
+      throw new WorkflowVersionError('Workflow not found', 404);
+    }
+
+    const target = to ?? latest.version;
+    const before = this.versions.get(name)!.get(from);
+    const after = this.versions.get(name)!.get(target);
+    if (!before || !after) {
+      throw new WorkflowVersionError(`Version ${before ? target : from} of ${name} not found`, 404);
+    }
+
+    return diffWorkflows(before.definition, after.definition);
+  }
+
   /**
    * Create MCP router for a workflow
    */
@@ -62,47 +270,53 @@ export class WorkflowMCPGenerator {
         description: workflow.description,
         method: 'POST',
         cost: workflow.pricing.basePrice,
-        inputSchema: {
-          type: 'object',
-          properties: Object.fromEntries(
-            workflow.inputs.map(input => [
-              input.name,
-              {
-                type: input.type,
-                description: input.description,
-                default: input.default,
-              },
-            ])
-          ),
-          required: workflow.inputs.filter(i => i.required).map(i => i.name),
-        },
+        inputSchema: inputsToSchema(workflow.inputs),
+        outputSchema: workflow.output.schema,
       }]);
     });
 
-    // Execute workflow
-    router.post(`/tools/execute_${workflow.name}`, async (req: Request, res: Response) => {
+    // Execute workflow (latest, or a pinned version: execute_<name>@1.2.0)
+    const execute = (ref: (req: Request) => string) => async (req: Request, res: Response) => {
       const startTime = Date.now();
+      const published = this.getPublishedVersion(ref(req));
+
+      if (!published) {
+        return res.status(404).json({ success: false, error: `Workflow ${ref(req)} not found` });
+      }
+      const workflow = published.definition;
+      if (published.deprecated) {
+        res.setHeader('Deprecation', 'true');
+      }
       
       try {
         const userId = req.headers['x-user-id'] as string || req.body.userId;
-        const inputs = req.body;
+        const { maxCostUsd, ...inputs } = req.body;
         delete inputs.userId;
 
-        console.log(`🚀 Executing workflow: ${workflow.name}`);
+        if (maxCostUsd !== undefined && !(typeof maxCostUsd === 'number' && maxCostUsd > 0)) {
+          return res.status(400).json({ success: false, error: 'maxCostUsd must be a positive number' });
+        }
+
+        console.log(`🚀 Executing workflow: ${workflow.name}@${workflow.version}`);
         
-        const result = await workflowExecutor.execute(workflow, inputs, userId);
+        const result = await workflowExecutor.execute(workflow, inputs, userId, { maxCostUsd });
         
         res.json({
           success: result.success,
           output: result.output,
           meta: {
             executionId: result.executionId,
+            version: workflow.version,
+            deprecation: published.deprecated
+              ? published.deprecationMessage || `Version ${workflow.version} is deprecated`
+              : undefined,
             cost: result.totalCost,
             executionTime: result.executionTime,
             stepCosts: result.stepCosts,
             revenue: {
               creator: result.creatorRevenue,
               platform: result.platformRevenue,
+              payouts: result.payouts,
             },
           },
         });
@@ -116,7 +330,10 @@ export class WorkflowMCPGenerator {
           },
         });
       }
-    });
+    };
+
+    router.post(`/tools/execute_${workflow.name}`, execute(() => workflow.name));
+    router.post(`/tools/execute_${workflow.name}@:version`, execute(req => `${workflow.name}@${req.params.version}`));
 
     // Health check
     router.get('/health', (req: Request, res: Response) => {
@@ -165,6 +382,10 @@ export class WorkflowMCPGenerator {
             updatedAt: new Date(),
           },
         });
+        await prisma.tool.updateMany({
+          where: { mcpServerId: existingServer.id, name: `execute_${workflow.name}` },
+          data: { baseCost: workflow.pricing.basePrice, costUsd: workflow.pricing.basePrice },
+        });
         return existingServer.id;
       }
 
@@ -214,19 +435,45 @@ export class WorkflowMCPGenerator {
   }
 
   /**
-   * Get registered workflow
+   * Get registered workflow: the latest version, or a pinned one ("name@1.2.0")
+   */
+  getWorkflow(ref: string): WorkflowDefinition | undefined {
+    return this.getPublishedVersion(ref)?.definition;
+  }
+
+  /**
+   * Get a published version with its deprecation state
+   */
+  getPublishedVersion(ref: string): PublishedVersion | undefined {
+    const { name, version } = parseWorkflowRef(ref);
+    return this.versions.get(name)?.get(version ?? this.workflows.get(name)?.version ?? '');
+  }
+
+  /**
+   * List the published versions of a workflow, newest first
    */
-  getWorkflow(name: string): WorkflowDefinition | undefined {
-    return this.workflows.get(name);
+  listVersions(name: string): (Omit<PublishedVersion, 'definition'> & { version: string; latest: boolean })[] | undefined {
+    const versions = this.versions.get(name);
+    if (!versions) return undefined;
+
+    const latest = this.workflows.get(name)!.version;
+    return Array.from(versions.values())
+      .sort((a, b) => compareVersions(b.definition.version, a.definition.version))
+      .map(({ definition, ...published }) => ({
+        version: definition.version,
+        latest: definition.version === latest,
+        ...published,
+      }));
   }
 
   /**
    * List all registered workflows
    */
-  listWorkflows(): { name: string; description: string; price: number }[] {
+  listWorkflows(): { name: string; description: string; version: string; price: number }[] {
     return Array.from(this.workflows.values()).map(w => ({
       name: w.name,
       description: w.description,
+      version: w.version,
       price: w.pricing.basePrice,
     }));
   }
@@ -0,0 +1,845 @@
+/**
+ * n8n Importer
+ *
+ * Converts n8n workflow exports (nodes + connections) into WorkflowDefinitions:
+ * - Trigger nodes become workflow inputs ($json.email → {{input.email}})
+ * - HTTP Request nodes map onto registered MCP tools whose base URL and
+ *   path match the request
+ * - IF nodes become condition steps; Switch nodes a chain of them
+ * - SplitInBatches becomes a loop over the previous node's output
+ * - Code nodes become transforms when they are a single return expression
+ *
+ * Nodes that cannot be converted are listed in the import report instead of
+ * failing the import, so a partial flow can be finished by hand.
+ */
+
+import { prisma } from '../../lib/prisma';
+import { WorkflowDefinition, WorkflowStep, WorkflowInput } from './types';
+import { workflowParser } from './parser';
+import { parseExpression } from './expression';
+
+export interface N8nNode {
+  id?: string;
+  name: string;
+  type: string;
+  typeVersion?: number;
+  parameters?: Record<string, any>;
+  disabled?: boolean;
+}
+
+export interface N8nConnectionTarget {
+  node: string;
+  type: string;
+  index: number;
+}
+
+export interface N8nWorkflow {
+  name?: string;
+  nodes: N8nNode[];
+  connections: Record<string, { main?: (N8nConnectionTarget[] | null)[] }>;
+}
+
+export interface N8nImportReport {
+  converted: { node: string; type: string; stepId: string; stepType: WorkflowStep['type'] }[];
+  needsReview: { node: string; stepId: string; reason: string }[];  // Converted, but not faithfully
+  unsupported: { node: string; type: string; reason: string }[];    // Left out of the workflow
+  warnings: string[];
+}
+
+export interface N8nImportResult {
+  workflow: WorkflowDefinition;
+  report: N8nImportReport;
+}
+
+// Fields the n8n export does not carry (creator, pricing) or that override it
+export type N8nImportOverrides = Partial<Omit<WorkflowDefinition, 'creator' | 'pricing'>> & {
+  creator?: Partial<WorkflowDefinition['creator']>;
+  pricing?: Partial<WorkflowDefinition['pricing']>;
+};
+
+// An MCP server that HTTP Request nodes can be matched against
+interface RegisteredServer {
+  name: string;
+  endpoint: string;
+  baseUrl?: string;
+  tools: { name: string; httpMethod: string; path: string | null }[];
+}
+
+type NodeRole = 'trigger' | 'step' | 'passthrough';
+
+// Where `$json` of a node points: a workflow input, loop item or step output
+interface DataSource {
+  root: string[];         // ['input'], ['item'] or ['steps', stepId]
+  webhook?: boolean;      // Webhook payloads nest fields under body/query
+}
+
+interface ImportState {
+  nodes: Map<string, N8nNode>;
+  roles: Map<string, NodeRole>;
+  stepIds: Map<string, string>;        // Node name → step ID
+  outgoing: Map<string, string[][]>;   // Node name → target node names per output
+  incoming: Map<string, string[]>;
+  loopOf: Map<string, string>;         // Body node name → innermost SplitInBatches node name
+  servers: RegisteredServer[];
+  inputs: Map<string, WorkflowInput>;
+  report: N8nImportReport;
+}
+
+const NODE = {
+  httpRequest: 'n8n-nodes-base.httpRequest',
+  if: 'n8n-nodes-base.if',
+  switch: 'n8n-nodes-base.switch',
+  splitInBatches: 'n8n-nodes-base.splitInBatches',
+  code: 'n8n-nodes-base.code',
+  function: 'n8n-nodes-base.function',
+  webhook: 'n8n-nodes-base.webhook',
+};
+
+// Nodes that only route data; their neighbours are connected directly
+const PASSTHROUGH_NODES = new Set(['n8n-nodes-base.noOp', 'n8n-nodes-base.merge', 'n8n-nodes-base.stickyNote']);
+
+// n8n comparison operations (IF v1/v2, Switch) → expression builders
+const COMPARISONS: Partial<Record<string, (a: string, b: string) => string>> = {
+  equal: (a, b) => `${a} == ${b}`,
+  equals: (a, b) => `${a} == ${b}`,
+  notEqual: (a, b) => `${a} != ${b}`,
+  notEquals: (a, b) => `${a} != ${b}`,
+  larger: (a, b) => `${a} > ${b}`,
+  gt: (a, b) => `${a} > ${b}`,
+  largerEqual: (a, b) => `${a} >= ${b}`,
+  gte: (a, b) => `${a} >= ${b}`,
+  smaller: (a, b) => `${a} < ${b}`,
+  lt: (a, b) => `${a} < ${b}`,
+  smallerEqual: (a, b) => `${a} <= ${b}`,
+  lte: (a, b) => `${a} <= ${b}`,
+  contains: (a, b) => `contains(${a}, ${b})`,
+  notContains: (a, b) => `!contains(${a}, ${b})`,
+  startsWith: (a, b) => `startsWith(string(${a}), ${b})`,
+  endsWith: (a, b) => `endsWith(string(${a}), ${b})`,
+  true: a => `${a} == true`,
+  false: a => `${a} == false`,
+  exists: a => `${a} != null`,
+  notExists: a => `${a} == null`,
+  isEmpty: a => `(${a} == null || len(${a}) == 0)`,
+  empty: a => `(${a} == null || len(${a}) == 0)`,
+  isNotEmpty: a => `(${a} != null && len(${a}) > 0)`,
+  notEmpty: a => `(${a} != null && len(${a}) > 0)`,
+};
+
+export class N8nImporter {
+  /**
+   * Convert an n8n export into a validated workflow definition
+   */
+  async parseN8n(exported: N8nWorkflow, overrides: N8nImportOverrides = {}): Promise<N8nImportResult> {
+    if (!exported || !Array.isArray(exported.nodes) || typeof exported.connections !== 'object') {
+      throw new Error('Invalid n8n export: expected "nodes" and "connections"');
+    }
+
+    const report: N8nImportReport = { converted: [], needsReview: [], unsupported: [], warnings: [] };
+    const state: ImportState = {
+      nodes: new Map(exported.nodes.map(n => [n.name, n])),
+      roles: new Map(),
+      stepIds: new Map(),
+      outgoing: new Map(),
+      incoming: new Map(),
+      loopOf: new Map(),
+      servers: await this.loadServers(report),
+      inputs: new Map(),
+      report,
+    };
+
+    this.indexConnections(exported, state);
+    this.classifyNodes(state);
+    this.findLoopBodies(state);
+
+    const steps: WorkflowStep[] = [];
+    for (const node of exported.nodes) {
+      if (state.roles.get(node.name) !== 'step') continue;
+      steps.push(...this.convertNode(node, state));
+    }
+
+    const definition = {
+      name: overrides.name || this.slugify(exported.name || 'n8n-import').replace(/_/g, '-'),
+      description: overrides.description || `Imported from n8n${exported.name ? `: ${exported.name}` : ''}`,
+      ...overrides,
+      inputs: overrides.inputs || Array.from(state.inputs.values()),
+      steps,
+      output: overrides.output || { template: this.outputTemplate(steps) },
+      tags: overrides.tags || ['n8n-import'],
+    };
+
+    return { workflow: workflowParser.validate(definition), report };
+  }
+
+  /**
+   * Active MCP servers with their tools, for matching HTTP Request nodes
+   */
+  private async loadServers(report: N8nImportReport): Promise<RegisteredServer[]> {
+    try {
+      const servers = await prisma.mCPServer.findMany({
+        where: { status: 'ACTIVE' },
+        include: { tools: { where: { isActive: true } } },
+      });
+
+      return servers.map(s => ({
+        name: s.name,
+        endpoint: s.endpoint,
+        baseUrl: s.baseUrl ? s.baseUrl.replace(/\/+$/, '') : undefined,
+        tools: s.tools.map(t => ({ name: t.name, httpMethod: t.httpMethod.toUpperCase(), path: t.path })),
+      }));
+    } catch (error: any) {
+      report.warnings.push(`Could not load registered MCP tools (${error.message}); HTTP Request nodes were not mapped`);
+      return [];
+    }
+  }
+
+  /**
+   * Build per-output adjacency from n8n's `main` connections
+   */
+  private indexConnections(exported: N8nWorkflow, state: ImportState): void {
+    for (const node of exported.nodes) {
+      state.outgoing.set(node.name, []);
+      state.incoming.set(node.name, []);
+    }
+
+    for (const [source, outputs] of Object.entries(exported.connections)) {
+      if (!state.nodes.has(source)) continue;
+
+      (outputs.main || []).forEach((targets, output) => {
+        const names = (targets || []).map(t => t.node).filter(name => state.nodes.has(name));
+        state.outgoing.get(source)![output] = names;
+        for (const name of names) state.incoming.get(name)!.push(source);
+      });
+    }
+  }
+
+  /**
+   * Decide which nodes become steps and assign their step IDs
+   */
+  private classifyNodes(state: ImportState): void {
+    const used = new Set<string>();
+
+    for (const node of state.nodes.values()) {
+      let role: NodeRole = 'step';
+
+      if (/trigger$/i.test(node.type) || node.type === NODE.webhook || node.type === 'n8n-nodes-base.start') {
+        role = 'trigger';
+      } else if (PASSTHROUGH_NODES.has(node.type)) {
+        role = 'passthrough';
+      } else if (node.disabled) {
+        role = 'passthrough';
+        state.report.warnings.push(`Node "${node.name}" is disabled and was left out`);
+      } else {
+        const reason = this.unsupportedReason(node, state);
+        if (reason) {
+          role = 'passthrough';
+          state.report.unsupported.push({ node: node.name, type: node.type, reason });
+        }
+      }
+
+      state.roles.set(node.name, role);
+
+      if (role === 'step') {
+        let id = this.slugify(node.name);
+        for (let n = 2; used.has(id); n++) id = `${this.slugify(node.name)}_${n}`;
+        used.add(id);
+        state.stepIds.set(node.name, id);
+      }
+    }
+  }
+
+  /**
+   * Why a node cannot become a step, or null if it can
+   */
+  private unsupportedReason(node: N8nNode, state: ImportState): string | null {
+    const params = node.parameters || {};
+
+    switch (node.type) {
+      case NODE.httpRequest: {
+        const match = this.matchTool(node, state);
+        return 'reason' in match ? match.reason : null;
+      }
+      case NODE.switch:
+        return params.mode === 'expression' ? 'Switch nodes in expression mode are not supported' : null;
+      case NODE.if:
+      case NODE.splitInBatches:
+      case NODE.code:
+      case NODE.function:
+        return null;
+      default:
+        return `Node type ${node.type} has no equivalent step type`;
+    }
+  }
+
+  /**
+   * Collect each SplitInBatches body: nodes reachable from its loop output
+   * before flowing back into it. Nested loops own their own bodies.
+   */
+  private findLoopBodies(state: ImportState): void {
+    const bodies = new Map<string, Set<string>>();
+
+    for (const node of state.nodes.values()) {
+      if (node.type !== NODE.splitInBatches || state.roles.get(node.name) !== 'step') continue;
+
+      const body = new Set<string>();
+      const queue = [...(state.outgoing.get(node.name)![this.loopOutput(node)] || [])];
+      while (queue.length > 0) {
+        const name = queue.shift()!;
+        if (name === node.name || body.has(name)) continue;
+        body.add(name);
+        for (const targets of state.outgoing.get(name)!) queue.push(...(targets || []));
+      }
+      bodies.set(node.name, body);
+    }
+
+    // Innermost loop wins: the smallest body containing the node
+    for (const name of state.nodes.keys()) {
+      let owner: string | undefined;
+      for (const [loop, body] of bodies) {
+        if (body.has(name) && (!owner || body.size < bodies.get(owner)!.size)) owner = loop;
+      }
+      if (owner) state.loopOf.set(name, owner);
+    }
+  }
+
+  /**
+   * Output index of a SplitInBatches node that feeds the loop body
+   * (v3 "Loop Over Items" uses output 0 for "done")
+   */
+  private loopOutput(node: N8nNode): number {
+    return (node.typeVersion || 1) >= 3 ? 1 : 0;
+  }
+
+  /**
+   * Convert one step node (Switch nodes produce several steps)
+   */
+  private convertNode(node: N8nNode, state: ImportState): WorkflowStep[] {
+    const id = state.stepIds.get(node.name)!;
+    const base = { id, name: node.name, dependsOn: this.getDependencies(node.name, state) };
+    const params = node.parameters || {};
+    let steps: WorkflowStep[];
+
+    switch (node.type) {
+      case NODE.httpRequest: {
+        const match = this.matchTool(node, state) as { server: string; function: string };
+        steps = [{
+          ...base,
+          type: 'mcp_tool',
+          tool: { server: match.server, function: match.function, params: this.httpParams(node, state) },
+        }];
+        break;
+      }
+
+      case NODE.if: {
+        const condition = this.convertConditions(node, state);
+        steps = [{
+          ...base,
+          type: 'condition',
+          condition: {
+            if: condition,
+            then: this.branchTargets(node.name, 0, state),
+            else: this.branchTargets(node.name, 1, state),
+          },
+        }];
+        break;
+      }
+
+      case NODE.switch:
+        steps = this.convertSwitch(node, base, state);
+        break;
+
+      case NODE.splitInBatches: {
+        const source = this.getDataSource(node.name, state);
+        const body = Array.from(state.loopOf.entries())
+          .filter(([name, loop]) => loop === node.name && state.roles.get(name) === 'step')
+          .flatMap(([name]) => this.stepIdsFor(state.nodes.get(name)!, state));
+
+        steps = [{
+          ...base,
+          type: 'loop',
+          loop: { over: this.toTemplate(source.root), as: 'item', steps: body },
+        }];
+        state.report.needsReview.push({
+          node: node.name,
+          stepId: id,
+          reason: `Loops over the output of ${source.root.join('.')}; check that it is an array`,
+        });
+        break;
+      }
+
+      default: {
+        // Code / Function
+        const source = this.getDataSource(node.name, state);
+        const code = params.jsCode ?? params.functionCode ?? '';
+        const expression = this.convertCode(code, node.name, state);
+
+        steps = [{
+          ...base,
+          type: 'transform',
+          transform: { input: this.toTemplate(source.root), expression: expression ?? 'input' },
+        }];
+        if (expression === null) {
+          state.report.needsReview.push({
+            node: node.name,
+            stepId: id,
+            reason: 'Code is not a single return expression; the step passes its input through until rewritten',
+          });
+        }
+      }
+    }
+
+    for (const step of steps) {
+      state.report.converted.push({ node: node.name, type: node.type, stepId: step.id, stepType: step.type });
+    }
+    return steps;
+  }
+
+  /**
+   * Step IDs a node produces (a Switch node expands to one per rule)
+   */
+  private stepIdsFor(node: N8nNode, state: ImportState): string[] {
+    const id = state.stepIds.get(node.name)!;
+    if (node.type !== NODE.switch) return [id];
+    return this.switchRules(node).map((_, i) => (i === 0 ? id : `${id}_rule${i + 1}`));
+  }
+
+  /**
+   * Steps that must finish first: the nearest step ancestors, looking
+   * through pass-through and unsupported nodes. Edges from conditions are
+   * left out (branch targets wait for their condition implicitly), as are
+   * loop entry and loop-back edges.
+   */
+  private getDependencies(name: string, state: ImportState): string[] {
+    const deps = new Set<string>();
+    const seen = new Set<string>();
+    const node = state.nodes.get(name)!;
+
+    const visit = (target: string) => {
+      for (const source of state.incoming.get(target)!) {
+        if (seen.has(source)) continue;
+        seen.add(source);
+
+        const role = state.roles.get(source);
+        const sourceNode = state.nodes.get(source)!;
+
+        if (role === 'passthrough') {
+          visit(source);
+        } else if (role === 'step') {
+          if (sourceNode.type === NODE.if || sourceNode.type === NODE.switch) continue;
+          // Loop-back edge from the body into its SplitInBatches node
+          if (node.type === NODE.splitInBatches && state.loopOf.get(source) === name) continue;
+          // Entry edge from the SplitInBatches node into its own body
+          if (sourceNode.type === NODE.splitInBatches && state.loopOf.get(name) === source) continue;
+          deps.add(state.stepIds.get(source)!);
+        }
+      }
+    };
+
+    visit(name);
+    return Array.from(deps);
+  }
+
+  /**
+   * Steps selected by one output of an IF/Switch node, looking through
+   * pass-through and unsupported nodes
+   */
+  private branchTargets(name: string, output: number, state: ImportState): string[] {
+    const targets = new Set<string>();
+    const seen = new Set<string>();
+
+    const visit = (names: string[]) => {
+      for (const target of names) {
+        if (seen.has(target)) continue;
+        seen.add(target);
+
+        // Flowing back into the enclosing loop just ends the iteration
+        if (state.loopOf.get(name) === target) continue;
+
+        const role = state.roles.get(target);
+        if (role === 'step') targets.add(state.stepIds.get(target)!);
+        else if (role === 'passthrough') state.outgoing.get(target)!.forEach(t => visit(t || []));
+      }
+    };
+
+    visit(state.outgoing.get(name)![output] || []);
+    return Array.from(targets);
+  }
+
+  /**
+   * What `$json` refers to in a node: the data of its first input
+   */
+  private getDataSource(name: string, state: ImportState, seen = new Set<string>()): DataSource {
+    // Ignore loop-back edges from a SplitInBatches node's own body
+    const source = state.incoming.get(name)!.find(s => state.loopOf.get(s) !== name);
+    if (!source || seen.has(source)) return { root: ['input'] };
+    seen.add(source);
+
+    const sourceNode = state.nodes.get(source)!;
+    const role = state.roles.get(source);
+
+    if (role === 'trigger') return { root: ['input'], webhook: sourceNode.type === NODE.webhook };
+    if (role === 'passthrough') return this.getDataSource(source, state, seen);
+    if (sourceNode.type === NODE.splitInBatches && state.loopOf.get(name) === source) return { root: ['item'] };
+    // Condition outputs pass their own input through
+    if (sourceNode.type === NODE.if || sourceNode.type === NODE.switch) return this.getDataSource(source, state, seen);
+    return { root: ['steps', state.stepIds.get(source)!] };
+  }
+
+  /**
+   * Data source of `$('Node')` / `$node["Node"]` references
+   */
+  private getNodeSource(name: string, current: string, state: ImportState): DataSource | null {
+    const node = state.nodes.get(name);
+    if (!node) return null;
+
+    const role = state.roles.get(name);
+    if (role === 'trigger') return { root: ['input'], webhook: node.type === NODE.webhook };
+    if (role !== 'step') return null;
+    if (node.type === NODE.splitInBatches) {
+      return state.loopOf.get(current) === name ? { root: ['item'] } : null;
+    }
+    return { root: ['steps', state.stepIds.get(name)!] };
+  }
+
+  /**
+   * Resolve an n8n data reference ($json.a, $('Node').item.json.a,
+   * $node["Node"].json.a, $input.item.json.a) to a path of keys
+   */
+  private resolveReference(expression: string, current: string, state: ImportState): string[] | null {
+    const path = String.raw`((?:\??\.[A-Za-z_$][\w$]*|\[(?:\d+|'[^']*'|"[^"]*")\])*)`;
+    const patterns: [RegExp, (m: RegExpMatchArray) => DataSource | null][] = [
+      [new RegExp(`^\\$json${path}$`), () => this.getDataSource(current, state)],
+      [new RegExp(`^\\$input\\.(?:item|first\\(\\)|last\\(\\))\\.json${path}$`), () => this.getDataSource(current, state)],
+      [new RegExp(`^\\$\\(['"](.+?)['"]\\)\\.(?:item|first\\(\\)|last\\(\\))\\.json${path}$`), m => this.getNodeSource(m[1], current, state)],
+      [new RegExp(`^\\$node\\[['"](.+?)['"]\\]\\.json${path}$`), m => this.getNodeSource(m[1], current, state)],
+    ];
+
+    for (const [pattern, source] of patterns) {
+      const match = expression.trim().match(pattern);
+      if (!match) continue;
+
+      const resolved = source(match);
+      if (!resolved) return null;
+
+      const keys = Array.from(match[match.length - 1].matchAll(/\??\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/g))
+        .map(m => m[1] ?? m[2] ?? m[3] ?? m[4]);
+
+      // Webhook triggers nest the payload under body/query; inputs are flat
+      if (resolved.webhook && ['body', 'query'].includes(keys[0])) keys.shift();
+      if (resolved.root[0] === 'input' && keys.length > 0) this.addInput(keys[0], state);
+
+      return [...resolved.root, ...keys];
+    }
+
+    return null;
+  }
+
+  /**
+   * Record a workflow input referenced by a converted expression
+   */
+  private addInput(name: string, state: ImportState): void {
+    if (state.inputs.has(name)) return;
+    state.inputs.set(name, { name, type: 'string', description: '', required: true });
+  }
+
+  /**
+   * Convert an n8n parameter value to a template. Expressions
+   * ("={{ $json.email }}") become {{...}} references where possible.
+   */
+  private convertValue(value: any, node: N8nNode, state: ImportState): any {
+    if (typeof value !== 'string' || !value.startsWith('=')) return value;
+
+    const stepId = state.stepIds.get(node.name)!;
+    return value.slice(1).replace(/\{\{([\s\S]+?)\}\}/g, (raw, expression: string) => {
+      const path = this.resolveReference(expression, node.name, state);
+      if (path) return this.toTemplate(path);
+
+      state.report.needsReview.push({
+        node: node.name,
+        stepId,
+        reason: `Expression "${expression.trim()}" could not be converted and is passed as text`,
+      });
+      return raw;
+    });
+  }
+
+  /**
+   * Convert an n8n operand to an expression: references become paths,
+   * literals become JSON. Returns null if it cannot be converted.
+   */
+  private toOperand(value: any, node: N8nNode, state: ImportState): string | null {
+    if (typeof value === 'string' && value.startsWith('=')) {
+      const match = value.slice(1).trim().match(/^\{\{([\s\S]+?)\}\}$/);
+      const path = match && this.resolveReference(match[1], node.name, state);
+      return path ? this.toExpressionPath(path) : null;
+    }
+    return value === undefined ? 'null' : JSON.stringify(value);
+  }
+
+  /**
+   * Build the condition expression of an IF node
+   */
+  private convertConditions(node: N8nNode, state: ImportState): string {
+    const params = node.parameters || {};
+
+    // v2+: { conditions: [{ leftValue, rightValue, operator }], combinator }
+    // v1:  { string|number|boolean: [{ value1, operation, value2 }] } + combineOperation
+    const comparisons = Array.isArray(params.conditions?.conditions)
+      ? params.conditions.conditions.map((c: any) => ({
+          left: c.leftValue, operation: c.operator?.operation, right: c.rightValue,
+        }))
+      : ['string', 'number', 'boolean', 'dateTime'].flatMap(kind =>
+          (params.conditions?.[kind] || []).map((c: any) => ({
+            left: c.value1, operation: c.operation, right: c.value2,
+          }))
+        );
+
+    const combinator = params.conditions?.combinator === 'or' || params.combineOperation === 'any' ? ' || ' : ' && ';
+    return this.buildCondition(comparisons, combinator, node, state);
+  }
+
+  /**
+   * Combine comparisons into one validated expression. Falls back to
+   * `false` (and flags the step) if any part cannot be converted.
+   */
+  private buildCondition(
+    comparisons: { left: any; operation: string; right: any }[],
+    combinator: string,
+    node: N8nNode,
+    state: ImportState
+  ): string {
+    const parts = comparisons.map(({ left, operation, right }) => {
+      const build = COMPARISONS[operation];
+      const a = this.toOperand(left, node, state);
+      const b = this.toOperand(right, node, state);
+      return build && a !== null && b !== null ? build(a, b) : null;
+    });
+
+    const expression = parts.length > 0 && parts.every(p => p !== null)
+      ? parts.map(p => (parts.length > 1 ? `(${p})` : p)).join(combinator)
+      : null;
+
+    if (expression !== null) {
+      try {
+        parseExpression(expression);
+        return expression;
+      } catch {
+        // Reported below
+      }
+    }
+
+    state.report.needsReview.push({
+      node: node.name,
+      stepId: state.stepIds.get(node.name)!,
+      reason: 'Condition could not be converted and evaluates to false until rewritten',
+    });
+    return 'false';
+  }
+
+  /**
+   * Rules of a Switch node with the output each one routes to
+   */
+  private switchRules(node: N8nNode): { comparisons: { left: any; operation: string; right: any }[]; combinator: string; output: number }[] {
+    const params = node.parameters || {};
+
+    // v3: rules.values[] with IF-style conditions
+    if (Array.isArray(params.rules?.values)) {
+      return params.rules.values.map((rule: any, i: number) => ({
+        comparisons: (rule.conditions?.conditions || []).map((c: any) => ({
+          left: c.leftValue, operation: c.operator?.operation, right: c.rightValue,
+        })),
+        combinator: rule.conditions?.combinator === 'or' ? ' || ' : ' && ',
+        output: i,
+      }));
+    }
+
+    // v1/v2: value1 compared against each rule's value2
+    return (params.rules?.rules || []).map((rule: any, i: number) => ({
+      comparisons: [{ left: params.value1, operation: rule.operation, right: rule.value2 }],
+      combinator: ' && ',
+      output: rule.output ?? i,
+    }));
+  }
+
+  /**
+   * Expand a Switch node into a chain of conditions: rule N selects its
+   * output, otherwise the next rule is checked, ending at the fallback
+   */
+  private convertSwitch(
+    node: N8nNode,
+    base: { id: string; name: string; dependsOn: string[] },
+    state: ImportState
+  ): WorkflowStep[] {
+    const params = node.parameters || {};
+    const rules = this.switchRules(node);
+    const ids = this.stepIdsFor(node, state);
+
+    const fallback = params.options?.fallbackOutput ?? params.fallbackOutput;
+    const fallbackOutput = fallback === 'extra' ? rules.length : typeof fallback === 'number' && fallback >= 0 ? fallback : null;
+
+    return rules.map((rule, i) => ({
+      id: ids[i],
+      name: i === 0 ? base.name : `${base.name} (rule ${i + 1})`,
+      dependsOn: i === 0 ? base.dependsOn : [],
+      type: 'condition' as const,
+      condition: {
+        if: this.buildCondition(rule.comparisons, rule.combinator, node, state),
+        then: this.branchTargets(node.name, rule.output, state),
+        else: i + 1 < rules.length
+          ? [ids[i + 1]]
+          : fallbackOutput !== null ? this.branchTargets(node.name, fallbackOutput, state) : [],
+      },
+    }));
+  }
+
+  /**
+   * Convert Code node source of the form `return <expression>;` with
+   * $json references rewritten. Returns null for anything else.
+   */
+  private convertCode(code: string, name: string, state: ImportState): string | null {
+    const source = code
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/^\s*\/\/.*$/gm, '')
+      .trim();
+
+    const match = source.match(/^return\s+([\s\S]+?);?$/);
+    if (!match || /;\s*\S/.test(match[1])) return null;
+
+    const expression = match[1]
+      .replace(/\$input\.(?:item|first\(\)|last\(\))\.json/g, 'input')
+      .replace(/\$json/g, 'input')
+      .replace(/\$\(['"](.+?)['"]\)\.(?:item|first\(\)|last\(\))\.json|\$node\[['"](.+?)['"]\]\.json/g, (raw, a, b) => {
+        const source = this.getNodeSource(a ?? b, name, state);
+        return source ? this.toExpressionPath(source.root) : raw;
+      });
+
+    try {
+      parseExpression(expression);
+      return expression;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Match an HTTP Request node to a registered MCP tool: either a call to
+   * our own /mcp/<server>/tools/<function> endpoint, or a request under a
+   * server's base URL matching one of its tools' method and path
+   */
+  private matchTool(node: N8nNode, state: ImportState): { server: string; function: string } | { reason: string } {
+    const params = node.parameters || {};
+    const method = String(params.method || params.requestMethod || 'GET').toUpperCase();
+    const url = String(params.url || '').replace(/^=/, '').replace(/\{\{[\s\S]*?\}\}/g, 'x').split('?')[0];
+
+    if (!url) return { reason: 'HTTP Request node has no URL' };
+
+    for (const server of state.servers) {
+      const own = url.indexOf(`${server.endpoint}/tools/`);
+      if (server.endpoint && own >= 0) {
+        const fn = url.slice(own + server.endpoint.length + '/tools/'.length).split('/')[0];
+        if (server.tools.some(t => t.name === fn)) return { server: server.name, function: fn };
+      }
+    }
+
+    let partial: string | null = null;
+    for (const server of state.servers) {
+      if (!server.baseUrl || !url.startsWith(server.baseUrl)) continue;
+
+      const path = url.slice(server.baseUrl.length) || '/';
+      const tool = server.tools.find(t =>
+        t.httpMethod === method && t.path !== null && this.pathPattern(t.path).test(path)
+      );
+      if (tool) return { server: server.name, function: tool.name };
+      partial = `Base URL matches MCP server ${server.name} but no tool handles ${method} ${path}`;
+    }
+
+    return { reason: partial || `No registered MCP tool matches ${method} ${url}` };
+  }
+
+  /**
+   * Tool path with {param} / :param placeholders as a regular expression
+   */
+  private pathPattern(path: string): RegExp {
+    const pattern = path
+      .replace(/\/+$/, '')
+      .split(/(\{[^}]+\}|:[A-Za-z_]\w*)/)
+      .map((part, i) => (i % 2 === 1 ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    return new RegExp(`^${pattern}/?$`);
+  }
+
+  /**
+   * Query and body parameters of an HTTP Request node (v1-v4 layouts)
+   */
+  private httpParams(node: N8nNode, state: ImportState): Record<string, any> {
+    const params = node.parameters || {};
+    const entries = [
+      ...(params.queryParameters?.parameters || []),
+      ...(params.bodyParameters?.parameters || []),
+      ...(params.queryParametersUi?.parameter || []),
+      ...(params.bodyParametersUi?.parameter || []),
+    ];
+
+    const result: Record<string, any> = {};
+    for (const { name, value } of entries) {
+      if (name) result[name] = this.convertValue(value, node, state);
+    }
+
+    if (params.specifyBody === 'json' && params.jsonBody) {
+      try {
+        const body = JSON.parse(String(params.jsonBody).replace(/^=/, ''));
+        for (const [key, value] of Object.entries(body)) {
+          result[key] = typeof value === 'string' && value.includes('{{')
+            ? this.convertValue(`=${value}`, node, state)
+            : value;
+        }
+      } catch {
+        state.report.needsReview.push({
+          node: node.name,
+          stepId: state.stepIds.get(node.name)!,
+          reason: 'JSON body could not be parsed and was left out',
+        });
+      }
+    }
+
+    if (/\{\{/.test(String(params.url || ''))) {
+      state.report.needsReview.push({
+        node: node.name,
+        stepId: state.stepIds.get(node.name)!,
+        reason: 'URL contains expressions; path parameters must be mapped to tool params by hand',
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Output the results of the steps nothing else depends on
+   */
+  private outputTemplate(steps: WorkflowStep[]): string {
+    const referenced = new Set(steps.flatMap(s => [
+      ...(s.dependsOn || []),
+      ...(s.condition ? [...s.condition.then, ...(s.condition.else || [])] : []),
+      ...(s.loop?.steps || []),
+    ]));
+    const leaves = steps.filter(s => !referenced.has(s.id) && s.type !== 'condition');
+
+    return leaves.length === 1 ? `{{steps.${leaves[0].id}}}` : '{{steps}}';
+  }
+
+  private toTemplate(path: string[]): string {
+    return `{{${path.join('.')}}}`;
+  }
+
+  private toExpressionPath(path: string[]): string {
+    return path
+      .map((key, i) => (i === 0 ? key : /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(/^\d+$/.test(key) ? Number(key) : key)}]`))
+      .join('');
+  }
+
+  private slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'step';
+  }
+}
+
+export const n8nImporter = new N8nImporter();
@@ -6,6 +6,13 @@
 
 import * as yaml from 'yaml';
 import { WorkflowDefinition, WorkflowStep, WorkflowInput } from './types';
+import { getStepDependencies, getLoopOwner, getLoopBody } from './graph';
+import { parseExpression } from './expression';
+import { isValidVersion, DEFAULT_VERSION } from './versioning';
+import { checkSchema, getInputSchema, validateSchema, formatSchemaErrors } from './json-schema';
+import { llmService } from './llm';
+
+const RETRYABLE_ERRORS = ['5xx', 'timeout', '429', 'network'];
 
 export class WorkflowParser {
   /**
@@ -20,6 +27,13 @@ export class WorkflowParser {
     }
   }
 
+  /**
+   * Parse YAML without validating it as a workflow
+   */
+  parseRawYAML(yamlContent: string): any {
+    return yaml.parse(yamlContent);
+  }
+
   /**
    * Parse workflow from JSON string
    */
@@ -40,6 +54,12 @@ export class WorkflowParser {
 
     // Required fields
     if (!workflow.name) errors.push('Missing required field: name');
+    if (typeof workflow.name === 'string' && workflow.name.includes('@')) {
+      errors.push('name must not contain "@" (reserved for version pins)');
+    }
+    if (workflow.version !== undefined && !isValidVersion(workflow.version)) {
+      errors.push('version must be a semantic version (MAJOR.MINOR.PATCH)');
+    }
     if (!workflow.steps || !Array.isArray(workflow.steps)) {
       errors.push('Missing required field: steps (must be array)');
     }
@@ -54,13 +74,22 @@ export class WorkflowParser {
       errors.push('Missing required field: pricing.basePrice');
     }
 
+    if (workflow.maxParallelism !== undefined &&
+        (!Number.isInteger(workflow.maxParallelism) || workflow.maxParallelism < 1)) {
+      errors.push('maxParallelism must be a positive integer');
+    }
+
     // Validate steps
     if (workflow.steps) {
+      const stepIds = new Set<string>(workflow.steps.map((s: any) => s.id));
       workflow.steps.forEach((step: any, index: number) => {
-        const stepErrors = this.validateStep(step, index);
+        const stepErrors = this.validateStep(step, index, stepIds);
         errors.push(...stepErrors);
       });
 
+      // Check that loop bodies are only read through their loop
+      errors.push(...this.checkLoopScopes(workflow.steps));
+
       // Check for circular dependencies
       const circularError = this.checkCircularDependencies(workflow.steps);
       if (circularError) errors.push(circularError);
@@ -70,10 +99,30 @@ export class WorkflowParser {
     if (workflow.inputs) {
       workflow.inputs.forEach((input: any, index: number) => {
         if (!input.name) errors.push(`Input ${index}: missing name`);
-        if (!input.type) errors.push(`Input ${index}: missing type`);
+        if (!input.type && !input.schema?.type) errors.push(`Input ${index}: missing type`);
+
+        const label = `Input ${index} (${input.name})`;
+        const schemaErrors = checkSchema(getInputSchema(input), label);
+        errors.push(...schemaErrors);
+
+        const defaultValue = input.default ?? input.schema?.default;
+        if (schemaErrors.length === 0 && defaultValue !== undefined) {
+          const result = validateSchema(defaultValue, getInputSchema(input), {}, `${label} default`);
+          if (result.errors.length > 0) errors.push(formatSchemaErrors(result.errors));
+        }
       });
     }
 
+    // Validate output schema
+    if (workflow.output?.schema !== undefined) {
+      errors.push(...checkSchema(workflow.output.schema, 'Output schema'));
+    }
+
+    // Validate dry-run tests
+    if (workflow.tests !== undefined && Array.isArray(workflow.steps)) {
+      errors.push(...this.checkTests(workflow.tests, workflow.steps));
+    }
+
     if (errors.length > 0) {
       throw new Error(`Workflow validation failed:\n${errors.join('\n')}`);
     }
@@ -85,7 +134,7 @@ export class WorkflowParser {
   /**
    * Validate a single step
    */
-  private validateStep(step: any, index: number): string[] {
+  private validateStep(step: any, index: number, stepIds: Set<string>): string[] {
     const errors: string[] = [];
     const prefix = `Step ${index} (${step.id || 'unnamed'})`;
 
@@ -99,18 +148,317 @@ export class WorkflowParser {
         break;
       case 'ai_decision':
         if (!step.ai?.prompt) errors.push(`${prefix}: missing ai.prompt`);
+        errors.push(...this.validateAI(step.ai || {}, prefix));
         break;
       case 'transform':
         if (!step.transform?.expression) errors.push(`${prefix}: missing transform.expression`);
+        else errors.push(...this.validateExpression(step.transform.expression, `${prefix}: transform.expression`));
         break;
       case 'condition':
         if (!step.condition?.if) errors.push(`${prefix}: missing condition.if`);
+        else errors.push(...this.validateExpression(step.condition.if, `${prefix}: condition.if`));
         if (!step.condition?.then) errors.push(`${prefix}: missing condition.then`);
+        for (const target of [...(step.condition?.then || []), ...(step.condition?.else || [])]) {
+          if (target === step.id) {
+            errors.push(`${prefix}: condition cannot branch to itself`);
+          } else if (!stepIds.has(target)) {
+            errors.push(`${prefix}: branch references unknown step: ${target}`);
+          }
+        }
         break;
       case 'loop':
         if (!step.loop?.over) errors.push(`${prefix}: missing loop.over`);
         if (!step.loop?.steps) errors.push(`${prefix}: missing loop.steps`);
+        for (const target of step.loop?.steps || []) {
+          if (target === step.id) {
+            errors.push(`${prefix}: loop cannot contain itself`);
+          } else if (!stepIds.has(target)) {
+            errors.push(`${prefix}: loop references unknown step: ${target}`);
+          }
+        }
+        for (const field of ['concurrency', 'maxIterations']) {
+          const value = step.loop?.[field];
+          if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+            errors.push(`${prefix}: loop.${field} must be a positive integer`);
+          }
+        }
+        break;
+      case 'workflow':
+        if (!step.workflow?.name) errors.push(`${prefix}: missing workflow.name`);
+        if (step.workflow?.version !== undefined && !isValidVersion(step.workflow.version)) {
+          errors.push(`${prefix}: workflow.version must be a semantic version (MAJOR.MINOR.PATCH)`);
+        }
+        if (step.workflow?.inputs !== undefined &&
+            (typeof step.workflow.inputs !== 'object' || Array.isArray(step.workflow.inputs))) {
+          errors.push(`${prefix}: workflow.inputs must be an object`);
+        }
+        break;
+      case 'approval': {
+        const approval = step.approval;
+        if (!approval || typeof approval !== 'object') {
+          errors.push(`${prefix}: missing approval`);
+          break;
+        }
+        if (approval.message !== undefined && typeof approval.message !== 'string') {
+          errors.push(`${prefix}: approval.message must be a string`);
+        }
+        if (approval.notify?.webhook !== undefined && !/^https?:\/\/\S+$/i.test(approval.notify.webhook)) {
+          errors.push(`${prefix}: approval.notify.webhook must be an http(s) URL`);
+        }
+        if (approval.approvers !== undefined &&
+            (!Array.isArray(approval.approvers) || !approval.approvers.every((a: any) => /^0x[a-fA-F0-9]{40}$/.test(a)))) {
+          errors.push(`${prefix}: approval.approvers must be an array of wallet addresses`);
+        }
         break;
+      }
+      default:
+        if (step.type) errors.push(`${prefix}: unknown type: ${step.type}`);
+    }
+
+    errors.push(...this.validateRetry(step, prefix));
+
+    return errors;
+  }
+
+  /**
+   * Validate the model and generation settings of an ai_decision step
+   */
+  private validateAI(ai: any, prefix: string): string[] {
+    const errors: string[] = [];
+
+    if (ai.model !== undefined) {
+      try {
+        llmService.resolve(String(ai.model));
+      } catch (error: any) {
+        errors.push(`${prefix}: ai.model: ${error.message}`);
+      }
+    }
+    if (ai.system !== undefined && typeof ai.system !== 'string') {
+      errors.push(`${prefix}: ai.system must be a string`);
+    }
+    if (ai.temperature !== undefined && !(typeof ai.temperature === 'number' && ai.temperature >= 0 && ai.temperature <= 2)) {
+      errors.push(`${prefix}: ai.temperature must be a number between 0 and 2`);
+    }
+    if (ai.maxTokens !== undefined && !(Number.isInteger(ai.maxTokens) && ai.maxTokens > 0)) {
+      errors.push(`${prefix}: ai.maxTokens must be a positive integer`);
+    }
+    if (ai.maxRepairs !== undefined && !(Number.isInteger(ai.maxRepairs) && ai.maxRepairs >= 0)) {
+      errors.push(`${prefix}: ai.maxRepairs must be a non-negative integer`);
+    }
+    if (ai.outputFormat !== undefined && !['text', 'json'].includes(ai.outputFormat)) {
+      errors.push(`${prefix}: ai.outputFormat must be 'text' or 'json'`);
+    }
+    if (ai.schema !== undefined) {
+      errors.push(...checkSchema(ai.schema, `${prefix}: ai.schema`));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate timeoutMs and the retry policy of a step
+   */
+  private validateRetry(step: any, prefix: string): string[] {
+    const errors: string[] = [];
+    const isPositiveInt = (value: any) => Number.isInteger(value) && value > 0;
+
+    if (step.timeoutMs !== undefined && !isPositiveInt(step.timeoutMs)) {
+      errors.push(`${prefix}: timeoutMs must be a positive integer`);
+    }
+
+    const retry = step.retry;
+    if (retry === undefined) return errors;
+
+    if (typeof retry !== 'object' || retry === null) {
+      return [...errors, `${prefix}: retry must be an object`];
+    }
+    if (!Number.isInteger(retry.max) || retry.max < 0) {
+      errors.push(`${prefix}: retry.max must be a non-negative integer`);
+    }
+    if (retry.backoff !== undefined && !['exponential', 'fixed'].includes(retry.backoff)) {
+      errors.push(`${prefix}: retry.backoff must be 'exponential' or 'fixed'`);
+    }
+    for (const field of ['baseMs', 'maxMs']) {
+      if (retry[field] !== undefined && !isPositiveInt(retry[field])) {
+        errors.push(`${prefix}: retry.${field} must be a positive integer`);
+      }
+    }
+    if (retry.retryOn !== undefined) {
+      if (!Array.isArray(retry.retryOn)) {
+        errors.push(`${prefix}: retry.retryOn must be an array`);
+      } else {
+        for (const value of retry.retryOn) {
+          if (!RETRYABLE_ERRORS.includes(value)) {
+            errors.push(`${prefix}: retry.retryOn has unknown error type '${value}' (use ${RETRYABLE_ERRORS.join(', ')})`);
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check dry-run test cases: fixtures and expectations must name steps
+   * of the workflow and assertions must parse
+   */
+  checkTests(tests: any, steps: { id: string }[]): string[] {
+    if (!Array.isArray(tests)) return ['tests must be an array'];
+
+    const errors: string[] = [];
+    const names = new Set<string>();
+
+    tests.forEach((test: any, index: number) => {
+      if (!isPlainObject(test)) {
+        errors.push(`Test ${index}: must be an object`);
+        return;
+      }
+
+      const prefix = `Test ${index} (${test.name || 'unnamed'})`;
+      if (typeof test.name !== 'string' || !test.name) {
+        errors.push(`${prefix}: missing name`);
+      } else if (names.has(test.name)) {
+        errors.push(`${prefix}: duplicate test name`);
+      }
+      names.add(test.name);
+
+      if (test.input !== undefined && !isPlainObject(test.input)) {
+        errors.push(`${prefix}: input must be an object`);
+      }
+      if (test.fromRun !== undefined && typeof test.fromRun !== 'string') {
+        errors.push(`${prefix}: fromRun must be a run ID`);
+      }
+      if (test.fixtures !== undefined) {
+        errors.push(...this.checkFixtures(test.fixtures, steps, `${prefix}: fixtures`));
+      }
+      if (test.expect !== undefined) {
+        errors.push(...this.checkExpectation(test.expect, steps, `${prefix}: expect`));
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Check dry-run fixtures, keyed by step ID, loop path ("each[1].lookup")
+   * or sub-workflow step ("enrich.lookup")
+   */
+  checkFixtures(fixtures: any, steps: { id: string }[], label = 'fixtures'): string[] {
+    if (!isPlainObject(fixtures)) return [`${label} must be an object`];
+
+    const errors: string[] = [];
+    const stepIds = new Set(steps.map(s => s.id));
+
+    for (const [key, fixture] of Object.entries<any>(fixtures)) {
+      const stepId = key.split(/[.[]/)[0];
+      if (!stepIds.has(stepId)) {
+        errors.push(`${label}.${key}: unknown step ${stepId}`);
+      }
+      if (!isPlainObject(fixture) || (!('output' in fixture) && fixture.error === undefined)) {
+        errors.push(`${label}.${key}: must have an output or an error`);
+        continue;
+      }
+      if (fixture.error !== undefined && typeof fixture.error !== 'string') {
+        errors.push(`${label}.${key}: error must be a string`);
+      }
+      if (fixture.status !== undefined &&
+          !(Number.isInteger(fixture.status) && fixture.status >= 400 && fixture.status <= 599)) {
+        errors.push(`${label}.${key}: status must be an HTTP error status (400-599)`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check the expectations of a test case
+   */
+  private checkExpectation(expect: any, steps: { id: string }[], label: string): string[] {
+    if (!isPlainObject(expect)) return [`${label} must be an object`];
+
+    const errors: string[] = [];
+    const stepIds = new Set(steps.map(s => s.id));
+
+    if (expect.success !== undefined && typeof expect.success !== 'boolean') {
+      errors.push(`${label}.success must be a boolean`);
+    }
+    if (expect.error !== undefined && typeof expect.error !== 'string') {
+      errors.push(`${label}.error must be a string`);
+    }
+    if (expect.steps !== undefined) {
+      if (!isPlainObject(expect.steps)) {
+        errors.push(`${label}.steps must be an object`);
+      } else {
+        for (const stepId of Object.keys(expect.steps)) {
+          if (!stepIds.has(stepId)) errors.push(`${label}.steps: unknown step ${stepId}`);
+        }
+      }
+    }
+    if (expect.skipped !== undefined) {
+      if (!Array.isArray(expect.skipped)) {
+        errors.push(`${label}.skipped must be an array of step IDs`);
+      } else {
+        for (const stepId of expect.skipped) {
+          if (!stepIds.has(stepId)) errors.push(`${label}.skipped: unknown step ${stepId}`);
+        }
+      }
+    }
+    if (expect.assert !== undefined) {
+      if (!Array.isArray(expect.assert)) {
+        errors.push(`${label}.assert must be an array of expressions`);
+      } else {
+        expect.assert.forEach((expression: any, index: number) => {
+          errors.push(...this.validateExpression(expression, `${label}.assert[${index}]`));
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check that an expression parses in the sandboxed expression language
+   */
+  private validateExpression(expression: any, label: string): string[] {
+    if (typeof expression !== 'string') {
+      return [`${label} must be a string`];
+    }
+    try {
+      parseExpression(expression);
+      return [];
+    } catch (error: any) {
+      return [`${label}: ${error.message}`];
+    }
+  }
+
+  /**
+   * Check that loop body steps belong to one loop, that steps outside
+   * a loop depend on the loop step rather than its per-item body, and that
+   * approval steps (which pause the whole run) are not in a loop body
+   */
+  private checkLoopScopes(steps: WorkflowStep[]): string[] {
+    const errors: string[] = [];
+    const loops = steps.filter(s => s.type === 'loop' && s.loop);
+
+    for (const step of steps) {
+      const owners = loops.filter(l => l.id !== step.id && (l.loop!.steps || []).includes(step.id));
+      if (owners.length > 1) {
+        errors.push(`Step ${step.id} is in more than one loop: ${owners.map(l => l.id).join(', ')}`);
+      }
+
+      const enclosing = loops.filter(l => getLoopBody(l, steps).includes(step.id)).map(l => l.id);
+      if (step.type === 'approval' && enclosing.length > 0) {
+        errors.push(`Step ${step.id} is an approval step and cannot run inside loop ${enclosing[0]}`);
+      }
+
+      for (const dep of step.dependsOn || []) {
+        const depOwner = getLoopOwner(dep, steps);
+        if (enclosing.includes(dep)) {
+          errors.push(`Step ${step.id} cannot depend on its enclosing loop: ${dep}`);
+        } else if (depOwner && !enclosing.includes(depOwner.id)) {
+          errors.push(`Step ${step.id} depends on ${dep} inside loop ${depOwner.id}; depend on ${depOwner.id} instead`);
+        }
+      }
     }
 
     return errors;
@@ -134,8 +482,8 @@ export class WorkflowParser {
       path.push(stepId);
 
       const step = steps.find(s => s.id === stepId);
-      if (step?.dependsOn) {
-        for (const dep of step.dependsOn) {
+      if (step) {
+        for (const dep of getStepDependencies(step, steps)) {
           if (!stepIds.has(dep)) {
             return `Step ${stepId} depends on unknown step: ${dep}`;
           }
@@ -164,7 +512,7 @@ export class WorkflowParser {
     return {
       name: workflow.name,
       description: workflow.description || '',
-      version: workflow.version || '1.0.0',
+      version: workflow.version || DEFAULT_VERSION,
       creator: {
         address: workflow.creator.address,
         name: workflow.creator.name,
@@ -177,10 +525,11 @@ export class WorkflowParser {
       },
       inputs: (workflow.inputs || []).map((input: any) => ({
         name: input.name,
-        type: input.type,
+        type: input.type ?? input.schema.type,
         description: input.description || '',
         required: input.required ?? true,
         default: input.default,
+        schema: input.schema,
       })),
       steps: workflow.steps.map((step: any) => ({
         id: step.id,
@@ -190,13 +539,19 @@ export class WorkflowParser {
         ai: step.ai,
         transform: step.transform,
         condition: step.condition,
-        loop: step.loop,
+        loop: step.loop && { ...step.loop, as: step.loop.as || 'item' },
+        workflow: step.workflow,
+        approval: step.approval,
         dependsOn: step.dependsOn || [],
         onError: step.onError || 'fail',
         retries: step.retries || 0,
+        retry: step.retry,
+        timeoutMs: step.timeoutMs,
         estimatedCost: step.estimatedCost,
       })),
+      maxParallelism: workflow.maxParallelism,
       output: workflow.output || { template: '{{steps}}' },
+      tests: workflow.tests,
       tags: workflow.tags || [],
       category: workflow.category,
       isPublic: workflow.isPublic ?? false,
@@ -216,6 +571,34 @@ export class WorkflowParser {
   toJSON(workflow: WorkflowDefinition): string {
     return JSON.stringify(workflow, null, 2);
   }
+
+  /**
+   * Find the line and column (1-based) of a path such as "steps[2].tool.params"
+   * in YAML/JSON source, falling back to the nearest parent that exists.
+   * Returns null if the source does not parse.
+   */
+  locate(content: string, path: string): { line: number; column: number } | null {
+    const lineCounter = new yaml.LineCounter();
+    const document = yaml.parseDocument(content, { lineCounter });
+    if (document.errors.length > 0) return null;
+
+    const keys: (string | number)[] = Array.from(path.matchAll(/([^.[\]]+)|\[(\d+)\]/g))
+      .map(m => (m[2] !== undefined ? Number(m[2]) : m[1]));
+
+    for (let length = keys.length; length >= 0; length--) {
+      const node = length === 0 ? document.contents : document.getIn(keys.slice(0, length), true);
+      if (yaml.isNode(node) && node.range) {
+        const { line, col } = lineCounter.linePos(node.range[0]);
+        return { line, column: col };
+      }
+    }
+
+    return null;
+  }
+}
+
+function isPlainObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
 }
 
 export const workflowParser = new WorkflowParser();
@@ -0,0 +1,129 @@
+/**
+ * Step Retry Policy
+ *
+ * Classifies step failures and computes retry delays:
+ * - Only transient failures (5xx, 429, timeouts, network errors) are retried,
+ *   and only those listed in the step's retryOn
+ * - 4xx validation errors and 402 payment errors are never retried, so a
+ *   paid tool is not charged again for a request that cannot succeed
+ * - Retry-After headers from MCP servers override the backoff delay
+ */
+
+import { WorkflowStep, StepRetryPolicy, RetryableError } from './types';
+
+export const DEFAULT_STEP_TIMEOUT_MS = 30000;
+
+const DEFAULT_RETRY_ON: RetryableError[] = ['5xx', 'timeout', '429', 'network'];
+const DEFAULT_BASE_MS = 1000;
+const DEFAULT_MAX_MS = 30000;
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE', 'ERR_NETWORK',
+]);
+const TIMEOUT_ERROR_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT']);
+
+// What went wrong, as far as retrying is concerned
+export type ErrorClass = RetryableError | '402' | '4xx' | 'other';
+
+/**
+ * Thrown when a step attempt exceeds its timeoutMs
+ */
+export class StepTimeoutError extends Error {
+  constructor(stepId: string, public readonly timeoutMs: number) {
+    super(`Step ${stepId} timed out after ${timeoutMs}ms`);
+    this.name = 'StepTimeoutError';
+  }
+}
+
+/**
+ * Retry settings for a step, with the legacy `retries` count mapped to a
+ * fixed 1s backoff
+ */
+export function resolveRetryPolicy(step: WorkflowStep): Required<StepRetryPolicy> {
+  const policy: StepRetryPolicy = step.retry || { max: step.retries || 0, backoff: 'fixed' };
+
+  return {
+    max: policy.max,
+    backoff: policy.backoff || 'exponential',
+    baseMs: policy.baseMs ?? DEFAULT_BASE_MS,
+    maxMs: policy.maxMs ?? DEFAULT_MAX_MS,
+    retryOn: policy.retryOn || DEFAULT_RETRY_ON,
+  };
+}
+
+/**
+ * Classify an error from an axios call or a step timeout
+ */
+export function classifyError(error: any): ErrorClass {
+  if (error instanceof StepTimeoutError) return 'timeout';
+
+  const status: number | undefined = error?.response?.status;
+  if (status !== undefined) {
+    if (status === 402) return '402';
+    if (status === 429) return '429';
+    if (status === 408 || status === 504) return 'timeout';
+    if (status >= 500) return '5xx';
+    if (status >= 400) return '4xx';
+    return 'other';
+  }
+
+  const code: string | undefined = error?.code;
+  if (code && TIMEOUT_ERROR_CODES.has(code)) return 'timeout';
+  if (code && NETWORK_ERROR_CODES.has(code)) return 'network';
+
+  // Request sent but no response (axios) without a known code
+  if (error?.request && !error?.response) return 'network';
+
+  return 'other';
+}
+
+/**
+ * Whether a failed attempt should be retried under the given policy
+ */
+export function isRetryable(errorClass: ErrorClass, policy: Required<StepRetryPolicy>): boolean {
+  return (policy.retryOn as string[]).includes(errorClass);
+}
+
+/**
+ * Delay before the next attempt (attempt is 1-based: the one that just failed)
+ */
+export function getRetryDelay(policy: Required<StepRetryPolicy>, attempt: number, error?: any): number {
+  const retryAfter = parseRetryAfter(error?.response?.headers?.['retry-after']);
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, policy.maxMs);
+  }
+
+  const delay = policy.backoff === 'exponential'
+    ? policy.baseMs * Math.pow(2, attempt - 1)
+    : policy.baseMs;
+
+  return Math.min(delay, policy.maxMs);
+}
+
+/**
+ * Parse a Retry-After header: delay in seconds or an HTTP date
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Reject with StepTimeoutError if the promise does not settle in time.
+ * The underlying work is not cancelled.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, stepId: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new StepTimeoutError(stepId, timeoutMs)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,350 @@
+/**
+ * Workflow Run Store
+ *
+ * Records every workflow execution so runs can be inspected and resumed:
+ * - One WorkflowRun row per execution (inputs, output, status, total cost)
+ * - One WorkflowStepResult row per executed step, keyed by its path
+ *   ("enrich" at top level, "each[2].enrich" inside a loop iteration)
+ *
+ * Recording is best-effort: a database outage is logged but never fails
+ * the workflow itself. Resuming, however, requires the stored run.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { WorkflowDefinition, WorkflowExecutionContext, StepFixture } from './types';
+import { workflowStore } from './workflow-store';
+
+export interface StepResultRecord {
+  path: string;
+  stepId: string;
+  loopStepId?: string;
+  iteration?: number;
+  status: 'COMPLETED' | 'FAILED' | 'SKIPPED';
+  params?: any;
+  output?: any;
+  cost: number;
+  attempts: number;
+  attemptErrors?: string[];
+  error?: string;
+  response?: any;  // Raw reply, kept for recorded runs
+  startedAt: Date;
+}
+
+export interface RunFilters {
+  status?: 'RUNNING' | 'AWAITING_APPROVAL' | 'COMPLETED' | 'FAILED';
+  userId?: string;
+  from?: Date;
+  to?: Date;
+  minCost?: number;
+  maxCost?: number;
+  limit: number;
+  offset: number;
+}
+
+// Everything needed to continue a failed or paused run where it stopped
+export interface ResumeState {
+  runId: string;
+  workflow: WorkflowDefinition;  // The version the run started with
+  inputs: Record<string, any>;
+  userId?: string;
+  restored: Record<string, any>;  // Outputs of finished steps, keyed by path
+  priorCost: number;              // Already incurred by finished steps
+  record: boolean;                // The run is being recorded
+  maxCostUsd?: number;            // Budget cap the run started with
+}
+
+/**
+ * Error with the HTTP status a route should answer with
+ */
+export class WorkflowRunError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'WorkflowRunError';
+  }
+}
+
+export class WorkflowRunStore {
+  /**
+   * Create the run row for a new execution, with its budget cap (if any)
+   */
+  async startRun(context: WorkflowExecutionContext, workflow: WorkflowDefinition, maxCostUsd?: number): Promise<void> {
+    try {
+      const { workflowId, versionId } = await workflowStore.ensureVersion(workflow);
+
+      await prisma.workflowRun.create({
+        data: {
+          id: context.executionId,
+          workflowId,
+          versionId,
+          userId: context.userId,
+          status: 'RUNNING',
+          inputs: this.toJson(context.input),
+          recorded: !!context.record,
+          maxCostUsd,
+          startedAt: context.startedAt,
+        },
+      });
+    } catch (error: any) {
+      console.warn(`⚠️ Failed to record workflow run ${context.executionId}:`, error.message);
+    }
+  }
+
+  /**
+   * Record the outcome of one step. Re-running a path (on resume) replaces
+   * the previous attempt.
+   */
+  async recordStep(runId: string, record: StepResultRecord): Promise<void> {
+    const data = {
+      stepId: record.stepId,
+      loopStepId: record.loopStepId,
+      iteration: record.iteration,
+      status: record.status,
+      params: record.params == null ? Prisma.JsonNull : this.toJson(record.params),
+      output: record.output == null ? Prisma.JsonNull : this.toJson(record.output),
+      cost: record.cost,
+      attempts: record.attempts,
+      attemptErrors: record.attemptErrors?.length ? record.attemptErrors : Prisma.JsonNull,
+      error: record.error,
+      response: record.response == null ? Prisma.JsonNull : this.toJson(record.response),
+      startedAt: record.startedAt,
+      completedAt: new Date(),
+      durationMs: Date.now() - record.startedAt.getTime(),
+    };
+
+    try {
+      await prisma.workflowStepResult.upsert({
+        where: { runId_path: { runId, path: record.path } },
+        create: { runId, path: record.path, ...data },
+        update: data,
+      });
+    } catch (error: any) {
+      console.warn(`⚠️ Failed to record step ${record.path} of run ${runId}:`, error.message);
+    }
+  }
+
+  /**
+   * Mark a run finished, or paused at an approval step. The stored total
+   * covers every recorded step, including those completed before a resume.
+   */
+  async finishRun(
+    runId: string,
+    status: 'COMPLETED' | 'FAILED' | 'AWAITING_APPROVAL',
+    result: { output?: any; error?: string }
+  ): Promise<void> {
+    try {
+      const { _sum } = await prisma.workflowStepResult.aggregate({
+        where: { runId },
+        _sum: { cost: true },
+      });
+
+      await prisma.workflowRun.update({
+        where: { id: runId },
+        data: {
+          status,
+          output: result.output == null ? Prisma.JsonNull : this.toJson(result.output),
+          error: result.error ?? null,
+          totalCost: _sum.cost ?? 0,
+          completedAt: status === 'AWAITING_APPROVAL' ? null : new Date(),
+        },
+      });
+    } catch (error: any) {
+      console.warn(`⚠️ Failed to finish workflow run ${runId}:`, error.message);
+    }
+  }
+
+  /**
+   * Claim a failed run (or one paused for approval) for resumption and
+   * load its finished steps. The status flip is atomic, so a run cannot be
+   * resumed twice at once.
+   */
+  async resumeRun(runId: string, from: 'FAILED' | 'AWAITING_APPROVAL' = 'FAILED'): Promise<ResumeState> {
+    const claimed = await prisma.workflowRun.updateMany({
+      where: { id: runId, status: from },
+      data: {
+        status: 'RUNNING',
+        error: null,
+        completedAt: null,
+        resumeCount: { increment: 1 },
+      },
+    });
+
+    if (claimed.count === 0) {
+      const run = await prisma.workflowRun.findUnique({ where: { id: runId } });
+      if (!run) {
+        throw new WorkflowRunError(`Workflow run not found: ${runId}`, 404);
+      }
+      throw new WorkflowRunError(
+        from === 'FAILED'
+          ? `Only failed runs can be resumed (status: ${run.status})`
+          : `Run is not awaiting approval (status: ${run.status})`,
+        409
+      );
+    }
+
+    const run = await prisma.workflowRun.findUniqueOrThrow({
+      where: { id: runId },
+      include: {
+        version: true,
+        steps: { where: { status: { in: ['COMPLETED', 'SKIPPED'] } } },
+      },
+    });
+
+    return {
+      runId,
+      workflow: run.version.definition as unknown as WorkflowDefinition,
+      inputs: run.inputs as Record<string, any>,
+      userId: run.userId ?? undefined,
+      restored: Object.fromEntries(run.steps.map(s => [s.path, s.output])),
+      priorCost: run.steps.reduce((sum, s) => sum + Number(s.cost), 0),
+      record: run.recorded,
+      maxCostUsd: run.maxCostUsd === null ? undefined : Number(run.maxCostUsd),
+    };
+  }
+
+  /**
+   * List runs of a workflow, newest first
+   */
+  async listRuns(workflowName: string, filters: RunFilters) {
+    const where: Prisma.WorkflowRunWhereInput = {
+      workflow: { name: workflowName },
+      status: filters.status,
+      userId: filters.userId,
+      startedAt: filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+      totalCost: filters.minCost !== undefined || filters.maxCost !== undefined
+        ? { gte: filters.minCost, lte: filters.maxCost }
+        : undefined,
+    };
+
+    const [runs, total] = await Promise.all([
+      prisma.workflowRun.findMany({
+        where,
+        include: { version: { select: { version: true } } },
+        orderBy: { startedAt: 'desc' },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      prisma.workflowRun.count({ where }),
+    ]);
+
+    return { total, runs: runs.map(run => this.formatRun(run)) };
+  }
+
+  /**
+   * Get a run with a summary of every recorded step
+   */
+  async getRun(runId: string) {
+    const run = await prisma.workflowRun.findUnique({
+      where: { id: runId },
+      include: {
+        workflow: { select: { name: true } },
+        version: { select: { version: true } },
+        steps: { orderBy: { startedAt: 'asc' } },
+      },
+    });
+
+    if (!run) return null;
+
+    return {
+      ...this.formatRun(run),
+      workflow: run.workflow.name,
+      inputs: run.inputs,
+      output: run.output,
+      steps: run.steps.map(step => ({
+        path: step.path,
+        stepId: step.stepId,
+        loopStepId: step.loopStepId,
+        iteration: step.iteration,
+        status: step.status,
+        cost: Number(step.cost),
+        attempts: step.attempts,
+        error: step.error,
+        startedAt: step.startedAt,
+        durationMs: step.durationMs,
+      })),
+    };
+  }
+
+  /**
+   * Get the full records of one step: a single entry, or one per loop iteration
+   */
+  async getStepResults(runId: string, stepId: string) {
+    const steps = await prisma.workflowStepResult.findMany({
+      where: { runId, stepId },
+      orderBy: [{ iteration: 'asc' }, { startedAt: 'asc' }],
+    });
+
+    return steps.map(step => ({
+      path: step.path,
+      stepId: step.stepId,
+      loopStepId: step.loopStepId,
+      iteration: step.iteration,
+      status: step.status,
+      params: step.params,
+      output: step.output,
+      cost: Number(step.cost),
+      attempts: step.attempts,
+      attemptErrors: step.attemptErrors ?? [],
+      error: step.error,
+      response: step.response,
+      startedAt: step.startedAt,
+      completedAt: step.completedAt,
+      durationMs: step.durationMs,
+    }));
+  }
+
+  /**
+   * Load a run's inputs and step outcomes as dry-run fixtures, keyed by
+   * path. Failures are kept so a failing run can be reproduced; steps
+   * pruned by a branch are left out, since they are pruned again.
+   */
+  async getRecordedFixtures(runId: string) {
+    const run = await prisma.workflowRun.findUnique({
+      where: { id: runId },
+      include: {
+        workflow: { select: { name: true } },
+        version: { select: { version: true } },
+        steps: true,
+      },
+    });
+
+    if (!run) return null;
+
+    const fixtures: Record<string, StepFixture> = {};
+    for (const step of run.steps) {
+      if (step.status === 'COMPLETED') {
+        fixtures[step.path] = { output: step.output };
+      } else if (step.error) {
+        fixtures[step.path] = { error: step.error };
+      }
+    }
+
+    return {
+      workflow: run.workflow.name,
+      version: run.version.version,
+      inputs: run.inputs as Record<string, any>,
+      fixtures,
+    };
+  }
+
+  private formatRun(run: Prisma.WorkflowRunGetPayload<{ include: { version: { select: { version: true } } } }>) {
+    return {
+      runId: run.id,
+      version: run.version.version,
+      userId: run.userId,
+      status: run.status,
+      totalCost: Number(run.totalCost),
+      error: run.error,
+      resumeCount: run.resumeCount,
+      recorded: run.recorded,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt,
+    };
+  }
+
+  private toJson(value: any): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
+
+export const workflowRunStore = new WorkflowRunStore();
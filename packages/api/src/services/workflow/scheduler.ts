@@ -0,0 +1,327 @@
+/**
+ * Workflow Scheduler
+ *
+ * Runs workflows on cron schedules:
+ * - Each schedule has a cron expression and timezone, fixed inputs, the
+ *   payer wallet runs are attributed to and an optional per-run cost cap
+ * - A schedule may pin a version (lead-generation@1.2.0) or follow the latest
+ * - Schedules are persisted; a tick claims due ones, so several API
+ *   instances never start the same run twice
+ * - Runs missed while the scheduler was down are skipped, run once, or all
+ *   run (capped), per the schedule's catch-up policy
+ */
+
+import { Prisma, WorkflowSchedule } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { workflowExecutor } from './executor';
+import { workflowMCPGenerator } from './mcp-generator';
+import { workflowStore } from './workflow-store';
+import { parseWorkflowRef } from './versioning';
+import { validateSchema, inputsToSchema, formatSchemaErrors } from './json-schema';
+import { parseCron, getNextRun, getRunsBetween, isValidTimezone } from './cron';
+
+export const SCHEDULER_INTERVAL_MS = 30_000;
+const ON_TIME_WINDOW_MS = 5 * 60_000;  // Later than this, a run counts as missed
+const MAX_CATCH_UP_RUNS = 24;
+
+export type CatchUpPolicy = 'SKIP' | 'LATEST' | 'ALL';
+
+export interface ScheduleOptions {
+  cron: string;
+  timezone?: string;
+  inputs?: Record<string, any>;
+  payerAddress: string;
+  maxCostUsd?: number;
+  catchUp?: CatchUpPolicy;
+}
+
+export interface ScheduleInfo {
+  id: string;
+  workflow: string;
+  version: string | null;  // null follows the latest version
+  cron: string;
+  timezone: string;
+  inputs: Record<string, any>;
+  payerAddress: string;
+  maxCostUsd: number | null;
+  catchUp: CatchUpPolicy;
+  paused: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastRunId: string | null;
+  lastStatus: string | null;
+  lastError: string | null;
+  createdAt: Date;
+}
+
+type ScheduleRecord = WorkflowSchedule & { workflow: { name: string } };
+
+/**
+ * Error with the HTTP status a route should answer with
+ */
+export class WorkflowScheduleError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'WorkflowScheduleError';
+  }
+}
+
+export class WorkflowScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  /**
+   * Start checking for due schedules
+   */
+  start(intervalMs = SCHEDULER_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), intervalMs);
+    console.log(`⏰ Workflow scheduler started (every ${intervalMs / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Create a schedule for a workflow ("name" or "name@1.2.0")
+   */
+  async create(ref: string, options: ScheduleOptions): Promise<ScheduleInfo> {
+    const published = workflowMCPGenerator.getPublishedVersion(ref);
+    if (!published) {
+      throw new WorkflowScheduleError('Workflow not found', 404);
+    }
+
+    const timezone = options.timezone || 'UTC';
+    const cron = this.parse(options.cron, timezone);
+
+    // Check fixed inputs now rather than on every failed run
+    const inputs = options.inputs || {};
+    const { errors } = validateSchema(inputs, inputsToSchema(published.definition.inputs), {
+      coerce: true,
+      applyDefaults: true,
+    });
+    if (errors.length > 0) {
+      throw new WorkflowScheduleError(`Invalid inputs:\n${formatSchemaErrors(errors, 'input')}`, 400);
+    }
+
+    const { workflowId } = await workflowStore.ensureVersion(published.definition);
+    const record = await prisma.workflowSchedule.create({
+      data: {
+        workflowId,
+        version: parseWorkflowRef(ref).version ?? null,
+        cron: options.cron.trim(),
+        timezone,
+        inputs: inputs as Prisma.InputJsonValue,
+        payerAddress: options.payerAddress,
+        maxCostUsd: options.maxCostUsd,
+        catchUp: options.catchUp || 'LATEST',
+        nextRunAt: getNextRun(cron, new Date(), timezone),
+      },
+      include: { workflow: { select: { name: true } } },
+    });
+
+    console.log(`⏰ Scheduled ${ref} (${record.cron} ${timezone})`);
+    return this.toInfo(record);
+  }
+
+  /**
+   * List the schedules of a workflow
+   */
+  async list(name: string): Promise<ScheduleInfo[]> {
+    const records = await prisma.workflowSchedule.findMany({
+      where: { workflow: { name } },
+      include: { workflow: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return records.map(record => this.toInfo(record));
+  }
+
+  async get(id: string): Promise<ScheduleInfo | null> {
+    const record = await this.find(id);
+    return record && this.toInfo(record);
+  }
+
+  /**
+   * Stop a schedule from firing until it is resumed
+   */
+  async pause(id: string): Promise<ScheduleInfo> {
+    const record = await this.require(id);
+    if (record.paused) return this.toInfo(record);
+
+    const updated = await prisma.workflowSchedule.update({
+      where: { id },
+      data: { paused: true, nextRunAt: null },
+      include: { workflow: { select: { name: true } } },
+    });
+    return this.toInfo(updated);
+  }
+
+  /**
+   * Resume a paused schedule from now on. Runs that fell due while it was
+   * paused are not caught up.
+   */
+  async resume(id: string): Promise<ScheduleInfo> {
+    const record = await this.require(id);
+    if (!record.paused) return this.toInfo(record);
+
+    const updated = await prisma.workflowSchedule.update({
+      where: { id },
+      data: { paused: false, nextRunAt: getNextRun(record.cron, new Date(), record.timezone) },
+      include: { workflow: { select: { name: true } } },
+    });
+    return this.toInfo(updated);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.require(id);
+    await prisma.workflowSchedule.delete({ where: { id } });
+  }
+
+  /**
+   * Start the runs of every due schedule. Runs are not awaited, so one
+   * slow workflow does not hold up the others.
+   */
+  async tick(now = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const due = await prisma.workflowSchedule.findMany({
+        where: { paused: false, nextRunAt: { lte: now } },
+        include: { workflow: { select: { name: true } } },
+      });
+
+      for (const schedule of due) {
+        const times = await this.claim(schedule, now);
+        if (times.length > 0) {
+          this.runAll(schedule, times).catch(error => {
+            console.error(`❌ Scheduled run of ${schedule.workflow.name} failed:`, error.message);
+          });
+        }
+      }
+    } catch (error: any) {
+      console.warn('⚠️ Workflow scheduler tick failed:', error.message);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Move a due schedule to its next run and return the scheduled times to
+   * execute now. Returns nothing if another instance claimed it first.
+   */
+  private async claim(schedule: ScheduleRecord, now: Date): Promise<Date[]> {
+    const cron = parseCron(schedule.cron);
+    const first = schedule.nextRunAt!;
+    const missed = [first, ...getRunsBetween(cron, first, now, schedule.timezone, MAX_CATCH_UP_RUNS)]
+      .slice(-MAX_CATCH_UP_RUNS);
+
+    const { count } = await prisma.workflowSchedule.updateMany({
+      where: { id: schedule.id, paused: false, nextRunAt: first },
+      data: { nextRunAt: getNextRun(cron, now, schedule.timezone) },
+    });
+    if (count === 0) return [];
+
+    const latest = missed[missed.length - 1];
+    switch (schedule.catchUp) {
+      case 'SKIP':
+        return now.getTime() - latest.getTime() <= ON_TIME_WINDOW_MS ? [latest] : [];
+      case 'LATEST':
+        return [latest];
+      case 'ALL':
+        return missed;
+    }
+  }
+
+  /**
+   * Execute a schedule's runs one after another, recording the last outcome
+   */
+  private async runAll(schedule: ScheduleRecord, times: Date[]): Promise<void> {
+    const ref = schedule.version
+      ? `${schedule.workflow.name}@${schedule.version}`
+      : schedule.workflow.name;
+
+    for (const scheduledFor of times) {
+      const workflow = workflowMCPGenerator.getWorkflow(ref);
+      if (!workflow) {
+        await this.record(schedule.id, { lastRunAt: new Date(), lastStatus: 'FAILED', lastError: `Workflow ${ref} not found` });
+        return;
+      }
+
+      console.log(`⏰ Running ${ref} (scheduled for ${scheduledFor.toISOString()})`);
+      const result = await workflowExecutor.execute(
+        workflow,
+        { ...(schedule.inputs as Record<string, any>) },
+        schedule.payerAddress,
+        { maxCostUsd: schedule.maxCostUsd === null ? undefined : Number(schedule.maxCostUsd) }
+      );
+
+      await this.record(schedule.id, {
+        lastRunAt: new Date(),
+        lastRunId: result.executionId,
+        lastStatus: result.success ? 'COMPLETED' : result.awaitingApproval ? 'AWAITING_APPROVAL' : 'FAILED',
+        lastError: result.success || result.awaitingApproval ? null : result.output?.error ?? null,
+      });
+    }
+  }
+
+  /**
+   * Store the outcome of a run; the schedule may have been deleted meanwhile
+   */
+  private async record(id: string, data: Prisma.WorkflowScheduleUpdateManyMutationInput): Promise<void> {
+    await prisma.workflowSchedule.updateMany({ where: { id }, data });
+  }
+
+  private parse(expression: string, timezone: string) {
+    if (!isValidTimezone(timezone)) {
+      throw new WorkflowScheduleError(`Unknown timezone "${timezone}"`, 400);
+    }
+    try {
+      const cron = parseCron(expression);
+      getNextRun(cron, new Date(), timezone);  // Reject expressions that never fire
+      return cron;
+    } catch (error: any) {
+      throw new WorkflowScheduleError(error.message, 400);
+    }
+  }
+
+  private find(id: string): Promise<ScheduleRecord | null> {
+    return prisma.workflowSchedule.findUnique({
+      where: { id },
+      include: { workflow: { select: { name: true } } },
+    });
+  }
+
+  private async require(id: string): Promise<ScheduleRecord> {
+    const record = await this.find(id);
+    if (!record) {
+      throw new WorkflowScheduleError('Schedule not found', 404);
+    }
+    return record;
+  }
+
+  private toInfo(record: ScheduleRecord): ScheduleInfo {
+    return {
+      id: record.id,
+      workflow: record.workflow.name,
+      version: record.version,
+      cron: record.cron,
+      timezone: record.timezone,
+      inputs: record.inputs as Record<string, any>,
+      payerAddress: record.payerAddress,
+      maxCostUsd: record.maxCostUsd === null ? null : Number(record.maxCostUsd),
+      catchUp: record.catchUp,
+      paused: record.paused,
+      nextRunAt: record.nextRunAt,
+      lastRunAt: record.lastRunAt,
+      lastRunId: record.lastRunId,
+      lastStatus: record.lastStatus,
+      lastError: record.lastError,
+      createdAt: record.createdAt,
+    };
+  }
+}
+
+export const workflowScheduler = new WorkflowScheduler();
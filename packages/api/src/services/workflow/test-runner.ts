@@ -0,0 +1,229 @@
+/**
+ * Workflow Test Runner
+ *
+ * Runs a workflow's `tests:` cases (or cases sent with the request) as dry
+ * runs and checks their expectations:
+ * - Tool and AI steps are served from fixtures, given inline or taken from
+ *   a recorded run (fromRun); nothing is called, recorded or charged
+ * - Expectations match the success/error, the final output, step outputs
+ *   and skipped steps, and assert expressions over input, steps and output
+ */
+
+import { WorkflowDefinition, WorkflowTestCase, WorkflowTestExpectation, StepFixture } from './types';
+import { workflowExecutor } from './executor';
+import { workflowRunStore } from './run-store';
+import { evaluateExpression } from './expression';
+
+export interface WorkflowTestOptions {
+  cases?: WorkflowTestCase[];                // Instead of the workflow's own tests
+  only?: string[];                           // Names of the cases to run
+  fromRun?: string;                          // Recorded run for cases without their own
+  fixtures?: Record<string, StepFixture>;    // Added to every case (the case's own win)
+}
+
+export interface WorkflowTestResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+  output?: any;
+  error?: string;
+  skipped: string[];
+  executionTime: number;
+}
+
+export interface WorkflowTestReport {
+  workflow: string;
+  version: string;
+  passed: boolean;
+  total: number;
+  failed: number;
+  results: WorkflowTestResult[];
+}
+
+/**
+ * Error with the HTTP status a route should answer with
+ */
+export class WorkflowTestError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'WorkflowTestError';
+  }
+}
+
+export class WorkflowTestRunner {
+  /**
+   * Run test cases one after another and report each one's failures
+   */
+  async run(workflow: WorkflowDefinition, options: WorkflowTestOptions = {}): Promise<WorkflowTestReport> {
+    let cases = options.cases || workflow.tests || [];
+
+    if (cases.length === 0) {
+      throw new WorkflowTestError(`Workflow ${workflow.name} has no tests; add a tests section or send cases`, 400);
+    }
+
+    if (options.only) {
+      const unknown = options.only.filter(name => !cases.some(c => c.name === name));
+      if (unknown.length > 0) {
+        throw new WorkflowTestError(`Unknown test(s): ${unknown.join(', ')}`, 400);
+      }
+      cases = cases.filter(c => options.only!.includes(c.name));
+    }
+
+    console.log(`🧪 Testing workflow: ${workflow.name}@${workflow.version} (${cases.length} case(s))`);
+
+    const results: WorkflowTestResult[] = [];
+    for (const testCase of cases) {
+      results.push(await this.runCase(workflow, testCase, options));
+    }
+
+    const failed = results.filter(r => !r.passed).length;
+    return {
+      workflow: workflow.name,
+      version: workflow.version,
+      passed: failed === 0,
+      total: results.length,
+      failed,
+      results,
+    };
+  }
+
+  private async runCase(
+    workflow: WorkflowDefinition,
+    testCase: WorkflowTestCase,
+    options: WorkflowTestOptions
+  ): Promise<WorkflowTestResult> {
+    const runId = testCase.fromRun || options.fromRun;
+    const recorded = runId ? await this.loadRecording(workflow, runId) : null;
+
+    const fixtures = { ...recorded?.fixtures, ...options.fixtures, ...testCase.fixtures };
+    const input = { ...(testCase.input ?? recorded?.inputs) };
+
+    const skipped = new Set<string>();
+    const result = await workflowExecutor.execute(workflow, input, undefined, {
+      dryRun: { fixtures },
+      onEvent: event => {
+        if (event.type === 'step_completed' && event.status === 'skipped') skipped.add(event.stepId);
+      },
+    });
+
+    const error = result.success ? undefined : result.output?.error;
+    const failures = this.checkExpectation(testCase.expect || {}, {
+      success: result.success,
+      error,
+      input,
+      output: result.success ? result.output : undefined,
+      steps: result.steps || {},
+      skipped,
+    });
+
+    console.log(`  ${failures.length === 0 ? '✅' : '❌'} ${testCase.name}`);
+
+    return {
+      name: testCase.name,
+      passed: failures.length === 0,
+      failures,
+      output: result.success ? result.output : undefined,
+      error,
+      skipped: [...skipped],
+      executionTime: result.executionTime,
+    };
+  }
+
+  /**
+   * Fixtures and inputs of a recorded run of this workflow
+   */
+  private async loadRecording(workflow: WorkflowDefinition, runId: string) {
+    const recorded = await workflowRunStore.getRecordedFixtures(runId);
+
+    if (!recorded) {
+      throw new WorkflowTestError(`Workflow run not found: ${runId}`, 404);
+    }
+    if (recorded.workflow !== workflow.name) {
+      throw new WorkflowTestError(`Run ${runId} is a run of ${recorded.workflow}, not ${workflow.name}`, 400);
+    }
+
+    return recorded;
+  }
+
+  private checkExpectation(
+    expect: WorkflowTestExpectation,
+    actual: {
+      success: boolean;
+      error?: string;
+      input: Record<string, any>;
+      output: any;
+      steps: Record<string, any>;
+      skipped: Set<string>;
+    }
+  ): string[] {
+    const failures: string[] = [];
+    const expectSuccess = expect.success ?? expect.error === undefined;
+
+    if (actual.success !== expectSuccess) {
+      failures.push(expectSuccess
+        ? `Expected the run to succeed, it failed: ${actual.error}`
+        : 'Expected the run to fail, it succeeded');
+    }
+    if (expect.error !== undefined && !(actual.error || '').includes(expect.error)) {
+      failures.push(`Expected error containing "${expect.error}", got: ${actual.error ?? 'none'}`);
+    }
+
+    if (expect.output !== undefined && actual.success) {
+      failures.push(...matchExpected(actual.output, expect.output, 'output'));
+    }
+
+    for (const [stepId, expected] of Object.entries(expect.steps || {})) {
+      if (!(stepId in actual.steps)) {
+        failures.push(`steps.${stepId}: did not run`);
+      } else {
+        failures.push(...matchExpected(actual.steps[stepId], expected, `steps.${stepId}`));
+      }
+    }
+
+    for (const stepId of expect.skipped || []) {
+      if (!actual.skipped.has(stepId)) failures.push(`Expected step ${stepId} to be skipped`);
+    }
+
+    const scope = { input: actual.input, steps: actual.steps, output: actual.output };
+    for (const expression of expect.assert || []) {
+      try {
+        if (!evaluateExpression(expression, scope)) failures.push(`Assertion failed: ${expression}`);
+      } catch (error: any) {
+        failures.push(`Assertion ${expression}: ${error.message}`);
+      }
+    }
+
+    return failures;
+  }
+}
+
+/**
+ * Compare a value with what a test expects: objects by the expected keys
+ * only, arrays by length and element, anything else by equality
+ */
+function matchExpected(actual: any, expected: any, path: string): string[] {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) {
+      return [`${path}: expected an array, got ${describe(actual)}`];
+    }
+    if (actual.length !== expected.length) {
+      return [`${path}: expected ${expected.length} item(s), got ${actual.length}`];
+    }
+    return expected.flatMap((item, index) => matchExpected(actual[index], item, `${path}[${index}]`));
+  }
+
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) {
+      return [`${path}: expected an object, got ${describe(actual)}`];
+    }
+    return Object.entries(expected).flatMap(([key, value]) => matchExpected(actual[key], value, `${path}.${key}`));
+  }
+
+  return actual === expected ? [] : [`${path}: expected ${describe(expected)}, got ${describe(actual)}`];
+}
+
+function describe(value: any): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+export const workflowTestRunner = new WorkflowTestRunner();
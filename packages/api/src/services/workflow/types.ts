@@ -31,10 +31,14 @@ export interface WorkflowDefinition {
   
   // Workflow steps
   steps: WorkflowStep[];
+  maxParallelism?: number;  // Independent steps run at once (default 4)
   
   // Output configuration
   output: WorkflowOutput;
   
+  // Dry-run tests (POST /workflows/:name/test)
+  tests?: WorkflowTestCase[];
+  
   // Metadata
   tags?: string[];
   category?: string;
@@ -43,10 +47,39 @@ export interface WorkflowDefinition {
 
 export interface WorkflowInput {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  type: JsonSchemaType | JsonSchemaType[];
   description: string;
   required: boolean;
   default?: any;
+  
+  // Full JSON Schema (enums, formats, ranges, nested objects, arrays of
+  // objects). Its type wins over `type` when both are given.
+  schema?: JsonSchema;
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  default?: any;
+  enum?: any[];
+  const?: any;
+  format?: string;             // email, uri, url, date, date-time, uuid
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
 }
 
 export interface WorkflowStep {
@@ -54,7 +87,7 @@ export interface WorkflowStep {
   name: string;
   
   // Step type
-  type: 'mcp_tool' | 'ai_decision' | 'transform' | 'condition' | 'loop';
+  type: 'mcp_tool' | 'ai_decision' | 'transform' | 'condition' | 'loop' | 'workflow' | 'approval';
   
   // For mcp_tool type
   tool?: {
@@ -66,8 +99,13 @@ export interface WorkflowStep {
   // For ai_decision type
   ai?: {
     prompt: string;   // Template with {{input}} and {{steps}} access
-    model?: string;   // Optional model override
+    system?: string;  // System prompt; supports templates
+    model?: string;   // "gpt-4o-mini", "gemini-2.0-flash", "sonar-pro", "mock" or "provider:model"
+    temperature?: number;  // 0-2
+    maxTokens?: number;    // Output cap per attempt (default 1000)
     outputFormat?: 'text' | 'json';
+    schema?: JsonSchema;   // JSON output must match; implies outputFormat json
+    maxRepairs?: number;   // Times invalid JSON is sent back to be fixed (default 1)
   };
   
   // For transform type
@@ -88,6 +126,23 @@ export interface WorkflowStep {
     over: string;     // Template reference to array
     as: string;       // Variable name for each item
     steps: string[];  // Step IDs to execute for each
+    concurrency?: number;    // Iterations run at once (default 1)
+    maxIterations?: number;  // Items beyond this cap are not processed
+  };
+  
+  // For workflow type: run another registered workflow
+  workflow?: {
+    name: string;
+    version?: string;  // Pinned version (default: the latest when the step runs)
+    inputs?: Record<string, any>;  // Supports templates
+  };
+  
+  // For approval type: pause the run until a person approves or rejects
+  approval?: {
+    message?: string;  // Shown to the approver; supports templates
+    data?: string | Record<string, any>;  // What the approver reviews and may edit; supports templates
+    notify?: { webhook?: string };  // POSTed the request; it is always listed in-app
+    approvers?: string[];  // Wallet addresses allowed to decide (default: anyone)
   };
   
   // Dependencies
@@ -95,21 +150,87 @@ export interface WorkflowStep {
   
   // Error handling
   onError?: 'fail' | 'skip' | 'retry';
-  retries?: number;
+  retries?: number;          // Shorthand for retry: { max: retries, backoff: 'fixed' }
+  retry?: StepRetryPolicy;
+  timeoutMs?: number;        // Per attempt, for mcp_tool and ai_decision steps (default 30000)
   
   // Cost tracking
   estimatedCost?: number;
 }
 
+export type RetryableError = '5xx' | 'timeout' | '429' | 'network';
+
+export interface StepRetryPolicy {
+  max: number;                         // Retries after the first attempt
+  backoff?: 'exponential' | 'fixed';   // Default exponential
+  baseMs?: number;                     // First delay (default 1000)
+  maxMs?: number;                      // Delay cap, also for Retry-After (default 30000)
+  retryOn?: RetryableError[];          // Default: all; 4xx and 402 are never retried
+}
+
 export interface WorkflowOutput {
   // Template for final output
   template: string;
   
-  // Or structured output
-  schema?: {
-    type: string;
-    properties: Record<string, any>;
-  };
+  // Schema the resolved output must match before the run is billed
+  schema?: JsonSchema;
+}
+
+// Canned result of a step in a dry run, instead of calling the tool or model
+export interface StepFixture {
+  output?: any;
+  error?: string;   // The step fails with this message instead
+  status?: number;  // HTTP status of that failure, so retries and onError apply as live
+}
+
+export interface WorkflowTestCase {
+  name: string;
+  input?: Record<string, any>;  // Default: the inputs of fromRun
+  fromRun?: string;             // Serve steps with the outputs a real run recorded
+  
+  // By step ID, by path for one loop iteration ("each[1].lookup"), or
+  // "<workflow step>.<child step>" for a sub-workflow's steps
+  fixtures?: Record<string, StepFixture>;
+  expect?: WorkflowTestExpectation;
+}
+
+export interface WorkflowTestExpectation {
+  success?: boolean;              // Default true, or false when error is given
+  error?: string;                 // Substring of the run's error
+  output?: any;                   // Every given field must match (arrays element by element)
+  steps?: Record<string, any>;    // Step outputs, matched like output
+  skipped?: string[];             // Steps pruned by a branch or skipped on error
+  assert?: string[];              // Expressions over input, steps and output that must be true
+}
+
+// Output recorded for steps pruned by an untaken branch
+export interface SkippedStepOutput {
+  skipped: true;
+  reason: string;
+}
+
+// Output recorded for an approved approval step
+export interface ApprovalStepOutput {
+  approved: true;
+  data: any;          // As edited by the approver, else as requested
+  edited: boolean;
+  approver?: string;
+  comment?: string;
+  decidedAt: string;
+}
+
+// One entry of a loop step's output array
+export interface LoopIterationOutput {
+  item: any;
+  index: number;
+  steps: Record<string, any>;
+}
+
+// Output recorded for condition steps
+export interface ConditionStepOutput {
+  branch: 'then' | 'else';
+  stepsExecuted: string[];
+  stepsSkipped: string[];
 }
 
 export interface WorkflowExecutionContext {
@@ -120,14 +241,53 @@ export interface WorkflowExecutionContext {
   // Input values
   input: Record<string, any>;
   
-  // Step results
+  // Step results (skipped steps hold a SkippedStepOutput)
   steps: Record<string, any>;
   
+  // Loop variables visible in templates, e.g. {{item.name}}
+  vars?: Record<string, any>;
+  
+  // Innermost loop iteration, and the path prefix of its step records ("each[2]")
+  loop?: { stepId: string; iteration: number };
+  path?: string;
+  
+  // Outputs reused when resuming a failed run, keyed by step path
+  restored?: Record<string, any>;
+  
+  // Progress listener, e.g. a streaming HTTP response
+  onEvent?: (event: WorkflowEvent) => void;
+  
+  // Names of the workflows running this one as a sub-workflow, outermost first
+  callStack?: string[];
+  
+  // Keep raw responses with the step records, for cassette export
+  record?: boolean;
+  
+  // Set for dry runs: tool, AI, sub-workflow and approval steps are served
+  // from fixtures and nothing is recorded or charged
+  dryRun?: { fixtures: Record<string, StepFixture> };
+  
+  // Creator payouts of sub-workflows run so far
+  payouts?: WorkflowPayout[];
+  
+  // Run budget (maxCostUsd), shared by reference across loop iterations
+  budget?: {
+    limitUsd: number;
+    spentUsd: number;
+    reservedUsd: number;  // Cost of steps currently executing
+    toolCosts: Map<string, number>;
+  };
+  
   // Cost tracking
   costs: {
     stepId: string;
     cost: number;
     tool?: string;
+    loopStepId?: string;  // Set for steps run inside a loop body
+    iteration?: number;
+    workflow?: string;    // Sub-workflow ("name@version") the cost was charged by
+    model?: string;       // AI model ("provider:model") and the tokens it used
+    tokens?: { input: number; output: number };
   }[];
   
   // Execution state
@@ -147,7 +307,14 @@ export interface WorkflowExecutionResult {
   
   // Cost breakdown
   totalCost: number;
-  stepCosts: { stepId: string; cost: number }[];
+  stepCosts: {
+    stepId: string;
+    cost: number;
+    iteration?: number;
+    workflow?: string;
+    model?: string;
+    tokens?: { input: number; output: number };
+  }[];
   
   // Timing
   executionTime: number;
@@ -155,4 +322,44 @@ export interface WorkflowExecutionResult {
   // Revenue split
   creatorRevenue: number;
   platformRevenue: number;
+  payouts: WorkflowPayout[];  // Every creator paid, including sub-workflow creators
+  
+  // Set when the run paused at an approval step
+  awaitingApproval?: { approvalId: string; stepId: string };
+  
+  // Dry runs only: every step's output, for test expectations
+  steps?: Record<string, any>;
+}
+
+// A creator's share of a run, per workflow
+export interface WorkflowPayout {
+  workflow: string;  // "name@version"
+  address: string;
+  amount: number;
 }
+
+// Progress events emitted while a workflow runs (streamed over SSE / NDJSON)
+export type WorkflowEvent = { executionId: string; timestamp: string } & (
+  | { type: 'run_started'; workflow: string; version?: string; resumed: boolean; stepIds: string[] }
+  | { type: 'step_started'; stepId: string; path: string; name?: string; iteration?: number }
+  | {
+      type: 'step_completed';
+      stepId: string;
+      path: string;
+      status: 'completed' | 'skipped' | 'reused';
+      outputPreview?: string;  // Truncated JSON of the output
+      cost: number;
+      attempts: number;
+      durationMs: number;
+      iteration?: number;
+    }
+  | { type: 'step_retry'; stepId: string; path: string; attempt: number; error: string; delayMs: number }
+  | { type: 'step_failed'; stepId: string; path: string; error: string; attempts: number; iteration?: number }
+  | { type: 'run_paused'; stepId: string; approvalId: string; totalCost: number }
+  | { type: 'run_completed'; success: boolean; output: any; totalCost: number; executionTime: number; error?: string }
+);
+
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+
+// An event as emitted, before executionId and timestamp are stamped on
+export type WorkflowEventInit = DistributiveOmit<WorkflowEvent, 'executionId' | 'timestamp'>;
@@ -0,0 +1,442 @@
+/**
+ * Workflow Validator
+ *
+ * Semantic checks beyond WorkflowParser.validate, against the live registry:
+ * - Every mcp_tool step names an existing MCPServer and Tool
+ * - Literal tool params match the tool's inputSchema (required, types, enums)
+ * - Every workflow step calls a published workflow with inputs matching its schema
+ * - {{steps.x}} references point at ancestors of the step in the DAG
+ * - {{input.x}} references name declared inputs; unused inputs are flagged
+ *
+ * Diagnostics carry a path into the definition ("steps[2].tool.params.query")
+ * and, when validating source text, its line and column.
+ */
+
+import { prisma } from '../../lib/prisma';
+import { WorkflowDefinition, WorkflowStep, JsonSchema } from './types';
+import { workflowParser } from './parser';
+import { getStepDependencies, getLoopOwner } from './graph';
+import { workflowMCPGenerator } from './mcp-generator';
+import { inputsToSchema } from './json-schema';
+
+export interface ValidationDiagnostic {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  path: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ValidationResult {
+  valid: boolean;  // No error diagnostics (warnings allowed)
+  workflow?: string;
+  diagnostics: ValidationDiagnostic[];
+}
+
+interface RegisteredTool {
+  isActive: boolean;
+  inputSchema: JsonSchema | null;
+}
+
+const TEMPLATE_PATTERN = /\{\{\s*(\w+)((?:\.[^}\s.]+)*)\s*\}\}/g;
+const FULL_TEMPLATE_PATTERN = /^\{\{\s*(\w+)((?:\.[^}\s.]+)*)\s*\}\}$/;
+const EXPRESSION_STEP_PATTERN = /\bsteps(?:\.([A-Za-z_$][\w$]*)|\[\s*['"]([^'"]+)['"]\s*\])/g;
+const EXPRESSION_INPUT_PATTERN = /\binput(?:\.([A-Za-z_$][\w$]*)|\[\s*['"]([^'"]+)['"]\s*\])/g;
+
+export class WorkflowValidator {
+  /**
+   * Parse and validate YAML/JSON source, addressing diagnostics by line
+   */
+  async validateSource(content: string, format: 'yaml' | 'json' = 'json'): Promise<ValidationResult> {
+    let raw: any;
+    try {
+      raw = format === 'yaml' ? workflowParser.parseRawYAML(content) : JSON.parse(content);
+    } catch (error: any) {
+      // JSON errors give an offset; YAML messages already include the line
+      const offset = String(error.message).match(/position (\d+)/)?.[1];
+      const before = offset !== undefined ? content.slice(0, Number(offset)).split('\n') : null;
+      return {
+        valid: false,
+        diagnostics: [{
+          severity: 'error',
+          code: 'syntax',
+          message: error.message,
+          path: '',
+          line: before ? before.length : undefined,
+          column: before ? before[before.length - 1].length + 1 : undefined,
+        }],
+      };
+    }
+
+    const result = await this.validateDefinition(raw);
+
+    for (const diagnostic of result.diagnostics) {
+      const position = workflowParser.locate(content, diagnostic.path);
+      if (position) Object.assign(diagnostic, position);
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate a raw definition object: structural checks first, then the
+   * semantic checks if the structure is sound
+   */
+  async validateDefinition(raw: any): Promise<ValidationResult> {
+    let workflow: WorkflowDefinition;
+    try {
+      workflow = workflowParser.validate(raw);
+    } catch (error: any) {
+      const lines = String(error.message).split('\n').slice(1);
+      return {
+        valid: false,
+        workflow: raw?.name,
+        diagnostics: (lines.length > 0 ? lines : [error.message]).map(line => {
+          const step = line.match(/^Step (\d+) /);
+          const input = line.match(/^Input (\d+):/);
+          return {
+            severity: 'error' as const,
+            code: 'schema',
+            message: line,
+            path: step ? `steps[${step[1]}]` : input ? `inputs[${input[1]}]` : '',
+          };
+        }),
+      };
+    }
+
+    const diagnostics = await this.validate(workflow);
+    return {
+      valid: !diagnostics.some(d => d.severity === 'error'),
+      workflow: workflow.name,
+      diagnostics,
+    };
+  }
+
+  /**
+   * Semantic checks on a structurally valid workflow
+   */
+  async validate(workflow: WorkflowDefinition): Promise<ValidationDiagnostic[]> {
+    const diagnostics: ValidationDiagnostic[] = [];
+    const usedInputs = new Set<string>();
+
+    diagnostics.push(...await this.checkTools(workflow));
+    diagnostics.push(...this.checkSubWorkflows(workflow));
+
+    workflow.steps.forEach((step, index) => {
+      diagnostics.push(...this.checkReferences(step, index, workflow, usedInputs));
+    });
+
+    for (const { path, value } of this.collectStrings(workflow.output, 'output')) {
+      for (const [, root, rest] of value.matchAll(TEMPLATE_PATTERN)) {
+        const key = rest.split('.')[1];
+        if (root === 'steps' && key && !workflow.steps.some(s => s.id === key)) {
+          diagnostics.push(this.error('unknown_step', `Output references unknown step "${key}"`, path));
+        }
+        if (root === 'input' && key) usedInputs.add(key);
+      }
+    }
+
+    workflow.inputs.forEach((input, index) => {
+      if (!usedInputs.has(input.name)) {
+        diagnostics.push(this.warning('unused_input', `Input "${input.name}" is never referenced`, `inputs[${index}]`));
+      }
+    });
+
+    return diagnostics;
+  }
+
+  /**
+   * Resolve tool steps against MCPServer/Tool rows and check their params
+   */
+  private async checkTools(workflow: WorkflowDefinition): Promise<ValidationDiagnostic[]> {
+    const diagnostics: ValidationDiagnostic[] = [];
+    const toolSteps = workflow.steps
+      .map((step, index) => ({ step, index }))
+      .filter(({ step }) => step.type === 'mcp_tool' && step.tool);
+
+    if (toolSteps.length === 0) return diagnostics;
+
+    let servers: Map<string, Map<string, RegisteredTool>>;
+    try {
+      const rows = await prisma.mCPServer.findMany({
+        where: { name: { in: Array.from(new Set(toolSteps.map(({ step }) => step.tool!.server))) } },
+        include: { tools: true },
+      });
+      servers = new Map(rows.map(server => [
+        server.name,
+        new Map(server.tools.map(tool => [
+          tool.name,
+          { isActive: tool.isActive, inputSchema: tool.inputSchema as JsonSchema | null },
+        ])),
+      ]));
+    } catch (error: any) {
+      diagnostics.push(this.warning('registry_unavailable', `Tool registry unavailable: ${error.message}`, ''));
+      return diagnostics;
+    }
+
+    for (const { step, index } of toolSteps) {
+      const { server, function: fn, params } = step.tool!;
+      const path = `steps[${index}].tool`;
+      const tools = servers.get(server);
+
+      if (!tools) {
+        diagnostics.push(this.error('unknown_server', `MCP server "${server}" is not registered`, `${path}.server`));
+        continue;
+      }
+
+      const tool = tools.get(fn);
+      if (!tool) {
+        diagnostics.push(this.error('unknown_tool', `Tool "${fn}" does not exist on server "${server}"`, `${path}.function`));
+        continue;
+      }
+      if (!tool.isActive) {
+        diagnostics.push(this.warning('inactive_tool', `Tool "${server}.${fn}" is inactive`, `${path}.function`));
+      }
+
+      if (tool.inputSchema) {
+        diagnostics.push(...this.checkParams(params || {}, tool.inputSchema, `${path}.params`, workflow));
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Resolve workflow steps against published workflows and check their inputs
+   */
+  private checkSubWorkflows(workflow: WorkflowDefinition): ValidationDiagnostic[] {
+    const diagnostics: ValidationDiagnostic[] = [];
+
+    workflow.steps.forEach((step, index) => {
+      if (step.type !== 'workflow' || !step.workflow) return;
+
+      const { name, version, inputs } = step.workflow;
+      const ref = version ? `${name}@${version}` : name;
+      const path = `steps[${index}].workflow`;
+      const child = workflowMCPGenerator.getWorkflow(ref);
+
+      if (!child) {
+        diagnostics.push(this.error('unknown_workflow', `Workflow "${ref}" is not published`, `${path}.name`));
+        return;
+      }
+      diagnostics.push(...this.checkParams(inputs || {}, inputsToSchema(child.inputs), `${path}.inputs`, workflow));
+    });
+
+    return diagnostics;
+  }
+
+  /**
+   * Check tool params against a JSON Schema object. Templated values are
+   * only checked when they reference an input of known type.
+   */
+  private checkParams(
+    params: Record<string, any>,
+    schema: JsonSchema,
+    path: string,
+    workflow: WorkflowDefinition
+  ): ValidationDiagnostic[] {
+    const diagnostics: ValidationDiagnostic[] = [];
+    const properties = schema.properties || {};
+
+    for (const name of schema.required || []) {
+      if (params[name] === undefined) {
+        diagnostics.push(this.error('missing_param', `Missing required param "${name}"`, path));
+      }
+    }
+
+    for (const [name, value] of Object.entries(params)) {
+      const property = properties[name];
+      const paramPath = `${path}.${name}`;
+
+      if (!property) {
+        if (schema.properties && schema.additionalProperties === false) {
+          diagnostics.push(this.error('unknown_param', `Param "${name}" is not accepted by this tool`, paramPath));
+        } else if (schema.properties) {
+          diagnostics.push(this.warning('unknown_param', `Param "${name}" is not in the tool's input schema`, paramPath));
+        }
+        continue;
+      }
+
+      const type = this.staticType(value, workflow);
+      const expected = ([] as string[]).concat(property.type || []);
+      if (type && expected.length > 0 && !expected.some(t => t === type || (t === 'number' && type === 'integer'))) {
+        diagnostics.push(this.error('param_type', `Param "${name}" should be ${expected.join(' | ')}, got ${type}`, paramPath));
+      }
+
+      if (property.enum && !this.isTemplate(value) && !property.enum.some(v => JSON.stringify(v) === JSON.stringify(value))) {
+        diagnostics.push(this.error('param_enum', `Param "${name}" must be one of ${property.enum.map(v => JSON.stringify(v)).join(', ')}`, paramPath));
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Check {{steps.x}}, {{input.x}} and loop-variable references of a step,
+   * and steps.x / input.x inside its expressions
+   */
+  private checkReferences(
+    step: WorkflowStep,
+    index: number,
+    workflow: WorkflowDefinition,
+    usedInputs: Set<string>
+  ): ValidationDiagnostic[] {
+    const diagnostics: ValidationDiagnostic[] = [];
+    const ancestors = this.getAncestors(step, workflow.steps);
+    const loopVars = this.getLoopVariables(step, workflow.steps);
+    const prefix = `steps[${index}]`;
+
+    const checkStep = (id: string, path: string) => {
+      if (!workflow.steps.some(s => s.id === id)) {
+        diagnostics.push(this.error('unknown_step', `References unknown step "${id}"`, path));
+      } else if (id === step.id) {
+        diagnostics.push(this.error('self_reference', `Step "${step.id}" references its own output`, path));
+      } else if (!ancestors.has(id)) {
+        diagnostics.push(this.error(
+          'not_ancestor',
+          `References step "${id}", which is not guaranteed to run first; add it to dependsOn`,
+          path
+        ));
+      }
+    };
+
+    const checkInput = (name: string, path: string) => {
+      usedInputs.add(name);
+      if (!workflow.inputs.some(i => i.name === name)) {
+        diagnostics.push(this.error('unknown_input', `References undeclared input "${name}"`, path));
+      }
+    };
+
+    // Templates in params, prompts, transform inputs, loop arrays, sub-workflow inputs and approval requests
+    const templated = this.collectStrings(
+      {
+        tool: step.tool && { params: step.tool.params },
+        ai: step.ai,
+        transform: step.transform && { input: step.transform.input },
+        loop: step.loop && { over: step.loop.over },
+        workflow: step.workflow && { inputs: step.workflow.inputs },
+        approval: step.approval && { message: step.approval.message, data: step.approval.data },
+      },
+      prefix
+    );
+    for (const { path, value } of templated) {
+      for (const [, root, rest] of value.matchAll(TEMPLATE_PATTERN)) {
+        const key = rest.split('.')[1];
+        if (root === 'steps' && key) checkStep(key, path);
+        else if (root === 'input' && key) checkInput(key, path);
+        else if (root !== 'steps' && root !== 'input' && !loopVars.has(root)) {
+          diagnostics.push(this.warning('unknown_variable', `"{{${root}}}" is not a loop variable here and is left as text`, path));
+        }
+      }
+    }
+
+    // Expressions: transform scope binds `input` to the transform input,
+    // condition scope to the workflow inputs
+    const expressions = [
+      step.transform && { path: `${prefix}.transform.expression`, source: step.transform.expression, inputIsWorkflow: false },
+      step.condition && { path: `${prefix}.condition.if`, source: step.condition.if, inputIsWorkflow: true },
+    ].filter((e): e is { path: string; source: string; inputIsWorkflow: boolean } => !!e);
+
+    for (const { path, source, inputIsWorkflow } of expressions) {
+      for (const [, dotted, quoted] of source.matchAll(EXPRESSION_STEP_PATTERN)) {
+        checkStep(dotted ?? quoted, path);
+      }
+      if (inputIsWorkflow) {
+        for (const [, dotted, quoted] of source.matchAll(EXPRESSION_INPUT_PATTERN)) {
+          checkInput(dotted ?? quoted, path);
+        }
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Steps guaranteed to have settled before a step runs: its transitive
+   * dependencies, plus those of every loop it is nested in
+   */
+  private getAncestors(step: WorkflowStep, steps: WorkflowStep[]): Set<string> {
+    const ancestors = new Set<string>();
+
+    const visit = (current: WorkflowStep) => {
+      for (const dep of getStepDependencies(current, steps)) {
+        if (ancestors.has(dep)) continue;
+        ancestors.add(dep);
+        const depStep = steps.find(s => s.id === dep);
+        if (depStep) visit(depStep);
+      }
+    };
+
+    let current: WorkflowStep | undefined = step;
+    while (current) {
+      visit(current);
+      current = getLoopOwner(current.id, steps);
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Loop variables in scope for a step: `as` names of enclosing loops and index
+   */
+  private getLoopVariables(step: WorkflowStep, steps: WorkflowStep[]): Set<string> {
+    const vars = new Set<string>();
+
+    let owner = getLoopOwner(step.id, steps);
+    while (owner) {
+      vars.add(owner.loop!.as);
+      vars.add('index');
+      owner = getLoopOwner(owner.id, steps);
+    }
+
+    return vars;
+  }
+
+  /**
+   * JSON Schema type of a param value, if known before execution
+   */
+  private staticType(value: any, workflow: WorkflowDefinition): string | null {
+    if (typeof value === 'string') {
+      const match = value.match(FULL_TEMPLATE_PATTERN);
+      if (!match) return 'string';  // Literal, or text with inline templates
+      if (match[1] !== 'input') return null;
+
+      const input = workflow.inputs.find(i => i.name === match[2].split('.')[1]);
+      if (!input || match[2].split('.').length !== 2) return null;
+      const type = input.schema?.type ?? input.type;
+      return typeof type === 'string' ? type : null;  // Unions can't be checked statically
+    }
+
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+  }
+
+  private isTemplate(value: any): boolean {
+    return typeof value === 'string' && value.includes('{{');
+  }
+
+  /**
+   * Every string value in a nested object, with its path
+   */
+  private collectStrings(value: any, path: string): { path: string; value: string }[] {
+    if (typeof value === 'string') return [{ path, value }];
+    if (Array.isArray(value)) return value.flatMap((item, i) => this.collectStrings(item, `${path}[${i}]`));
+    if (value && typeof value === 'object') {
+      return Object.entries(value).flatMap(([key, item]) => this.collectStrings(item, path ? `${path}.${key}` : key));
+    }
+    return [];
+  }
+
+  private error(code: string, message: string, path: string): ValidationDiagnostic {
+    return { severity: 'error', code, message, path };
+  }
+
+  private warning(code: string, message: string, path: string): ValidationDiagnostic {
+    return { severity: 'warning', code, message, path };
+  }
+}
+
+export const workflowValidator = new WorkflowValidator();
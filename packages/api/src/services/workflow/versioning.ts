@@ -0,0 +1,149 @@
+/**
+ * Workflow Versioning
+ *
+ * Semantic versions for published workflow definitions:
+ * - Versions are MAJOR.MINOR.PATCH and only move forward
+ * - Callers pin a version with "name@1.2.0" (e.g. execute_lead-generation@1.2.0)
+ * - Diffs between two versions report changed steps, inputs and pricing
+ */
+
+import { WorkflowDefinition, WorkflowStep, WorkflowInput } from './types';
+
+const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+
+// Version of definitions that do not name one
+export const DEFAULT_VERSION = '1.0.0';
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface WorkflowDiff {
+  name: string;
+  from: string;
+  to: string;
+  steps: {
+    added: string[];
+    removed: string[];
+    changed: { id: string; changes: FieldChange[] }[];
+  };
+  inputs: {
+    added: string[];
+    removed: string[];
+    changed: { name: string; changes: FieldChange[] }[];
+  };
+  pricing: FieldChange[];
+}
+
+/**
+ * Error with the HTTP status a route should answer with
+ */
+export class WorkflowVersionError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'WorkflowVersionError';
+  }
+}
+
+/**
+ * Check that a version is MAJOR.MINOR.PATCH
+ */
+export function isValidVersion(version: string): boolean {
+  return typeof version === 'string' && SEMVER_PATTERN.test(version);
+}
+
+/**
+ * Compare two versions: negative if a < b, 0 if equal, positive if a > b.
+ * A version that is not MAJOR.MINOR.PATCH (saved before versioning) sorts
+ * before every valid one.
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = versionParts(a);
+  const pb = versionParts(b);
+
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return 0;
+}
+
+function versionParts(version: string): number[] {
+  const match = typeof version === 'string' ? version.match(SEMVER_PATTERN) : null;
+  return match ? match.slice(1).map(Number) : [-1, -1, -1];
+}
+
+/**
+ * Split a workflow reference ("name" or "name@1.2.0")
+ */
+export function parseWorkflowRef(ref: string): { name: string; version?: string } {
+  const at = ref.lastIndexOf('@');
+  if (at <= 0) return { name: ref };
+  return { name: ref.slice(0, at), version: ref.slice(at + 1) };
+}
+
+/**
+ * Changes between two versions of a workflow
+ */
+export function diffWorkflows(from: WorkflowDefinition, to: WorkflowDefinition): WorkflowDiff {
+  const steps = diffById(from.steps, to.steps, (s: WorkflowStep) => s.id);
+  const inputs = diffById(from.inputs, to.inputs, (i: WorkflowInput) => i.name);
+
+  return {
+    name: to.name,
+    from: from.version,
+    to: to.version,
+    steps: {
+      added: steps.added,
+      removed: steps.removed,
+      changed: steps.changed.map(c => ({ id: c.key, changes: c.changes })),
+    },
+    inputs: {
+      added: inputs.added,
+      removed: inputs.removed,
+      changed: inputs.changed.map(c => ({ name: c.key, changes: c.changes })),
+    },
+    pricing: diffFields(from.pricing, to.pricing),
+  };
+}
+
+/**
+ * Match two lists by key and report added, removed and changed entries
+ */
+function diffById<T extends object>(
+  from: T[],
+  to: T[],
+  key: (item: T) => string
+): { added: string[]; removed: string[]; changed: { key: string; changes: FieldChange[] }[] } {
+  const before = new Map(from.map(item => [key(item), item]));
+  const after = new Map(to.map(item => [key(item), item]));
+
+  const changed: { key: string; changes: FieldChange[] }[] = [];
+  for (const [id, item] of after) {
+    const previous = before.get(id);
+    if (!previous) continue;
+    const changes = diffFields(previous, item);
+    if (changes.length > 0) changed.push({ key: id, changes });
+  }
+
+  return {
+    added: [...after.keys()].filter(id => !before.has(id)),
+    removed: [...before.keys()].filter(id => !after.has(id)),
+    changed,
+  };
+}
+
+/**
+ * Top-level fields whose values differ (compared as JSON)
+ */
+function diffFields(from: object, to: object): FieldChange[] {
+  const a = from as Record<string, any>;
+  const b = to as Record<string, any>;
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)]);
+
+  return [...fields]
+    .filter(field => JSON.stringify(a[field]) !== JSON.stringify(b[field]))
+    .map(field => ({ field, from: a[field], to: b[field] }));
+}
+
@@ -0,0 +1,316 @@
+/**
+ * Workflow Webhooks
+ *
+ * Lets CRMs and form tools trigger workflows over HTTP:
+ * - Each webhook has a secret URL (/hooks/workflows/<name>/<token>) and an
+ *   HMAC-SHA256 secret; deliveries must sign the raw body with it
+ * - An input mapping turns the incoming payload into workflow inputs with
+ *   templates ({{payload.contact.email}}, {{headers.x-source}})
+ * - Deliveries are deduplicated by idempotency key, so retries by the
+ *   sender never start a second run
+ * - Accepted deliveries are queued and answered with the run ID right away
+ */
+
+import crypto from 'crypto';
+import { Prisma, WorkflowWebhook } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { workflowExecutor } from './executor';
+import { workflowMCPGenerator } from './mcp-generator';
+import { workflowStore } from './workflow-store';
+import { parseWorkflowRef } from './versioning';
+import { validateSchema, inputsToSchema, formatSchemaErrors } from './json-schema';
+
+const MAX_CONCURRENT_RUNS = 2;
+const DEFAULT_SIGNATURE_HEADER = 'x-webhook-signature';
+
+export interface WebhookOptions {
+  inputMapping?: Record<string, any>;
+  idempotencyKey?: string;
+  signatureHeader?: string;
+  payerAddress: string;
+  maxCostUsd?: number;
+}
+
+export interface WebhookInfo {
+  id: string;
+  workflow: string;
+  version: string | null;  // null runs the latest version
+  url: string;
+  signatureHeader: string;
+  inputMapping: Record<string, any> | null;
+  idempotencyKey: string | null;
+  payerAddress: string;
+  maxCostUsd: number | null;
+  enabled: boolean;
+  lastTriggeredAt: Date | null;
+  createdAt: Date;
+}
+
+export interface WebhookDelivery {
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, any>;
+  rawBody: Buffer;
+}
+
+type WebhookRecord = WorkflowWebhook & { workflow: { name: string } };
+
+/**
+ * Error with the HTTP status a route should answer with
+ */
+export class WorkflowWebhookError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'WorkflowWebhookError';
+  }
+}
+
+export class WorkflowWebhookService {
+  private pending: (() => Promise<void>)[] = [];
+  private active = 0;
+
+  /**
+   * Create a webhook for a workflow ("name" or "name@1.2.0").
+   * The secret is only returned here.
+   */
+  async create(ref: string, options: WebhookOptions): Promise<{ webhook: WebhookInfo; secret: string }> {
+    const published = workflowMCPGenerator.getPublishedVersion(ref);
+    if (!published) {
+      throw new WorkflowWebhookError('Workflow not found', 404);
+    }
+
+    const inputNames = published.definition.inputs.map(i => i.name);
+    const unknown = Object.keys(options.inputMapping || {}).filter(key => !inputNames.includes(key));
+    if (unknown.length > 0) {
+      throw new WorkflowWebhookError(`Input mapping has unknown inputs: ${unknown.join(', ')}`, 400);
+    }
+
+    const secret = crypto.randomBytes(32).toString('hex');
+    const { workflowId } = await workflowStore.ensureVersion(published.definition);
+    const record = await prisma.workflowWebhook.create({
+      data: {
+        workflowId,
+        version: parseWorkflowRef(ref).version ?? null,
+        token: crypto.randomBytes(24).toString('hex'),
+        secret,
+        signatureHeader: (options.signatureHeader || DEFAULT_SIGNATURE_HEADER).toLowerCase(),
+        inputMapping: options.inputMapping as Prisma.InputJsonValue | undefined,
+        idempotencyKey: options.idempotencyKey,
+        payerAddress: options.payerAddress,
+        maxCostUsd: options.maxCostUsd,
+      },
+      include: { workflow: { select: { name: true } } },
+    });
+
+    console.log(`🪝 Webhook created for ${ref}`);
+    return { webhook: this.toInfo(record), secret };
+  }
+
+  /**
+   * List the webhooks of a workflow (without secrets)
+   */
+  async list(name: string): Promise<WebhookInfo[]> {
+    const records = await prisma.workflowWebhook.findMany({
+      where: { workflow: { name } },
+      include: { workflow: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return records.map(record => this.toInfo(record));
+  }
+
+  async setEnabled(id: string, enabled: boolean): Promise<WebhookInfo> {
+    await this.require(id);
+    const record = await prisma.workflowWebhook.update({
+      where: { id },
+      data: { enabled },
+      include: { workflow: { select: { name: true } } },
+    });
+    return this.toInfo(record);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.require(id);
+    await prisma.workflowWebhook.delete({ where: { id } });
+  }
+
+  /**
+   * Handle an incoming delivery: verify, map, dedup and queue the run.
+   * A duplicate delivery returns the run ID of the first one.
+   */
+  async receive(name: string, token: string, delivery: WebhookDelivery): Promise<{ runId: string; duplicate: boolean }> {
+    const webhook = await prisma.workflowWebhook.findUnique({
+      where: { token },
+      include: { workflow: { select: { name: true } } },
+    });
+    if (!webhook || !webhook.enabled || webhook.workflow.name !== name) {
+      throw new WorkflowWebhookError('Webhook not found', 404);
+    }
+
+    if (!this.verifySignature(webhook, delivery)) {
+      throw new WorkflowWebhookError('Invalid signature', 401);
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(delivery.rawBody.toString('utf8') || '{}');
+    } catch {
+      throw new WorkflowWebhookError('Payload must be JSON', 400);
+    }
+
+    const ref = webhook.version ? `${name}@${webhook.version}` : name;
+    const workflow = workflowMCPGenerator.getWorkflow(ref);
+    if (!workflow) {
+      throw new WorkflowWebhookError(`Workflow ${ref} not found`, 404);
+    }
+
+    const scope = { payload, headers: delivery.headers, query: delivery.query };
+    const inputs = webhook.inputMapping === null
+      ? payload
+      : this.mapValue(webhook.inputMapping, scope);
+
+    const { errors } = validateSchema(inputs, inputsToSchema(workflow.inputs), { coerce: true, applyDefaults: true });
+    if (errors.length > 0) {
+      throw new WorkflowWebhookError(`Invalid inputs:\n${formatSchemaErrors(errors, 'input')}`, 400);
+    }
+
+    const idempotencyKey = this.getIdempotencyKey(webhook, delivery, scope);
+    const runId = crypto.randomUUID();
+
+    try {
+      await prisma.workflowWebhookDelivery.create({
+        data: { webhookId: webhook.id, idempotencyKey, runId },
+      });
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const original = await prisma.workflowWebhookDelivery.findUnique({
+          where: { webhookId_idempotencyKey: { webhookId: webhook.id, idempotencyKey } },
+        });
+        return { runId: original!.runId, duplicate: true };
+      }
+      throw error;
+    }
+
+    await prisma.workflowWebhook.update({ where: { id: webhook.id }, data: { lastTriggeredAt: new Date() } });
+
+    this.enqueue(async () => {
+      await workflowExecutor.execute(workflow, { ...inputs }, webhook.payerAddress, {
+        executionId: runId,
+        maxCostUsd: webhook.maxCostUsd === null ? undefined : Number(webhook.maxCostUsd),
+      });
+    });
+
+    console.log(`🪝 Webhook delivery queued run ${runId} of ${ref}`);
+    return { runId, duplicate: false };
+  }
+
+  /**
+   * Check "sha256=<hex>" (or bare hex) HMAC of the raw body
+   */
+  private verifySignature(webhook: WebhookRecord, delivery: WebhookDelivery): boolean {
+    const header = delivery.headers[webhook.signatureHeader];
+    const signature = (Array.isArray(header) ? header[0] : header || '').replace(/^sha256=/, '');
+
+    const expected = crypto.createHmac('sha256', webhook.secret).update(delivery.rawBody).digest('hex');
+    const a = Buffer.from(signature, 'utf8');
+    const b = Buffer.from(expected, 'utf8');
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  /**
+   * The Idempotency-Key header, else the webhook's key template, else a
+   * hash of the body
+   */
+  private getIdempotencyKey(webhook: WebhookRecord, delivery: WebhookDelivery, scope: Record<string, any>): string {
+    const header = delivery.headers['idempotency-key'];
+    if (typeof header === 'string' && header) return header;
+
+    if (webhook.idempotencyKey) {
+      const key = this.mapValue(webhook.idempotencyKey, scope);
+      if (key !== undefined && key !== null && key !== '') {
+        return typeof key === 'string' ? key : JSON.stringify(key);
+      }
+    }
+
+    return crypto.createHash('sha256').update(delivery.rawBody).digest('hex');
+  }
+
+  /**
+   * Resolve templates in a mapping: "{{payload.a.b}}" yields the value
+   * itself, templates inside text are interpolated, anything else is literal
+   */
+  private mapValue(mapping: any, scope: Record<string, any>): any {
+    if (Array.isArray(mapping)) return mapping.map(item => this.mapValue(item, scope));
+    if (mapping && typeof mapping === 'object') {
+      return Object.fromEntries(Object.entries(mapping).map(([key, value]) => [key, this.mapValue(value, scope)]));
+    }
+    if (typeof mapping !== 'string') return mapping;
+
+    const simpleMatch = mapping.match(/^\{\{\s*(\w+)(?:\.([^}\s]+))?\s*\}\}$/);
+    if (simpleMatch) {
+      return this.lookup(scope, simpleMatch[1], simpleMatch[2]);
+    }
+
+    return mapping.replace(/\{\{\s*(\w+)(?:\.([^}\s]+))?\s*\}\}/g, (_, root, path) => {
+      const value = this.lookup(scope, root, path);
+      return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '');
+    });
+  }
+
+  private lookup(scope: Record<string, any>, root: string, path?: string): any {
+    let value = scope[root];
+    for (const key of path ? path.split('.') : []) {
+      value = value?.[root === 'headers' ? key.toLowerCase() : key];
+    }
+    return value;
+  }
+
+  /**
+   * Run queued deliveries, MAX_CONCURRENT_RUNS at a time
+   */
+  private enqueue(run: () => Promise<void>): void {
+    this.pending.push(run);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.active < MAX_CONCURRENT_RUNS && this.pending.length > 0) {
+      const run = this.pending.shift()!;
+      this.active++;
+      run()
+        .catch(error => console.error('❌ Webhook run failed:', error.message))
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  private async require(id: string): Promise<WebhookRecord> {
+    const record = await prisma.workflowWebhook.findUnique({
+      where: { id },
+      include: { workflow: { select: { name: true } } },
+    });
+    if (!record) {
+      throw new WorkflowWebhookError('Webhook not found', 404);
+    }
+    return record;
+  }
+
+  private toInfo(record: WebhookRecord): WebhookInfo {
+    return {
+      id: record.id,
+      workflow: record.workflow.name,
+      version: record.version,
+      url: `/hooks/workflows/${record.workflow.name}/${record.token}`,
+      signatureHeader: record.signatureHeader,
+      inputMapping: record.inputMapping as Record<string, any> | null,
+      idempotencyKey: record.idempotencyKey,
+      payerAddress: record.payerAddress,
+      maxCostUsd: record.maxCostUsd === null ? null : Number(record.maxCostUsd),
+      enabled: record.enabled,
+      lastTriggeredAt: record.lastTriggeredAt,
+      createdAt: record.createdAt,
+    };
+  }
+}
+
+export const workflowWebhookService = new WorkflowWebhookService();
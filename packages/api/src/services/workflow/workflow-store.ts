@@ -0,0 +1,119 @@
+/**
+ * Workflow Store
+ *
+ * Persists workflow definitions so registrations survive restarts:
+ * - One Workflow row per name, pointing at its latest version
+ * - One WorkflowVersion row per (name, version) holding the definition.
+ *   Published versions are immutable; only their deprecation can change.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { WorkflowDefinition } from './types';
+import { compareVersions } from './versioning';
+
+export interface StoredWorkflowVersion {
+  workflowId: string;
+  versionId: string;
+  definition: WorkflowDefinition;
+  deprecated: boolean;
+  deprecationMessage?: string;
+  publishedAt: Date;
+}
+
+export class WorkflowStore {
+  /**
+   * Save a new version of a workflow. The latest pointer only moves
+   * forward, and an existing version is never overwritten.
+   */
+  async save(workflow: WorkflowDefinition): Promise<StoredWorkflowVersion> {
+    const existing = await prisma.workflow.findUnique({ where: { name: workflow.name } });
+    const isLatest = !existing || compareVersions(workflow.version, existing.latestVersion) > 0;
+
+    const record = await prisma.workflow.upsert({
+      where: { name: workflow.name },
+      create: {
+        name: workflow.name,
+        description: workflow.description,
+        creatorAddress: workflow.creator.address,
+        latestVersion: workflow.version,
+      },
+      update: isLatest ? {
+        description: workflow.description,
+        creatorAddress: workflow.creator.address,
+        latestVersion: workflow.version,
+      } : {},
+    });
+
+    const version = await prisma.workflowVersion.create({
+      data: { workflowId: record.id, version: workflow.version, definition: this.toJson(workflow) },
+    });
+
+    return this.toStored(version);
+  }
+
+  /**
+   * Find the stored version matching a definition, saving it if missing.
+   * Unlike save(), an existing version is left untouched.
+   */
+  async ensureVersion(workflow: WorkflowDefinition): Promise<StoredWorkflowVersion> {
+    const existing = await this.getVersion(workflow.name, workflow.version);
+    return existing || this.save(workflow);
+  }
+
+  /**
+   * Get a specific version of a workflow
+   */
+  async getVersion(name: string, version: string): Promise<StoredWorkflowVersion | null> {
+    const record = await prisma.workflowVersion.findFirst({
+      where: { version, workflow: { name } },
+    });
+
+    return record ? this.toStored(record) : null;
+  }
+
+  /**
+   * Load every stored version of every workflow
+   */
+  async loadAll(): Promise<StoredWorkflowVersion[]> {
+    const versions = await prisma.workflowVersion.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return versions.map(v => this.toStored(v));
+  }
+
+  /**
+   * Mark a version as deprecated. Pinned callers can still execute it.
+   */
+  async deprecate(name: string, version: string, message?: string): Promise<void> {
+    await prisma.workflowVersion.updateMany({
+      where: { version, workflow: { name } },
+      data: { deprecated: true, deprecationMessage: message, deprecatedAt: new Date() },
+    });
+  }
+
+  private toStored(record: {
+    id: string;
+    workflowId: string;
+    definition: Prisma.JsonValue;
+    deprecated: boolean;
+    deprecationMessage: string | null;
+    createdAt: Date;
+  }): StoredWorkflowVersion {
+    return {
+      workflowId: record.workflowId,
+      versionId: record.id,
+      definition: record.definition as unknown as WorkflowDefinition,
+      deprecated: record.deprecated,
+      deprecationMessage: record.deprecationMessage ?? undefined,
+      publishedAt: record.createdAt,
+    };
+  }
+
+  private toJson(workflow: WorkflowDefinition): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(workflow));
+  }
+}
+
+export const workflowStore = new WorkflowStore();
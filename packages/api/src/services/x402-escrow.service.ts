@@ -0,0 +1,403 @@
+/**
+ * X402 Escrow
+ *
+ * Holds x402 payments in PaymentEscrow while the paid tool call runs, when
+ * X402_ESCROW_ENABLED=true and the escrow contract is configured:
+ * - The payer authorizes the operator wallet (the escrow custodian); hold()
+ *   collects the authorization and locks the funds for the server's wallet
+ * - Upstream 5xx, timeouts and unreachable upstreams are refunded at once:
+ *   refundPayment returns the funds to the operator, which sends them on to
+ *   the payer
+ * - Otherwise the funds are released to the server once the dispute window
+ *   ends, unless the payer disputes the result first; the operator then
+ *   resolves the dispute with a refund or a release. Both sign a message
+ *   with the wallet's account nonce, so a signature works only once
+ * - Refunds and releases that fail on-chain are retried by the settlement
+ *   worker (processDue)
+ * - A collection that fails after it was sent may still have moved the
+ *   funds; it is refunded like any other, and marked FAILED only once the
+ *   chain shows nothing was collected
+ * - PaymentEscrow lets only the payee or its owner refund, so the operator
+ *   wallet must own the contract; start() checks this and leaves escrow
+ *   disabled otherwise
+ */
+
+import { Prisma, X402Payment } from '@prisma/client';
+import { ethers } from 'ethers';
+import { prisma } from '../lib/prisma';
+import blockchainService from './blockchain.service';
+
+export const DISPUTE_WINDOW_MS = (Number(process.env.X402_DISPUTE_WINDOW_HOURS) || 24) * 60 * 60_000;
+const ESCROW_BATCH_SIZE = 20;
+const CLAIM_LEASE_MS = 10 * 60_000;
+const RECEIPT_TIMEOUT_MS = Number(process.env.X402_RECEIPT_TIMEOUT_MS) || 2 * 60_000;
+const AUTHORIZATION_LOOKBACK_MS = 60 * 60_000;  // How long before its payment an authorization may have been used
+
+export type DisputeOutcome = 'refund' | 'release';
+
+/**
+ * Error with the HTTP status and response details a route should answer with
+ */
+export class X402EscrowError extends Error {
+  constructor(message: string, public readonly statusCode: number, public readonly details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'X402EscrowError';
+  }
+}
+
+export class X402EscrowService {
+  private ownsEscrow = false;
+
+  isEnabled(): boolean {
+    return process.env.X402_ESCROW_ENABLED === 'true' && blockchainService.hasEscrow() && this.ownsEscrow;
+  }
+
+  /**
+   * Check that the operator wallet owns the escrow contract, which it needs
+   * to refund payments. Escrow stays disabled until it does.
+   */
+  async start(): Promise<void> {
+    if (process.env.X402_ESCROW_ENABLED !== 'true' || !blockchainService.hasEscrow()) return;
+
+    try {
+      const owner = await blockchainService.getEscrowOwner();
+      this.ownsEscrow = owner.toLowerCase() === blockchainService.getWalletAddress()!.toLowerCase();
+      if (!this.ownsEscrow) {
+        console.warn(`⚠️  x402 escrow disabled: PaymentEscrow is owned by ${owner}, not the operator wallet`);
+      }
+    } catch (error: any) {
+      console.warn('⚠️  x402 escrow disabled: could not read the PaymentEscrow owner:', error.message);
+    }
+  }
+
+  /**
+   * Wallet escrowed payments must be authorized to
+   */
+  getCustodian(): string {
+    return blockchainService.getWalletAddress()!;
+  }
+
+  getContractAddress(): string {
+    return blockchainService.getEscrowAddress()!;
+  }
+
+  /**
+   * The message a wallet signs to dispute or resolve a payment
+   */
+  getSignMessage(walletAddress: string, nonce: number, action: string): string {
+    return `x402 escrow: ${action}\nWallet: ${walletAddress.toLowerCase()}\nNonce: ${nonce}`;
+  }
+
+  /**
+   * Collect a verified payment and lock it in escrow for the payee. Throws
+   * 402 if the funds were not collected, 503 if they may have been; those
+   * go back to the payer.
+   */
+  async hold(paymentId: string, payeeAddress: string): Promise<X402Payment> {
+    const payment = await this.find({ id: paymentId });
+    if (payment.status !== 'PENDING') {
+      throw new X402EscrowError('Payment authorization has expired', 402);
+    }
+
+    try {
+      const tx = await blockchainService.submitTransferWithAuthorization(
+        payment.assetAddress,
+        {
+          from: payment.payerAddress,
+          to: payment.payeeAddress,
+          value: payment.amountRaw,
+          validAfter: Math.floor(payment.validAfter.getTime() / 1000),
+          validBefore: Math.floor(payment.validBefore.getTime() / 1000),
+          nonce: payment.nonce,
+        },
+        payment.signature
+      );
+      // Recorded before waiting: the transfer may land even if the wait fails
+      payment.txHash = tx.hash;
+      await prisma.x402Payment.update({ where: { id: payment.id }, data: { txHash: tx.hash } });
+
+      const receipt = await blockchainService.waitForReceipt(tx.hash, RECEIPT_TIMEOUT_MS);
+      if (receipt.status !== 1) {
+        throw new Error(`Transaction ${tx.hash} reverted`);
+      }
+    } catch (error: any) {
+      return this.failHold(payment, 'Could not collect payment', error);
+    }
+
+    try {
+      const escrow = await blockchainService.createEscrowPayment(
+        payment.id,
+        payeeAddress,
+        ethers.formatUnits(payment.amountRaw, 6)
+      );
+
+      const held = await prisma.x402Payment.update({
+        where: { id: payment.id },
+        data: {
+          status: 'ESCROWED',
+          escrowTxHash: escrow.transactionHash,
+          releaseAfter: new Date(Date.now() + DISPUTE_WINDOW_MS),
+        },
+      });
+      console.log(`🔒 x402 payment held in escrow: ${payment.nonce}`);
+      return held;
+    } catch (error: any) {
+      return this.failHold(payment, 'Escrow failed', error);
+    }
+  }
+
+  /**
+   * Refund an escrowed payment, e.g. after the upstream failed. The refund
+   * is recorded first, so the settlement worker retries it if the chain
+   * is unavailable now.
+   */
+  async refund(paymentId: string, reason: string): Promise<void> {
+    const payment = await this.find({ id: paymentId });
+    if (payment.status !== 'ESCROWED' && payment.status !== 'DISPUTED') return;
+
+    await this.queueRefund(payment, reason);
+  }
+
+  /**
+   * Contest an escrowed payment before its dispute window ends. Only the
+   * payer may dispute; the release waits until the dispute is resolved.
+   */
+  async dispute(paymentId: string, walletAddress: string, reason: string, message: string): Promise<X402Payment> {
+    const payment = await this.find({ id: paymentId });
+
+    if (payment.payerAddress !== walletAddress.toLowerCase()) {
+      throw new X402EscrowError('Only the payer can dispute this payment', 403);
+    }
+    if (payment.status === 'DISPUTED') {
+      throw new X402EscrowError('Payment is already disputed', 409);
+    }
+    if (payment.status !== 'ESCROWED' || payment.refundReason) {
+      throw new X402EscrowError(`Payment is ${payment.status.toLowerCase()}, not held in escrow`, 409);
+    }
+    if (!payment.releaseAfter || payment.releaseAfter <= new Date()) {
+      throw new X402EscrowError('The dispute window for this payment has closed', 409);
+    }
+    await this.useSignedMessage(walletAddress, message, `dispute payment ${paymentId}`);
+
+    const disputed = await prisma.x402Payment.update({
+      where: { id: payment.id },
+      data: { status: 'DISPUTED', disputedAt: new Date(), disputeReason: reason },
+    });
+    console.log(`⚖️  x402 payment disputed: ${payment.nonce}`);
+    return disputed;
+  }
+
+  /**
+   * Resolve a dispute: refund the payer, or release the funds to the payee.
+   * The operator's wallet signs the outcome.
+   */
+  async resolveDispute(
+    paymentId: string,
+    outcome: DisputeOutcome,
+    walletAddress: string,
+    message: string,
+    note?: string
+  ): Promise<X402Payment> {
+    const payment = await this.find({ id: paymentId });
+
+    if (payment.status !== 'DISPUTED') {
+      throw new X402EscrowError('Payment is not disputed', 409);
+    }
+    await this.useSignedMessage(walletAddress, message, `resolve payment ${paymentId} with a ${outcome}`);
+
+    if (outcome === 'refund') {
+      await this.refund(payment.id, `Dispute upheld${note ? `: ${note}` : ''}`);
+    } else {
+      const released = await prisma.x402Payment.update({
+        where: { id: payment.id },
+        data: { status: 'ESCROWED', releaseAfter: new Date() },
+      });
+      try {
+        await this.settle(released, new Date());
+      } catch (error: any) {
+        console.error(`❌ x402 release of ${payment.nonce} failed, will be retried:`, error.message);
+      }
+    }
+
+    return this.find({ id: paymentId });
+  }
+
+  /**
+   * Give back whatever a failed hold collected, then throw: 402 if the
+   * chain shows nothing was collected, 503 while the refund is pending
+   */
+  private async failHold(payment: X402Payment, reason: string, error: any): Promise<never> {
+    const message = error.reason || error.shortMessage || error.message;
+    const refunded = await this.queueRefund(payment, `${reason}: ${message}`);
+    if (refunded.status === 'FAILED') {
+      throw new X402EscrowError(`Payment could not be collected: ${message}`, 402);
+    }
+    throw new X402EscrowError('Payment could not be held in escrow; it will be returned', 503);
+  }
+
+  private async queueRefund(payment: X402Payment, reason: string): Promise<X402Payment> {
+    const updated = await prisma.x402Payment.update({
+      where: { id: payment.id },
+      data: { status: 'ESCROWED', refundReason: reason },
+    });
+
+    try {
+      await this.settle(updated, new Date());
+    } catch (error: any) {
+      console.error(`❌ x402 refund of ${payment.nonce} failed, will be retried:`, error.message);
+    }
+    return this.find({ id: payment.id });
+  }
+
+  /**
+   * Refund or release escrowed payments that are due. Returns how many
+   * were handled.
+   */
+  async processDue(now = new Date()): Promise<number> {
+    if (!blockchainService.hasEscrow()) return 0;
+
+    const due = await prisma.x402Payment.findMany({
+      where: {
+        status: 'ESCROWED',
+        OR: [{ refundReason: { not: null } }, { releaseAfter: { lte: now } }],
+        AND: [{ OR: [{ nextSettlementAt: null }, { nextSettlementAt: { lte: now } }] }],
+      },
+      orderBy: { releaseAfter: 'asc' },
+      take: ESCROW_BATCH_SIZE,
+    });
+
+    let handled = 0;
+    for (const payment of due) {
+      try {
+        await this.settle(payment, now);
+        handled++;
+      } catch (error: any) {
+        console.error(`❌ x402 escrow of ${payment.nonce} failed, will be retried:`, error.message);
+        await prisma.x402Payment.update({
+          where: { id: payment.id },
+          data: { errorMessage: error.shortMessage || error.message },
+        });
+      }
+    }
+    return handled;
+  }
+
+  /**
+   * Refund or release one escrowed payment. The claim (a lease on
+   * nextSettlementAt) makes sure only one worker moves its funds.
+   */
+  private async settle(payment: X402Payment, now: Date): Promise<void> {
+    const { count } = await prisma.x402Payment.updateMany({
+      where: { id: payment.id, status: 'ESCROWED', nextSettlementAt: payment.nextSettlementAt },
+      data: { nextSettlementAt: new Date(now.getTime() + CLAIM_LEASE_MS) },
+    });
+    if (count === 0) return;
+
+    const escrow = await blockchainService.getEscrowPayment(payment.id);
+
+    if (payment.refundReason) {
+      if (escrow && !escrow.refunded) {
+        await blockchainService.refundEscrowPayment(payment.id);
+      }
+      await this.returnFunds(payment, payment.refundReason);
+      return;
+    }
+
+    if (escrow && !escrow.released) {
+      await blockchainService.releaseEscrowPayment(payment.id);
+    }
+    await prisma.x402Payment.update({
+      where: { id: payment.id },
+      data: { status: 'SETTLED', settledAt: new Date(), nextSettlementAt: null, errorMessage: null },
+    });
+    console.log(`✅ x402 escrow released: ${payment.nonce}`);
+  }
+
+  /**
+   * Send collected funds from the operator wallet back to the payer. The
+   * transfer is recorded before waiting, so a retry never sends it twice.
+   * A payment that never reached escrow is first checked for having been
+   * collected at all; if not, it fails instead.
+   */
+  private async returnFunds(payment: X402Payment, reason: string): Promise<void> {
+    if (!payment.escrowTxHash && !payment.refundTxHash && !(await this.wasCollected(payment))) {
+      await prisma.x402Payment.update({
+        where: { id: payment.id },
+        data: { status: 'FAILED', errorMessage: reason, nextSettlementAt: null },
+      });
+      console.log(`❌ x402 payment not collected: ${payment.nonce} (${reason})`);
+      return;
+    }
+
+    if (!payment.refundTxHash) {
+      const tx = await blockchainService.transferUSDC(payment.assetAddress, payment.payerAddress, payment.amountRaw);
+      await prisma.x402Payment.update({ where: { id: payment.id }, data: { refundTxHash: tx.hash } });
+      await tx.wait();
+    }
+
+    await prisma.x402Payment.update({
+      where: { id: payment.id },
+      data: { status: 'REFUNDED', refundReason: reason, nextSettlementAt: null, errorMessage: null },
+    });
+    console.log(`↩️  x402 payment refunded: ${payment.nonce} (${reason})`);
+  }
+
+  /**
+   * Whether the payer's funds reached the operator wallet, by the collecting
+   * transaction or any other that used the authorization. Throws while the
+   * collecting transaction may still land.
+   */
+  private async wasCollected(payment: X402Payment): Promise<boolean> {
+    if (payment.txHash) {
+      const receipt = await blockchainService.getTransactionReceipt(payment.txHash);
+      if (receipt?.status === 1) return true;
+      if (!receipt && payment.validBefore > new Date()) {
+        throw new Error(`Collection ${payment.txHash} is still pending`);
+      }
+    }
+
+    if (!(await blockchainService.isAuthorizationUsed(payment.assetAddress, payment.payerAddress, payment.nonce))) {
+      return false;
+    }
+    // Used elsewhere; a cancelled authorization moved nothing
+    const since = new Date(Math.max(payment.validAfter.getTime(), payment.createdAt.getTime() - AUTHORIZATION_LOOKBACK_MS));
+    const use = await blockchainService.findAuthorizationUse(payment.assetAddress, payment.payerAddress, payment.nonce, since);
+    return !use?.cancelled;
+  }
+
+  /**
+   * Check that a (verified) signed message makes this change with the
+   * wallet's current account nonce, and use the nonce up
+   */
+  private async useSignedMessage(walletAddress: string, message: string, action: string): Promise<void> {
+    const wallet = walletAddress.toLowerCase();
+    const user = await prisma.user.upsert({
+      where: { walletAddress: wallet },
+      update: {},
+      create: { walletAddress: wallet },
+    });
+
+    const expected = this.getSignMessage(wallet, user.nonce, action);
+    if (message !== expected) {
+      throw new X402EscrowError('Signed message does not match this change', 401, { expected });
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, nonce: user.nonce },
+      data: { nonce: { increment: 1 } },
+    });
+    if (count === 0) {
+      throw new X402EscrowError('Signature has already been used', 401);
+    }
+  }
+
+  private async find(where: Prisma.X402PaymentWhereUniqueInput): Promise<X402Payment> {
+    const payment = await prisma.x402Payment.findUnique({ where });
+    if (!payment) {
+      throw new X402EscrowError('Payment not found', 404);
+    }
+    return payment;
+  }
+}
+
+export const x402EscrowService = new X402EscrowService();
@@ -0,0 +1,132 @@
+/**
+ * X402 Nonce Ledger
+ *
+ * Makes each signed TransferWithAuthorization pay for exactly one tool call:
+ * - reserve() claims the nonce by creating its X402Payment row; the unique
+ *   nonce makes this atomic, so a replayed header is rejected (NONCE_REUSED)
+ *   even when both copies arrive at once
+ * - A paid call can bind the authorization to itself: the nonce must be
+ *   keccak256(requestHash ‖ salt), with requestHash from the 402 response and
+ *   the salt sent next to the signature, so an intercepted header cannot pay
+ *   for a different call
+ * - Reservations that were never settled expire with their authorization;
+ *   a cleanup job marks them EXPIRED once a grace period has passed, so a
+ *   call or escrow hold still working on one is never expired under it.
+ *   Settling only moves a payment that is still PENDING.
+ */
+
+import { ethers } from 'ethers';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const NONCE_CLEANUP_INTERVAL_MS = 60_000;
+// Longer than a paid call (30s upstream timeout) or an escrow hold takes
+export const EXPIRY_GRACE_MS = Number(process.env.X402_EXPIRY_GRACE_MS) || 10 * 60_000;
+
+/**
+ * Error with the HTTP status and error code a route should answer with
+ */
+export class X402NonceError extends Error {
+  constructor(message: string, public readonly statusCode: number, public readonly code: string) {
+    super(message);
+    this.name = 'X402NonceError';
+  }
+}
+
+export class X402NonceLedger {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Hash identifying one tool call: the server, the tool and its arguments
+   * (keys sorted, so the order they were sent in does not matter)
+   */
+  hashRequest(serverId: string, toolName: string, params: any): string {
+    return ethers.sha256(ethers.toUtf8Bytes(canonicalJson({ serverId, toolName, params })));
+  }
+
+  /**
+   * The nonce an authorization bound to a request must carry
+   */
+  bindNonce(requestHash: string, salt: string): string {
+    return ethers.keccak256(ethers.concat([requestHash, salt]));
+  }
+
+  /**
+   * Check that a nonce was derived from this request. Throws otherwise.
+   */
+  checkBinding(nonce: string, requestHash: string, salt?: string): void {
+    if (!salt || !ethers.isHexString(salt, 32)) {
+      throw new X402NonceError('Payment must include a 32-byte salt binding its nonce to the request', 400, 'REQUEST_MISMATCH');
+    }
+    if (this.bindNonce(requestHash, salt).toLowerCase() !== nonce.toLowerCase()) {
+      throw new X402NonceError('Payment nonce is not bound to this request', 400, 'REQUEST_MISMATCH');
+    }
+  }
+
+  /**
+   * Claim a nonce by recording its payment. Throws if the nonce was ever
+   * used before, whatever became of that payment.
+   */
+  async reserve(data: Prisma.X402PaymentUncheckedCreateInput) {
+    try {
+      return await prisma.x402Payment.create({ data: { ...data, status: 'PENDING' } });
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new X402NonceError(`Payment nonce ${data.nonce} has already been used`, 409, 'NONCE_REUSED');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Expire reservations whose authorization can no longer be settled and
+   * that nothing can still be working on
+   */
+  async cleanupExpired(now = new Date()): Promise<number> {
+    const { count } = await prisma.x402Payment.updateMany({
+      where: { status: 'PENDING', validBefore: { lt: new Date(now.getTime() - EXPIRY_GRACE_MS) } },
+      data: { status: 'EXPIRED', errorMessage: 'Authorization expired before the payment was settled' },
+    });
+
+    if (count > 0) {
+      console.log(`🧹 Expired ${count} unsettled x402 reservation(s)`);
+    }
+    return count;
+  }
+
+  /**
+   * Start expiring reservations periodically
+   */
+  start(intervalMs = NONCE_CLEANUP_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.cleanupExpired().catch(error => console.error('x402 reservation cleanup failed:', error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * JSON with object keys sorted at every level
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export const x402NonceLedger = new X402NonceLedger();
@@ -0,0 +1,523 @@
+/**
+ * X402 Prepaid Balances
+ *
+ * Metered billing for agents that cannot sign a payment for every call:
+ * - Users deposit USDC to the deposit address (X402_DEPOSIT_ADDRESS) once.
+ *   It must not be the operator wallet, whose x402 collections and refunds
+ *   would look like deposits. The deposit watcher stores each confirmed
+ *   Transfer as a BlockchainEvent and credits User.balance of the sending
+ *   wallet, resuming from its ChainCursor after a restart; a deposit can
+ *   also be credited at once by its transaction hash (topUp)
+ * - Transfers made by x402 settlements or escrow holds are never deposits
+ * - The wallet signs once for a prepaid key. Paid tool calls sent with the
+ *   key debit the balance instead of asking for an x402 payment. Signed
+ *   account changes carry the user's nonce, so a signature works only once.
+ * - Each debit locks the user's row, so concurrent calls cannot overdraw the
+ *   balance or the wallet's daily spend limit; calls that fail are refunded
+ * - Every change to a balance writes a BalanceLedgerEntry with the balance
+ *   it left
+ */
+
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { BalanceLedgerEntry, BlockchainEvent, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import blockchainService, { TokenTransfer } from './blockchain.service';
+
+export const DEPOSIT_POLL_INTERVAL_MS = 30_000;
+export const DEPOSIT_CONFIRMATIONS = Number(process.env.X402_DEPOSIT_CONFIRMATIONS) || 2;
+export const DEPOSIT_EVENT_TYPE = 'USDC_DEPOSIT';
+const USDC_ADDRESS = process.env.USDC_CONTRACT_ADDRESS || '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const MAX_BLOCK_RANGE = 2_000;  // Blocks read per getLogs call
+const DEPOSIT_BATCH_SIZE = 100;
+const KEY_PREFIX = 'x402pk_';
+
+export interface PrepaidCharge {
+  amount: number;  // USD
+  toolName: string;
+  mcpServerId: string;
+}
+
+export interface PrepaidDebit {
+  entry: BalanceLedgerEntry;
+  walletAddress: string;
+  balance: string;
+}
+
+export interface PrepaidAccount {
+  walletAddress: string;
+  balance: string;
+  dailySpendLimit: string | null;
+  spentToday: string;
+  hasKey: boolean;
+  nonce: number;  // For the next signed account change
+  topUp: ReturnType<X402PrepaidService['getTopUpInfo']>;
+}
+
+/**
+ * Error with the HTTP status, error code and response details a route
+ * should answer with
+ */
+export class X402PrepaidError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string,
+    public readonly details: Record<string, any> = {}
+  ) {
+    super(message);
+    this.name = 'X402PrepaidError';
+  }
+}
+
+export class X402PrepaidService {
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+  private lastBlock: number | null = null;
+
+  isEnabled(): boolean {
+    return process.env.X402_PREPAID_ENABLED !== 'false' && !!this.getDepositAddress();
+  }
+
+  /**
+   * The deposit address; null if unset or the operator wallet
+   */
+  getDepositAddress(): string | null {
+    const address = process.env.X402_DEPOSIT_ADDRESS;
+    if (!address || address.toLowerCase() === blockchainService.getWalletAddress()?.toLowerCase()) {
+      return null;
+    }
+    return address;
+  }
+
+  /**
+   * Where and how to deposit, for balance and 402 responses
+   */
+  getTopUpInfo() {
+    return {
+      depositAddress: this.getDepositAddress(),
+      asset: USDC_ADDRESS,
+      network: 'base-sepolia',
+      confirmations: DEPOSIT_CONFIRMATIONS,
+      endpoint: '/api/x402/prepaid/topup',
+    };
+  }
+
+  /**
+   * The message a wallet signs to make an account change
+   */
+  getSignMessage(walletAddress: string, nonce: number, action: string): string {
+    return `x402 prepaid: ${action}\nWallet: ${walletAddress.toLowerCase()}\nNonce: ${nonce}`;
+  }
+
+  /**
+   * Issue a new prepaid key for a wallet, replacing its previous one. Only
+   * a hash is stored, so the key is returned this once.
+   */
+  async issueKey(walletAddress: string, message: string): Promise<string> {
+    const key = KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+    const userId = await this.useSignedMessage(walletAddress, message, 'issue key');
+
+    await prisma.user.update({ where: { id: userId }, data: { prepaidKeyHash: hashKey(key) } });
+    console.log(`🔑 Prepaid key issued for ${walletAddress.toLowerCase()}`);
+    return key;
+  }
+
+  async getAccount(walletAddress: string): Promise<PrepaidAccount> {
+    const user = await prisma.user.findUnique({ where: { walletAddress: walletAddress.toLowerCase() } });
+
+    return {
+      walletAddress: walletAddress.toLowerCase(),
+      balance: (user?.balance ?? new Prisma.Decimal(0)).toFixed(6),
+      dailySpendLimit: user?.dailySpendLimit?.toFixed(6) ?? null,
+      spentToday: (user ? await spentSince(prisma, user.id, startOfDay()) : new Prisma.Decimal(0)).toFixed(6),
+      hasKey: !!user?.prepaidKeyHash,
+      nonce: user?.nonce ?? 0,
+      topUp: this.getTopUpInfo(),
+    };
+  }
+
+  async getLedger(walletAddress: string, limit = 50): Promise<BalanceLedgerEntry[]> {
+    return prisma.balanceLedgerEntry.findMany({
+      where: { user: { walletAddress: walletAddress.toLowerCase() } },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Set the most a wallet's prepaid key may spend per UTC day (null: no limit)
+   */
+  async setSpendLimit(walletAddress: string, limitUsd: number | null, message: string): Promise<PrepaidAccount> {
+    const dailySpendLimit = limitUsd === null ? null : new Prisma.Decimal(limitUsd).toDecimalPlaces(6);
+    const action = `set daily spend limit to ${dailySpendLimit === null ? 'none' : dailySpendLimit.toFixed(6)}`;
+    const userId = await this.useSignedMessage(walletAddress, message, action);
+
+    await prisma.user.update({ where: { id: userId }, data: { dailySpendLimit } });
+    return this.getAccount(walletAddress);
+  }
+
+  /**
+   * Debit the balance behind a prepaid key for one tool call. Throws with
+   * 402 if the balance or the daily spend limit does not cover it.
+   */
+  async debit(key: string, charge: PrepaidCharge): Promise<PrepaidDebit> {
+    if (!this.isEnabled()) {
+      throw new X402PrepaidError('Prepaid billing is not enabled', 503, 'PREPAID_DISABLED');
+    }
+
+    const user = await prisma.user.findUnique({ where: { prepaidKeyHash: hashKey(key) } });
+    if (!user || !user.isActive) {
+      throw new X402PrepaidError('Invalid prepaid key', 401, 'INVALID_PREPAID_KEY');
+    }
+
+    const cost = new Prisma.Decimal(charge.amount).toDecimalPlaces(6, Prisma.Decimal.ROUND_UP);
+
+    return prisma.$transaction(async tx => {
+      const { balance, dailySpendLimit } = await lockUser(tx, user.id);
+
+      if (balance.lt(cost)) {
+        throw new X402PrepaidError('Insufficient prepaid balance', 402, 'INSUFFICIENT_BALANCE', {
+          balance: balance.toFixed(6),
+          required: cost.toFixed(6),
+          topUp: this.getTopUpInfo(),
+        });
+      }
+
+      if (dailySpendLimit) {
+        const spent = await spentSince(tx, user.id, startOfDay());
+        if (spent.plus(cost).gt(dailySpendLimit)) {
+          throw new X402PrepaidError('Daily spend limit reached', 402, 'SPEND_LIMIT_EXCEEDED', {
+            dailySpendLimit: dailySpendLimit.toFixed(6),
+            spentToday: spent.toFixed(6),
+            required: cost.toFixed(6),
+          });
+        }
+      }
+
+      const updated = await tx.user.update({
+        where: { id: user.id },
+        data: { balance: { decrement: cost } },
+      });
+      const entry = await tx.balanceLedgerEntry.create({
+        data: {
+          userId: user.id,
+          type: 'DEBIT',
+          amount: cost.negated(),
+          balanceAfter: updated.balance,
+          description: `Tool call: ${charge.toolName}`,
+          toolName: charge.toolName,
+          mcpServerId: charge.mcpServerId,
+        },
+      });
+
+      return { entry, walletAddress: user.walletAddress, balance: updated.balance.toFixed(6) };
+    });
+  }
+
+  /**
+   * Give a debit back, e.g. after the tool call failed. Refunding the same
+   * debit again does nothing.
+   */
+  async refund(entryId: string, reason: string): Promise<BalanceLedgerEntry | null> {
+    const debit = await prisma.balanceLedgerEntry.findUnique({ where: { id: entryId } });
+    if (!debit || debit.type !== 'DEBIT') {
+      throw new X402PrepaidError('Debit not found', 404, 'NOT_FOUND');
+    }
+
+    try {
+      return await prisma.$transaction(async tx => {
+        await lockUser(tx, debit.userId);
+        const updated = await tx.user.update({
+          where: { id: debit.userId },
+          data: { balance: { increment: debit.amount.negated() } },
+        });
+        return tx.balanceLedgerEntry.create({
+          data: {
+            userId: debit.userId,
+            type: 'REFUND',
+            amount: debit.amount.negated(),
+            balanceAfter: updated.balance,
+            description: `Refund: ${reason}`,
+            toolName: debit.toolName,
+            mcpServerId: debit.mcpServerId,
+            refundOfId: debit.id,
+          },
+        });
+      });
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Credit a deposit right away by its transaction hash, instead of waiting
+   * for the watcher. Returns the deposits credited by this call.
+   */
+  async topUp(txHash: string): Promise<BalanceLedgerEntry[]> {
+    const depositAddress = this.getDepositAddress();
+    if (!depositAddress || !blockchainService.isEnabled()) {
+      throw new X402PrepaidError('Prepaid deposits are not available', 503, 'DEPOSITS_UNAVAILABLE');
+    }
+
+    const result = await blockchainService.getUSDCTransfersInTransaction(USDC_ADDRESS, depositAddress, txHash);
+    if (!result) {
+      throw new X402PrepaidError('Transaction not found or not mined yet', 404, 'TX_NOT_FOUND');
+    }
+    const transfers = await depositsOnly(result.transfers);
+    if (transfers.length === 0) {
+      throw new X402PrepaidError('Transaction does not transfer USDC to the deposit address', 400, 'NO_DEPOSIT', {
+        topUp: this.getTopUpInfo(),
+      });
+    }
+    if (result.confirmations < DEPOSIT_CONFIRMATIONS) {
+      throw new X402PrepaidError(
+        `Deposit has ${result.confirmations} of ${DEPOSIT_CONFIRMATIONS} confirmations; try again shortly`,
+        409,
+        'NOT_CONFIRMED'
+      );
+    }
+
+    const credited: BalanceLedgerEntry[] = [];
+    for (const transfer of transfers) {
+      const entry = await this.credit(await this.recordDeposit(transfer));
+      if (entry) credited.push(entry);
+    }
+    return credited;
+  }
+
+  /**
+   * Read new confirmed deposits from the chain and credit them, along with
+   * any recorded deposit not credited yet. Returns how many were credited.
+   */
+  async syncDeposits(): Promise<number> {
+    const depositAddress = this.getDepositAddress();
+    if (!depositAddress || !blockchainService.isEnabled()) return 0;
+
+    const cursorId = `${DEPOSIT_EVENT_TYPE}:${depositAddress.toLowerCase()}`;
+    const head = (await blockchainService.getBlockNumber()) - DEPOSIT_CONFIRMATIONS + 1;
+    if (this.lastBlock === null) {
+      // Resume where the last run stopped, else after the last recorded
+      // deposit; older ones can be topped up by hash
+      const cursor = await prisma.chainCursor.findUnique({ where: { id: cursorId } });
+      const last = cursor ? null : await prisma.blockchainEvent.findFirst({
+        where: { eventType: DEPOSIT_EVENT_TYPE },
+        orderBy: { blockNumber: 'desc' },
+      });
+      this.lastBlock = cursor?.blockNumber ?? last?.blockNumber ?? head - 1;
+    }
+
+    const fromBlock = this.lastBlock + 1;
+    const toBlock = Math.min(head, fromBlock + MAX_BLOCK_RANGE - 1);
+    if (fromBlock <= toBlock) {
+      const transfers = await blockchainService.getUSDCTransfers(USDC_ADDRESS, depositAddress, fromBlock, toBlock);
+      for (const transfer of await depositsOnly(transfers)) {
+        await this.recordDeposit(transfer);
+      }
+      await prisma.chainCursor.upsert({
+        where: { id: cursorId },
+        update: { blockNumber: toBlock },
+        create: { id: cursorId, blockNumber: toBlock },
+      });
+      this.lastBlock = toBlock;
+    }
+
+    const pending = await prisma.blockchainEvent.findMany({
+      where: { eventType: DEPOSIT_EVENT_TYPE, processed: false },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+      take: DEPOSIT_BATCH_SIZE,
+    });
+
+    let credited = 0;
+    for (const event of pending) {
+      if (await this.credit(event)) credited++;
+    }
+    return credited;
+  }
+
+  /**
+   * Start watching for deposits
+   */
+  start(intervalMs = DEPOSIT_POLL_INTERVAL_MS): void {
+    if (this.timer) return;
+    if (process.env.X402_DEPOSIT_ADDRESS && !this.getDepositAddress()) {
+      console.error('❌ Prepaid deposit watcher not started: X402_DEPOSIT_ADDRESS must not be the operator wallet');
+      return;
+    }
+    if (!this.isEnabled() || !blockchainService.isEnabled()) {
+      console.log('⚠️  Prepaid deposit watcher disabled: blockchain service or deposit address not configured');
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), intervalMs);
+    console.log(`💰 Prepaid deposit watcher started (${this.getDepositAddress()})`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check that a (verified) signed message makes this change with the
+   * wallet's current nonce, and use the nonce up. Returns the user's ID.
+   */
+  private async useSignedMessage(walletAddress: string, message: string, action: string): Promise<string> {
+    const wallet = walletAddress.toLowerCase();
+    const user = await prisma.user.upsert({
+      where: { walletAddress: wallet },
+      update: {},
+      create: { walletAddress: wallet },
+    });
+
+    const expected = this.getSignMessage(wallet, user.nonce, action);
+    if (message !== expected) {
+      throw new X402PrepaidError('Signed message does not match this change', 401, 'INVALID_MESSAGE', { expected });
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, nonce: user.nonce },
+      data: { nonce: { increment: 1 } },
+    });
+    if (count === 0) {
+      throw new X402PrepaidError('Signature has already been used', 401, 'NONCE_REUSED');
+    }
+    return user.id;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.syncing) return;
+    this.syncing = true;
+    try {
+      await this.syncDeposits();
+    } catch (error) {
+      console.error('Prepaid deposit sync failed:', error);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Store a deposit's Transfer event, once
+   */
+  private async recordDeposit(transfer: TokenTransfer): Promise<BlockchainEvent> {
+    return prisma.blockchainEvent.upsert({
+      where: { txHash_logIndex: { txHash: transfer.txHash, logIndex: transfer.logIndex } },
+      update: {},
+      create: {
+        eventType: DEPOSIT_EVENT_TYPE,
+        contractAddress: USDC_ADDRESS.toLowerCase(),
+        txHash: transfer.txHash,
+        blockNumber: transfer.blockNumber,
+        logIndex: transfer.logIndex,
+        eventData: {
+          from: transfer.from.toLowerCase(),
+          to: transfer.to.toLowerCase(),
+          value: transfer.value.toString(),
+        },
+      },
+    });
+  }
+
+  /**
+   * Credit a recorded deposit to its sender. Claiming the event (processed)
+   * in the same transaction means each deposit is credited exactly once.
+   */
+  private async credit(event: BlockchainEvent): Promise<BalanceLedgerEntry | null> {
+    if (event.processed) return null;
+    const { from, value } = event.eventData as { from: string; value: string };
+    const amount = new Prisma.Decimal(ethers.formatUnits(value, 6));
+
+    const entry = await prisma.$transaction(async tx => {
+      const { count } = await tx.blockchainEvent.updateMany({
+        where: { id: event.id, processed: false },
+        data: { processed: true, processedAt: new Date() },
+      });
+      if (count === 0) return null;
+
+      const user = await tx.user.upsert({
+        where: { walletAddress: from },
+        update: { balance: { increment: amount } },
+        create: { walletAddress: from, balance: amount },
+      });
+      return tx.balanceLedgerEntry.create({
+        data: {
+          userId: user.id,
+          type: 'DEPOSIT',
+          amount,
+          balanceAfter: user.balance,
+          description: `USDC deposit ${event.txHash}`,
+          eventId: event.id,
+        },
+      });
+    });
+
+    if (entry) {
+      console.log(`💰 Prepaid deposit credited: ${amount.toFixed(6)} USDC to ${from}`);
+    }
+    return entry;
+  }
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function startOfDay(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * Lock a user's row until the transaction ends, so balance changes are
+ * applied one at a time
+ */
+async function lockUser(tx: Prisma.TransactionClient, userId: string) {
+  const [row] = await tx.$queryRaw<{ balance: Prisma.Decimal; daily_spend_limit: Prisma.Decimal | null }[]>`
+    SELECT balance, daily_spend_limit FROM users WHERE id = ${userId} FOR UPDATE
+  `;
+  return {
+    balance: new Prisma.Decimal(row.balance),
+    dailySpendLimit: row.daily_spend_limit === null ? null : new Prisma.Decimal(row.daily_spend_limit),
+  };
+}
+
+/**
+ * Prepaid spend since a time, net of refunds. A refund counts only against
+ * a debit made in that time, not one from before.
+ */
+async function spentSince(client: Prisma.TransactionClient, userId: string, since: Date): Promise<Prisma.Decimal> {
+  const { _sum } = await client.balanceLedgerEntry.aggregate({
+    where: {
+      userId,
+      OR: [
+        { type: 'DEBIT', createdAt: { gte: since } },
+        { type: 'REFUND', refundOf: { createdAt: { gte: since } } },
+      ],
+    },
+    _sum: { amount: true },
+  });
+  return (_sum.amount ?? new Prisma.Decimal(0)).negated();
+}
+
+/**
+ * Drop transfers made by x402 settlements and escrow holds: they pay for
+ * tool calls, not into a balance
+ */
+async function depositsOnly(transfers: TokenTransfer[]): Promise<TokenTransfer[]> {
+  if (transfers.length === 0) return transfers;
+
+  const hashes = [...new Set(transfers.map(transfer => transfer.txHash))];
+  const payments = await prisma.x402Payment.findMany({
+    where: { OR: [{ txHash: { in: hashes } }, { escrowTxHash: { in: hashes } }] },
+    select: { txHash: true, escrowTxHash: true },
+  });
+  const paid = new Set(payments.flatMap(payment => [payment.txHash, payment.escrowTxHash]));
+  return transfers.filter(transfer => !paid.has(transfer.txHash));
+}
+
+export const x402PrepaidService = new X402PrepaidService();
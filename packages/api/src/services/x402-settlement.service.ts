@@ -0,0 +1,479 @@
+/**
+ * X402 Settlement Worker
+ *
+ * Collects delivered x402 payments on-chain:
+ * - A paid tool call that succeeded leaves its payment AUTHORIZED; each tick
+ *   claims a batch of them (oldest expiry first), so several API instances
+ *   never submit the same authorization
+ * - Each authorization is submitted as USDC transferWithAuthorization from
+ *   the operator wallet (BlockchainService; point BASE_SEPOLIA_RPC at a
+ *   local Hardhat node to test), which assigns transaction nonces for all
+ *   operator sends, escrow holds included
+ * - A retry first looks for the earlier transaction's receipt, then for
+ *   any transaction that used the authorization; only then does it resend,
+ *   replacing the earlier transaction (same nonce, higher fees)
+ * - Every submission is tracked in Transaction with its gas; payments end
+ *   SETTLED, or FAILED with errorMessage when the contract rejects them
+ *   while the authorization is unused, it expires or MAX_SETTLEMENT_ATTEMPTS
+ *   is reached. A payment whose sent transaction may still land is kept
+ *   past MAX_SETTLEMENT_ATTEMPTS, until its authorization expires unused
+ * - Each tick also refunds or releases escrowed payments that are due
+ */
+
+import { X402Payment, PaymentStatus } from '@prisma/client';
+import { ethers } from 'ethers';
+import { prisma } from '../lib/prisma';
+import blockchainService, { isNonceError, SentTransaction } from './blockchain.service';
+import { x402EscrowService } from './x402-escrow.service';
+
+export const SETTLEMENT_INTERVAL_MS = 30_000;
+export const SETTLEMENT_BATCH_SIZE = Number(process.env.X402_SETTLEMENT_BATCH_SIZE) || 20;
+export const MAX_SETTLEMENT_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 60_000;         // Doubled after every failed attempt
+const MAX_RETRY_DELAY_MS = 60 * 60_000;
+const CLAIM_LEASE_MS = 10 * 60_000;    // A crashed worker's claim lapses after this
+const RECEIPT_TIMEOUT_MS = Number(process.env.X402_RECEIPT_TIMEOUT_MS) || 2 * 60_000;
+const RECORD_ATTEMPTS = 3;             // Writes of a sent transaction's hash
+const RECORD_RETRY_DELAY_MS = 1_000;
+const AUTHORIZATION_LOOKBACK_MS = 60 * 60_000;  // How long before its payment an authorization may have been used
+
+export interface SettlementStatus {
+  worker: {
+    enabled: boolean;
+    running: boolean;
+    operator: string | null;
+    batchSize: number;
+    lastRunAt: Date | null;
+    lastError: string | null;
+  };
+  counts: Record<string, number>;   // Payments per status
+  oldestQueuedAt: Date | null;      // Oldest payment still waiting to be settled
+  settlements: Array<{
+    id: string;
+    nonce: string;
+    toolName: string;
+    mcpServerId: string;
+    amount: number;
+    status: string;
+    attempts: number;
+    txHash: string | null;
+    gasUsed: string | null;
+    gasPrice: string | null;
+    blockNumber: number | null;
+    errorMessage: string | null;
+    nextAttemptAt: Date | null;
+    settledAt: Date | null;
+  }>;
+}
+
+interface Submission {
+  payment: X402Payment;
+  tx: SentTransaction;
+}
+
+export class X402SettlementWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private lastRunAt: Date | null = null;
+  private lastError: string | null = null;
+
+  /**
+   * Start settling payments, if the blockchain service has an operator wallet
+   */
+  start(intervalMs = SETTLEMENT_INTERVAL_MS): void {
+    if (this.timer) return;
+    if (!blockchainService.isEnabled()) {
+      console.warn('⚠️  x402 settlement worker not started: blockchain service disabled');
+      return;
+    }
+    this.timer = setInterval(() => this.tick(), intervalMs);
+    console.log(`⛓️  x402 settlement worker started (every ${intervalMs / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Settle one batch of due payments, then the escrowed payments that are
+   * due. Returns how many payments were claimed.
+   */
+  async tick(now = new Date()): Promise<number> {
+    if (this.ticking) return 0;
+    this.ticking = true;
+
+    try {
+      const batch = await this.claimBatch(now);
+      if (batch.length > 0) {
+        console.log(`⛓️  Settling ${batch.length} x402 payment(s)`);
+        await this.settleBatch(batch, now);
+      }
+      const escrowed = await x402EscrowService.processDue(now);
+      this.lastError = null;
+      return batch.length + escrowed;
+    } catch (error: any) {
+      this.lastError = error.message;
+      console.error('❌ x402 settlement tick failed:', error.message);
+      return 0;
+    } finally {
+      this.lastRunAt = new Date();
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Settlement view: worker state, payments per status and the latest
+   * settlement activity (optionally of one status) with its gas
+   */
+  async getStatus(options: { status?: PaymentStatus; limit?: number } = {}): Promise<SettlementStatus> {
+    const [groups, oldest, payments] = await Promise.all([
+      prisma.x402Payment.groupBy({ by: ['status'], _count: { _all: true } }),
+      prisma.x402Payment.findFirst({
+        where: { status: 'AUTHORIZED' },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+      }),
+      prisma.x402Payment.findMany({
+        where: options.status
+          ? { status: options.status }
+          : { OR: [{ status: 'AUTHORIZED' }, { settlementAttempts: { gt: 0 } }] },
+        orderBy: { createdAt: 'desc' },
+        take: options.limit || 50,
+      }),
+    ]);
+
+    const hashes = payments.map(p => p.txHash).filter((hash): hash is string => !!hash);
+    const transactions = hashes.length > 0
+      ? await prisma.transaction.findMany({ where: { txHash: { in: hashes } } })
+      : [];
+    const byHash = new Map(transactions.map(tx => [tx.txHash, tx]));
+
+    return {
+      worker: {
+        enabled: blockchainService.isEnabled(),
+        running: this.timer !== null,
+        operator: blockchainService.getWalletAddress(),
+        batchSize: SETTLEMENT_BATCH_SIZE,
+        lastRunAt: this.lastRunAt,
+        lastError: this.lastError,
+      },
+      counts: Object.fromEntries(groups.map(g => [g.status, g._count._all])),
+      oldestQueuedAt: oldest?.createdAt ?? null,
+      settlements: payments.map(payment => {
+        const tx = payment.txHash ? byHash.get(payment.txHash) : undefined;
+        return {
+          id: payment.id,
+          nonce: payment.nonce,
+          toolName: payment.toolName,
+          mcpServerId: payment.mcpServerId,
+          amount: Number(payment.amount),
+          status: payment.status,
+          attempts: payment.settlementAttempts,
+          txHash: payment.txHash,
+          gasUsed: tx?.gasUsed ?? null,
+          gasPrice: tx?.gasPrice ?? null,
+          blockNumber: tx?.blockNumber ?? null,
+          errorMessage: payment.errorMessage,
+          nextAttemptAt: payment.status === 'AUTHORIZED' ? payment.nextSettlementAt : null,
+          settledAt: payment.settledAt,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Claim due payments: bumping the attempt count only succeeds for the
+   * worker that read the current one, and the lease keeps others away
+   */
+  private async claimBatch(now: Date): Promise<X402Payment[]> {
+    const due = await prisma.x402Payment.findMany({
+      where: {
+        status: 'AUTHORIZED',
+        OR: [{ nextSettlementAt: null }, { nextSettlementAt: { lte: now } }],
+      },
+      orderBy: { validBefore: 'asc' },
+      take: SETTLEMENT_BATCH_SIZE,
+    });
+
+    const claimed: X402Payment[] = [];
+    for (const payment of due) {
+      const { count } = await prisma.x402Payment.updateMany({
+        where: { id: payment.id, status: 'AUTHORIZED', settlementAttempts: payment.settlementAttempts },
+        data: {
+          settlementAttempts: payment.settlementAttempts + 1,
+          nextSettlementAt: new Date(now.getTime() + CLAIM_LEASE_MS),
+        },
+      });
+      if (count === 1) {
+        claimed.push({ ...payment, settlementAttempts: payment.settlementAttempts + 1 });
+      }
+    }
+    return claimed;
+  }
+
+  /**
+   * Submit a batch one transaction after another, then wait for all receipts
+   */
+  private async settleBatch(batch: X402Payment[], now: Date): Promise<void> {
+    const submissions: Submission[] = [];
+
+    for (const payment of batch) {
+      try {
+        // An earlier attempt may have landed after its receipt timed out
+        if (payment.txHash) {
+          const receipt = await blockchainService.getTransactionReceipt(payment.txHash);
+          if (receipt) {
+            await this.recordReceipt(payment, payment.txHash, receipt, now);
+            continue;
+          }
+        }
+
+        // ...or been replaced by another transaction that used the authorization
+        if (await blockchainService.isAuthorizationUsed(payment.assetAddress, payment.payerAddress, payment.nonce)) {
+          await this.settleUsedAuthorization(payment, now);
+          continue;
+        }
+
+        if (payment.validBefore <= now) {
+          await this.fail(payment, 'Authorization expired before it could be settled');
+          continue;
+        }
+
+        const pending = payment.txHash && payment.settlementTxNonce !== null
+          ? { hash: payment.txHash, nonce: payment.settlementTxNonce }
+          : null;
+        const tx = (pending && await this.replace(payment, pending)) || await this.submit(payment);
+
+        await this.recordSubmission(payment, tx);
+        submissions.push({ payment, tx });
+      } catch (error: any) {
+        if (error.code === 'CALL_EXCEPTION') {
+          await this.rejected(payment, `Settlement rejected by contract: ${error.reason || error.shortMessage || error.message}`, now);
+        } else {
+          await this.retryLater(payment, error.shortMessage || error.message, now);
+        }
+      }
+    }
+
+    await Promise.all(submissions.map(submission => this.confirm(submission, now)));
+  }
+
+  private submit(payment: X402Payment, replaces?: SentTransaction): Promise<SentTransaction> {
+    return blockchainService.submitTransferWithAuthorization(
+      payment.assetAddress,
+      {
+        from: payment.payerAddress,
+        to: payment.payeeAddress,
+        value: payment.amountRaw,
+        validAfter: Math.floor(payment.validAfter.getTime() / 1000),
+        validBefore: Math.floor(payment.validBefore.getTime() / 1000),
+        nonce: payment.nonce,
+      },
+      payment.signature,
+      replaces
+    );
+  }
+
+  /**
+   * Resend a payment whose earlier transaction is still pending with the
+   * same nonce and higher fees, so only one of them can land. Null if that
+   * nonce has been used by another transaction since.
+   */
+  private async replace(payment: X402Payment, pending: SentTransaction): Promise<SentTransaction | null> {
+    try {
+      return await this.submit(payment, pending);
+    } catch (error: any) {
+      if (!isNonceError(error) || error.code === 'REPLACEMENT_UNDERPRICED') throw error;
+      return null;
+    }
+  }
+
+  /**
+   * Track a sent transaction before waiting for it, so a crash cannot lose
+   * it. The write is retried; if it keeps failing the transaction is still
+   * confirmed below, and a later attempt finds it on-chain.
+   */
+  private async recordSubmission(payment: X402Payment, tx: SentTransaction): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await prisma.$transaction([
+          prisma.transaction.create({
+            data: {
+              txHash: tx.hash,
+              from: payment.payerAddress,
+              to: payment.payeeAddress,
+              amount: payment.amount,
+              tokenAddress: payment.assetAddress,
+              toolName: payment.toolName,
+              mcpServerId: payment.mcpServerId,
+              description: `x402 settlement of ${payment.toolName} (${payment.nonce})`,
+              status: 'PENDING',
+              chainId: payment.chainId,
+            },
+          }),
+          prisma.x402Payment.update({
+            where: { id: payment.id },
+            data: { txHash: tx.hash, settlementTxNonce: tx.nonce },
+          }),
+        ]);
+        return;
+      } catch (error: any) {
+        if (attempt >= RECORD_ATTEMPTS) {
+          console.error(`❌ Could not record settlement transaction ${tx.hash} of ${payment.nonce}:`, error.message);
+          return;
+        }
+        await new Promise(resolve => setTimeout(resolve, RECORD_RETRY_DELAY_MS * attempt));
+      }
+    }
+  }
+
+  /**
+   * Wait for a submission's receipt and record its outcome
+   */
+  private async confirm({ payment, tx }: Submission, now: Date): Promise<void> {
+    let receipt: ethers.TransactionReceipt;
+    try {
+      receipt = await blockchainService.waitForReceipt(tx.hash, RECEIPT_TIMEOUT_MS);
+    } catch (error: any) {
+      // Not mined in time: the next attempt looks for its receipt first
+      await this.retryLater({ ...payment, txHash: tx.hash }, `Waiting for ${tx.hash}: ${error.shortMessage || error.message}`, now);
+      return;
+    }
+
+    await this.recordReceipt(payment, tx.hash, receipt, now);
+  }
+
+  /**
+   * Record a mined settlement transaction's gas and outcome, then settle the
+   * payment, or fail it if the transaction reverted
+   */
+  private async recordReceipt(
+    payment: X402Payment,
+    txHash: string,
+    receipt: ethers.TransactionReceipt,
+    now: Date
+  ): Promise<void> {
+    const block = await receipt.getBlock().catch(() => null);
+    const succeeded = receipt.status === 1;
+
+    // No row if the transaction was not ours, or its submission was not recorded
+    await prisma.transaction.updateMany({
+      where: { txHash },
+      data: {
+        status: succeeded ? 'CONFIRMED' : 'REVERTED',
+        blockNumber: receipt.blockNumber,
+        blockTimestamp: block ? new Date(block.timestamp * 1000) : undefined,
+        gasUsed: receipt.gasUsed?.toString(),
+        gasPrice: receipt.gasPrice?.toString(),
+        confirmedAt: new Date(),
+      },
+    });
+
+    if (succeeded) {
+      await this.settled(payment, txHash);
+    } else {
+      await this.rejected(payment, `Settlement transaction ${txHash} reverted`, now);
+    }
+  }
+
+  /**
+   * The contract rejected a settlement. The payment only fails if its
+   * authorization is still unused and no earlier attempt is pending: a
+   * duplicate of an attempt that lands first is rejected too.
+   */
+  private async rejected(payment: X402Payment, errorMessage: string, now: Date): Promise<void> {
+    let used: boolean;
+    let pending: boolean;
+    try {
+      used = await blockchainService.isAuthorizationUsed(payment.assetAddress, payment.payerAddress, payment.nonce);
+      pending = !used && !!payment.txHash && !(await blockchainService.getTransactionReceipt(payment.txHash));
+    } catch (error: any) {
+      await this.retryLater(payment, `${errorMessage}; checking its authorization: ${error.shortMessage || error.message}`, now);
+      return;
+    }
+
+    if (used) {
+      await this.settleUsedAuthorization(payment, now);
+    } else if (pending) {
+      await this.retryLater(payment, `${errorMessage}; ${payment.txHash} is still pending`, now);
+    } else {
+      await this.fail(payment, errorMessage);
+    }
+  }
+
+  /**
+   * The authorization was used, but not by a transaction known to have
+   * landed: find the one that used it (an attempt whose receipt timed out,
+   * or anyone else's) and settle with it. A cancelled authorization fails.
+   */
+  private async settleUsedAuthorization(payment: X402Payment, now: Date): Promise<void> {
+    const since = new Date(Math.max(
+      payment.validAfter.getTime(),
+      payment.createdAt.getTime() - AUTHORIZATION_LOOKBACK_MS
+    ));
+    const use = await blockchainService.findAuthorizationUse(payment.assetAddress, payment.payerAddress, payment.nonce, since);
+    const receipt = use && !use.cancelled ? await blockchainService.getTransactionReceipt(use.txHash) : null;
+
+    if (use?.cancelled) {
+      await this.fail(payment, `Authorization was cancelled by the payer (${use.txHash})`);
+    } else if (use && receipt) {
+      await this.recordReceipt(payment, use.txHash, receipt, now);
+    } else {
+      await this.retryLater(payment, 'Authorization was used, but the transaction that used it was not found', now);
+    }
+  }
+
+  private async settled(payment: X402Payment, txHash: string): Promise<void> {
+    await prisma.x402Payment.update({
+      where: { id: payment.id },
+      data: { status: 'SETTLED', txHash, settledAt: new Date(), nextSettlementAt: null, errorMessage: null },
+    });
+    console.log(`✅ x402 payment settled on-chain: ${payment.nonce} (${txHash})`);
+  }
+
+  private async fail(payment: X402Payment, errorMessage: string): Promise<void> {
+    await prisma.x402Payment.update({
+      where: { id: payment.id },
+      data: { status: 'FAILED', errorMessage, nextSettlementAt: null },
+    });
+    console.error(`❌ x402 settlement failed: ${payment.nonce}: ${errorMessage}`);
+  }
+
+  /**
+   * Back off before the next attempt, or give up after the last one
+   */
+  private async retryLater(payment: X402Payment, errorMessage: string, now: Date): Promise<void> {
+    if (payment.settlementAttempts >= MAX_SETTLEMENT_ATTEMPTS && !(await this.mayStillSettle(payment, now))) {
+      await this.fail(payment, `Gave up after ${payment.settlementAttempts} attempts: ${errorMessage}`);
+      return;
+    }
+
+    const delay = Math.min(RETRY_DELAY_MS * 2 ** (payment.settlementAttempts - 1), MAX_RETRY_DELAY_MS);
+    await prisma.x402Payment.update({
+      where: { id: payment.id },
+      data: { errorMessage, nextSettlementAt: new Date(now.getTime() + delay) },
+    });
+    console.warn(`⚠️  x402 settlement of ${payment.nonce} will be retried: ${errorMessage}`);
+  }
+
+  /**
+   * Whether a transaction sent for the payment may still land (or has,
+   * unseen), so failing it could leave the payer charged: until the
+   * authorization expires unused, or while the chain cannot tell
+   */
+  private async mayStillSettle(payment: X402Payment, now: Date): Promise<boolean> {
+    if (!payment.txHash) return false;
+
+    try {
+      if (await blockchainService.isAuthorizationUsed(payment.assetAddress, payment.payerAddress, payment.nonce)) {
+        return true;
+      }
+    } catch {
+      return true;
+    }
+    return payment.validBefore > now;
+  }
+}
+
+export const x402SettlementWorker = new X402SettlementWorker();
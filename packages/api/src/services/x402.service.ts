@@ -12,6 +12,7 @@ interface X402PaymentData {
   validAfter: number;
   validBefore: number;
   txHash: string;
+  salt?: string;  // Binds the nonce to a request: nonce = keccak256(requestHash ‖ salt)
 }
 
 export class X402Service {
@@ -35,6 +36,7 @@ export class X402Service {
         validAfter: paymentData.payload.authorization.validAfter,
         validBefore: paymentData.payload.authorization.validBefore,
         txHash: paymentData.txHash || '',
+        salt: paymentData.payload.salt,
       };
     } catch (error) {
       throw new Error('Invalid x402 payment header');
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { installFakeWorkflowDb } from './fake-workflow-db';
+import type { WorkflowDefinition } from '../src/services/workflow/types';
+
+installFakeWorkflowDb();
+
+// Stubbed tool caller, counting calls so replays can be shown to make none
+let calls = 0;
+(axios as any).post = async (_: string, params: any) => {
+  calls++;
+  return { data: { company: 'Acme', employees: 120, contact: { email: params.email } } };
+};
+
+const definition: WorkflowDefinition = {
+  name: 'qualify',
+  description: 'Score a lead',
+  version: '1.0.0',
+  creator: { address: '0x0000000000000000000000000000000000000001', revenueShare: 80 },
+  pricing: { basePrice: 0, currency: 'USDC' },
+  inputs: [{ name: 'email', type: 'string', description: 'Lead email', required: true }],
+  steps: [
+    {
+      id: 'lookup',
+      name: 'lookup',
+      type: 'mcp_tool',
+      tool: { server: 'test', function: 'lookup', params: { email: '{{input.email}}', api_key: 'sk-live-0123456789abcdef' } },
+    },
+    {
+      id: 'score',
+      name: 'score',
+      type: 'transform',
+      transform: { input: '{{steps.lookup.employees}}', expression: 'input / 10' },
+      dependsOn: ['lookup'],
+    },
+  ],
+  output: { template: '{{steps}}' },
+};
+
+async function recordRun() {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const { workflowCassetteService } = await import('../src/services/workflow/cassettes');
+
+  const run = await workflowExecutor.execute(definition, { email: 'ada@example.com' }, undefined, { record: true });
+  assert.equal(run.success, true, run.output.error);
+  return workflowCassetteService.export(run.executionId);
+}
+
+test('replays a recorded run to the same output without calling its tools', async () => {
+  const { workflowCassetteService } = await import('../src/services/workflow/cassettes');
+  const cassette = await recordRun();
+  const recordedCalls = calls;
+
+  const replay = await workflowCassetteService.replay(JSON.parse(JSON.stringify(cassette)));
+
+  assert.equal(replay.reproduced, true);
+  assert.deepEqual(replay.differences, []);
+  assert.deepEqual(replay.output, cassette.output);
+  assert.equal(replay.output.score, 12);
+  assert.equal(calls, recordedCalls);
+});
+
+test('exports cassettes without secrets, with PII replaced consistently', async () => {
+  const cassette = await recordRun();
+  const lookup = cassette.interactions.find(i => i.stepId === 'lookup')!;
+
+  assert.equal(lookup.params.api_key, '[REDACTED]');
+  assert.match(cassette.inputs.email, /^user-[0-9a-f]{10}@example\.com$/);
+  assert.equal(lookup.params.email, cassette.inputs.email);
+  assert.equal(lookup.output.contact.email, cassette.inputs.email);
+  assert.ok(!JSON.stringify(cassette).includes('ada@example.com'));
+});
+
+test('reports where a changed workflow no longer matches the recording', async () => {
+  const { workflowCassetteService } = await import('../src/services/workflow/cassettes');
+  const cassette = await recordRun();
+  cassette.workflow.steps[1].transform!.expression = 'input / 20';
+
+  const replay = await workflowCassetteService.replay(cassette);
+
+  assert.equal(replay.reproduced, false);
+  assert.deepEqual(replay.differences, ['output.score: recorded 12, replayed 6', 'steps.score: recorded 12, replayed 6']);
+});
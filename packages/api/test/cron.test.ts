@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCron, getNextRun, getRunsBetween } from '../src/services/workflow/cron';
+
+const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+test('finds the next run across ranges, steps and weekday names', () => {
+  const schedule = '*/15 9-17 * * MON-FRI';
+  assert.equal(getNextRun(schedule, new Date('2026-10-16T17:40:00Z')).toISOString(), '2026-10-16T17:45:00.000Z');
+  // Friday after the last slot: next is Monday morning
+  assert.equal(getNextRun(schedule, new Date('2026-10-16T17:50:00Z')).toISOString(), '2026-10-19T09:00:00.000Z');
+  // Strictly after: a matching time itself is skipped
+  assert.equal(getNextRun(schedule, new Date('2026-10-19T09:00:00Z')).toISOString(), '2026-10-19T09:15:00.000Z');
+});
+
+test('matches either day field when both are restricted', () => {
+  const runs = getRunsBetween('0 0 13 * FRI', new Date('2026-04-01T00:00:00Z'), new Date('2026-04-30T00:00:00Z'));
+  assert.deepEqual(runs.map(d => d.getUTCDate()), [3, 10, 13, 17, 24]);
+});
+
+test('skips wall-clock times lost to DST and fires repeated ones once each', () => {
+  // 02:30 does not exist in New York on 8 March 2026
+  assert.equal(
+    getNextRun('30 2 * * *', new Date('2026-03-08T05:00:00Z'), 'America/New_York').toISOString(),
+    '2026-03-09T06:30:00.000Z'
+  );
+
+  // 01:30 happens twice on 1 November 2026, in EDT and then EST
+  assert.deepEqual(
+    iso(getRunsBetween('30 1 * * *', new Date('2026-11-01T00:00:00Z'), new Date('2026-11-02T00:00:00Z'), 'America/New_York')),
+    ['2026-11-01T05:30:00.000Z', '2026-11-01T06:30:00.000Z']
+  );
+
+  // Midnight in Berlin is 23:00 UTC once winter time starts
+  assert.equal(
+    getNextRun('@monthly', new Date('2026-10-19T12:00:00Z'), 'Europe/Berlin').toISOString(),
+    '2026-10-31T23:00:00.000Z'
+  );
+});
+
+test('rejects malformed expressions', () => {
+  assert.throws(() => parseCron('61 * * * *'), /invalid minute "61" \(allowed 0-59\)/);
+  assert.throws(() => parseCron('* * *'), /expected 5 fields, got 3/);
+  assert.throws(() => getNextRun('0 0 30 2 *', new Date('2026-01-01T00:00:00Z')), /never matches/);
+});
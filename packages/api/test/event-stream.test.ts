@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import type { Request, Response } from 'express';
+import { installFakeWorkflowDb } from './fake-workflow-db';
+import { openEventStream } from '../src/lib/event-stream';
+import type { WorkflowDefinition } from '../src/services/workflow/types';
+
+installFakeWorkflowDb();
+
+// Response that keeps what was written
+function fakeResponse() {
+  const res = {
+    statusCode: 0,
+    headers: {} as Record<string, string>,
+    body: '',
+    writableEnded: false,
+    status(code: number) { res.statusCode = code; return res; },
+    setHeader(name: string, value: string) { res.headers[name] = value; },
+    flushHeaders() {},
+    write(chunk: string) { res.body += chunk; return true; },
+    end() { res.writableEnded = true; },
+  };
+  return res;
+}
+
+function open(accept?: string) {
+  const res = fakeResponse();
+  const stream = openEventStream({ headers: { accept } } as Request, res as unknown as Response);
+  return { res, stream };
+}
+
+test('frames events as Server-Sent Events', () => {
+  const { res, stream } = open('text/event-stream');
+
+  stream!.send({ type: 'run_started', workflow: 'demo' });
+  stream!.send({ type: 'run_completed', success: true });
+  stream!.end();
+  stream!.send({ type: 'late' });
+
+  assert.equal(res.statusCode, 200);
+  assert.equal(res.headers['Content-Type'], 'text/event-stream');
+  assert.equal(res.headers['X-Accel-Buffering'], 'no');
+  assert.equal(res.body,
+    'event: run_started\ndata: {"type":"run_started","workflow":"demo"}\n\n' +
+    'event: run_completed\ndata: {"type":"run_completed","success":true}\n\n');
+});
+
+test('frames events as NDJSON, and leaves plain JSON requests alone', () => {
+  const { res, stream } = open('application/x-ndjson');
+  stream!.send({ type: 'run_started' });
+  stream!.send({ type: 'run_completed' });
+
+  assert.equal(res.headers['Content-Type'], 'application/x-ndjson');
+  assert.equal(res.body, '{"type":"run_started"}\n{"type":"run_completed"}\n');
+
+  assert.equal(open('application/json').stream, null);
+  assert.equal(open().stream, null);
+});
+
+test('streams a run\'s events in the order it progresses', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  let attempts = 0;
+  (axios as any).post = async (url: string) => {
+    if (url.endsWith('/flaky') && ++attempts === 1) {
+      throw Object.assign(new Error('Request failed with status code 503'), { isAxiosError: true, response: { status: 503 } });
+    }
+    if (url.endsWith('/broken')) {
+      throw Object.assign(new Error('Request failed with status code 400'), { isAxiosError: true, response: { status: 400 } });
+    }
+    return { data: { ok: true } };
+  };
+
+  const definition: WorkflowDefinition = {
+    name: 'streamed',
+    description: 'test',
+    version: '1.0.0',
+    creator: { address: '0x0000000000000000000000000000000000000001', revenueShare: 80 },
+    pricing: { basePrice: 0, currency: 'USDC' },
+    inputs: [],
+    steps: [
+      { id: 'flaky', name: 'flaky', type: 'mcp_tool', tool: { server: 'test', function: 'flaky', params: {} }, retry: { max: 1, baseMs: 1 } },
+      { id: 'broken', name: 'broken', type: 'mcp_tool', tool: { server: 'test', function: 'broken', params: {} }, dependsOn: ['flaky'] },
+    ],
+    output: { template: '{{steps}}' },
+  };
+
+  const { res, stream } = open('application/x-ndjson');
+  await workflowExecutor.execute(definition, {}, undefined, { onEvent: stream!.send });
+  stream!.end();
+
+  const events = res.body.trim().split('\n').map(line => JSON.parse(line));
+  assert.deepEqual(events.map(e => [e.type, e.stepId]), [
+    ['run_started', undefined],
+    ['step_started', 'flaky'],
+    ['step_retry', 'flaky'],
+    ['step_completed', 'flaky'],
+    ['step_started', 'broken'],
+    ['step_failed', 'broken'],
+    ['run_completed', undefined],
+  ]);
+
+  const completed = events[3];
+  assert.equal(completed.outputPreview, '{"ok":true}');
+  assert.equal(completed.attempts, 2);
+  assert.equal(typeof completed.cost, 'number');
+  assert.equal(events[6].success, false);
+  assert.ok(events.every(e => e.executionId === events[0].executionId && e.timestamp));
+  assert.ok(res.writableEnded);
+});
@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateExpression, ExpressionError } from '../src/services/workflow/expression';
+
+test('evaluates keyword literals', () => {
+  assert.equal(evaluateExpression('true && !false', {}), true);
+  assert.equal(evaluateExpression('null', {}), null);
+});
+
+test('rejects identifiers inherited from Object.prototype', () => {
+  for (const name of ['constructor', 'toString', 'valueOf', 'hasOwnProperty', '__proto__']) {
+    assert.throws(
+      () => evaluateExpression(name, {}),
+      (error: any) => error instanceof ExpressionError && error.message.includes(`Unknown identifier '${name}'`),
+      name
+    );
+  }
+});
+
+test('resolves identifiers from the scope only', () => {
+  assert.equal(evaluateExpression('constructor', { constructor: 1 }), 1);
+});
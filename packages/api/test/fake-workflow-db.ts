@@ -0,0 +1,108 @@
+// In-memory stand-in for the tables the workflow executor and run store
+// use. lib/prisma reuses a client already set on global, so install this
+// before importing any workflow module.
+//
+// Installing it also mutes console.log: the executor logs every step to
+// stdout, which the test runner parses for its own messages, and Node 20's
+// runner occasionally fails a file whose output is that busy.
+
+export interface FakeWorkflowDb {
+  workflows: Map<string, any>;
+  versions: any[];
+  runs: Map<string, any>;
+  steps: any[];
+  tools: any[];
+}
+
+export function installFakeWorkflowDb(): FakeWorkflowDb {
+  const db: FakeWorkflowDb = { workflows: new Map(), versions: [], runs: new Map(), steps: [], tools: [] };
+  console.log = () => {};
+
+  const inRange = (value: any, range: any) =>
+    !range || ((range.gte === undefined || value >= range.gte) && (range.lte === undefined || value <= range.lte));
+
+  // The run filters WorkflowRunStore.listRuns uses
+  const matchesRun = (run: any, where: any) =>
+    (!where.workflow || db.workflows.get(where.workflow.name)?.id === run.workflowId) &&
+    (where.status === undefined || run.status === where.status) &&
+    (where.userId === undefined || run.userId === where.userId) &&
+    inRange(run.startedAt, where.startedAt) &&
+    inRange(Number(run.totalCost), where.totalCost);
+
+  const withRelations = (run: any, include: any = {}) => ({
+    ...run,
+    workflow: include.workflow ? [...db.workflows.values()].find(w => w.id === run.workflowId) : undefined,
+    version: include.version ? db.versions.find(v => v.id === run.versionId) : undefined,
+    steps: include.steps
+      ? db.steps.filter(s => s.runId === run.id && (!include.steps.where || include.steps.where.status.in.includes(s.status)))
+      : undefined,
+  });
+
+  (global as any).prisma = {
+    workflow: {
+      findUnique: async ({ where }: any) => db.workflows.get(where.name) ?? null,
+      upsert: async ({ where, create, update }: any) => {
+        const existing = db.workflows.get(where.name);
+        const workflow = existing ? Object.assign(existing, update) : { id: `workflow-${db.workflows.size + 1}`, ...create };
+        db.workflows.set(where.name, workflow);
+        return workflow;
+      },
+    },
+    workflowVersion: {
+      findFirst: async ({ where }: any) => db.versions.find(v =>
+        v.version === where.version && db.workflows.get(where.workflow.name)?.id === v.workflowId
+      ) ?? null,
+      create: async ({ data }: any) => {
+        const version = { id: `version-${db.versions.length + 1}`, deprecated: false, deprecationMessage: null, createdAt: new Date(), ...data };
+        db.versions.push(version);
+        return version;
+      },
+    },
+    workflowRun: {
+      create: async ({ data }: any) => {
+        const run = { totalCost: 0, resumeCount: 0, output: null, error: null, completedAt: null, maxCostUsd: null, ...data };
+        db.runs.set(run.id, run);
+        return run;
+      },
+      update: async ({ where, data }: any) => Object.assign(db.runs.get(where.id), data),
+      updateMany: async ({ where, data }: any) => {
+        const run = db.runs.get(where.id);
+        if (!run || run.status !== where.status) return { count: 0 };
+        const { resumeCount, ...rest } = data;
+        Object.assign(run, rest, { resumeCount: run.resumeCount + (resumeCount?.increment ?? 0) });
+        return { count: 1 };
+      },
+      findUnique: async ({ where, include }: any) => {
+        const run = db.runs.get(where.id);
+        return run ? withRelations(run, include) : null;
+      },
+      findUniqueOrThrow: async ({ where, include }: any) => withRelations(db.runs.get(where.id), include),
+      findMany: async ({ where, include, take, skip }: any) => [...db.runs.values()]
+        .filter(run => matchesRun(run, where))
+        .sort((a, b) => b.startedAt - a.startedAt)
+        .slice(skip, skip + take)
+        .map(run => withRelations(run, include)),
+      count: async ({ where }: any) => [...db.runs.values()].filter(run => matchesRun(run, where)).length,
+    },
+    workflowStepResult: {
+      upsert: async ({ where, create, update }: any) => {
+        const { runId, path } = where.runId_path;
+        const existing = db.steps.find(s => s.runId === runId && s.path === path);
+        if (existing) return Object.assign(existing, update);
+        db.steps.push(create);
+        return create;
+      },
+      findMany: async ({ where }: any) => db.steps
+        .filter(s => s.runId === where.runId && s.stepId === where.stepId)
+        .sort((a, b) => (a.iteration ?? 0) - (b.iteration ?? 0)),
+      aggregate: async ({ where }: any) => ({
+        _sum: { cost: db.steps.filter(s => s.runId === where.runId).reduce((sum, s) => sum + Number(s.cost), 0) },
+      }),
+    },
+    tool: {
+      findMany: async () => db.tools,
+    },
+  };
+
+  return db;
+}
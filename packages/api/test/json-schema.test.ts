@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateSchema, inputsToSchema } from '../src/services/workflow/json-schema';
+
+const schema = inputsToSchema([
+  {
+    name: 'companies',
+    type: 'array',
+    description: 'Companies to enrich',
+    required: true,
+    schema: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['domain'],
+        properties: { domain: { type: 'string', format: 'url' }, size: { type: 'integer', minimum: 1 } },
+      },
+    },
+  },
+  { name: 'tier', type: 'string', description: 'Plan', required: true, schema: { type: 'string', enum: ['free', 'pro'] } },
+  { name: 'limit', type: 'integer', description: 'Results per company', required: false, default: 10 },
+]);
+
+test('rejects inputs that do not match their schema, with the path of each error', () => {
+  const { errors } = validateSchema(
+    { companies: [{ domain: 'example', size: 0 }, {}], tier: 'gold' },
+    schema,
+    { coerce: true, applyDefaults: true }
+  );
+
+  assert.deepEqual(errors, [
+    { path: 'companies[0].domain', message: 'must be a valid url' },
+    { path: 'companies[0].size', message: 'must be >= 1' },
+    { path: 'companies[1].domain', message: 'is required' },
+    { path: 'tier', message: 'must be one of "free", "pro"' },
+  ]);
+  assert.deepEqual(validateSchema({}, schema).errors.map(e => e.path), ['companies', 'tier']);
+});
+
+test('fills in defaults and coerces strings to the declared type', () => {
+  const input = { companies: [{ domain: 'https://example.com', size: '3' }], tier: 'pro' };
+  const { value, errors } = validateSchema(input, schema, { coerce: true, applyDefaults: true });
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(value, { companies: [{ domain: 'https://example.com', size: 3 }], tier: 'pro', limit: 10 });
+  assert.equal(input.companies[0].size, '3');  // The input itself is left alone
+});
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { llmService, LLMService, LLMProvider, LLMRequest } from '../src/services/workflow/llm';
+
+// Provider answering with scripted replies, reporting 100 tokens in and 10 out per call
+function scripted(replies: string[]): LLMProvider & { requests: LLMRequest[] } {
+  const requests: LLMRequest[] = [];
+  return {
+    name: 'scripted',
+    requests,
+    matches: model => model === 'scripted',
+    getPricing: () => ({ input: 1, output: 2 }),
+    complete: async (_, request) => {
+      requests.push(JSON.parse(JSON.stringify(request)));
+      return { text: replies.shift()!, usage: { input: 100, output: 10 } };
+    },
+  };
+}
+
+test('picks the provider from a "provider:model" reference or the bare model name', () => {
+  const providerOf = (model: string) => {
+    const { provider, model: name } = llmService.resolve(model);
+    return `${provider.name}:${name}`;
+  };
+
+  assert.equal(providerOf('openai:gpt-4o'), 'openai:gpt-4o');
+  assert.equal(providerOf('gpt-4o-mini'), 'openai:gpt-4o-mini');
+  assert.equal(providerOf('gemini-2.0-flash'), 'gemini:gemini-2.0-flash');
+  assert.equal(providerOf('sonar-pro'), 'perplexity:sonar-pro');
+  assert.equal(providerOf('mock'), 'mock:mock');
+
+  assert.throws(() => llmService.resolve('acme:model-1'), /Unknown AI provider "acme"/);
+  assert.throws(() => llmService.resolve('llama-3'), /Cannot tell the provider of model "llama-3"/);
+});
+
+test('parses JSON replies wrapped in a code fence or surrounding text', async () => {
+  const service = new LLMService([scripted(['```json\n{"score": 7}\n```', 'Sure! {"score": 8} Hope that helps.'])]);
+
+  const fenced = await service.generate({ model: 'scripted', prompt: 'Rate it', json: true });
+  assert.deepEqual(fenced.output, { score: 7 });
+  assert.equal(fenced.model, 'scripted:scripted');
+
+  const chatty = await service.generate({ model: 'scripted', prompt: 'Rate it', json: true });
+  assert.deepEqual(chatty.output, { score: 8 });
+});
+
+test('sends output that breaks the schema back for repair, charging every attempt', async () => {
+  const provider = scripted(['{"score": "high"}', '{"score": 9}']);
+  const service = new LLMService([provider]);
+  const schema = { type: 'object' as const, required: ['score'], properties: { score: { type: 'integer' as const } } };
+
+  const result = await service.generate({ model: 'scripted', prompt: 'Rate it', schema });
+
+  assert.deepEqual(result.output, { score: 9 });
+  assert.equal(result.attempts, 2);
+  assert.deepEqual(result.usage, { input: 200, output: 20 });
+  assert.ok(Math.abs(result.cost - (200 * 1 + 20 * 2) / 1_000_000) < 1e-12);
+  assert.match(provider.requests[1].messages[2].content, /Your response was invalid:\nscore: expected integer, got string/);
+
+  // Still wrong after maxRepairs: a schema is a contract
+  const stubborn = new LLMService([scripted(['{}', '{}'])]);
+  await assert.rejects(
+    stubborn.generate({ model: 'scripted', prompt: 'Rate it', schema, maxRepairs: 1 }),
+    /does not match schema after 2 attempt\(s\)/
+  );
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { n8nImporter } from '../src/services/workflow/n8n-importer';
+import { evaluateExpression } from '../src/services/workflow/expression';
+
+test('imports IF literals with control and non-ASCII characters', async () => {
+  const expected = 'tab\there\b\u0001 café ✓';
+  const { workflow, report } = await n8nImporter.parseN8n({
+    name: 'Escapes',
+    nodes: [
+      { name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: {} },
+      {
+        name: 'Check note',
+        type: 'n8n-nodes-base.if',
+        typeVersion: 2,
+        parameters: {
+          conditions: {
+            conditions: [{ leftValue: '={{ $json.body.note }}', rightValue: expected, operator: { operation: 'equals' } }],
+          },
+        },
+      },
+    ],
+    connections: { Webhook: { main: [[{ node: 'Check note', type: 'main', index: 0 }]] } },
+  }, {
+    creator: { address: '0x0000000000000000000000000000000000000001', name: 'test' },
+    pricing: { basePrice: 0.01 },
+  });
+
+  assert.deepEqual(report.needsReview, []);
+  const condition = workflow.steps.find(s => s.type === 'condition')!.condition!.if;
+  assert.equal(evaluateExpression(condition, { input: { note: expected } }), true);
+  assert.equal(evaluateExpression(condition, { input: { note: 'other' } }), false);
+});
+
+test('reads \\u and \\x escapes in string literals', () => {
+  assert.equal(evaluateExpression('"\\u00e9\\x41\\b"', {}), 'éA\b');
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { installFakeWorkflowDb } from './fake-workflow-db';
+import type { WorkflowDefinition, WorkflowStep } from '../src/services/workflow/types';
+
+installFakeWorkflowDb();
+
+// Stubbed tool caller: every tool answers { ok: true } and costs its estimate
+(axios as any).post = async () => ({ data: { ok: true } });
+
+const PARENT_CREATOR = '0x0000000000000000000000000000000000000001';
+const CHILD_CREATOR = '0x0000000000000000000000000000000000000002';
+
+function workflow(name: string, steps: WorkflowStep[], extra: Partial<WorkflowDefinition> = {}): WorkflowDefinition {
+  return {
+    name,
+    description: 'test',
+    version: '1.0.0',
+    creator: { address: PARENT_CREATOR, revenueShare: 80 },
+    pricing: { basePrice: 0, currency: 'USDC' },
+    inputs: [],
+    steps,
+    output: { template: '{{steps}}' },
+    ...extra,
+  };
+}
+
+const call = (id: string, name: string): WorkflowStep => ({ id, name: id, type: 'workflow', workflow: { name } });
+const tool = (id: string, estimatedCost: number): WorkflowStep =>
+  ({ id, name: id, type: 'mcp_tool', tool: { server: 'test', function: id, params: {} }, estimatedCost });
+
+test('rejects workflows that call themselves, directly or through another workflow', async () => {
+  const { workflowMCPGenerator } = await import('../src/services/workflow/mcp-generator');
+
+  await assert.rejects(workflowMCPGenerator.registerWorkflow(workflow('selfish', [call('again', 'selfish')])), (error: any) =>
+    error.name === 'WorkflowVersionError' && error.statusCode === 400 &&
+    error.message === 'Recursive workflow calls: selfish@1.0.0 → selfish@1.0.0'
+  );
+
+  await workflowMCPGenerator.registerWorkflow(workflow('leaf', [tool('work', 0.01)]));
+  await workflowMCPGenerator.registerWorkflow(workflow('middle', [call('down', 'leaf')]));
+  await assert.rejects(
+    workflowMCPGenerator.publishVersion('leaf', workflow('leaf', [call('up', 'middle')], { version: '1.1.0' })),
+    /Recursive workflow calls: leaf@1\.1\.0 → middle@1\.0\.0 → leaf@1\.1\.0/
+  );
+  assert.equal(workflowMCPGenerator.getWorkflow('leaf')!.version, '1.0.0');
+
+  // A definition run without publishing is stopped when the call comes round
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const result = await workflowExecutor.execute(workflow('leaf', [call('up', 'middle')], { version: '2.0.0' }), {});
+  assert.equal(result.success, false);
+  assert.match(result.output.error, /Recursive workflow call: leaf → middle → leaf/);
+});
+
+test('rolls a sub-workflow\'s costs and creator payout into the parent run', async () => {
+  const { workflowMCPGenerator } = await import('../src/services/workflow/mcp-generator');
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+
+  await workflowMCPGenerator.registerWorkflow(workflow('enrich', [tool('lookup', 0.04)], {
+    creator: { address: CHILD_CREATOR, revenueShare: 50 },
+    pricing: { basePrice: 0.05, currency: 'USDC' },
+  }));
+
+  const result = await workflowExecutor.execute(workflow('report', [tool('fetch', 0.01), call('enriched', 'enrich')]), {});
+
+  assert.equal(result.success, true);
+  assert.deepEqual(result.stepCosts.map(c => [c.stepId, c.cost, c.workflow]), [
+    ['fetch', 0.01, undefined],
+    ['enriched.lookup', 0.04, 'enrich@1.0.0'],
+    ['enriched', 0.05 - 0.04, 'enrich@1.0.0'],  // The child's base price above its step costs
+  ]);
+  assert.ok(Math.abs(result.totalCost - 0.06) < 1e-9);
+
+  // Each creator is paid from their own workflow's share
+  const payouts = Object.fromEntries(result.payouts.map(p => [p.workflow, p]));
+  assert.equal(payouts['enrich@1.0.0'].address, CHILD_CREATOR);
+  assert.ok(Math.abs(payouts['enrich@1.0.0'].amount - 0.025) < 1e-9);
+  assert.ok(Math.abs(payouts['report@1.0.0'].amount - 0.008) < 1e-9);
+});
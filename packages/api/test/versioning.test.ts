@@ -0,0 +1,13 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareVersions } from '../src/services/workflow/versioning';
+
+test('compares semantic versions numerically', () => {
+  assert.ok(compareVersions('1.10.0', '1.9.3') > 0);
+  assert.equal(compareVersions('2.0.0', '2.0.0'), 0);
+});
+
+test('sorts versions saved before versioning first instead of throwing', () => {
+  assert.ok(compareVersions('v1', '0.0.1') < 0);
+  assert.ok(compareVersions('1.0.0', undefined as any) > 0);
+});
@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { installFakeWorkflowDb } from './fake-workflow-db';
+
+const db = installFakeWorkflowDb();
+
+// Webhooks, and deliveries unique per (webhook, idempotency key) like the real table
+const webhooks: any[] = [];
+const deliveries: any[] = [];
+Object.assign((global as any).prisma, {
+  workflowWebhook: {
+    create: async ({ data }: any) => {
+      const workflow = [...db.workflows.values()].find(w => w.id === data.workflowId);
+      const webhook = {
+        id: `webhook-${webhooks.length + 1}`,
+        inputMapping: null,
+        idempotencyKey: null,
+        maxCostUsd: null,
+        enabled: true,
+        lastTriggeredAt: null,
+        createdAt: new Date(),
+        ...data,
+        workflow: { name: workflow.name },
+      };
+      webhooks.push(webhook);
+      return webhook;
+    },
+    findUnique: async ({ where }: any) => webhooks.find(w => w.token === where.token) ?? null,
+    update: async ({ where, data }: any) => Object.assign(webhooks.find(w => w.id === where.id), data),
+  },
+  workflowWebhookDelivery: {
+    create: async ({ data }: any) => {
+      if (deliveries.some(d => d.webhookId === data.webhookId && d.idempotencyKey === data.idempotencyKey)) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+      }
+      deliveries.push(data);
+      return data;
+    },
+    findUnique: async ({ where }: any) => {
+      const { webhookId, idempotencyKey } = where.webhookId_idempotencyKey;
+      return deliveries.find(d => d.webhookId === webhookId && d.idempotencyKey === idempotencyKey) ?? null;
+    },
+  },
+});
+
+async function setup() {
+  const { workflowMCPGenerator } = await import('../src/services/workflow/mcp-generator');
+  const { workflowWebhookService } = await import('../src/services/workflow/webhooks');
+
+  if (!workflowMCPGenerator.getWorkflow('signup')) {
+    await workflowMCPGenerator.registerWorkflow({
+      name: 'signup',
+      description: 'Greet a new contact',
+      version: '1.0.0',
+      creator: { address: '0x0000000000000000000000000000000000000001', revenueShare: 80 },
+      pricing: { basePrice: 0, currency: 'USDC' },
+      inputs: [{ name: 'email', type: 'string', description: 'Contact email', required: true }],
+      steps: [{ id: 'greet', name: 'greet', type: 'transform', transform: { input: '{{input.email}}', expression: 'input' } }],
+      output: { template: '{{steps.greet}}' },
+    });
+  }
+
+  const { webhook, secret } = await workflowWebhookService.create('signup', {
+    inputMapping: { email: '{{payload.contact.email}}' },
+    payerAddress: '0x0000000000000000000000000000000000000003',
+  });
+  const token = webhook.url.split('/').pop()!;
+
+  const deliver = (body: any, sign = secret, headers: Record<string, string> = {}) => {
+    const rawBody = Buffer.from(JSON.stringify(body));
+    const signature = `sha256=${crypto.createHmac('sha256', sign).update(rawBody).digest('hex')}`;
+    return workflowWebhookService.receive('signup', token, {
+      headers: { 'x-webhook-signature': signature, ...headers },
+      query: {},
+      rawBody,
+    });
+  };
+
+  return { deliver };
+}
+
+async function waitForRun(runId: string) {
+  for (let i = 0; i < 100 && db.runs.get(runId)?.status !== 'COMPLETED'; i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  return db.runs.get(runId);
+}
+
+test('runs the workflow for a delivery signed with the webhook secret', async () => {
+  const { deliver } = await setup();
+
+  const { runId, duplicate } = await deliver({ contact: { email: 'ada@example.com' } });
+  assert.equal(duplicate, false);
+
+  const run = await waitForRun(runId);
+  assert.equal(run.status, 'COMPLETED');
+  assert.equal(run.userId, '0x0000000000000000000000000000000000000003');
+  assert.deepEqual(run.inputs, { email: 'ada@example.com' });
+});
+
+test('rejects unsigned, wrongly signed and invalid deliveries', async () => {
+  const { WorkflowWebhookError } = await import('../src/services/workflow/webhooks');
+  const { deliver } = await setup();
+  const body = { contact: { email: 'ada@example.com' } };
+  const runs = db.runs.size;
+
+  for (const [secret, headers] of [['not-the-secret', {}], [undefined, { 'x-webhook-signature': '' }]] as const) {
+    await assert.rejects(deliver(body, secret, headers), (error: any) =>
+      error instanceof WorkflowWebhookError && error.statusCode === 401
+    );
+  }
+  await assert.rejects(deliver({ contact: {} }), (error: any) =>
+    error instanceof WorkflowWebhookError && error.statusCode === 400 && /email: is required/.test(error.message)
+  );
+  assert.equal(db.runs.size, runs);
+});
+
+test('answers a replayed delivery with the first run instead of starting another', async () => {
+  const { deliver } = await setup();
+  const body = { contact: { email: 'grace@example.com' } };
+
+  const first = await deliver(body);
+  await waitForRun(first.runId);
+  const runs = db.runs.size;
+
+  // Same body, then the same Idempotency-Key with a different body
+  assert.deepEqual(await deliver(body), { runId: first.runId, duplicate: true });
+  const keyed = await deliver(body, undefined, { 'idempotency-key': 'signup-42' });
+  assert.deepEqual(
+    await deliver({ contact: { email: 'other@example.com' } }, undefined, { 'idempotency-key': 'signup-42' }),
+    { runId: keyed.runId, duplicate: true }
+  );
+
+  await waitForRun(keyed.runId);
+  assert.equal(db.runs.size, runs + 1);
+});
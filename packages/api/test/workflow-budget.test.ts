@@ -0,0 +1,152 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { installFakeWorkflowDb } from './fake-workflow-db';
+import type { WorkflowDefinition, WorkflowStep, WorkflowExecutionContext } from '../src/services/workflow/types';
+
+const db = installFakeWorkflowDb();
+
+// Tool calls answer from `replies`, keyed by function name
+const calls: string[] = [];
+let replies: Record<string, () => any> = {};
+(axios as any).post = async (url: string) => {
+  const fn = url.split('/').pop()!;
+  calls.push(fn);
+  return { data: replies[fn]() };
+};
+
+function toolStep(id: string, estimatedCost: number, dependsOn?: string[]): WorkflowStep {
+  return { id, type: 'mcp_tool', tool: { server: 'test', function: id, params: {} }, estimatedCost, dependsOn } as WorkflowStep;
+}
+
+function workflow(name: string, steps: WorkflowStep[]): WorkflowDefinition {
+  return {
+    name,
+    description: 'test',
+    version: '1.0.0',
+    creator: { address: '0x0000000000000000000000000000000000000001', revenueShare: 80 },
+    pricing: { basePrice: 0, currency: 'USDC' },
+    inputs: [],
+    steps,
+    output: { template: { done: true } },
+  } as WorkflowDefinition;
+}
+
+test('a resumed run keeps its budget cap and what it already spent', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const { workflowRunStore } = await import('../src/services/workflow/run-store');
+
+  const definition = workflow('near-cap', [
+    toolStep('a', 0.05),
+    toolStep('b', 0.02, ['a']),
+    toolStep('c', 0.04, ['b']),
+  ]);
+  const badRequest = () => {
+    throw Object.assign(new Error('Request failed with status code 400'), { isAxiosError: true, response: { status: 400 } });
+  };
+
+  replies = { a: () => ({}), b: badRequest, c: () => ({}) };
+  const first = await workflowExecutor.execute(definition, {}, undefined, { maxCostUsd: 0.1 });
+  assert.equal(first.success, false);
+
+  const state = await workflowRunStore.resumeRun(first.executionId);
+  assert.equal(state.maxCostUsd, 0.1);
+  assert.equal(state.priorCost, 0.05);
+
+  calls.length = 0;
+  replies.b = () => ({});
+  const resumed = await workflowExecutor.execute(state.workflow, state.inputs, state.userId, {
+    resume: state,
+    maxCostUsd: state.maxCostUsd,
+  });
+
+  // $0.05 spent before + $0.02 for b leaves too little of the $0.10 for c
+  assert.equal(resumed.success, false);
+  assert.match(resumed.output.error, /Budget exceeded: step c/);
+  assert.deepEqual(calls, ['b']);
+});
+
+test('estimates tool steps from live prices, then estimatedCost, then the default', async () => {
+  const { workflowCostEstimator, DEFAULT_TOOL_COST } = await import('../src/services/workflow/cost-estimator');
+  db.tools = [{ name: 'live', costUsd: 0.03, mcpServer: { name: 'test' } }];
+
+  const estimate = await workflowCostEstimator.estimate({
+    ...workflow('priced', [toolStep('live', 0.5), toolStep('estimated', 0.01), { ...toolStep('unpriced', 0), estimatedCost: undefined }]),
+    pricing: { basePrice: 0.1, currency: 'USDC' },
+  });
+  db.tools = [];
+
+  assert.deepEqual(estimate.steps.map(s => [s.stepId, s.unitCost, s.source]), [
+    ['live', 0.03, 'tool'],
+    ['estimated', 0.01, 'estimatedCost'],
+    ['unpriced', DEFAULT_TOOL_COST, 'default'],
+  ]);
+  assert.ok(Math.abs(estimate.stepCost.max! - 0.06) < 1e-9);
+  assert.equal(estimate.charge.max, 0.1);  // Never below the base price
+});
+
+test('multiplies loop bodies by their iterations and discounts branch targets', async () => {
+  const { workflowCostEstimator } = await import('../src/services/workflow/cost-estimator');
+  const definition = workflow('bounded', [
+    { id: 'each', type: 'loop', loop: { over: '{{input.items}}', as: 'item', steps: ['fetch'], maxIterations: 5 } } as WorkflowStep,
+    toolStep('fetch', 0.01),
+    { id: 'check', type: 'condition', condition: { if: 'true', then: ['notify'] } } as WorkflowStep,
+    toolStep('notify', 0.02),
+    { id: 'open', type: 'loop', loop: { over: '{{steps.fetch}}', as: 'item', steps: ['inner'] } } as WorkflowStep,
+    toolStep('inner', 0.01),
+  ]);
+
+  const runs = async (inputs: Record<string, any>) =>
+    Object.fromEntries((await workflowCostEstimator.estimate(definition, inputs)).steps.map(s => [s.stepId, s.runs]));
+
+  // The array is known: exact, capped at maxIterations
+  assert.deepEqual((await runs({ items: [1, 2, 3] })).fetch, { min: 3, expected: 3, max: 3 });
+  assert.deepEqual((await runs({ items: [1, 2, 3, 4, 5, 6, 7] })).fetch, { min: 5, expected: 5, max: 5 });
+  // Unknown array: anywhere up to maxIterations
+  assert.deepEqual((await runs({})).fetch, { min: 0, expected: 5, max: 5 });
+  // A branch target may not run
+  assert.deepEqual((await runs({})).notify, { min: 0, expected: 0.5, max: 1 });
+
+  // No maxIterations: the max is unbounded, with a warning
+  const estimate = await workflowCostEstimator.estimate(definition, {});
+  assert.equal(estimate.stepCost.max, null);
+  assert.match(estimate.warnings[0], /Loop open has no maxIterations/);
+});
+
+test('reserves step costs against the budget and settles the actual cost', async () => {
+  const { workflowCostEstimator, BudgetExceededError } = await import('../src/services/workflow/cost-estimator');
+  const context = {
+    budget: { limitUsd: 0.1, spentUsd: 0.02, reservedUsd: 0, toolCosts: new Map([['test.a', 0.05]]) },
+  } as WorkflowExecutionContext;
+
+  const reserved = workflowCostEstimator.reserveBudget(toolStep('a', 0), context);
+  assert.equal(reserved, 0.05);
+  assert.equal(context.budget!.reservedUsd, 0.05);
+
+  // $0.02 spent + $0.05 reserved: another $0.05 step would pass $0.10
+  assert.throws(() => workflowCostEstimator.reserveBudget(toolStep('b', 0.05), context), BudgetExceededError);
+  assert.equal(workflowCostEstimator.reserveBudget({ id: 'free', type: 'transform' } as WorkflowStep, context), 0);
+
+  workflowCostEstimator.settleBudget(context, reserved, 0.01);
+  assert.equal(context.budget!.reservedUsd, 0);
+  assert.equal(context.budget!.spentUsd, 0.03);
+});
+
+test('aborts a run before the step that would exceed its budget', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+
+  calls.length = 0;
+  replies = { first: () => ({ meta: { cost: 0.06 } }), second: () => ({}) };
+  const result = await workflowExecutor.execute(
+    workflow('capped', [toolStep('first', 0.03), toolStep('second', 0.05, ['first'])]),
+    {},
+    undefined,
+    { maxCostUsd: 0.1 }
+  );
+
+  // first was reserved at $0.03 but charged $0.06, leaving too little for second
+  assert.equal(result.success, false);
+  assert.match(result.output.error, /Budget exceeded: step second may cost \$0\.0500 with \$0\.0600 of \$0\.1000/);
+  assert.deepEqual(calls, ['first']);
+  assert.equal(result.totalCost, 0.06);
+});
@@ -0,0 +1,227 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { installFakeWorkflowDb } from './fake-workflow-db';
+import type { WorkflowDefinition, WorkflowStep } from '../src/services/workflow/types';
+
+const db = installFakeWorkflowDb();
+
+// Stubbed tool caller: a call to test.<function> answers with tools[function]
+type ToolStub = (params: any, config: any) => any;
+let tools: Record<string, ToolStub> = {};
+const calls: { fn: string; params: any }[] = [];
+(axios as any).post = async (url: string, params: any, config: any) => {
+  const fn = url.split('/').pop()!;
+  calls.push({ fn, params });
+  return { data: await tools[fn](params, config) };
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Wraps a stub to count how many of its calls are in flight at once
+function tracked(stub: ToolStub, delayMs = 20): ToolStub & { peak: number } {
+  let inFlight = 0;
+  const wrapped = Object.assign(async (params: any, config: any) => {
+    wrapped.peak = Math.max(wrapped.peak, ++inFlight);
+    try {
+      await sleep(delayMs);
+      return await stub(params, config);
+    } finally {
+      inFlight--;
+    }
+  }, { peak: 0 });
+  return wrapped;
+}
+
+function httpError(status: number, headers: Record<string, string> = {}): never {
+  throw Object.assign(new Error(`Request failed with status code ${status}`), { isAxiosError: true, response: { status, headers } });
+}
+
+function badRequest(): never {
+  return httpError(400);
+}
+
+function stubTools(stubs: Record<string, ToolStub>): void {
+  tools = stubs;
+  calls.length = 0;
+}
+
+function toolStep(id: string, params: Record<string, any> = {}, extra: Partial<WorkflowStep> = {}): WorkflowStep {
+  return { id, name: id, type: 'mcp_tool', tool: { server: 'test', function: id, params }, estimatedCost: 0.01, ...extra };
+}
+
+function workflow(name: string, steps: WorkflowStep[], extra: Partial<WorkflowDefinition> = {}): WorkflowDefinition {
+  return {
+    name,
+    description: 'test',
+    version: '1.0.0',
+    creator: { address: '0x0000000000000000000000000000000000000001', revenueShare: 80 },
+    pricing: { basePrice: 0, currency: 'USDC' },
+    inputs: [],
+    steps,
+    output: { template: '{{steps}}' },
+    ...extra,
+  };
+}
+
+function recordedSteps(runId: string): Record<string, any> {
+  return Object.fromEntries(db.steps.filter(s => s.runId === runId).map(s => [s.path, s]));
+}
+
+test('skips the branch a condition did not take, and steps that only depend on it', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  stubTools({ big: () => 'big', small: () => 'small', after: () => 'after' });
+
+  const result = await workflowExecutor.execute(workflow('branching', [
+    { id: 'check', name: 'check', type: 'condition', condition: { if: 'input.amount > 100', then: ['big'], else: ['small'] } },
+    toolStep('big'),
+    toolStep('small'),
+    toolStep('after', {}, { dependsOn: ['big'] }),
+  ]), { amount: 5 });
+
+  assert.equal(result.success, true);
+  assert.deepEqual(calls.map(c => c.fn), ['small']);
+
+  const steps = recordedSteps(result.executionId);
+  assert.equal(steps.check.output.branch, 'else');
+  assert.equal(steps.small.status, 'COMPLETED');
+  assert.equal(steps.big.status, 'SKIPPED');
+  assert.match(steps.big.output.reason, /branch not taken by check/);
+  assert.equal(steps.after.status, 'SKIPPED');
+  assert.match(steps.after.output.reason, /all dependencies skipped/);
+});
+
+test('runs loop iterations up to the concurrency limit and stops at maxIterations', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const fetch = tracked(params => params.id * 10);
+  stubTools({ fetch });
+
+  const result = await workflowExecutor.execute(workflow('looping', [
+    { id: 'each', name: 'each', type: 'loop', loop: { over: '{{input.items}}', as: 'item', steps: ['fetch'], concurrency: 2, maxIterations: 4 } },
+    toolStep('fetch', { id: '{{item}}' }),
+  ]), { items: [1, 2, 3, 4, 5, 6] });
+
+  assert.equal(result.success, true);
+  assert.equal(fetch.peak, 2);
+  assert.deepEqual(calls.map(c => c.params.id).sort(), [1, 2, 3, 4]);
+  assert.deepEqual(result.output.each.map((i: any) => i.steps.fetch), [10, 20, 30, 40]);
+  assert.deepEqual(result.stepCosts.map(c => c.stepId), ['fetch', 'fetch', 'fetch', 'fetch']);
+});
+
+test('reports the loop item that failed and starts no further items', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  stubTools({ fetch: params => params.id === 2 ? badRequest() : params.id });
+  const events: any[] = [];
+
+  const result = await workflowExecutor.execute(workflow('failing-loop', [
+    { id: 'each', name: 'each', type: 'loop', loop: { over: '{{input.items}}', as: 'item', steps: ['fetch'] } },
+    toolStep('fetch', { id: '{{item}}' }),
+  ]), { items: [1, 2, 3] }, undefined, { onEvent: event => events.push(event) });
+
+  assert.equal(result.success, false);
+  assert.deepEqual(calls.map(c => c.params.id), [1, 2]);
+
+  const failed = events.find(e => e.type === 'step_failed');
+  assert.deepEqual([failed.path, failed.iteration], ['each[1].fetch', 1]);
+  const steps = recordedSteps(result.executionId);
+  assert.equal(steps['each[1].fetch'].status, 'FAILED');
+  assert.equal(steps['each[1].fetch'].iteration, 1);
+  assert.equal(steps['each[2].fetch'], undefined);
+});
+
+test('runs independent steps at most maxParallelism at a time', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const slow = tracked(() => 'ok');
+  stubTools({ a: slow, b: slow, c: slow, d: slow, e: slow });
+
+  const result = await workflowExecutor.execute(
+    workflow('parallel', ['a', 'b', 'c', 'd', 'e'].map(id => toolStep(id)), { maxParallelism: 2 }),
+    {}
+  );
+
+  assert.equal(result.success, true);
+  assert.equal(calls.length, 5);
+  assert.equal(slow.peak, 2);
+});
+
+test('starts a step only once all of its dependencies finished', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const timeline: string[] = [];
+  const step = (id: string, delayMs: number): ToolStub => async params => {
+    timeline.push(`start ${id}`);
+    await sleep(delayMs);
+    timeline.push(`end ${id}`);
+    return { id, params };
+  };
+  stubTools({ fast: step('fast', 5), slow: step('slow', 30), merge: step('merge', 0) });
+
+  const result = await workflowExecutor.execute(workflow('dag', [
+    toolStep('merge', { fast: '{{steps.fast.id}}', slow: '{{steps.slow.id}}' }, { dependsOn: ['fast', 'slow'] }),
+    toolStep('fast'),
+    toolStep('slow'),
+  ]), {});
+
+  assert.equal(result.success, true);
+  assert.deepEqual(timeline, ['start fast', 'start slow', 'end fast', 'end slow', 'start merge', 'end merge']);
+  assert.deepEqual(result.output.merge.params, { fast: 'fast', slow: 'slow' });
+  // Costs are listed in dependency order, not completion order
+  assert.deepEqual(result.stepCosts.map(c => c.stepId), ['fast', 'slow', 'merge']);
+});
+
+test('retries transient failures with backoff, honouring Retry-After', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const failures = [() => httpError(503), () => httpError(429, { 'retry-after': '0.05' })];
+  stubTools({ flaky: () => (failures.shift() || (() => 'ok'))() });
+  const events: any[] = [];
+
+  const result = await workflowExecutor.execute(workflow('retrying', [
+    toolStep('flaky', {}, { retry: { max: 3, baseMs: 10 } }),
+  ]), {}, undefined, { onEvent: event => events.push(event) });
+
+  assert.equal(result.success, true);
+  assert.equal(calls.length, 3);
+  assert.deepEqual(events.filter(e => e.type === 'step_retry').map(e => e.delayMs), [10, 50]);
+  assert.equal(recordedSteps(result.executionId).flaky.attempts, 3);
+});
+
+test('retries a tool call that timed out, with the step timeout passed to the caller', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const timeouts: number[] = [];
+  stubTools({
+    slow: (_, config) => {
+      timeouts.push(config.timeout);
+      if (timeouts.length === 1) throw Object.assign(new Error(`timeout of ${config.timeout}ms exceeded`), { code: 'ECONNABORTED' });
+      return 'ok';
+    },
+  });
+
+  const result = await workflowExecutor.execute(workflow('timing-out', [
+    toolStep('slow', {}, { timeoutMs: 250, retry: { max: 1, baseMs: 1 } }),
+  ]), {});
+
+  assert.equal(result.success, true);
+  assert.deepEqual(timeouts, [250, 250]);
+});
+
+test('does not retry client or payment errors', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+
+  for (const status of [400, 402]) {
+    stubTools({ paid: () => httpError(status) });
+    const result = await workflowExecutor.execute(workflow(`rejected-${status}`, [
+      toolStep('paid', {}, { retry: { max: 3, baseMs: 1 } }),
+    ]), {});
+
+    assert.equal(result.success, false);
+    assert.equal(calls.length, 1);
+    assert.equal(recordedSteps(result.executionId).paid.attempts, 1);
+  }
+
+  // Nor failures the step did not list in retryOn
+  stubTools({ paid: () => httpError(503) });
+  const result = await workflowExecutor.execute(workflow('not-listed', [
+    toolStep('paid', {}, { retry: { max: 3, baseMs: 1, retryOn: ['timeout'] } }),
+  ]), {});
+  assert.equal(result.success, false);
+  assert.equal(calls.length, 1);
+});
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { workflowParser } from '../src/services/workflow/parser';
+
+function workflow(steps: any[]) {
+  return {
+    name: 'parser-test',
+    creator: { address: '0x0000000000000000000000000000000000000001' },
+    pricing: { basePrice: 0 },
+    steps,
+  };
+}
+
+test('rejects unknown step types when parsing', () => {
+  assert.throws(
+    () => workflowParser.validate(workflow([{ id: 'send', type: 'email' }])),
+    /Step 0 \(send\): unknown type: email/
+  );
+});
+
+test('accepts known step types', () => {
+  const parsed = workflowParser.validate(workflow([{ id: 'double', type: 'transform', transform: { expression: '2 * 2' } }]));
+  assert.equal(parsed.steps[0].type, 'transform');
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  resolveRetryPolicy,
+  classifyError,
+  getRetryDelay,
+  withTimeout,
+  StepTimeoutError,
+} from '../src/services/workflow/retry';
+import type { WorkflowStep } from '../src/services/workflow/types';
+
+const step = (extra: Partial<WorkflowStep>) => ({ id: 'call', name: 'call', type: 'mcp_tool', ...extra } as WorkflowStep);
+const httpError = (status: number, headers: Record<string, string> = {}) => ({ response: { status, headers } });
+
+test('backs off exponentially up to maxMs', () => {
+  const policy = resolveRetryPolicy(step({ retry: { max: 5, baseMs: 100, maxMs: 500 } }));
+  assert.deepEqual([1, 2, 3, 4].map(attempt => getRetryDelay(policy, attempt)), [100, 200, 400, 500]);
+
+  // The legacy `retries` count waits a fixed second
+  const legacy = resolveRetryPolicy(step({ retries: 2 }));
+  assert.deepEqual([1, 2].map(attempt => getRetryDelay(legacy, attempt)), [1000, 1000]);
+});
+
+test('waits as long as Retry-After asks, within maxMs', () => {
+  const policy = resolveRetryPolicy(step({ retry: { max: 1, maxMs: 5000 } }));
+  assert.equal(getRetryDelay(policy, 1, httpError(429, { 'retry-after': '2' })), 2000);
+  assert.equal(getRetryDelay(policy, 1, httpError(503, { 'retry-after': '60' })), 5000);
+
+  const date = new Date(Date.now() + 3000).toUTCString();
+  const delay = getRetryDelay(policy, 1, httpError(503, { 'retry-after': date }));
+  assert.ok(delay > 1000 && delay <= 3000);
+});
+
+test('classifies failures by whether a retry can help', () => {
+  assert.equal(classifyError(httpError(503)), '5xx');
+  assert.equal(classifyError(httpError(429)), '429');
+  assert.equal(classifyError(httpError(504)), 'timeout');
+  assert.equal(classifyError(httpError(402)), '402');
+  assert.equal(classifyError(httpError(400)), '4xx');
+  assert.equal(classifyError({ code: 'ECONNABORTED' }), 'timeout');
+  assert.equal(classifyError({ code: 'ECONNREFUSED' }), 'network');
+  assert.equal(classifyError(new StepTimeoutError('call', 10)), 'timeout');
+  assert.equal(classifyError(new Error('bad template')), 'other');
+});
+
+test('rejects work that outlives its timeout', async () => {
+  const slow = new Promise(resolve => setTimeout(resolve, 200, 'late'));
+  await assert.rejects(withTimeout(slow, 10, 'call'), StepTimeoutError);
+  assert.equal(await withTimeout(Promise.resolve('quick'), 10, 'call'), 'quick');
+});
@@ -0,0 +1,163 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { installFakeWorkflowDb } from './fake-workflow-db';
+import type { WorkflowDefinition, WorkflowStep } from '../src/services/workflow/types';
+
+const db = installFakeWorkflowDb();
+
+// Stubbed tool caller: a call to test.<function> answers with tools[function]
+let tools: Record<string, (params: any) => any> = {};
+const calls: string[] = [];
+(axios as any).post = async (url: string, params: any) => {
+  const fn = url.split('/').pop()!;
+  calls.push(fn);
+  return { data: await tools[fn](params) };
+};
+
+function badRequest(): never {
+  throw Object.assign(new Error('Request failed with status code 400'), { isAxiosError: true, response: { status: 400 } });
+}
+
+function toolStep(id: string, params: Record<string, any> = {}, extra: Partial<WorkflowStep> = {}): WorkflowStep {
+  return { id, name: id, type: 'mcp_tool', tool: { server: 'test', function: id, params }, estimatedCost: 0.01, ...extra };
+}
+
+function workflow(name: string, steps: WorkflowStep[]): WorkflowDefinition {
+  return {
+    name,
+    description: 'test',
+    version: '1.0.0',
+    creator: { address: '0x0000000000000000000000000000000000000001', revenueShare: 80 },
+    pricing: { basePrice: 0, currency: 'USDC' },
+    inputs: [],
+    steps,
+    output: { template: '{{steps}}' },
+  };
+}
+
+test('resumes a failed run without re-running completed or skipped steps', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const { workflowRunStore } = await import('../src/services/workflow/run-store');
+
+  const definition = workflow('resumable', [
+    toolStep('lookup'),
+    toolStep('optional', {}, { onError: 'skip' }),
+    { id: 'check', name: 'check', type: 'condition', condition: { if: 'false', then: ['notify'] } },
+    toolStep('notify'),
+    toolStep('charge', { found: '{{steps.lookup.found}}' }, { dependsOn: ['lookup', 'optional', 'check'] }),
+  ]);
+
+  tools = { lookup: () => ({ found: 42 }), optional: badRequest, notify: () => 'sent', charge: badRequest };
+  const first = await workflowExecutor.execute(definition, {});
+  assert.equal(first.success, false);
+  assert.equal(db.runs.get(first.executionId).status, 'FAILED');
+
+  calls.length = 0;
+  tools.optional = () => 'now works';
+  tools.charge = params => ({ charged: params.found });
+
+  const state = await workflowRunStore.resumeRun(first.executionId);
+  assert.deepEqual(Object.keys(state.restored).sort(), ['check', 'lookup', 'notify', 'optional']);
+  assert.equal(state.priorCost, 0.01);
+
+  const resumed = await workflowExecutor.execute(state.workflow, state.inputs, state.userId, { resume: state });
+
+  assert.equal(resumed.success, true);
+  assert.deepEqual(calls, ['charge']);
+  assert.deepEqual(resumed.output.charge, { charged: 42 });
+  assert.equal(resumed.totalCost, 0.01);  // Only the step this attempt ran
+
+  const run = db.runs.get(first.executionId);
+  assert.equal(run.status, 'COMPLETED');
+  assert.equal(run.resumeCount, 1);
+  assert.equal(run.totalCost, 0.02);
+});
+
+test('only resumes failed runs, and only once', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const { workflowRunStore, WorkflowRunError } = await import('../src/services/workflow/run-store');
+
+  tools = { done: () => 'ok' };
+  const result = await workflowExecutor.execute(workflow('finished', [toolStep('done')]), {});
+
+  await assert.rejects(workflowRunStore.resumeRun(result.executionId), (error: any) =>
+    error instanceof WorkflowRunError && error.statusCode === 409 && /Only failed runs/.test(error.message)
+  );
+  await assert.rejects(workflowRunStore.resumeRun('missing'), (error: any) =>
+    error instanceof WorkflowRunError && error.statusCode === 404
+  );
+
+  tools = { done: badRequest };
+  const failed = await workflowExecutor.execute(workflow('failed-once', [toolStep('done')]), {});
+  await workflowRunStore.resumeRun(failed.executionId);
+  await assert.rejects(workflowRunStore.resumeRun(failed.executionId), /status: RUNNING/);
+});
+
+test('lists a workflow\'s runs newest first, filtered by status, user and cost', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const { workflowRunStore } = await import('../src/services/workflow/run-store');
+  const definition = workflow('history', [toolStep('work', { n: '{{input.n}}' })]);
+
+  tools = { work: params => params.n === 2 ? badRequest() : { done: params.n } };
+  const runs = [];
+  for (const [n, userId] of [[1, 'alice'], [2, 'alice'], [3, 'bob']] as const) {
+    runs.push(await workflowExecutor.execute(definition, { n }, userId));
+    await new Promise(resolve => setTimeout(resolve, 5));  // Distinct start times
+  }
+  const [first, failed, latest] = runs.map(r => r.executionId);
+
+  const all = await workflowRunStore.listRuns('history', { limit: 50, offset: 0 });
+  assert.equal(all.total, 3);
+  assert.deepEqual(all.runs.map(r => r.runId), [latest, failed, first]);
+
+  const byStatus = await workflowRunStore.listRuns('history', { status: 'FAILED', limit: 50, offset: 0 });
+  assert.deepEqual(byStatus.runs.map(r => [r.runId, r.status]), [[failed, 'FAILED']]);
+
+  const byUser = await workflowRunStore.listRuns('history', { userId: 'alice', minCost: 0.005, limit: 50, offset: 0 });
+  assert.deepEqual(byUser.runs.map(r => [r.runId, r.totalCost]), [[first, 0.01]]);
+
+  const paged = await workflowRunStore.listRuns('history', { limit: 1, offset: 1 });
+  assert.equal(paged.total, 3);
+  assert.deepEqual(paged.runs.map(r => r.runId), [failed]);
+});
+
+test('returns each step\'s resolved params, tool response, attempts and cost by run ID', async () => {
+  const { workflowExecutor } = await import('../src/services/workflow/executor');
+  const { workflowRunStore } = await import('../src/services/workflow/run-store');
+
+  let attempts = 0;
+  tools = {
+    fetch: params => {
+      if (params.id === 'b' && ++attempts === 1) {
+        throw Object.assign(new Error('Request failed with status code 503'), { isAxiosError: true, response: { status: 503 } });
+      }
+      return { id: params.id, meta: { cost: 0.03 } };
+    },
+  };
+
+  const result = await workflowExecutor.execute(workflow('inspected', [
+    { id: 'each', name: 'each', type: 'loop', loop: { over: '{{input.ids}}', as: 'id', steps: ['fetch'] } },
+    toolStep('fetch', { id: '{{id}}' }, { retry: { max: 1, baseMs: 1 } }),
+  ]), { ids: ['a', 'b'] }, 'carol', { record: true });
+  assert.equal(result.success, true);
+
+  const run = await workflowRunStore.getRun(result.executionId);
+  assert.equal(run!.workflow, 'inspected');
+  assert.deepEqual(run!.inputs, { ids: ['a', 'b'] });
+  assert.deepEqual(run!.steps.map(s => [s.path, s.status]), [
+    ['each[0].fetch', 'COMPLETED'],
+    ['each[1].fetch', 'COMPLETED'],
+    ['each', 'COMPLETED'],
+  ]);
+
+  const results = await workflowRunStore.getStepResults(result.executionId, 'fetch');
+  assert.deepEqual(results.map(r => [r.path, r.iteration, r.params, r.cost, r.attempts]), [
+    ['each[0].fetch', 0, { id: 'a' }, 0.03, 1],
+    ['each[1].fetch', 1, { id: 'b' }, 0.03, 2],
+  ]);
+  assert.deepEqual(results[1].attemptErrors, ['Request failed with status code 503']);
+  assert.deepEqual(results[1].output, { id: 'b', meta: { cost: 0.03 } });
+
+  assert.deepEqual(await workflowRunStore.getStepResults(result.executionId, 'missing'), []);
+});
@@ -0,0 +1,258 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+
+const PAYER = '0x00000000000000000000000000000000000000aa';
+const OPERATOR = '0x00000000000000000000000000000000000000bb';
+const SERVER = '0x00000000000000000000000000000000000000cc';
+
+// lib/prisma reuses a client already set on global: in-memory payments and
+// users with the queries escrow makes
+const db = { payments: [] as any[], users: [] as any[] };
+(global as any).prisma = {
+  x402Payment: {
+    findUnique: async ({ where }: any) => {
+      const payment = db.payments.find(p => p.id === where.id);
+      return payment ? { ...payment } : null;
+    },
+    findMany: async ({ where }: any) => db.payments.filter(p => matches(p, where)).map(p => ({ ...p })),
+    update: async ({ where, data }: any) => ({ ...Object.assign(db.payments.find(p => p.id === where.id), data) }),
+    updateMany: async ({ where, data }: any) => {
+      const rows = db.payments.filter(p => matches(p, where));
+      rows.forEach(p => Object.assign(p, data));
+      return { count: rows.length };
+    },
+  },
+  user: {
+    upsert: async ({ where, create }: any) => {
+      let user = db.users.find(u => u.walletAddress === where.walletAddress);
+      if (!user) db.users.push(user = { id: `user-${db.users.length + 1}`, nonce: 0, ...create });
+      return { ...user };
+    },
+    updateMany: async ({ where, data }: any) => {
+      const rows = db.users.filter(u => u.id === where.id && u.nonce === where.nonce);
+      rows.forEach(u => { u.nonce += data.nonce.increment; });
+      return { count: rows.length };
+    },
+  },
+};
+
+function matches(row: any, where: any = {}): boolean {
+  return Object.entries(where).every(([key, condition]: [string, any]) => {
+    if (key === 'OR') return condition.some((c: any) => matches(row, c));
+    if (key === 'AND') return condition.every((c: any) => matches(row, c));
+    const value = row[key];
+    if (condition instanceof Date) return value?.getTime() === condition.getTime();
+    if (condition && typeof condition === 'object' && 'not' in condition) return value !== condition.not;
+    if (condition && typeof condition === 'object' && 'lte' in condition) return value !== null && value <= condition.lte;
+    return value === condition;
+  });
+}
+
+// Stubbed chain: what each call answers, and the escrows and transfers made
+let chain: {
+  collect: () => any;
+  receipt: () => any;
+  receipts: Record<string, any>;
+  authorizationUse: { cancelled: boolean } | null;
+  escrows: Record<string, any>;
+  transfers: any[];
+};
+
+async function load() {
+  const blockchainService = (await import('../src/services/blockchain.service')).default as any;
+  Object.assign(blockchainService, {
+    hasEscrow: () => true,
+    submitTransferWithAuthorization: async () => chain.collect(),
+    waitForReceipt: async () => chain.receipt(),
+    getTransactionReceipt: async (hash: string) => chain.receipts[hash] ?? null,
+    isAuthorizationUsed: async () => chain.authorizationUse !== null,
+    findAuthorizationUse: async () => chain.authorizationUse,
+    createEscrowPayment: async (id: string, payee: string, amount: string) => {
+      chain.escrows[id] = { payee, amount, released: false, refunded: false };
+      return { transactionHash: `0xescrow-${id}` };
+    },
+    getEscrowPayment: async (id: string) => chain.escrows[id] ?? null,
+    refundEscrowPayment: async (id: string) => { chain.escrows[id].refunded = true; },
+    releaseEscrowPayment: async (id: string) => { chain.escrows[id].released = true; },
+    transferUSDC: async (_: string, to: string, amount: string) => {
+      chain.transfers.push({ to, amount });
+      return { hash: `0xrefund-${chain.transfers.length}`, wait: async () => ({ status: 1 }) };
+    },
+  });
+  return import('../src/services/x402-escrow.service');
+}
+
+function pendingPayment() {
+  const payment = {
+    id: `payment-${db.payments.length + 1}`,
+    nonce: `0x${(db.payments.length + 1).toString(16).padStart(64, '0')}`,
+    status: 'PENDING',
+    payerAddress: PAYER,
+    payeeAddress: OPERATOR,
+    amountRaw: '250000',
+    assetAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    signature: '0xsigned',
+    validAfter: new Date(0),
+    validBefore: new Date(Date.now() + 60 * 60_000),
+    createdAt: new Date(),
+    txHash: null,
+    escrowTxHash: null,
+    releaseAfter: null,
+    refundReason: null,
+    refundTxHash: null,
+    nextSettlementAt: null,
+    errorMessage: null,
+  };
+  db.payments.push(payment);
+  return payment;
+}
+
+beforeEach(() => {
+  db.payments = [];
+  db.users = [];
+  chain = {
+    collect: () => ({ hash: '0xcollect' }),
+    receipt: () => ({ status: 1 }),
+    receipts: {},
+    authorizationUse: null,
+    escrows: {},
+    transfers: [],
+  };
+});
+
+test('holds a collected payment for the payee, then refunds it to the payer once', async () => {
+  const { x402EscrowService, DISPUTE_WINDOW_MS } = await load();
+  const payment = pendingPayment();
+
+  const held = await x402EscrowService.hold(payment.id, SERVER);
+
+  assert.equal(held.status, 'ESCROWED');
+  assert.equal(held.txHash, '0xcollect');
+  assert.equal(held.escrowTxHash, `0xescrow-${payment.id}`);
+  assert.ok(Math.abs(held.releaseAfter!.getTime() - Date.now() - DISPUTE_WINDOW_MS) < 1000);
+  assert.deepEqual(chain.escrows[payment.id], { payee: SERVER, amount: '0.25', released: false, refunded: false });
+
+  await x402EscrowService.refund(payment.id, 'Upstream returned 502');
+  await x402EscrowService.refund(payment.id, 'Upstream returned 502');
+
+  assert.equal(payment.status, 'REFUNDED');
+  assert.equal(payment.refundReason, 'Upstream returned 502');
+  assert.equal(payment.refundTxHash, '0xrefund-1');
+  assert.equal(chain.escrows[payment.id].refunded, true);
+  assert.deepEqual(chain.transfers, [{ to: PAYER, amount: '250000' }]);
+});
+
+test('fails a hold with 402 only when the chain shows nothing was collected', async () => {
+  const { x402EscrowService } = await load();
+
+  // Never sent
+  const unsent = pendingPayment();
+  chain.collect = () => { throw Object.assign(new Error('call failed'), { shortMessage: 'authorization is expired' }); };
+  await assert.rejects(x402EscrowService.hold(unsent.id, SERVER), (error: any) =>
+    error.name === 'X402EscrowError' && error.statusCode === 402 && /authorization is expired/.test(error.message)
+  );
+  assert.equal(unsent.status, 'FAILED');
+
+  // Sent and reverted, with the authorization cancelled by the payer
+  const cancelled = pendingPayment();
+  chain.collect = () => ({ hash: '0xreverted' });
+  chain.receipt = () => ({ status: 0 });
+  chain.receipts['0xreverted'] = { status: 0 };
+  chain.authorizationUse = { cancelled: true };
+  await assert.rejects(x402EscrowService.hold(cancelled.id, SERVER), (error: any) => error.statusCode === 402);
+  assert.equal(cancelled.status, 'FAILED');
+
+  // Reverted, but used by another transaction that moved the funds
+  const usedElsewhere = pendingPayment();
+  chain.authorizationUse = { cancelled: false };
+  await assert.rejects(x402EscrowService.hold(usedElsewhere.id, SERVER), (error: any) => error.statusCode === 503);
+  assert.equal(usedElsewhere.status, 'REFUNDED');
+
+  assert.deepEqual(chain.transfers, [{ to: PAYER, amount: '250000' }]);
+});
+
+test('refunds a collection that was still pending once its receipt arrives', async () => {
+  const { x402EscrowService } = await load();
+  const payment = pendingPayment();
+  chain.receipt = () => { throw new Error('Timed out waiting for 0xcollect'); };
+
+  await assert.rejects(x402EscrowService.hold(payment.id, SERVER), (error: any) =>
+    error.statusCode === 503 && /will be returned/.test(error.message)
+  );
+  assert.equal(payment.status, 'ESCROWED');
+  assert.match(payment.refundReason!, /Could not collect payment: Timed out/);
+  assert.deepEqual(chain.transfers, []);
+
+  // The worker retries once the claim has lapsed
+  chain.receipts['0xcollect'] = { status: 1 };
+  assert.equal(await x402EscrowService.processDue(new Date(Date.now() + 60 * 60_000)), 1);
+
+  assert.equal(payment.status, 'REFUNDED');
+  assert.deepEqual(chain.transfers, [{ to: PAYER, amount: '250000' }]);
+});
+
+test('lets only the payer dispute, with a signed message that works once', async () => {
+  const { x402EscrowService } = await load();
+  const first = pendingPayment();
+  const second = pendingPayment();
+  await x402EscrowService.hold(first.id, SERVER);
+  await x402EscrowService.hold(second.id, SERVER);
+
+  const sign = (paymentId: string, nonce: number) =>
+    x402EscrowService.getSignMessage(PAYER, nonce, `dispute payment ${paymentId}`);
+
+  await assert.rejects(x402EscrowService.dispute(first.id, OPERATOR, 'Wrong answer', sign(first.id, 0)), (error: any) =>
+    error.statusCode === 403
+  );
+  await assert.rejects(x402EscrowService.dispute(first.id, PAYER, 'Wrong answer', sign(second.id, 0)), (error: any) =>
+    error.statusCode === 401 && error.details.expected === sign(first.id, 0)
+  );
+
+  // Both signed with nonce 0: the first uses it up
+  const disputed = await x402EscrowService.dispute(first.id, PAYER, 'Wrong answer', sign(first.id, 0));
+  assert.equal(disputed.status, 'DISPUTED');
+  assert.equal(disputed.disputeReason, 'Wrong answer');
+  await assert.rejects(x402EscrowService.dispute(second.id, PAYER, 'Wrong answer', sign(second.id, 0)), (error: any) =>
+    error.statusCode === 401 && error.details.expected === sign(second.id, 1)
+  );
+  await assert.rejects(x402EscrowService.dispute(first.id, PAYER, 'Again', sign(first.id, 1)), (error: any) =>
+    error.statusCode === 409 && error.message === 'Payment is already disputed'
+  );
+
+  // Window closed
+  second.releaseAfter = new Date(Date.now() - 1);
+  await assert.rejects(x402EscrowService.dispute(second.id, PAYER, 'Late', sign(second.id, 1)), /dispute window for this payment has closed/);
+});
+
+test('resolves a dispute with a refund or a release, each signature used once', async () => {
+  const { x402EscrowService } = await load();
+  const refunded = pendingPayment();
+  const released = pendingPayment();
+  for (const [i, payment] of [refunded, released].entries()) {
+    await x402EscrowService.hold(payment.id, SERVER);
+    await x402EscrowService.dispute(payment.id, PAYER, 'Wrong answer',
+      x402EscrowService.getSignMessage(PAYER, i, `dispute payment ${payment.id}`));
+  }
+
+  const refund = x402EscrowService.getSignMessage(OPERATOR, 0, `resolve payment ${refunded.id} with a refund`);
+  const results = await Promise.allSettled([
+    x402EscrowService.resolveDispute(refunded.id, 'refund', OPERATOR, refund, 'upstream was down'),
+    x402EscrowService.resolveDispute(refunded.id, 'refund', OPERATOR, refund, 'upstream was down'),
+  ]);
+
+  assert.equal(results[0].status, 'fulfilled');
+  assert.equal((results[0] as PromiseFulfilledResult<any>).value.status, 'REFUNDED');
+  assert.equal(refunded.refundReason, 'Dispute upheld: upstream was down');
+  assert.equal(results[1].status, 'rejected');
+  assert.equal((results[1] as PromiseRejectedResult).reason.message, 'Signature has already been used');
+  assert.deepEqual(chain.transfers, [{ to: PAYER, amount: '250000' }]);
+
+  const release = x402EscrowService.getSignMessage(OPERATOR, 1, `resolve payment ${released.id} with a release`);
+  const settled = await x402EscrowService.resolveDispute(released.id, 'release', OPERATOR, release);
+
+  assert.equal(settled.status, 'SETTLED');
+  assert.equal(chain.escrows[released.id].released, true);
+  await assert.rejects(x402EscrowService.resolveDispute(released.id, 'release', OPERATOR, release), (error: any) =>
+    error.statusCode === 409 && error.message === 'Payment is not disputed'
+  );
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+
+// lib/prisma reuses a client already set on global; give it one whose
+// nonce column is unique like the real table's
+const payments = new Map<string, any>();
+(global as any).prisma = {
+  x402Payment: {
+    create: async ({ data }: any) => {
+      if (payments.has(data.nonce)) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+      }
+      const payment = { id: `payment-${payments.size + 1}`, ...data };
+      payments.set(data.nonce, payment);
+      return payment;
+    },
+    updateMany: async ({ where, data }: any) => {
+      const rows = [...payments.values()]
+        .filter(p => p.status === where.status && p.validBefore < where.validBefore.lt);
+      rows.forEach(p => Object.assign(p, data));
+      return { count: rows.length };
+    },
+  },
+};
+
+const reservation = {
+  nonce: '0x' + '11'.repeat(32),
+  payerAddress: '0x0000000000000000000000000000000000000001',
+  payeeAddress: '0x0000000000000000000000000000000000000002',
+  amount: 0.01,
+  amountRaw: '10000',
+  toolName: 'search',
+  signature: '0x',
+  chainId: 84532,
+  assetAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  validAfter: new Date(0),
+  validBefore: new Date(Date.now() + 300_000),
+};
+
+test('rejects a replayed nonce with 409 instead of reserving it again', async () => {
+  const { x402NonceLedger, X402NonceError } = await import('../src/services/x402-nonce.service');
+
+  const payment = await x402NonceLedger.reserve(reservation);
+  assert.equal(payment.status, 'PENDING');
+
+  await assert.rejects(x402NonceLedger.reserve(reservation), (error: any) => {
+    assert.ok(error instanceof X402NonceError);
+    assert.equal(error.statusCode, 409);
+    assert.equal(error.code, 'NONCE_REUSED');
+    return true;
+  });
+  assert.equal(payments.size, 1);
+});
+
+test('expires a reservation only after the grace period', async () => {
+  const { x402NonceLedger, EXPIRY_GRACE_MS } = await import('../src/services/x402-nonce.service');
+  const expired = new Date(Date.now() - 60_000);
+  const payment = await x402NonceLedger.reserve({ ...reservation, nonce: '0x' + '22'.repeat(32), validBefore: expired });
+
+  // Just expired: a call or escrow hold may still be working on it
+  assert.equal(await x402NonceLedger.cleanupExpired(), 0);
+  assert.equal(payment.status, 'PENDING');
+
+  assert.equal(await x402NonceLedger.cleanupExpired(new Date(expired.getTime() + EXPIRY_GRACE_MS + 1)), 1);
+  assert.equal(payment.status, 'EXPIRED');
+});
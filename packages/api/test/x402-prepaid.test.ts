@@ -0,0 +1,317 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+
+const OPERATOR = '0x00000000000000000000000000000000000000bb';
+const DEPOSIT = '0x00000000000000000000000000000000000000dd';
+const PAYER = '0x00000000000000000000000000000000000000aa';
+
+process.env.X402_DEPOSIT_ADDRESS = DEPOSIT;
+
+// The deposit watcher's logs would share stdout with the runner's messages
+console.log = () => {};
+
+// lib/prisma reuses a client already set on global: in-memory users, ledger
+// and deposit events. Transactions undo their writes when they throw, and
+// SELECT ... FOR UPDATE holds the user's row until the transaction ends.
+const db = {
+  users: [] as any[],
+  entries: [] as any[],
+  events: [] as any[],
+  cursors: new Map<string, any>(),
+  payments: [] as any[],
+};
+const rowLocks = new Map<string, Promise<void>>();
+
+function uniqueViolation() {
+  return new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+}
+
+function change(value: Prisma.Decimal, update: any): Prisma.Decimal {
+  if (update?.increment !== undefined) return value.plus(update.increment);
+  if (update?.decrement !== undefined) return value.minus(update.decrement);
+  return new Prisma.Decimal(update);
+}
+
+function matchesEntry(entry: any, where: any): boolean {
+  return Object.entries(where).every(([key, condition]: [string, any]) => {
+    if (key === 'OR') return condition.some((c: any) => matchesEntry(entry, c));
+    if (key === 'refundOf') {
+      const debit = db.entries.find(e => e.id === entry.refundOfId);
+      return !!debit && matchesEntry(debit, condition);
+    }
+    if (condition?.gte) return entry[key] >= condition.gte;
+    return entry[key] === condition;
+  });
+}
+
+function client(undo: (() => void)[] = []) {
+  // Applies a change to a row, remembering how to take it back
+  const write = (row: any, data: Record<string, any>) => {
+    const before = { ...row };
+    undo.push(() => Object.assign(row, before));
+    for (const [key, value] of Object.entries(data)) {
+      row[key] = key === 'balance' ? change(row.balance, value) : value;
+    }
+    return { ...row };
+  };
+  const insert = (rows: any[], row: any) => {
+    rows.push(row);
+    undo.push(() => rows.splice(rows.indexOf(row), 1));
+    return { ...row };
+  };
+
+  return {
+    user: {
+      findUnique: async ({ where }: any) => {
+        const [key, value] = Object.entries(where)[0];
+        const user = db.users.find(u => u[key] === value);
+        return user ? { ...user } : null;
+      },
+      update: async ({ where, data }: any) => write(db.users.find(u => u.id === where.id), data),
+      upsert: async ({ where, update, create }: any) => {
+        const user = db.users.find(u => u.walletAddress === where.walletAddress);
+        if (user) return write(user, update);
+        return insert(db.users, newUser({ ...create, balance: new Prisma.Decimal(create.balance ?? 0) }));
+      },
+    },
+    balanceLedgerEntry: {
+      create: async ({ data }: any) => {
+        if ((data.eventId && db.entries.some(e => e.eventId === data.eventId)) ||
+            (data.refundOfId && db.entries.some(e => e.refundOfId === data.refundOfId))) {
+          throw uniqueViolation();
+        }
+        return insert(db.entries, { id: `entry-${db.entries.length + 1}`, createdAt: new Date(), ...data });
+      },
+      findUnique: async ({ where }: any) => db.entries.find(e => e.id === where.id) ?? null,
+      aggregate: async ({ where }: any) => {
+        const amounts = db.entries.filter(e => matchesEntry(e, where)).map(e => e.amount);
+        return { _sum: { amount: amounts.length ? Prisma.Decimal.sum(...amounts) : null } };
+      },
+    },
+    blockchainEvent: {
+      upsert: async ({ where, create }: any) => {
+        const { txHash, logIndex } = where.txHash_logIndex;
+        const event = db.events.find(e => e.txHash === txHash && e.logIndex === logIndex);
+        return event ? { ...event } : insert(db.events, { id: `event-${db.events.length + 1}`, processed: false, ...create });
+      },
+      updateMany: async ({ where, data }: any) => {
+        const rows = db.events.filter(e => e.id === where.id && e.processed === where.processed);
+        rows.forEach(e => write(e, data));
+        return { count: rows.length };
+      },
+      findMany: async ({ where }: any) => db.events
+        .filter(e => e.eventType === where.eventType && e.processed === where.processed)
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+        .map(e => ({ ...e })),
+      findFirst: async () => [...db.events].sort((a, b) => b.blockNumber - a.blockNumber)[0] ?? null,
+    },
+    chainCursor: {
+      findUnique: async ({ where }: any) => db.cursors.get(where.id) ?? null,
+      upsert: async ({ where, update, create }: any) => {
+        db.cursors.set(where.id, { ...(db.cursors.get(where.id) ?? create), ...update });
+      },
+    },
+    x402Payment: {
+      findMany: async ({ where }: any) => {
+        const [{ txHash }, { escrowTxHash }] = where.OR;
+        return db.payments.filter(p => txHash.in.includes(p.txHash) || escrowTxHash.in.includes(p.escrowTxHash));
+      },
+    },
+  };
+}
+
+(global as any).prisma = {
+  ...client(),
+  $transaction: async (run: (tx: any) => Promise<any>) => {
+    const undo: (() => void)[] = [];
+    const held: (() => void)[] = [];
+    const tx = {
+      ...client(undo),
+      $queryRaw: async (_: TemplateStringsArray, userId: string) => {
+        const previous = rowLocks.get(userId) ?? Promise.resolve();
+        let release!: () => void;
+        rowLocks.set(userId, previous.then(() => new Promise<void>(resolve => { release = resolve; })));
+        await previous;
+        held.push(() => release());
+        const user = db.users.find(u => u.id === userId);
+        return [{ balance: user.balance, daily_spend_limit: user.dailySpendLimit }];
+      },
+    };
+    try {
+      return await run(tx);
+    } catch (error) {
+      undo.reverse().forEach(rollback => rollback());
+      throw error;
+    } finally {
+      held.forEach(release => release());
+    }
+  },
+};
+
+function newUser(fields: Record<string, any>) {
+  return {
+    id: `user-${db.users.length + 1}`,
+    balance: new Prisma.Decimal(0),
+    dailySpendLimit: null,
+    prepaidKeyHash: null,
+    nonce: 0,
+    isActive: true,
+    ...fields,
+  };
+}
+
+/**
+ * A wallet with a prepaid balance, and the key that spends it
+ */
+function account(balance: string, dailySpendLimit?: string) {
+  const key = `x402pk_test-${db.users.length + 1}`;
+  const user = newUser({
+    walletAddress: PAYER,
+    balance: new Prisma.Decimal(balance),
+    dailySpendLimit: dailySpendLimit ? new Prisma.Decimal(dailySpendLimit) : null,
+    prepaidKeyHash: crypto.createHash('sha256').update(key).digest('hex'),
+  });
+  db.users.push(user);
+  return { key, user };
+}
+
+const charge = (amount: number) => ({ amount, toolName: 'search', mcpServerId: 'server-1' });
+
+// Stubbed chain: USDC transfers to the deposit address by transaction
+let chain: { blockNumber: number; txs: Record<string, { confirmations: number; transfers: any[] }> };
+
+function transfer(txHash: string, blockNumber: number, value: bigint, logIndex = 0) {
+  return { from: PAYER, to: DEPOSIT, value, txHash, blockNumber, logIndex };
+}
+
+async function load() {
+  const blockchainService = (await import('../src/services/blockchain.service')).default as any;
+  Object.assign(blockchainService, {
+    isEnabled: () => true,
+    getWalletAddress: () => OPERATOR,
+    getBlockNumber: async () => chain.blockNumber,
+    getUSDCTransfers: async (_: string, __: string, fromBlock: number, toBlock: number) =>
+      Object.values(chain.txs).flatMap(tx => tx.transfers)
+        .filter(t => t.blockNumber >= fromBlock && t.blockNumber <= toBlock),
+    getUSDCTransfersInTransaction: async (_: string, __: string, txHash: string) => chain.txs[txHash] ?? null,
+  });
+  return import('../src/services/x402-prepaid.service');
+}
+
+beforeEach(() => {
+  db.users = [];
+  db.entries = [];
+  db.events = [];
+  db.cursors.clear();
+  db.payments = [];
+  chain = { blockNumber: 0, txs: {} };
+});
+
+test('debits concurrent calls one at a time, never past the balance', async () => {
+  const { x402PrepaidService } = await load();
+  const { key, user } = account('1.00');
+
+  const results = await Promise.allSettled(Array.from({ length: 5 }, () => x402PrepaidService.debit(key, charge(0.3))));
+
+  const debits = results.filter(r => r.status === 'fulfilled').map(r => (r as PromiseFulfilledResult<any>).value);
+  assert.deepEqual(debits.map(d => d.balance), ['0.700000', '0.400000', '0.100000']);
+  for (const result of results.filter(r => r.status === 'rejected')) {
+    const { reason } = result as PromiseRejectedResult;
+    assert.equal(reason.statusCode, 402);
+    assert.equal(reason.code, 'INSUFFICIENT_BALANCE');
+    assert.deepEqual([reason.details.balance, reason.details.required], ['0.100000', '0.300000']);
+  }
+  assert.equal(user.balance.toFixed(6), '0.100000');
+  assert.deepEqual(db.entries.map(e => [e.type, e.amount.toFixed(6), e.balanceAfter.toFixed(6)]), [
+    ['DEBIT', '-0.300000', '0.700000'],
+    ['DEBIT', '-0.300000', '0.400000'],
+    ['DEBIT', '-0.300000', '0.100000'],
+  ]);
+
+  await assert.rejects(x402PrepaidService.debit('x402pk_unknown', charge(0.3)), (error: any) =>
+    error.name === 'X402PrepaidError' && error.statusCode === 401 && error.code === 'INVALID_PREPAID_KEY'
+  );
+});
+
+test('holds concurrent debits to the daily spend limit, net of today\'s refunds', async () => {
+  const { x402PrepaidService } = await load();
+  const { key, user } = account('10.00', '0.50');
+  // Yesterday's spend does not count today
+  const yesterday = { id: 'entry-yesterday', userId: user.id, type: 'DEBIT', amount: new Prisma.Decimal('-0.40'),
+    createdAt: new Date(Date.now() - 24 * 60 * 60_000), toolName: 'search', mcpServerId: 'server-1' };
+  db.entries.push(yesterday);
+
+  const results = await Promise.allSettled(Array.from({ length: 3 }, () => x402PrepaidService.debit(key, charge(0.2))));
+
+  assert.deepEqual(results.map(r => r.status), ['fulfilled', 'fulfilled', 'rejected']);
+  const { reason } = results[2] as PromiseRejectedResult;
+  assert.equal(reason.code, 'SPEND_LIMIT_EXCEEDED');
+  assert.deepEqual(reason.details, { dailySpendLimit: '0.500000', spentToday: '0.400000', required: '0.200000' });
+
+  // Refunding yesterday's debit frees nothing today; refunding today's does
+  await x402PrepaidService.refund(yesterday.id, 'Upstream failed');
+  await assert.rejects(x402PrepaidService.debit(key, charge(0.2)), { code: 'SPEND_LIMIT_EXCEEDED' });
+  await x402PrepaidService.refund((results[0] as PromiseFulfilledResult<any>).value.entry.id, 'Upstream failed');
+  await x402PrepaidService.debit(key, charge(0.2));
+
+  assert.equal((await x402PrepaidService.getAccount(PAYER)).spentToday, '0.400000');
+});
+
+test('refunds a debit only once, even when asked twice at the same time', async () => {
+  const { x402PrepaidService } = await load();
+  const { key, user } = account('1.00');
+  const { entry } = await x402PrepaidService.debit(key, charge(0.3));
+
+  const [first, second] = await Promise.all([
+    x402PrepaidService.refund(entry.id, 'Upstream timed out'),
+    x402PrepaidService.refund(entry.id, 'Upstream timed out'),
+  ]);
+  const refund = first ?? second;
+
+  assert.equal([first, second].filter(r => r === null).length, 1);
+  assert.equal(refund!.refundOfId, entry.id);
+  assert.equal(refund!.description, 'Refund: Upstream timed out');
+  assert.equal(refund!.balanceAfter.toFixed(6), '1.000000');
+  assert.equal(await x402PrepaidService.refund(entry.id, 'Again'), null);
+  assert.equal(user.balance.toFixed(6), '1.000000');
+  assert.deepEqual(db.entries.map(e => e.type), ['DEBIT', 'REFUND']);
+
+  await assert.rejects(x402PrepaidService.refund(refund!.id, 'Refund of a refund'), { statusCode: 404, code: 'NOT_FOUND' });
+});
+
+test('credits each deposit once, and never a transfer made by an x402 payment', async () => {
+  const { x402PrepaidService } = await load();
+  db.payments = [{ txHash: '0xsettle', escrowTxHash: null }, { txHash: '0xcollect', escrowTxHash: '0xescrow' }];
+  chain.blockNumber = 12;  // Block 11 has the 2 confirmations deposits need
+  chain.txs = {
+    '0xdeposit': { confirmations: 2, transfers: [transfer('0xdeposit', 11, 2_500_000n)] },
+    '0xsettle': { confirmations: 2, transfers: [transfer('0xsettle', 11, 250_000n)] },
+    '0xescrow': { confirmations: 2, transfers: [transfer('0xescrow', 11, 250_000n)] },
+  };
+
+  assert.equal(await x402PrepaidService.syncDeposits(), 1);
+  const user = db.users.find(u => u.walletAddress === PAYER);
+  assert.equal(user.balance.toFixed(6), '2.500000');
+  assert.deepEqual(db.events.map(e => e.txHash), ['0xdeposit']);
+
+  // Topping up a deposit the watcher credited, or a settlement, credits nothing
+  assert.deepEqual(await x402PrepaidService.topUp('0xdeposit'), []);
+  await assert.rejects(x402PrepaidService.topUp('0xsettle'), { statusCode: 400, code: 'NO_DEPOSIT' });
+
+  chain.txs['0xlate'] = { confirmations: 1, transfers: [transfer('0xlate', 12, 1_000_000n)] };
+  await assert.rejects(x402PrepaidService.topUp('0xlate'), { statusCode: 409, code: 'NOT_CONFIRMED' });
+
+  chain.txs['0xlate'].confirmations = 2;
+  chain.blockNumber = 13;
+  const credited = await Promise.all([x402PrepaidService.topUp('0xlate'), x402PrepaidService.syncDeposits()]);
+  assert.equal(credited[0].length + credited[1], 1);
+
+  assert.equal(user.balance.toFixed(6), '3.500000');
+  assert.deepEqual(db.entries.map(e => [e.type, e.amount.toFixed(6), e.balanceAfter.toFixed(6)]), [
+    ['DEPOSIT', '2.500000', '2.500000'],
+    ['DEPOSIT', '1.000000', '3.500000'],
+  ]);
+  assert.equal(await x402PrepaidService.syncDeposits(), 0);
+});
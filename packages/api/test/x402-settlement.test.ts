@@ -0,0 +1,396 @@
+import { describe, test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, ChildProcess } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ethers } from 'ethers';
+
+// The worker runs against a Hardhat node from packages/contracts, with
+// MockUSDC (EIP-3009, USDC's EIP-712 domain) standing in for USDC
+const CONTRACTS_DIR = path.join(__dirname, '../../contracts');
+const HARDHAT = path.join(CONTRACTS_DIR, 'node_modules/.bin/hardhat');
+const MOCK_USDC = path.join(CONTRACTS_DIR, 'artifacts/src/MockUSDC.sol/MockUSDC.json');
+const RPC_URL = 'http://127.0.0.1:8546';
+// Hardhat's first default account, funded by the node
+const OPERATOR_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const AMOUNT = 250_000n; // 0.25 USDC
+
+process.env.OPERATOR_PRIVATE_KEY = OPERATOR_KEY;
+process.env.BASE_SEPOLIA_RPC = RPC_URL;
+process.env.X402_RECEIPT_TIMEOUT_MS = '1000';
+
+// lib/prisma reuses a client already set on global: an in-memory store
+// with the queries the worker makes
+const db = { payments: [] as any[], transactions: [] as any[], failTransactions: 0 };
+(global as any).prisma = {
+  x402Payment: {
+    findMany: ({ where, take }: any) => lazy(() => db.payments.filter(p => matches(p, where))
+      .sort((a, b) => a.validBefore.getTime() - b.validBefore.getTime())
+      .slice(0, take)
+      .map(p => ({ ...p }))),
+    updateMany: ({ where, data }: any) => lazy(() => {
+      const rows = db.payments.filter(p => matches(p, where));
+      rows.forEach(p => Object.assign(p, data));
+      return { count: rows.length };
+    }),
+    update: ({ where, data }: any) => lazy(() => {
+      const payment = db.payments.find(p => p.id === where.id);
+      if (!payment) throw new Error(`No payment ${where.id}`);
+      return { ...Object.assign(payment, data) };
+    }),
+  },
+  transaction: {
+    create: ({ data }: any) => lazy(() => {
+      db.transactions.push({ ...data });
+      return data;
+    }),
+    updateMany: ({ where, data }: any) => lazy(() => {
+      const rows = db.transactions.filter(tx => matches(tx, where));
+      rows.forEach(tx => Object.assign(tx, data));
+      return { count: rows.length };
+    }),
+  },
+  $transaction: (operations: any[]) => {
+    if (db.failTransactions > 0) {
+      db.failTransactions--;
+      return Promise.reject(new Error('Connection lost'));
+    }
+    return Promise.all(operations);
+  },
+};
+
+// Like Prisma's queries, run only once awaited
+function lazy<T>(run: () => T) {
+  return { then: (resolve: any, reject: any) => Promise.resolve().then(run).then(resolve, reject) };
+}
+
+function matches(row: any, where: any = {}): boolean {
+  return Object.entries(where).every(([key, condition]: [string, any]) => {
+    if (key === 'OR') return condition.some((c: any) => matches(row, c));
+    const value = row[key];
+    if (condition instanceof Date) return value?.getTime() === condition.getTime();
+    if (condition && typeof condition === 'object' && 'lte' in condition) return value !== null && value <= condition.lte;
+    return value === condition;
+  });
+}
+
+describe('x402 settlement worker', {
+  skip: !fs.existsSync(HARDHAT) && 'packages/contracts is not installed',
+  timeout: 300_000,
+}, () => {
+  let node: ChildProcess;
+  let provider: ethers.JsonRpcProvider;
+  let usdc: ethers.Contract;
+  let sender: ethers.Signer;
+  let settlement: typeof import('../src/services/x402-settlement.service');
+  let blockchainService: typeof import('../src/services/blockchain.service').default;
+
+  before(async () => {
+    node = spawn(HARDHAT, ['node', '--port', '8546'], { cwd: CONTRACTS_DIR, stdio: 'ignore' });
+    provider = new ethers.JsonRpcProvider(RPC_URL, undefined, { pollingInterval: 100 });
+    for (let waited = 0; ; waited += 500) {
+      try {
+        await provider.getBlockNumber();
+        break;
+      } catch (error) {
+        if (waited > 60_000) throw error;
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+    }
+
+    sender = await provider.getSigner(1);
+    const artifact = JSON.parse(fs.readFileSync(MOCK_USDC, 'utf-8'));
+    const deployed = await new ethers.ContractFactory(artifact.abi, artifact.bytecode, sender).deploy();
+    usdc = (await deployed.waitForDeployment()) as ethers.Contract;
+
+    // Loaded once the environment points at the node
+    settlement = require('../src/services/x402-settlement.service');
+    blockchainService = require('../src/services/blockchain.service').default;
+  });
+
+  after(async () => {
+    await provider?.send('evm_setAutomine', [true]).catch(() => {});
+    provider?.destroy();
+    node?.kill();
+  });
+
+  beforeEach(() => {
+    db.payments = [];
+    db.transactions = [];
+    db.failTransactions = 0;
+  });
+
+  /**
+   * A payer with funds, its signed authorization and the AUTHORIZED payment
+   * recording it
+   */
+  async function authorizedPayment(options: { validBefore?: Date; signer?: ethers.Wallet; attempts?: number } = {}) {
+    const payer = ethers.Wallet.createRandom();
+    const payee = ethers.Wallet.createRandom().address;
+    await (await usdc.mint(payer.address, AMOUNT)).wait();
+
+    const authorization = {
+      from: payer.address,
+      to: payee,
+      value: AMOUNT,
+      validAfter: 0,
+      validBefore: Math.floor((options.validBefore || new Date(Date.now() + 3_600_000)).getTime() / 1000),
+      nonce: ethers.hexlify(ethers.randomBytes(32)),
+    };
+    const signature = await (options.signer || payer).signTypedData(
+      { name: 'USD Coin', version: '2', chainId: 31337, verifyingContract: await usdc.getAddress() },
+      {
+        TransferWithAuthorization: [
+          { name: 'from', type: 'address' },
+          { name: 'to', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'validAfter', type: 'uint256' },
+          { name: 'validBefore', type: 'uint256' },
+          { name: 'nonce', type: 'bytes32' },
+        ],
+      },
+      authorization
+    );
+
+    const payment = {
+      id: `payment-${db.payments.length + 1}`,
+      nonce: authorization.nonce,
+      payerAddress: payer.address.toLowerCase(),
+      payeeAddress: payee.toLowerCase(),
+      amount: 0.25,
+      amountRaw: AMOUNT.toString(),
+      toolName: 'search',
+      mcpServerId: 'server-1',
+      signature,
+      chainId: 31337,
+      assetAddress: await usdc.getAddress(),
+      status: 'AUTHORIZED',
+      validAfter: new Date(0),
+      validBefore: new Date(authorization.validBefore * 1000),
+      createdAt: new Date(),
+      txHash: null as string | null,
+      settlementAttempts: options.attempts || 0,
+      nextSettlementAt: null as Date | null,
+      settlementTxNonce: null as number | null,
+      errorMessage: null as string | null,
+    };
+    db.payments.push(payment);
+    return { payment, payer, authorization, signature };
+  }
+
+  // Use the authorization outside the worker
+  async function sendElsewhere(authorization: any, signature: string, overrides: ethers.Overrides = {}) {
+    const { from, to, value, validAfter, validBefore, nonce } = authorization;
+    const asSender = usdc.connect(sender) as ethers.Contract;
+    return asSender.transferWithAuthorization(from, to, value, validAfter, validBefore, nonce, signature, overrides);
+  }
+
+  const inSeconds = (now: Date, seconds: number) => new Date(now.getTime() + seconds * 1000);
+
+  test('settles an authorized payment and records its gas', async () => {
+    const { payment } = await authorizedPayment();
+
+    assert.equal(await new settlement.X402SettlementWorker().tick(), 1);
+
+    assert.equal(payment.status, 'SETTLED');
+    assert.equal(await usdc.balanceOf(payment.payeeAddress), AMOUNT);
+    const [tx] = db.transactions;
+    assert.equal(tx.txHash, payment.txHash);
+    assert.equal(tx.status, 'CONFIRMED');
+    assert.ok(Number(tx.gasUsed) > 0);
+  });
+
+  test('claims each payment for one worker only', async () => {
+    const { payment } = await authorizedPayment();
+
+    const claimed = await Promise.all([
+      new settlement.X402SettlementWorker().tick(),
+      new settlement.X402SettlementWorker().tick(),
+    ]);
+
+    assert.deepEqual(claimed.sort(), [0, 1]);
+    assert.equal(payment.status, 'SETTLED');
+    assert.equal(payment.settlementAttempts, 1);
+    assert.equal(db.transactions.length, 1);
+  });
+
+  test('resyncs the transaction nonce when the wallet was used elsewhere', async () => {
+    // The first settlement leaves the next nonce counted locally
+    await authorizedPayment();
+    await new settlement.X402SettlementWorker().tick();
+
+    const operator = new ethers.Wallet(OPERATOR_KEY, provider);
+    const used = await operator.getNonce('pending');
+    await (await operator.sendTransaction({ to: operator.address, nonce: used })).wait();
+
+    const { payment } = await authorizedPayment();
+    await new settlement.X402SettlementWorker().tick();
+
+    assert.equal(payment.status, 'SETTLED');
+    assert.equal((await provider.getTransaction(payment.txHash!))!.nonce, used + 1);
+  });
+
+  test('shares the operator nonces with other sends', async () => {
+    const { payment } = await authorizedPayment();
+    const operator = new ethers.Wallet(OPERATOR_KEY);
+    await (await usdc.mint(operator.address, AMOUNT)).wait();
+
+    const [, transfer] = await Promise.all([
+      new settlement.X402SettlementWorker().tick(),
+      blockchainService.transferUSDC(await usdc.getAddress(), await sender.getAddress(), AMOUNT.toString()),
+    ]);
+
+    assert.equal(payment.status, 'SETTLED');
+    assert.equal((await blockchainService.waitForReceipt(transfer.hash, 10_000)).status, 1);
+    assert.notEqual(transfer.nonce, (await provider.getTransaction(payment.txHash!))!.nonce);
+  });
+
+  test('waits for a pending transaction, then replaces it instead of sending another', async () => {
+    const { payment } = await authorizedPayment();
+    const worker = new settlement.X402SettlementWorker();
+    const now = new Date();
+
+    await provider.send('evm_setAutomine', [false]);
+    try {
+      await worker.tick(now);
+      const first = payment.txHash!;
+      const firstNonce = payment.settlementTxNonce;
+      assert.equal(payment.status, 'AUTHORIZED');
+      assert.match(payment.errorMessage!, /^Waiting for /);
+      assert.equal(payment.nextSettlementAt!.getTime(), inSeconds(now, 60).getTime());
+
+      // Backing off
+      assert.equal(await worker.tick(inSeconds(now, 30)), 0);
+
+      await worker.tick(inSeconds(now, 61));
+      const replacement = payment.txHash!;
+      assert.notEqual(replacement, first);
+      assert.equal(payment.settlementTxNonce, firstNonce);
+      assert.equal(payment.nextSettlementAt!.getTime(), inSeconds(now, 61 + 120).getTime());
+
+      await provider.send('evm_mine', []);
+      assert.equal(await provider.getTransactionReceipt(first), null);
+    } finally {
+      await provider.send('evm_setAutomine', [true]);
+    }
+
+    await worker.tick(inSeconds(now, 200));
+
+    assert.equal(payment.status, 'SETTLED');
+    assert.equal(await usdc.balanceOf(payment.payeeAddress), AMOUNT);
+    assert.equal(db.transactions.find(tx => tx.txHash === payment.txHash).status, 'CONFIRMED');
+  });
+
+  test('settles with the transaction that used the authorization when its own reverts', async () => {
+    const { payment, authorization, signature } = await authorizedPayment();
+    const worker = new settlement.X402SettlementWorker();
+    const now = new Date();
+
+    await provider.send('evm_setAutomine', [false]);
+    let other: string;
+    try {
+      await worker.tick(now);
+      const pending = await provider.getTransaction(payment.txHash!);
+      const elsewhere = await sendElsewhere(authorization, signature, {
+        gasLimit: 200_000,
+        maxFeePerGas: pending!.maxFeePerGas! * 2n,
+        maxPriorityFeePerGas: pending!.maxPriorityFeePerGas! * 2n,
+      });
+      other = elsewhere.hash;
+      await provider.send('evm_mine', []);
+    } finally {
+      await provider.send('evm_setAutomine', [true]);
+    }
+
+    const reverted = payment.txHash!;
+    await worker.tick(inSeconds(now, 61));
+
+    assert.equal(payment.status, 'SETTLED');
+    assert.equal(payment.txHash, other!);
+    assert.equal(db.transactions.find(tx => tx.txHash === reverted).status, 'REVERTED');
+    assert.equal(await usdc.balanceOf(payment.payeeAddress), AMOUNT);
+  });
+
+  test('finds the transaction that used the authorization when no hash was recorded', async () => {
+    const { payment, authorization, signature } = await authorizedPayment();
+    const used = await (await sendElsewhere(authorization, signature)).wait();
+
+    await new settlement.X402SettlementWorker().tick();
+
+    assert.equal(payment.status, 'SETTLED');
+    assert.equal(payment.txHash, used.hash);
+  });
+
+  test('settles even when the sent transaction cannot be recorded', async () => {
+    const { payment } = await authorizedPayment();
+    db.failTransactions = 3;
+
+    await new settlement.X402SettlementWorker().tick();
+
+    assert.equal(payment.status, 'SETTLED');
+    assert.ok(payment.txHash);
+    assert.equal(db.transactions.length, 0);
+    assert.equal(await usdc.balanceOf(payment.payeeAddress), AMOUNT);
+  });
+
+  test('fails a payment the contract rejects while its authorization is unused', async () => {
+    const { payment } = await authorizedPayment({ signer: ethers.Wallet.createRandom() });
+
+    await new settlement.X402SettlementWorker().tick();
+
+    assert.equal(payment.status, 'FAILED');
+    assert.match(payment.errorMessage!, /^Settlement rejected by contract: .*invalid signature/);
+    assert.equal(db.transactions.length, 0);
+  });
+
+  test('fails a payment whose authorization expired', async () => {
+    const { payment } = await authorizedPayment({ validBefore: new Date(Date.now() - 1000) });
+
+    await new settlement.X402SettlementWorker().tick();
+
+    assert.equal(payment.status, 'FAILED');
+    assert.equal(payment.errorMessage, 'Authorization expired before it could be settled');
+  });
+
+  test('keeps a payment whose transaction is still pending after the last attempt', async () => {
+    const { payment } = await authorizedPayment({ attempts: settlement.MAX_SETTLEMENT_ATTEMPTS - 1 });
+    const worker = new settlement.X402SettlementWorker();
+    const now = new Date();
+
+    await provider.send('evm_setAutomine', [false]);
+    try {
+      await worker.tick(now);
+      assert.equal(payment.settlementAttempts, settlement.MAX_SETTLEMENT_ATTEMPTS);
+      assert.equal(payment.status, 'AUTHORIZED');
+      assert.match(payment.errorMessage!, /^Waiting for /);
+      await provider.send('evm_mine', []);
+    } finally {
+      await provider.send('evm_setAutomine', [true]);
+    }
+
+    await worker.tick(inSeconds(now, 3600));
+
+    assert.equal(payment.status, 'SETTLED');
+    assert.equal(await usdc.balanceOf(payment.payeeAddress), AMOUNT);
+  });
+
+  test('backs off exponentially while the node is unreachable, then gives up', async (t) => {
+    const { payment } = await authorizedPayment({ attempts: 1 });
+    t.mock.method(blockchainService, 'isAuthorizationUsed', async () => {
+      throw new Error('connect ECONNREFUSED');
+    });
+    const worker = new settlement.X402SettlementWorker();
+    const now = new Date();
+
+    await worker.tick(now);
+    assert.equal(payment.status, 'AUTHORIZED');
+    assert.equal(payment.settlementAttempts, 2);
+    assert.equal(payment.nextSettlementAt!.getTime(), inSeconds(now, 120).getTime());
+
+    payment.settlementAttempts = settlement.MAX_SETTLEMENT_ATTEMPTS - 1;
+    await worker.tick(inSeconds(now, 121));
+
+    assert.equal(payment.status, 'FAILED');
+    assert.match(payment.errorMessage!, /^Gave up after 5 attempts: connect ECONNREFUSED/);
+  });
+});
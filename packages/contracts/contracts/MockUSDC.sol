@@ -3,23 +3,39 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 
 /**
  * @title MockUSDC
  * @dev Mock USDC token for Base Sepolia testnet
  * Can be minted freely for testing
+ * Supports EIP-3009 authorizations like USDC, with the same EIP-712 domain
+ * ("USD Coin", version "2"), so x402 payments can be settled against it
  */
-contract MockUSDC is ERC20, Ownable {
+contract MockUSDC is ERC20, Ownable, EIP712 {
     uint8 private _decimals;
-    
-    constructor() ERC20("Mock USD Coin", "USDC") Ownable(msg.sender) {
+
+    bytes32 public constant TRANSFER_WITH_AUTHORIZATION_TYPEHASH = keccak256(
+        "TransferWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce)"
+    );
+    bytes32 public constant CANCEL_AUTHORIZATION_TYPEHASH = keccak256(
+        "CancelAuthorization(address authorizer,bytes32 nonce)"
+    );
+
+    mapping(address => mapping(bytes32 => bool)) private _authorizationStates;
+
+    event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce);
+    event AuthorizationCanceled(address indexed authorizer, bytes32 indexed nonce);
+
+    constructor() ERC20("Mock USD Coin", "USDC") Ownable(msg.sender) EIP712("USD Coin", "2") {
         _decimals = 6; // USDC uses 6 decimals
     }
-    
+
     function decimals() public view virtual override returns (uint8) {
         return _decimals;
     }
-    
+
     /**
      * @dev Mint tokens for testing
      * Anyone can mint in testnet
@@ -27,11 +43,61 @@ contract MockUSDC is ERC20, Ownable {
     function mint(address to, uint256 amount) external {
         _mint(to, amount);
     }
-    
+
     /**
      * @dev Faucet - get 100 USDC for testing
      */
     function faucet() external {
         _mint(msg.sender, 100 * 10**6); // 100 USDC with 6 decimals
     }
+
+    /**
+     * @dev Whether an authorization nonce has been used or canceled
+     */
+    function authorizationState(address authorizer, bytes32 nonce) external view returns (bool) {
+        return _authorizationStates[authorizer][nonce];
+    }
+
+    /**
+     * @dev Execute a transfer signed by `from` (EIP-3009)
+     */
+    function transferWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        bytes memory signature
+    ) external {
+        require(block.timestamp > validAfter, "MockUSDC: authorization is not yet valid");
+        require(block.timestamp < validBefore, "MockUSDC: authorization is expired");
+        _requireUnusedAuthorization(from, nonce);
+
+        bytes32 structHash = keccak256(
+            abi.encode(TRANSFER_WITH_AUTHORIZATION_TYPEHASH, from, to, value, validAfter, validBefore, nonce)
+        );
+        require(ECDSA.recover(_hashTypedDataV4(structHash), signature) == from, "MockUSDC: invalid signature");
+
+        _authorizationStates[from][nonce] = true;
+        emit AuthorizationUsed(from, nonce);
+        _transfer(from, to, value);
+    }
+
+    /**
+     * @dev Cancel an authorization that has not been used yet (EIP-3009)
+     */
+    function cancelAuthorization(address authorizer, bytes32 nonce, bytes memory signature) external {
+        _requireUnusedAuthorization(authorizer, nonce);
+
+        bytes32 structHash = keccak256(abi.encode(CANCEL_AUTHORIZATION_TYPEHASH, authorizer, nonce));
+        require(ECDSA.recover(_hashTypedDataV4(structHash), signature) == authorizer, "MockUSDC: invalid signature");
+
+        _authorizationStates[authorizer][nonce] = true;
+        emit AuthorizationCanceled(authorizer, nonce);
+    }
+
+    function _requireUnusedAuthorization(address authorizer, bytes32 nonce) private view {
+        require(!_authorizationStates[authorizer][nonce], "MockUSDC: authorization is used or canceled");
+    }
 }
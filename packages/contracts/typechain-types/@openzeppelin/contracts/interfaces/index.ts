@@ -4,3 +4,4 @@
 import type * as draftIerc6093Sol from "./draft-IERC6093.sol";
 export type { draftIerc6093Sol };
 export type { IERC4906 } from "./IERC4906";
+export type { IERC5267 } from "./IERC5267";
@@ -1,9 +1,12 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as cryptography from "./cryptography";
+export type { cryptography };
 import type * as introspection from "./introspection";
 export type { introspection };
 import type * as math from "./math";
 export type { math };
 export type { ReentrancyGuard } from "./ReentrancyGuard";
+export type { ShortStrings } from "./ShortStrings";
 export type { Strings } from "./Strings";
@@ -3,3 +3,4 @@
 /* eslint-disable */
 export * as draftIerc6093Sol from "./draft-IERC6093.sol";
 export { IERC4906__factory } from "./IERC4906__factory";
+export { IERC5267__factory } from "./IERC5267__factory";
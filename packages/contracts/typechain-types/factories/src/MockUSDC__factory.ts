@@ -17,6 +17,33 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "constructor",
   },
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -103,6 +130,11 @@ const _abi = [
     name: "ERC20InvalidSpender",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -125,6 +157,17 @@ const _abi = [
     name: "OwnableUnauthorizedAccount",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
   {
     anonymous: false,
     inputs: [
@@ -150,6 +193,50 @@ const _abi = [
     name: "Approval",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "authorizer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "nonce",
+        type: "bytes32",
+      },
+    ],
+    name: "AuthorizationCanceled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "authorizer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "nonce",
+        type: "bytes32",
+      },
+    ],
+    name: "AuthorizationUsed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -194,6 +281,32 @@ const _abi = [
     name: "Transfer",
     type: "event",
   },
+  {
+    inputs: [],
+    name: "CANCEL_AUTHORIZATION_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TRANSFER_WITH_AUTHORIZATION_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -242,6 +355,30 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "authorizer",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "nonce",
+        type: "bytes32",
+      },
+    ],
+    name: "authorizationState",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -261,6 +398,29 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "authorizer",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "nonce",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "cancelAuthorization",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [],
     name: "decimals",
@@ -274,6 +434,49 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "faucet",
@@ -424,10 +627,53 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "validAfter",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "validBefore",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "nonce",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "transferWithAuthorization",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b50336040518060400160405280600d81526020016c26b7b1b5902aa9a21021b7b4b760991b815250604051806040016040528060048152602001635553444360e01b815250816003908161006491906101b5565b50600461007182826101b5565b5050506001600160a01b0381166100a257604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b6100ab816100c4565b506005805460ff60a01b1916600360a11b179055610274565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b634e487b7160e01b600052604160045260246000fd5b600181811c9082168061014057607f821691505b60208210810361016057634e487b7160e01b600052602260045260246000fd5b50919050565b601f8211156101b057600081815260208120601f850160051c8101602086101561018d5750805b601f850160051c820191505b818110156101ac57828155600101610199565b5050505b505050565b81516001600160401b038111156101ce576101ce610116565b6101e2816101dc845461012c565b84610166565b602080601f83116001811461021757600084156101ff5750858301515b600019600386901b1c1916600185901b1785556101ac565b600085815260208120601f198616915b8281101561024657888601518255948401946001909101908401610227565b50858210156102645787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b6108fe80620002846000396000f3fe608060405234801561001057600080fd5b50600436106100ea5760003560e01c8063715018a61161008c578063a9059cbb11610066578063a9059cbb146101dd578063dd62ed3e146101f0578063de5f72fd14610229578063f2fde38b1461023157600080fd5b8063715018a6146101b25780638da5cb5b146101ba57806395d89b41146101d557600080fd5b806323b872dd116100c857806323b872dd14610142578063313ce5671461015557806340c10f191461017457806370a082311461018957600080fd5b806306fdde03146100ef578063095ea7b31461010d57806318160ddd14610130575b600080fd5b6100f7610244565b6040516101049190610748565b60405180910390f35b61012061011b3660046107b2565b6102d6565b6040519015158152602001610104565b6002545b604051908152602001610104565b6101206101503660046107dc565b6102f0565b600554600160a01b900460ff1660405160ff9091168152602001610104565b6101876101823660046107b2565b610314565b005b610134610197366004610818565b6001600160a01b031660009081526020819052604090205490565b610187610322565b6005546040516001600160a01b039091168152602001610104565b6100f7610336565b6101206101eb3660046107b2565b610345565b6101346101fe36600461083a565b6001600160a01b03918216600090815260016020908152604080832093909416825291909152205490565b610187610353565b61018761023f366004610818565b610361565b6060600380546102539061086d565b80601f016020809104026020016040519081016040528092919081815260200182805461027f9061086d565b80156102cc5780601f106102a1576101008083540402835291602001916102cc565b820191906000526020600020905b8154815290600101906020018083116102af57829003601f168201915b5050505050905090565b6000336102e48185856103a4565b60019150505b92915050565b6000336102fe8582856103b6565b610309858585610435565b506001949350505050565b61031e8282610494565b5050565b61032a6104ca565b61033460006104f7565b565b6060600480546102539061086d565b6000336102e4818585610435565b610334336305f5e100610494565b6103696104ca565b6001600160a01b03811661039857604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b6103a1816104f7565b50565b6103b18383836001610549565b505050565b6001600160a01b0383811660009081526001602090815260408083209386168352929052205460001981101561042f578181101561042057604051637dc7a0d960e11b81526001600160a01b0384166004820152602481018290526044810183905260640161038f565b61042f84848484036000610549565b50505050565b6001600160a01b03831661045f57604051634b637e8f60e11b81526000600482015260240161038f565b6001600160a01b0382166104895760405163ec442f0560e01b81526000600482015260240161038f565b6103b183838361061e565b6001600160a01b0382166104be5760405163ec442f0560e01b81526000600482015260240161038f565b61031e6000838361061e565b6005546001600160a01b031633146103345760405163118cdaa760e01b815233600482015260240161038f565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6001600160a01b0384166105735760405163e602df0560e01b81526000600482015260240161038f565b6001600160a01b03831661059d57604051634a1406b160e11b81526000600482015260240161038f565b6001600160a01b038085166000908152600160209081526040808320938716835292905220829055801561042f57826001600160a01b0316846001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9258460405161061091815260200190565b60405180910390a350505050565b6001600160a01b03831661064957806002600082825461063e91906108a7565b909155506106bb9050565b6001600160a01b0383166000908152602081905260409020548181101561069c5760405163391434e360e21b81526001600160a01b0385166004820152602481018290526044810183905260640161038f565b6001600160a01b03841660009081526020819052604090209082900390555b6001600160a01b0382166106d7576002805482900390556106f6565b6001600160a01b03821660009081526020819052604090208054820190555b816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8360405161073b91815260200190565b60405180910390a3505050565b600060208083528351808285015260005b8181101561077557858101830151858201604001528201610759565b506000604082860101526040601f19601f8301168501019250505092915050565b80356001600160a01b03811681146107ad57600080fd5b919050565b600080604083850312156107c557600080fd5b6107ce83610796565b946020939093013593505050565b6000806000606084860312156107f157600080fd5b6107fa84610796565b925061080860208501610796565b9150604084013590509250925092565b60006020828403121561082a57600080fd5b61083382610796565b9392505050565b6000806040838503121561084d57600080fd5b61085683610796565b915061086460208401610796565b90509250929050565b600181811c9082168061088157607f821691505b6020821081036108a157634e487b7160e01b600052602260045260246000fd5b50919050565b808201808211156102ea57634e487b7160e01b600052601160045260246000fdfea26469706673582212204ab711057cc19c57414ffeae5f1a35473f3f0f91840d560078cc97be6354140964736f6c63430008140033";
+  "0x6101606040523480156200001257600080fd5b50604051806040016040528060088152602001672aa9a21021b7b4b760c11b815250604051806040016040528060018152602001601960f91b815250336040518060400160405280600d81526020016c26b7b1b5902aa9a21021b7b4b760991b815250604051806040016040528060048152602001635553444360e01b8152508160039081620000a391906200032c565b506004620000b282826200032c565b5050506001600160a01b038116620000e557604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b620000f081620001b9565b50620000fe8260066200020b565b610120526200010f8160076200020b565b61014052815160208084019190912060e052815190820120610100524660a0526200019d60e05161010051604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201529081019290925260608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b60805250503060c0526008805460ff191660061790556200046d565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b60006020835110156200022b57620002238362000244565b90506200023e565b816200023884826200032c565b5060ff90505b92915050565b600080829050601f8151111562000272578260405163305a27a960e01b8152600401620000dc9190620003f8565b80516200027f8262000448565b179392505050565b634e487b7160e01b600052604160045260246000fd5b600181811c90821680620002b257607f821691505b602082108103620002d357634e487b7160e01b600052602260045260246000fd5b50919050565b601f8211156200032757600081815260208120601f850160051c81016020861015620003025750805b601f850160051c820191505b8181101562000323578281556001016200030e565b5050505b505050565b81516001600160401b0381111562000348576200034862000287565b62000360816200035984546200029d565b84620002d9565b602080601f8311600181146200039857600084156200037f5750858301515b600019600386901b1c1916600185901b17855562000323565b600085815260208120601f198616915b82811015620003c957888601518255948401946001909101908401620003a8565b5085821015620003e85787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b600060208083528351808285015260005b81811015620004275785810183015185820160400152820162000409565b506000604082860101526040601f19601f8301168501019250505092915050565b80516020808301519190811015620002d35760001960209190910360031b1b16919050565b60805160a05160c05160e05161010051610120516101405161151c620004c86000396000610a1a015260006109e801526000610ea301526000610e7b01526000610dd601526000610e0001526000610e2a015261151c6000f3fe608060405234801561001057600080fd5b506004361061012c5760003560e01c806395d89b41116100ad578063d916948711610071578063d916948714610290578063dd62ed3e146102b7578063de5f72fd146102f0578063e94a0102146102f8578063f2fde38b1461033157600080fd5b806395d89b4114610228578063a0cc6a6814610230578063a9059cbb14610257578063b7b728991461026a578063cf0929951461027d57600080fd5b806340c10f19116100f457806340c10f19146101ac57806370a08231146101c1578063715018a6146101ea57806384b0196e146101f25780638da5cb5b1461020d57600080fd5b806306fdde0314610131578063095ea7b31461014f57806318160ddd1461017257806323b872dd14610184578063313ce56714610197575b600080fd5b610139610344565b6040516101469190611176565b60405180910390f35b61016261015d3660046111ac565b6103d6565b6040519015158152602001610146565b6002545b604051908152602001610146565b6101626101923660046111d6565b6103f0565b60085460405160ff9091168152602001610146565b6101bf6101ba3660046111ac565b610414565b005b6101766101cf366004611212565b6001600160a01b031660009081526020819052604090205490565b6101bf610422565b6101fa610436565b604051610146979695949392919061122d565b6005546040516001600160a01b039091168152602001610146565b61013961047c565b6101767f7c7c6cdb67a18743f49ec6fa9b35f50d52ed05cbed4cc592e13b44501c1a226781565b6101626102653660046111ac565b61048b565b6101bf610278366004611366565b610499565b6101bf61028b3660046113bd565b6105d6565b6101767f158b0a9edf7a828aad02f63cd515c68ef2f50ba807396f6d12842833a159742981565b6101766102c5366004611442565b6001600160a01b03918216600090815260016020908152604080832093909416825291909152205490565b6101bf6107f0565b6101626103063660046111ac565b6001600160a01b03919091166000908152600960209081526040808320938352929052205460ff1690565b6101bf61033f366004611212565b6107fe565b60606003805461035390611475565b80601f016020809104026020016040519081016040528092919081815260200182805461037f90611475565b80156103cc5780601f106103a1576101008083540402835291602001916103cc565b820191906000526020600020905b8154815290600101906020018083116103af57829003601f168201915b5050505050905090565b6000336103e481858561083c565b60019150505b92915050565b6000336103fe85828561084e565b6104098585856108cd565b506001949350505050565b61041e828261092c565b5050565b61042a610962565b610434600061098f565b565b60006060806000806000606061044a6109e1565b610452610a13565b60408051600080825260208201909252600f60f81b9b939a50919850469750309650945092509050565b60606004805461035390611475565b6000336103e48185856108cd565b6104a38383610a40565b604080517f158b0a9edf7a828aad02f63cd515c68ef2f50ba807396f6d12842833a159742960208201526001600160a01b0385169181019190915260608101839052600090608001604051602081830303815290604052805190602001209050836001600160a01b031661051f61051983610ac8565b84610af5565b6001600160a01b03161461057a5760405162461bcd60e51b815260206004820152601b60248201527f4d6f636b555344433a20696e76616c6964207369676e6174757265000000000060448201526064015b60405180910390fd5b6001600160a01b0384166000818152600960209081526040808320878452909152808220805460ff19166001179055518592917f1cdd46ff242716cdaa72d159d339a485b3438398348d68f09d7c8c0a59353d8191a350505050565b8342116106365760405162461bcd60e51b815260206004820152602860248201527f4d6f636b555344433a20617574686f72697a6174696f6e206973206e6f742079604482015267195d081d985b1a5960c21b6064820152608401610571565b8242106106905760405162461bcd60e51b815260206004820152602260248201527f4d6f636b555344433a20617574686f72697a6174696f6e206973206578706972604482015261195960f21b6064820152608401610571565b61069a8783610a40565b604080517f7c7c6cdb67a18743f49ec6fa9b35f50d52ed05cbed4cc592e13b44501c1a226760208201526001600160a01b03808a169282019290925290871660608201526080810186905260a0810185905260c0810184905260e0810183905260009061010001604051602081830303815290604052805190602001209050876001600160a01b031661072f61051983610ac8565b6001600160a01b0316146107855760405162461bcd60e51b815260206004820152601b60248201527f4d6f636b555344433a20696e76616c6964207369676e617475726500000000006044820152606401610571565b6001600160a01b0388166000818152600960209081526040808320878452909152808220805460ff19166001179055518592917f98de503528ee59b575ef0c0a2576a82497bfc029a5685b209e9ec333479b10a591a36107e68888886108cd565b5050505050505050565b610434336305f5e10061092c565b610806610962565b6001600160a01b03811661083057604051631e4fbdf760e01b815260006004820152602401610571565b6108398161098f565b50565b6108498383836001610b1f565b505050565b6001600160a01b038381166000908152600160209081526040808320938616835292905220546000198110156108c757818110156108b857604051637dc7a0d960e11b81526001600160a01b03841660048201526024810182905260448101839052606401610571565b6108c784848484036000610b1f565b50505050565b6001600160a01b0383166108f757604051634b637e8f60e11b815260006004820152602401610571565b6001600160a01b0382166109215760405163ec442f0560e01b815260006004820152602401610571565b610849838383610bf4565b6001600160a01b0382166109565760405163ec442f0560e01b815260006004820152602401610571565b61041e60008383610bf4565b6005546001600160a01b031633146104345760405163118cdaa760e01b8152336004820152602401610571565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6060610a0e7f00000000000000000000000000000000000000000000000000000000000000006006610d1e565b905090565b6060610a0e7f00000000000000000000000000000000000000000000000000000000000000006007610d1e565b6001600160a01b038216600090815260096020908152604080832084845290915290205460ff161561041e5760405162461bcd60e51b815260206004820152602b60248201527f4d6f636b555344433a20617574686f72697a6174696f6e20697320757365642060448201526a1bdc8818d85b98d95b195960aa1b6064820152608401610571565b60006103ea610ad5610dc9565b8360405161190160f01b8152600281019290925260228201526042902090565b600080600080610b058686610ef4565b925092509250610b158282610f41565b5090949350505050565b6001600160a01b038416610b495760405163e602df0560e01b815260006004820152602401610571565b6001600160a01b038316610b7357604051634a1406b160e11b815260006004820152602401610571565b6001600160a01b03808516600090815260016020908152604080832093871683529290522082905580156108c757826001600160a01b0316846001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92584604051610be691815260200190565b60405180910390a350505050565b6001600160a01b038316610c1f578060026000828254610c1491906114af565b90915550610c919050565b6001600160a01b03831660009081526020819052604090205481811015610c725760405163391434e360e21b81526001600160a01b03851660048201526024810182905260448101839052606401610571565b6001600160a01b03841660009081526020819052604090209082900390555b6001600160a01b038216610cad57600280548290039055610ccc565b6001600160a01b03821660009081526020819052604090208054820190555b816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef83604051610d1191815260200190565b60405180910390a3505050565b606060ff8314610d3857610d3183610ffa565b90506103ea565b818054610d4490611475565b80601f0160208091040260200160405190810160405280929190818152602001828054610d7090611475565b8015610dbd5780601f10610d9257610100808354040283529160200191610dbd565b820191906000526020600020905b815481529060010190602001808311610da057829003601f168201915b505050505090506103ea565b6000306001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016148015610e2257507f000000000000000000000000000000000000000000000000000000000000000046145b15610e4c57507f000000000000000000000000000000000000000000000000000000000000000090565b610a0e604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527f0000000000000000000000000000000000000000000000000000000000000000918101919091527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b60008060008351604103610f2e5760208401516040850151606086015160001a610f2088828585611039565b955095509550505050610f3a565b50508151600091506002905b9250925092565b6000826003811115610f5557610f556114d0565b03610f5e575050565b6001826003811115610f7257610f726114d0565b03610f905760405163f645eedf60e01b815260040160405180910390fd5b6002826003811115610fa457610fa46114d0565b03610fc55760405163fce698f760e01b815260048101829052602401610571565b6003826003811115610fd957610fd96114d0565b0361041e576040516335e2f38360e21b815260048101829052602401610571565b6060600061100783611108565b604080516020808252818301909252919250600091906020820181803683375050509182525060208101929092525090565b600080807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a084111561107457506000915060039050826110fe565b604080516000808252602082018084528a905260ff891692820192909252606081018790526080810186905260019060a0016020604051602081039080840390855afa1580156110c8573d6000803e3d6000fd5b5050604051601f1901519150506001600160a01b0381166110f4575060009250600191508290506110fe565b9250600091508190505b9450945094915050565b600060ff8216601f8111156103ea57604051632cd44ac360e21b815260040160405180910390fd5b6000815180845260005b818110156111565760208185018101518683018201520161113a565b506000602082860101526020601f19601f83011685010191505092915050565b6020815260006111896020830184611130565b9392505050565b80356001600160a01b03811681146111a757600080fd5b919050565b600080604083850312156111bf57600080fd5b6111c883611190565b946020939093013593505050565b6000806000606084860312156111eb57600080fd5b6111f484611190565b925061120260208501611190565b9150604084013590509250925092565b60006020828403121561122457600080fd5b61118982611190565b60ff60f81b881681526000602060e08184015261124d60e084018a611130565b838103604085015261125f818a611130565b606085018990526001600160a01b038816608086015260a0850187905284810360c0860152855180825283870192509083019060005b818110156112b157835183529284019291840191600101611295565b50909c9b505050505050505050505050565b634e487b7160e01b600052604160045260246000fd5b600082601f8301126112ea57600080fd5b813567ffffffffffffffff80821115611305576113056112c3565b604051601f8301601f19908116603f0116810190828211818310171561132d5761132d6112c3565b8160405283815286602085880101111561134657600080fd5b836020870160208301376000602085830101528094505050505092915050565b60008060006060848603121561137b57600080fd5b61138484611190565b925060208401359150604084013567ffffffffffffffff8111156113a757600080fd5b6113b3868287016112d9565b9150509250925092565b600080600080600080600060e0888a0312156113d857600080fd5b6113e188611190565b96506113ef60208901611190565b955060408801359450606088013593506080880135925060a0880135915060c088013567ffffffffffffffff81111561142757600080fd5b6114338a828b016112d9565b91505092959891949750929550565b6000806040838503121561145557600080fd5b61145e83611190565b915061146c60208401611190565b90509250929050565b600181811c9082168061148957607f821691505b6020821081036114a957634e487b7160e01b600052602260045260246000fd5b50919050565b808201808211156103ea57634e487b7160e01b600052601160045260246000fd5b634e487b7160e01b600052602160045260246000fdfea264697066735822122024ff3a67cd5fc9b593eaa480503d32a2d680333e759d822068165d661ccc3b4964736f6c63430008140033";
 
 type MockUSDCConstructorParams =
   | [signer?: Signer]
@@ -27,6 +27,7 @@ import ReactFlow, {
 import 'reactflow/dist/style.css';
 import { usePrivy } from '@privy-io/react-auth';
 import { WalletWidget } from '@/components/WalletWidget';
+import { streamWorkflow } from '@/lib/workflowStream';
 
 // =============================================================================
 // TYPES
@@ -57,6 +58,8 @@ interface ExecutionScript {
   status: 'draft' | 'testing' | 'production' | 'deprecated';
 }
 
+type PhaseStatus = 'pending' | 'active' | 'complete' | 'failed';
+
 interface WorkflowRun {
   id: string;
   timestamp: Date;
@@ -219,6 +222,12 @@ const WORKFLOW_TEMPLATES = {
   },
 };
 
+// Backend step IDs that drive a phase node with a different ID
+// (steps not listed here light up the node with the same ID)
+const STEP_PHASES: Record<string, string> = {
+  lead_search: 'discovery',
+};
+
 // =============================================================================
 // CUSTOM NODES
 // =============================================================================
@@ -229,6 +238,7 @@ const PhaseNode = ({ data }: { data: { label: string; steps: string[]; status: s
     borderRadius: '12px',
     background: data.status === 'active' ? 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)' :
                 data.status === 'complete' ? 'linear-gradient(135deg, #11998e 0%, #38ef7d 100%)' :
+                data.status === 'failed' ? 'linear-gradient(135deg, #f5576c 0%, #b91c1c 100%)' :
                 'linear-gradient(135deg, #2d3748 0%, #1a202c 100%)',
     color: 'white',
     minWidth: '220px',
@@ -305,6 +315,7 @@ export default function DOEWorkflowDesigner() {
   const [selectedTemplate, setSelectedTemplate] = useState<keyof typeof WORKFLOW_TEMPLATES>('lead_generation');
   const [directive, setDirective] = useState<DirectiveData>(WORKFLOW_TEMPLATES.lead_generation.directive);
   const [activePhase, setActivePhase] = useState<string | null>(null);
+  const [phaseStatus, setPhaseStatus] = useState<Record<string, PhaseStatus>>({});
   const [executionScripts, setExecutionScripts] = useState<ExecutionScript[]>([
     { id: 'lead_search', name: 'apollo_lead_search.ts', code: '// Apollo MCP call', version: 1, successRate: 0, runs: 0, status: 'draft' },
     { id: 'icp_mapping', name: 'apollo_icp_mapping.ts', code: '// Apollo MCP call', version: 1, successRate: 0, runs: 0, status: 'draft' },
@@ -355,7 +366,7 @@ export default function DOEWorkflowDesigner() {
         data: { 
           label: `${index + 1}. ${phase.name}`, 
           steps: phase.steps,
-          status: activePhase === phase.id ? 'active' : 'pending',
+          status: phaseStatus[phase.id] || 'pending',
         },
       });
       y += 160;
@@ -396,7 +407,7 @@ export default function DOEWorkflowDesigner() {
     });
 
     return nodes;
-  }, [directive, activePhase]);
+  }, [directive, phaseStatus]);
 
   const generateEdges = useCallback((): Edge[] => {
     const edges: Edge[] = [];
@@ -465,6 +476,15 @@ export default function DOEWorkflowDesigner() {
     setEdges(newEdges);
   };
 
+  // Light up phase nodes as execution events arrive (keeps dragged positions)
+  React.useEffect(() => {
+    setNodes(nds => nds.map(node =>
+      node.type === 'phase'
+        ? { ...node, data: { ...node.data, status: phaseStatus[node.id] || 'pending' } }
+        : node
+    ));
+  }, [phaseStatus, setNodes]);
+
   // Check for API key on mount
   React.useEffect(() => {
     checkApiKey();
@@ -548,27 +568,34 @@ export default function DOEWorkflowDesigner() {
     setIsRunning(true);
     setExecutionError(null);
     setWorkflowResults(null);
-    
-    // Animate phases
-    for (const phase of directive.process) {
-      setActivePhase(phase.id);
-      await new Promise(r => setTimeout(r, 800));
-    }
+    setPhaseStatus({});
     
     try {
-      // Call backend API
-      const response = await fetch('http://localhost:3001/api/workflows/execute', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      // Call backend API, lighting up phases as step events stream in
+      const completed = await streamWorkflow(
+        'http://localhost:3001/api/workflows/execute',
+        {
           userWalletAddress: userId,
           template: selectedTemplate,
           query: searchQuery, // Use custom search query
           resultLimit: 25,
-        }),
-      });
+        },
+        (event) => {
+          if (!event.stepId) return;
+          const phaseId = STEP_PHASES[event.stepId] || event.stepId;
+
+          if (event.type === 'step_started') {
+            setActivePhase(phaseId);
+            setPhaseStatus(prev => ({ ...prev, [phaseId]: 'active' }));
+          } else if (event.type === 'step_completed') {
+            setPhaseStatus(prev => ({ ...prev, [phaseId]: 'complete' }));
+          } else if (event.type === 'step_failed') {
+            setPhaseStatus(prev => ({ ...prev, [phaseId]: 'failed' }));
+          }
+        }
+      );
 
-      const result = await response.json();
+      const result = completed.output;
       
       if (result.success) {
         setWorkflowResults(result);
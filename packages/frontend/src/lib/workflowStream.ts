@@ -0,0 +1,83 @@
+/**
+ * Workflow progress streaming
+ *
+ * Executes a workflow with `Accept: application/x-ndjson` and hands each
+ * progress event (run_started, step_started, step_completed, step_retry,
+ * step_failed, run_completed) to a callback as it arrives.
+ */
+
+export interface WorkflowStreamEvent {
+  type: 'run_started' | 'step_started' | 'step_completed' | 'step_retry' | 'step_failed' | 'run_completed' | 'error';
+  executionId?: string;
+  timestamp?: string;
+  stepId?: string;
+  path?: string;
+  status?: 'completed' | 'skipped' | 'reused';
+  outputPreview?: string;
+  cost?: number;
+  attempt?: number;
+  error?: string;
+  success?: boolean;
+  output?: any;
+  totalCost?: number;
+  executionTime?: number;
+}
+
+/**
+ * POST to a workflow execute endpoint and stream its events.
+ * Resolves with the run_completed event (or rejects on a stream error).
+ */
+export async function streamWorkflow(
+  url: string,
+  body: any,
+  onEvent: (event: WorkflowStreamEvent) => void
+): Promise<WorkflowStreamEvent> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/x-ndjson',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const contentType = response.headers.get('Content-Type') || '';
+  if (!response.body || !contentType.includes('application/x-ndjson')) {
+    // Validation errors come back as plain JSON
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || `API Error: ${response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let completed: WorkflowStreamEvent | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? '' : decoder.decode(value, { stream: true });
+
+    // Every complete line is one event; the remainder waits for more data
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as WorkflowStreamEvent;
+      if (event.type === 'error') {
+        throw new Error(event.error || 'Workflow stream failed');
+      }
+      if (event.type === 'run_completed') {
+        completed = event;
+      }
+      onEvent(event);
+    }
+
+    if (done) break;
+  }
+
+  if (!completed) {
+    throw new Error('Workflow stream ended before the run completed');
+  }
+  return completed;
+}